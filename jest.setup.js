@@ -79,6 +79,10 @@ jest.mock('next/server', () => {
           },
         });
       }
+      static redirect(url, init) {
+        const status = typeof init === 'number' ? init : init?.status || 307;
+        return new NextResponse(null, { status, headers: { Location: String(url) } });
+      }
     },
     NextRequest: class NextRequest extends Request {
       constructor(input, init) {
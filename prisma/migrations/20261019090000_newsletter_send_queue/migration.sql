@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "newsletters" ADD COLUMN     "queued_at" TIMESTAMPTZ;
+
+-- AlterTable
+ALTER TABLE "newsletter_sends" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "locked_at" TIMESTAMPTZ,
+ADD COLUMN     "message_id" TEXT,
+ADD COLUMN     "next_attempt_at" TIMESTAMPTZ;
+
+-- CreateIndex
+CREATE INDEX "newsletter_sends_newsletter_id_status_next_attempt_at_idx" ON "newsletter_sends"("newsletter_id", "status", "next_attempt_at");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "newsletter_audit_log" ADD COLUMN     "newsletter_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "newsletter_audit_log_newsletter_id_idx" ON "newsletter_audit_log"("newsletter_id");
+
+-- AddForeignKey
+ALTER TABLE "newsletter_audit_log" ADD CONSTRAINT "newsletter_audit_log_newsletter_id_fkey" FOREIGN KEY ("newsletter_id") REFERENCES "newsletters"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "newsletter_subscribers" ADD COLUMN     "confirmation_sent_at" TIMESTAMPTZ,
+ADD COLUMN     "confirmed_at" TIMESTAMPTZ;
+
+-- Subscribers who signed up before double opt-in count as confirmed
+UPDATE "newsletter_subscribers" SET "confirmed_at" = "created_at";
+
+-- CreateIndex
+CREATE INDEX "newsletter_subscribers_confirmed_at_idx" ON "newsletter_subscribers"("confirmed_at");
+
+-- CreateIndex
+CREATE INDEX "newsletter_subscribers_confirmation_sent_at_idx" ON "newsletter_subscribers"("confirmation_sent_at");
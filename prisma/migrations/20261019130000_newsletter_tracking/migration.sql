@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "newsletters" ADD COLUMN     "tracking_enabled" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "newsletter_sends" ADD COLUMN     "click_count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "clicked_at" TIMESTAMPTZ,
+ADD COLUMN     "open_count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "opened_at" TIMESTAMPTZ,
+ADD COLUMN     "tracked" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "newsletter_send_events" (
+    "id" TEXT NOT NULL,
+    "send_id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "url" TEXT,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "newsletter_send_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "newsletter_send_events_send_id_type_idx" ON "newsletter_send_events"("send_id", "type");
+
+-- CreateIndex
+CREATE INDEX "newsletter_send_events_created_at_idx" ON "newsletter_send_events"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "newsletter_send_events" ADD CONSTRAINT "newsletter_send_events_send_id_fkey" FOREIGN KEY ("send_id") REFERENCES "newsletter_sends"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "newsletter_sends" ADD COLUMN     "bounce_type" VARCHAR(20),
+ADD COLUMN     "bounced_at" TIMESTAMPTZ,
+ADD COLUMN     "complained_at" TIMESTAMPTZ,
+ADD COLUMN     "delivered_at" TIMESTAMPTZ;
+
+-- CreateIndex
+CREATE INDEX "newsletter_sends_message_id_idx" ON "newsletter_sends"("message_id");
@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "email_suppressions" (
+    "id" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "type" VARCHAR(10) NOT NULL DEFAULT 'email',
+    "reason" VARCHAR(50) NOT NULL,
+    "source" VARCHAR(20) NOT NULL,
+    "note" TEXT,
+    "expires_at" TIMESTAMPTZ,
+    "created_by" TEXT,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "email_suppressions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "skipped_emails" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "category" VARCHAR(30) NOT NULL,
+    "reason" VARCHAR(50) NOT NULL,
+    "suppression_id" TEXT,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "skipped_emails_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_suppressions_value_key" ON "email_suppressions"("value");
+
+-- CreateIndex
+CREATE INDEX "email_suppressions_type_idx" ON "email_suppressions"("type");
+
+-- CreateIndex
+CREATE INDEX "email_suppressions_expires_at_idx" ON "email_suppressions"("expires_at");
+
+-- CreateIndex
+CREATE INDEX "skipped_emails_email_idx" ON "skipped_emails"("email");
+
+-- CreateIndex
+CREATE INDEX "skipped_emails_suppression_id_idx" ON "skipped_emails"("suppression_id");
+
+-- CreateIndex
+CREATE INDEX "skipped_emails_created_at_idx" ON "skipped_emails"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "skipped_emails" ADD CONSTRAINT "skipped_emails_suppression_id_fkey" FOREIGN KEY ("suppression_id") REFERENCES "email_suppressions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "newsletters" ADD COLUMN     "show_in_archive" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "newsletters_status_show_in_archive_idx" ON "newsletters"("status", "show_in_archive");
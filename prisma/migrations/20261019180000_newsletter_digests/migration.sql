@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "newsletters" ADD COLUMN     "kind" VARCHAR(20) NOT NULL DEFAULT 'campaign';
+
+-- AlterTable
+ALTER TABLE "newsletter_subscribers" ADD COLUMN     "last_digest_at" TIMESTAMPTZ;
+
+-- CreateTable
+CREATE TABLE "digest_deliveries" (
+    "id" TEXT NOT NULL,
+    "subscriber_id" TEXT NOT NULL,
+    "newsletter_id" TEXT NOT NULL,
+    "item_type" VARCHAR(20) NOT NULL,
+    "item_id" TEXT NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "digest_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "newsletters_kind_idx" ON "newsletters"("kind");
+
+-- CreateIndex
+CREATE INDEX "digest_deliveries_newsletter_id_idx" ON "digest_deliveries"("newsletter_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "digest_deliveries_subscriber_id_item_type_item_id_key" ON "digest_deliveries"("subscriber_id", "item_type", "item_id");
+
+-- AddForeignKey
+ALTER TABLE "digest_deliveries" ADD CONSTRAINT "digest_deliveries_subscriber_id_fkey" FOREIGN KEY ("subscriber_id") REFERENCES "newsletter_subscribers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "digest_deliveries" ADD CONSTRAINT "digest_deliveries_newsletter_id_fkey" FOREIGN KEY ("newsletter_id") REFERENCES "newsletters"("id") ON DELETE CASCADE ON UPDATE CASCADE;
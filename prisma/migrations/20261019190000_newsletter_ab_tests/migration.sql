@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "newsletters" ADD COLUMN     "ab_test" JSONB,
+ADD COLUMN     "ab_winner" VARCHAR(1),
+ADD COLUMN     "ab_decided_at" TIMESTAMPTZ;
+
+-- AlterTable
+ALTER TABLE "newsletter_sends" ADD COLUMN     "variant" VARCHAR(1),
+ADD COLUMN     "ab_test_group" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "newsletter_sends_newsletter_id_variant_idx" ON "newsletter_sends"("newsletter_id", "variant");
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "profiles" ADD COLUMN     "name" TEXT,
+ADD COLUMN     "password_hash" TEXT,
+ADD COLUMN     "password_changed_at" TIMESTAMPTZ,
+ADD COLUMN     "invited_by" TEXT,
+ADD COLUMN     "invited_at" TIMESTAMPTZ,
+ADD COLUMN     "last_login_at" TIMESTAMPTZ;
@@ -0,0 +1,2 @@
+-- The single admin role becomes owner, which keeps full access
+UPDATE "profiles" SET "role" = 'owner' WHERE "role" = 'admin';
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "profiles" ADD COLUMN     "two_factor_secret" TEXT,
+ADD COLUMN     "two_factor_enabled_at" TIMESTAMPTZ,
+ADD COLUMN     "two_factor_last_used_step" INTEGER,
+ADD COLUMN     "two_factor_recovery_codes" TEXT[] DEFAULT ARRAY[]::TEXT[];
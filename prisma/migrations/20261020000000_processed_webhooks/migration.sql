@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "processed_webhooks" (
+    "id" TEXT NOT NULL,
+    "type" VARCHAR(50) NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "processed_webhooks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "processed_webhooks_created_at_idx" ON "processed_webhooks"("created_at");
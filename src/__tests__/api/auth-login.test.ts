@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach, beforeAll, jest } from '@jest/globals';
 import { NextRequest } from 'next/server';
+import { hash } from 'bcryptjs';
+import * as jwt from 'jsonwebtoken';
 
 type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
   (...args: Args) => Promise<Return>
@@ -8,19 +10,30 @@ type SyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunctio
   (...args: Args) => Return
 >;
 
+const mockCount: AsyncMock = jest.fn();
 const mockFindFirst: AsyncMock = jest.fn();
 const mockCreate: AsyncMock = jest.fn();
 const mockUpdate: AsyncMock = jest.fn();
+const mockFindUnique: AsyncMock = jest.fn();
+const mockSessionCreate: AsyncMock = jest.fn();
+const mockSessionFindUnique: AsyncMock = jest.fn();
+const mockSessionDeleteMany: AsyncMock = jest.fn();
+const mockFailedAttemptFindMany: AsyncMock = jest.fn();
+const mockFailedAttemptCreate: AsyncMock = jest.fn();
+const mockFailedAttemptCount: AsyncMock = jest.fn();
+const mockFailedAttemptDeleteMany: AsyncMock = jest.fn();
+const mockBlacklistFindFirst: AsyncMock = jest.fn();
 const mockSet: SyncMock = jest.fn();
 const mockGet: SyncMock = jest.fn();
 const mockCookies: SyncMock = jest.fn();
+type RateLimitIdentifier = string | ((req: NextRequest) => string);
 const mockWithRateLimit: SyncMock<
-  [unknown, string, (req: NextRequest) => Promise<Response>],
+  [unknown, RateLimitIdentifier, (req: NextRequest) => Promise<Response>],
   (req: NextRequest) => Promise<Response>
 > = jest.fn(
   (
     _limiter: unknown,
-    _identifier: string,
+    _identifier: RateLimitIdentifier,
     handler: (req: NextRequest) => Promise<Response>,
   ) => handler,
 );
@@ -28,9 +41,25 @@ const mockWithRateLimit: SyncMock<
 jest.mock('@/lib/db', () => ({
   db: {
     profile: {
+      count: mockCount,
       findFirst: mockFindFirst,
       create: mockCreate,
       update: mockUpdate,
+      findUnique: mockFindUnique,
+    },
+    session: {
+      create: mockSessionCreate,
+      findUnique: mockSessionFindUnique,
+      deleteMany: mockSessionDeleteMany,
+    },
+    failedAttempt: {
+      findMany: mockFailedAttemptFindMany,
+      create: mockFailedAttemptCreate,
+      count: mockFailedAttemptCount,
+      deleteMany: mockFailedAttemptDeleteMany,
+    },
+    blacklistedIp: {
+      findFirst: mockBlacklistFindFirst,
     },
   },
 }));
@@ -46,12 +75,25 @@ jest.mock('@/lib/rate-limit', () => ({
 
 type PostHandler = (req: NextRequest) => Promise<Response>;
 let POST: PostHandler;
+let GET: PostHandler;
+let loginRateLimitKey: RateLimitIdentifier;
+let storedHash: string;
 
 beforeAll(async () => {
   const routeModule = await import('@/app/api/auth/login/route');
   POST = routeModule.POST as unknown as PostHandler;
+  GET = routeModule.GET as unknown as PostHandler;
+  loginRateLimitKey = mockWithRateLimit.mock.calls[0][1];
+  // A low cost keeps the suite fast; compare reads the cost from the hash
+  storedHash = await hash('correct horse battery staple', 4);
 });
 
+const loginRequest = (email: string, password: string) =>
+  new NextRequest('http://localhost:3000/api/auth/login', {
+    method: 'POST',
+    body: JSON.stringify({ email, password }),
+  });
+
 beforeEach(() => {
   jest.clearAllMocks();
 
@@ -64,9 +106,28 @@ beforeEach(() => {
   process.env.JWT_SECRET = 'test-jwt-secret-key-minimum-32-characters-long';
   process.env.ADMIN_EMAIL = 'admin@example.com';
   process.env.ADMIN_PASSWORD = 'admin123';
+
+  // No account has a password yet, so the env credentials bootstrap the first one
+  mockCount.mockResolvedValue(0);
+  mockFindFirst.mockResolvedValue(null);
+  mockSessionDeleteMany.mockResolvedValue({ count: 0 });
+  mockSessionCreate.mockImplementation(async (args: any) => ({ id: 'session-1', ...args.data }));
+  mockFailedAttemptFindMany.mockResolvedValue([]);
+  mockFailedAttemptCount.mockResolvedValue(0);
+  mockBlacklistFindFirst.mockResolvedValue(null);
 });
 
 describe('POST /api/auth/login', () => {
+  it('is rate limited per client IP', () => {
+    const keyFor = loginRateLimitKey as (req: NextRequest) => string;
+    const request = (ip: string) =>
+      new NextRequest('http://localhost:3000/api/auth/login', { method: 'POST', headers: { 'x-forwarded-for': ip } });
+
+    // The proxy appends the real address, so a forged first entry doesn't change the key
+    expect(keyFor(request('198.51.100.66, 203.0.113.7'))).toBe('login:203.0.113.7');
+    expect(keyFor(request('198.51.100.2'))).not.toBe(keyFor(request('203.0.113.7')));
+  });
+
   it('should return 400 if email is missing', async () => {
     const request = new NextRequest('http://localhost:3000/api/auth/login', {
       method: 'POST',
@@ -137,7 +198,7 @@ describe('POST /api/auth/login', () => {
     mockCreate.mockResolvedValue({
       id: 'profile-123',
       email: 'admin@example.com',
-      role: 'admin',
+      role: 'owner',
     });
 
     const request = new NextRequest('http://localhost:3000/api/auth/login', {
@@ -154,12 +215,14 @@ describe('POST /api/auth/login', () => {
     expect(response.status).toBe(200);
     expect(data.success).toBe(true);
     expect(data.user.email).toBe('admin@example.com');
-    expect(data.user.role).toBe('admin');
+    expect(data.user.role).toBe('owner');
+    expect(data.user.permissions).toContain('users:manage');
     expect(mockCreate).toHaveBeenCalledWith({
-      data: {
+      data: expect.objectContaining({
         email: 'admin@example.com',
-        role: 'admin',
-      },
+        role: 'owner',
+        passwordHash: expect.stringMatching(/^\$2[aby]\$12\$/),
+      }),
     });
     expect(mockSet).toHaveBeenCalledWith(
       'auth-token',
@@ -172,12 +235,17 @@ describe('POST /api/auth/login', () => {
     );
   });
 
-  it('should successfully login with existing profile', async () => {
+  it('should store the hashed password on an existing profile', async () => {
     mockFindFirst.mockResolvedValue({
       id: 'profile-123',
       email: 'admin@example.com',
       role: 'admin',
     });
+    mockUpdate.mockResolvedValue({
+      id: 'profile-123',
+      email: 'admin@example.com',
+      role: 'owner',
+    });
 
     const request = new NextRequest('http://localhost:3000/api/auth/login', {
       method: 'POST',
@@ -193,9 +261,13 @@ describe('POST /api/auth/login', () => {
     expect(response.status).toBe(200);
     expect(data.success).toBe(true);
     expect(mockCreate).not.toHaveBeenCalled();
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: 'profile-123' },
+      data: expect.objectContaining({ passwordHash: expect.any(String) }),
+    });
   });
 
-  it('should update profile role to admin if not already admin', async () => {
+  it('should make the bootstrap profile an owner whatever its role was', async () => {
     mockFindFirst.mockResolvedValue({
       id: 'profile-123',
       email: 'admin@example.com',
@@ -204,7 +276,7 @@ describe('POST /api/auth/login', () => {
     mockUpdate.mockResolvedValue({
       id: 'profile-123',
       email: 'admin@example.com',
-      role: 'admin',
+      role: 'owner',
     });
 
     const request = new NextRequest('http://localhost:3000/api/auth/login', {
@@ -219,10 +291,173 @@ describe('POST /api/auth/login', () => {
     const data = await response.json();
 
     expect(response.status).toBe(200);
-    expect(data.user.role).toBe('admin');
+    expect(data.user.role).toBe('owner');
     expect(mockUpdate).toHaveBeenCalledWith({
       where: { id: 'profile-123' },
-      data: { role: 'admin' },
+      data: expect.objectContaining({ role: 'owner' }),
+    });
+  });
+
+  describe('once an account has a password', () => {
+    beforeEach(() => {
+      mockCount.mockResolvedValue(1);
+      mockFindFirst.mockResolvedValue({
+        id: 'profile-456',
+        email: 'editor@example.com',
+        role: 'editor',
+        passwordHash: storedHash,
+      });
+    });
+
+    it('signs in with the stored password', async () => {
+      const response = await POST(loginRequest('Editor@example.com', 'correct horse battery staple'));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.user.email).toBe('editor@example.com');
+      expect(data.user.permissions).toEqual(expect.arrayContaining(['blog:publish', 'projects:edit']));
+      expect(data.user.permissions).not.toContain('newsletter:send');
+      expect(mockFindFirst).toHaveBeenCalledWith({
+        where: { email: { equals: 'editor@example.com', mode: 'insensitive' } },
+      });
+      expect(mockUpdate).toHaveBeenCalledWith({
+        where: { id: 'profile-456' },
+        data: { lastLoginAt: expect.any(Date) },
+      });
+      expect(mockSet).toHaveBeenCalledWith('auth-token', expect.any(String), expect.any(Object));
+    });
+
+    it('starts a session and puts its id in the token', async () => {
+      const request = new NextRequest('http://localhost:3000/api/auth/login', {
+        method: 'POST',
+        headers: { 'x-forwarded-for': '198.51.100.66, 203.0.113.7', 'user-agent': 'Mozilla/5.0 Firefox/131.0' },
+        body: JSON.stringify({ email: 'editor@example.com', password: 'correct horse battery staple' }),
+      });
+
+      await POST(request);
+
+      expect(mockSessionCreate).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          profileId: 'profile-456',
+          ipAddress: '203.0.113.7',
+          userAgent: 'Mozilla/5.0 Firefox/131.0',
+        }),
+      });
+      const token = mockSet.mock.calls[0][1] as string;
+      expect(jwt.decode(token)).toEqual(expect.objectContaining({ id: 'profile-456', sid: 'session-1' }));
+    });
+
+    it('rejects a profile without an admin role', async () => {
+      mockFindFirst.mockResolvedValue({
+        id: 'profile-456',
+        email: 'editor@example.com',
+        role: 'user',
+        passwordHash: storedHash,
+      });
+
+      const response = await POST(loginRequest('editor@example.com', 'correct horse battery staple'));
+
+      expect(response.status).toBe(401);
+      expect(mockSet).not.toHaveBeenCalled();
+    });
+
+    it('asks for a code instead of signing in when 2FA is on', async () => {
+      mockFindFirst.mockResolvedValue({
+        id: 'profile-456',
+        email: 'editor@example.com',
+        role: 'editor',
+        passwordHash: storedHash,
+        passwordChangedAt: null,
+        twoFactorEnabledAt: new Date('2026-10-01T00:00:00Z'),
+      });
+
+      const response = await POST(loginRequest('editor@example.com', 'correct horse battery staple'));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data).toEqual({ success: false, two_factor: 'verify', pre_auth_token: expect.any(String) });
+      expect(mockSet).not.toHaveBeenCalled();
+    });
+
+    it('sends admins without 2FA to set it up when it is required', async () => {
+      process.env.ADMIN_REQUIRE_2FA = 'true';
+
+      try {
+        const response = await POST(loginRequest('editor@example.com', 'correct horse battery staple'));
+        const data = await response.json();
+
+        expect(data.two_factor).toBe('setup');
+        expect(mockSet).not.toHaveBeenCalled();
+      } finally {
+        delete process.env.ADMIN_REQUIRE_2FA;
+      }
+    });
+
+    it('rejects a wrong password', async () => {
+      const response = await POST(loginRequest('editor@example.com', 'wrong password'));
+
+      expect(response.status).toBe(401);
+      expect(mockSet).not.toHaveBeenCalled();
+      expect(mockFailedAttemptCreate).toHaveBeenCalledWith({
+        data: expect.objectContaining({ email: 'editor@example.com', actionType: 'admin_login' }),
+      });
+    });
+
+    it('clears earlier failures after the right password', async () => {
+      await POST(loginRequest('Editor@example.com', 'correct horse battery staple'));
+
+      expect(mockFailedAttemptDeleteMany).toHaveBeenCalledWith({
+        where: { email: 'editor@example.com', actionType: 'admin_login' },
+      });
+    });
+
+    it('refuses to check the password while the account is locked', async () => {
+      const recent = Array.from({ length: 5 }, (_, i) => ({
+        email: 'editor@example.com',
+        ipAddress: '198.51.100.9',
+        timestamp: new Date(Date.now() - (i + 1) * 60 * 1000),
+      }));
+      mockFailedAttemptFindMany.mockResolvedValue(recent);
+
+      const response = await POST(loginRequest('editor@example.com', 'correct horse battery staple'));
+      const data = await response.json();
+
+      expect(response.status).toBe(429);
+      expect(data.error).toContain('Too many failed sign-in attempts');
+      expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0);
+      expect(mockFindFirst).not.toHaveBeenCalled();
+      expect(mockSet).not.toHaveBeenCalled();
+    });
+
+    it('turns away blacklisted IPs', async () => {
+      mockBlacklistFindFirst.mockResolvedValue({ ipAddress: '203.0.113.7', expiresAt: null });
+      const request = new NextRequest('http://localhost:3000/api/auth/login', {
+        method: 'POST',
+        headers: { 'x-forwarded-for': '203.0.113.7' },
+        body: JSON.stringify({ email: 'editor@example.com', password: 'correct horse battery staple' }),
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(429);
+      expect(mockFindFirst).not.toHaveBeenCalled();
+    });
+
+    it('no longer accepts the env credentials', async () => {
+      mockFindFirst.mockResolvedValue(null);
+
+      const response = await POST(loginRequest('admin@example.com', 'admin123'));
+
+      expect(response.status).toBe(401);
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+
+    it('rejects an invited user who has not set a password', async () => {
+      mockFindFirst.mockResolvedValue({ id: 'profile-789', email: 'new@example.com', role: 'viewer', passwordHash: null });
+
+      const response = await POST(loginRequest('new@example.com', 'anything at all'));
+
+      expect(response.status).toBe(401);
     });
   });
 
@@ -246,3 +481,64 @@ describe('POST /api/auth/login', () => {
   });
 });
 
+describe('GET /api/auth/login', () => {
+  const now = Date.now();
+  const session = (overrides: Record<string, unknown> = {}) => ({
+    id: 'session-1',
+    profileId: 'profile-456',
+    userAgent: null,
+    ipAddress: null,
+    createdAt: new Date(now - 60 * 60 * 1000),
+    lastSeenAt: new Date(now - 60 * 1000),
+    expiresAt: new Date(now + 60 * 60 * 1000),
+    ...overrides,
+  });
+  const tokenFor = (payload: Record<string, unknown>) =>
+    jwt.sign({ email: 'editor@example.com', role: 'editor', id: 'profile-456', ...payload }, process.env.JWT_SECRET as string);
+  const statusRequest = () => new NextRequest('http://localhost:3000/api/auth/login');
+
+  beforeEach(() => {
+    mockFindUnique.mockResolvedValue({ id: 'profile-456', email: 'editor@example.com', role: 'editor' });
+  });
+
+  it('returns the signed-in admin while the session is active', async () => {
+    mockGet.mockReturnValue({ value: tokenFor({ sid: 'session-1' }) });
+    mockSessionFindUnique.mockResolvedValue(session());
+
+    const response = await GET(statusRequest());
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.authenticated).toBe(true);
+    expect(data.user.permissions).toContain('blog:publish');
+    expect(mockSessionFindUnique).toHaveBeenCalledWith({ where: { id: 'session-1' } });
+  });
+
+  it('rejects the token once its session has been revoked', async () => {
+    mockGet.mockReturnValue({ value: tokenFor({ sid: 'session-1' }) });
+    mockSessionFindUnique.mockResolvedValue(null);
+
+    const response = await GET(statusRequest());
+
+    expect(response.status).toBe(401);
+    expect(mockFindUnique).not.toHaveBeenCalled();
+  });
+
+  it('rejects an expired session', async () => {
+    mockGet.mockReturnValue({ value: tokenFor({ sid: 'session-1' }) });
+    mockSessionFindUnique.mockResolvedValue(session({ expiresAt: new Date(now - 1000) }));
+
+    const response = await GET(statusRequest());
+
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects tokens issued without a session', async () => {
+    mockGet.mockReturnValue({ value: tokenFor({}) });
+
+    const response = await GET(statusRequest());
+
+    expect(response.status).toBe(401);
+    expect(mockSessionFindUnique).not.toHaveBeenCalled();
+  });
+});
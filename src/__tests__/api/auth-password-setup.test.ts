@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, beforeAll, jest } from '@jest/globals';
+
+type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
+  (...args: Args) => Promise<Return>
+>;
+type SyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
+  (...args: Args) => Return
+>;
+
+const mockFindUnique: AsyncMock = jest.fn();
+const mockUpdate: AsyncMock = jest.fn();
+const mockSessionCreate: AsyncMock = jest.fn();
+const mockSessionDeleteMany: AsyncMock = jest.fn();
+const mockSet: SyncMock = jest.fn();
+const mockCookies: SyncMock = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    profile: {
+      findUnique: mockFindUnique,
+      update: mockUpdate,
+    },
+    session: {
+      create: mockSessionCreate,
+      deleteMany: mockSessionDeleteMany,
+    },
+  },
+}));
+
+jest.mock('next/headers', () => ({
+  cookies: mockCookies,
+}));
+
+jest.mock('@/lib/rate-limit', () => ({
+  withRateLimit: (_limiter: unknown, _identifier: unknown, handler: unknown) => handler,
+  authLimiter: {},
+}));
+
+type Handler = (req: Request) => Promise<Response>;
+let POST: Handler;
+let accounts: typeof import('@/lib/admin-accounts');
+let twoFactor: typeof import('@/lib/two-factor');
+
+beforeAll(async () => {
+  process.env.JWT_SECRET = 'test-jwt-secret-key-minimum-32-characters-long';
+  const routeModule = await import('@/app/api/auth/password/setup/route');
+  POST = routeModule.POST as unknown as Handler;
+  accounts = await import('@/lib/admin-accounts');
+  twoFactor = await import('@/lib/two-factor');
+});
+
+const profile = (overrides: Record<string, unknown> = {}) => ({
+  id: 'profile-1',
+  email: 'grace@example.com',
+  name: 'Grace',
+  role: 'editor',
+  passwordHash: 'old-hash',
+  passwordChangedAt: new Date('2026-10-10T09:00:00Z'),
+  twoFactorEnabledAt: null,
+  ...overrides,
+});
+
+const setupRequest = (token: string) =>
+  new Request('http://localhost:3000/api/auth/password/setup', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ token, password: 'a brand new password' }),
+  });
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  delete process.env.ADMIN_REQUIRE_2FA;
+  mockCookies.mockReturnValue({ set: mockSet });
+  mockUpdate.mockImplementation(async (args: any) => ({ ...profile(), ...args.data }));
+  mockSessionDeleteMany.mockResolvedValue({ count: 0 });
+  mockSessionCreate.mockImplementation(async (args: any) => ({ id: 'session-1', ...args.data }));
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+describe('POST /api/auth/password/setup', () => {
+  it('sets the password and signs in an admin without 2FA', async () => {
+    mockFindUnique.mockResolvedValueOnce(profile());
+
+    const response = await POST(setupRequest(accounts.createAccountLinkToken('reset', profile())));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true });
+    expect(mockSessionCreate).toHaveBeenCalled();
+    expect(mockSet).toHaveBeenCalled();
+  });
+
+  it('asks an enrolled admin using a reset link for a code instead of signing them in', async () => {
+    const enrolled = profile({ twoFactorEnabledAt: new Date('2026-10-01T00:00:00Z') });
+    mockFindUnique.mockResolvedValueOnce(enrolled);
+    mockUpdate.mockImplementationOnce(async (args: any) => ({ ...enrolled, ...args.data }));
+
+    const response = await POST(setupRequest(accounts.createAccountLinkToken('reset', enrolled)));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ success: false, two_factor: 'verify', pre_auth_token: expect.any(String) });
+    expect(mockSessionCreate).not.toHaveBeenCalled();
+    expect(mockSet).not.toHaveBeenCalled();
+
+    // The token is for the new password, so the code step can finish the sign-in
+    const { data: updated } = mockUpdate.mock.calls[0][0] as { data: { passwordChangedAt: Date } };
+    mockFindUnique.mockResolvedValueOnce({ ...enrolled, passwordChangedAt: updated.passwordChangedAt });
+    await expect(twoFactor.verifyPreAuthToken(data.pre_auth_token)).resolves.toEqual(
+      expect.objectContaining({ id: 'profile-1' }),
+    );
+  });
+
+  it('sends admins without 2FA to set it up when it is required', async () => {
+    process.env.ADMIN_REQUIRE_2FA = 'true';
+    mockFindUnique.mockResolvedValueOnce(profile());
+
+    const response = await POST(setupRequest(accounts.createAccountLinkToken('invite', profile())));
+    const data = await response.json();
+
+    expect(data.two_factor).toBe('setup');
+    expect(mockSessionCreate).not.toHaveBeenCalled();
+  });
+
+  it('rejects an invalid link without signing anyone in', async () => {
+    const response = await POST(setupRequest('not-a-token'));
+
+    expect(response.status).toBe(400);
+    expect(mockUpdate).not.toHaveBeenCalled();
+    expect(mockSessionCreate).not.toHaveBeenCalled();
+  });
+});
@@ -36,7 +36,10 @@ describe('GET /api/blog/[slug]', () => {
     expect(mockFindUnique).toHaveBeenCalledWith({
       where: {
         slug: 'non-existent',
-        status: 'published',
+        OR: [
+          { status: 'published' },
+          { status: 'scheduled', publishedAt: { lte: expect.any(Date) } },
+        ],
       },
       select: expect.any(Object),
     });
@@ -120,7 +123,10 @@ describe('GET /api/blog/[slug]', () => {
     expect(mockFindUnique).toHaveBeenCalledWith({
       where: {
         slug: 'draft-post',
-        status: 'published',
+        OR: [
+          { status: 'published' },
+          { status: 'scheduled', publishedAt: { lte: expect.any(Date) } },
+        ],
       },
       select: expect.any(Object),
     });
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, jest } from '@jest/globals';
 import { NextRequest } from 'next/server';
+import { MemoryTransport, setMailTransport } from '@/lib/mail-transport';
 
 type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
   (...args: Args) => Promise<Return>
@@ -9,7 +10,9 @@ type SyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunctio
 >;
 
 const mockCreate: AsyncMock = jest.fn();
-const mockSend: AsyncMock = jest.fn();
+const mockSuppressionFindMany: AsyncMock = jest.fn();
+const mockSkippedEmailCreate: AsyncMock = jest.fn();
+const mockTemplateFindMany: AsyncMock = jest.fn();
 const mockLimiterCheck: AsyncMock<[string], { success: boolean; remaining: number; resetTime: number }> =
   jest.fn();
 const mockWithRateLimit: SyncMock<
@@ -23,15 +26,16 @@ jest.mock('@/lib/db', () => ({
     contactMessage: {
       create: mockCreate,
     },
-  },
-}));
-
-jest.mock('resend', () => ({
-  Resend: jest.fn().mockImplementation(() => ({
-    emails: {
-      send: mockSend,
+    emailSuppression: {
+      findMany: mockSuppressionFindMany,
+    },
+    skippedEmail: {
+      create: mockSkippedEmailCreate,
     },
-  })),
+    emailTemplate: {
+      findMany: mockTemplateFindMany,
+    },
+  },
 }));
 
 jest.mock('@/lib/rate-limit', () => ({
@@ -44,8 +48,10 @@ jest.mock('@/lib/rate-limit', () => ({
 
 type ContactRouteModule = typeof import('@/app/api/contact/route');
 let POST: ContactRouteModule['POST'];
+const transport = new MemoryTransport();
 
 beforeAll(async () => {
+  setMailTransport(transport);
   ({ POST } = await import('@/app/api/contact/route'));
 });
 
@@ -66,13 +72,16 @@ beforeEach(() => {
   
   // Reset mocks
   mockCreate.mockClear();
-  mockSend.mockClear();
+  transport.clear();
   mockLimiterCheck.mockResolvedValue({
     success: true,
     remaining: 5,
     resetTime: Date.now() + 3600000,
   });
   mockWithRateLimit.mockImplementation((_, __, handler) => handler);
+  mockSuppressionFindMany.mockResolvedValue([]);
+  mockSkippedEmailCreate.mockResolvedValue({});
+  mockTemplateFindMany.mockResolvedValue([]);
 });
 
 describe('POST /api/contact', () => {
@@ -138,8 +147,6 @@ describe('POST /api/contact', () => {
       message: 'Test message',
     });
 
-    mockSend.mockResolvedValue({ id: 'email-id' });
-
     const request = createRequest({
       name: 'Test User',
       email: 'test@example.com',
@@ -162,11 +169,40 @@ describe('POST /api/contact', () => {
         replied: false,
       },
     });
+    expect(transport.outbox).toHaveLength(2);
+    expect(transport.outbox[0]).toEqual(expect.objectContaining({
+      to: 'admin@example.com',
+      subject: 'New Contact Form Submission: Test Subject',
+    }));
+    expect(transport.outbox[1]).toEqual(expect.objectContaining({
+      to: 'test@example.com',
+      subject: 'Re: Test Subject',
+    }));
+  });
+
+  it('should render both emails from templates', async () => {
+    mockCreate.mockResolvedValue({ id: '123' });
+
+    const request = createRequest({
+      name: 'Test User',
+      email: 'test@example.com',
+      subject: 'About your project',
+      message: 'First line\nSecond line',
+    });
+
+    await POST(request);
+
+    const [notification, reply] = transport.outbox;
+    expect(notification.html).toContain('First line<br>Second line<br>');
+    expect(notification.text).toContain('Second line');
+    expect(reply.html).toContain('Thank you for your message, Test!');
+    expect(reply.html).toContain('Thank you for your interest in my projects!');
+    expect(reply.html).not.toContain('working together');
+    expect(reply.from).toBe('Bamise Omolaso <noreply@example.com>');
   });
 
   it('should sanitize inputs before saving', async () => {
     mockCreate.mockResolvedValue({ id: '123' });
-    mockSend.mockResolvedValue({ id: 'email-id' });
 
     const request = createRequest({
       name: '  Test User  ',
@@ -204,8 +240,8 @@ describe('POST /api/contact', () => {
   it('should send emails even if one fails', async () => {
     mockCreate.mockResolvedValue({ id: '123' });
     // First email succeeds, second fails
-    mockSend
-      .mockResolvedValueOnce({ id: 'email-1' })
+    const sendSpy = jest.spyOn(transport, 'send')
+      .mockResolvedValueOnce({ id: 'email-1', error: null })
       .mockRejectedValueOnce(new Error('Email error'));
 
     const request = createRequest({
@@ -220,13 +256,34 @@ describe('POST /api/contact', () => {
     // Should still succeed even if one email fails
     expect(response.status).toBe(200);
     expect(data.message).toBe('Message sent successfully');
-    expect(mockSend).toHaveBeenCalledTimes(2);
+    expect(sendSpy).toHaveBeenCalledTimes(2);
+    sendSpy.mockRestore();
+  });
+
+  it('should not send the auto-reply to a suppressed address', async () => {
+    mockCreate.mockResolvedValue({ id: '123' });
+    mockSuppressionFindMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ id: 'sup-1', value: 'test@example.com', type: 'email', reason: 'spam_complaint' }]);
+
+    const request = createRequest({
+      name: 'Test User',
+      email: 'test@example.com',
+      message: 'Test message',
+    });
+
+    const response = await POST(request);
+
+    expect(response.status).toBe(200);
+    expect(transport.outbox.map((mail) => mail.to)).toEqual(['admin@example.com']);
+    expect(mockSkippedEmailCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ email: 'test@example.com', category: 'contact_autoreply', reason: 'spam_complaint' }),
+    });
   });
 
   it('should handle missing CONTACT_EMAIL environment variable', async () => {
     delete process.env.CONTACT_EMAIL;
     mockCreate.mockResolvedValue({ id: '123' });
-    mockSend.mockRejectedValue(new Error('CONTACT_EMAIL not set'));
 
     const request = createRequest({
       name: 'Test User',
@@ -237,6 +294,7 @@ describe('POST /api/contact', () => {
     // Should still succeed - email errors are logged but don't fail the request
     const response = await POST(request);
     expect(response.status).toBe(200);
+    expect(transport.outbox.map((mail) => mail.to)).toEqual(['test@example.com']);
     
     // Restore env var for other tests
     process.env.CONTACT_EMAIL = 'admin@example.com';
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, beforeAll, jest } from '@jest/globals';
+
+type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
+  (...args: Args) => Promise<Return>
+>;
+
+const mockRequestSubscriberData: AsyncMock = jest.fn();
+const mockBlacklistFindFirst: AsyncMock = jest.fn();
+const mockPerAddressCheck: AsyncMock = jest.fn();
+let rateLimitKey: (req: Request) => string;
+
+jest.mock('@/lib/subscriber-data', () => ({
+  requestSubscriberData: mockRequestSubscriberData,
+}));
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    blacklistedIp: {
+      findFirst: mockBlacklistFindFirst,
+    },
+  },
+}));
+
+jest.mock('@/lib/rate-limit', () => ({
+  withRateLimit: (_limiter: unknown, identifier: (req: Request) => string, handler: unknown) => {
+    rateLimitKey = identifier;
+    return handler;
+  },
+  apiLimiter: {},
+  dataRequestLimiter: { check: mockPerAddressCheck },
+}));
+
+type Handler = (req: Request) => Promise<Response>;
+let POST: Handler;
+
+beforeAll(async () => {
+  const routeModule = await import('@/app/api/newsletter/data/request/route');
+  POST = routeModule.POST as unknown as Handler;
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockBlacklistFindFirst.mockResolvedValue(null);
+  mockPerAddressCheck.mockResolvedValue({ success: true, remaining: 2, resetTime: 0 });
+  mockRequestSubscriberData.mockResolvedValue(undefined);
+});
+
+const dataRequest = (body: unknown, forwardedFor = '198.51.100.66, 203.0.113.7') =>
+  new Request('http://localhost:3000/api/newsletter/data/request', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-forwarded-for': forwardedFor },
+    body: JSON.stringify(body),
+  });
+
+describe('POST /api/newsletter/data/request', () => {
+  it('is rate limited per client IP', () => {
+    // The proxy appends the real address, so a forged first entry doesn't change the key
+    expect(rateLimitKey(dataRequest({}))).toBe('newsletter-data-request:203.0.113.7');
+    expect(rateLimitKey(dataRequest({}, '198.51.100.2'))).not.toBe(rateLimitKey(dataRequest({})));
+  });
+
+  it('checks the proxy-appended IP against the blacklist', async () => {
+    mockBlacklistFindFirst.mockResolvedValueOnce({ ipAddress: '203.0.113.7', expiresAt: null });
+
+    const response = await POST(dataRequest({ email: 'grace@example.com', type: 'export' }));
+
+    expect(response.status).toBe(429);
+    expect(mockBlacklistFindFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ ipAddress: '203.0.113.7' }) }),
+    );
+    expect(mockRequestSubscriberData).not.toHaveBeenCalled();
+  });
+
+  it('emails the link while the address is under its limit', async () => {
+    const response = await POST(dataRequest({ email: 'Grace@Example.com', type: 'erasure' }));
+
+    expect(await response.json()).toEqual({ success: true });
+    expect(mockPerAddressCheck).toHaveBeenCalledWith('grace@example.com');
+    expect(mockRequestSubscriberData).toHaveBeenCalledWith('grace@example.com', 'erasure');
+  });
+
+  it('answers the same without emailing once the address has reached its limit', async () => {
+    mockPerAddressCheck.mockResolvedValueOnce({ success: false, remaining: 0, resetTime: 0 });
+
+    const response = await POST(dataRequest({ email: 'grace@example.com', type: 'export' }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true });
+    expect(mockRequestSubscriberData).not.toHaveBeenCalled();
+  });
+});
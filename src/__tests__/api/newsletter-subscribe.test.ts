@@ -5,12 +5,14 @@ type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFuncti
 >;
 
 // ---- Database mocks ----
+const mockFindUnique: AsyncMock<[unknown], unknown> = jest.fn();
 const mockUpsert: AsyncMock<[unknown], unknown> = jest.fn();
 const mockCreate: AsyncMock<[unknown], unknown> = jest.fn();
 
 jest.mock('@/lib/db', () => ({
   db: {
     newsletterSubscriber: {
+      findUnique: mockFindUnique,
       upsert: mockUpsert,
     },
     newsletterAuditLog: {
@@ -33,12 +35,12 @@ jest.mock('@/lib/security', () => ({
 }));
 
 // ---- Email mocks ----
-const mockSendWelcomeEmail: AsyncMock = jest.fn();
-const mockSendAdminNotification: AsyncMock = jest.fn();
+const mockSendConfirmationEmail: AsyncMock = jest.fn();
 
 jest.mock('@/lib/resend', () => ({
-  sendWelcomeEmail: mockSendWelcomeEmail,
-  sendAdminNotification: mockSendAdminNotification,
+  sendConfirmationEmail: mockSendConfirmationEmail,
+  sendWelcomeEmail: jest.fn(),
+  sendAdminNotification: jest.fn(),
 }));
 
 // ---- Rate limit mock ----
@@ -68,6 +70,7 @@ beforeEach(() => {
   jest.clearAllMocks();
 
   // Default DB behaviour
+  mockFindUnique.mockResolvedValue(null);
   mockUpsert.mockResolvedValue({
     id: 'sub-default',
     email: 'default@example.com',
@@ -82,8 +85,7 @@ beforeEach(() => {
   mockTrackFailedAttempt.mockResolvedValue(undefined);
 
   // Default email behaviour
-  mockSendWelcomeEmail.mockResolvedValue(undefined);
-  mockSendAdminNotification.mockResolvedValue(undefined);
+  mockSendConfirmationEmail.mockResolvedValue(undefined);
 
   mockWithRateLimit.mockImplementation(
     (
@@ -171,7 +173,7 @@ describe('POST /api/newsletter/subscribe', () => {
     expect(data.error).toContain('Too many attempts');
   });
 
-  it('should successfully subscribe new user', async () => {
+  it('should record a pending subscription and send a confirmation email', async () => {
     const mockSubscriber = {
       id: 'sub-123',
       email: 'test@example.com',
@@ -203,15 +205,56 @@ describe('POST /api/newsletter/subscribe', () => {
 
     expect(response.status).toBe(200);
     expect(data.success).toBe(true);
-    expect(mockUpsert).toHaveBeenCalled();
+    expect(data.requiresConfirmation).toBe(true);
+    expect(mockUpsert).toHaveBeenCalledWith(expect.objectContaining({
+      create: expect.objectContaining({
+        isSubscribed: false,
+        confirmationSentAt: expect.any(Date),
+      }),
+    }));
     expect(mockCreate).toHaveBeenCalledWith({
       data: expect.objectContaining({
         subscriberId: 'sub-123',
-        action: 'subscribed',
+        action: 'subscription_requested',
       }),
     });
-    expect(mockSendWelcomeEmail).toHaveBeenCalled();
-    expect(mockSendAdminNotification).toHaveBeenCalled();
+    expect(mockSendConfirmationEmail).toHaveBeenCalledWith(
+      'test@example.com',
+      'Test User',
+      expect.any(String),
+    );
+  });
+
+  it('should not email or reveal an already confirmed subscriber', async () => {
+    mockFindUnique.mockResolvedValueOnce({
+      isSubscribed: true,
+      isDeleted: false,
+      confirmedAt: new Date('2026-01-01T00:00:00Z'),
+    });
+
+    const request = new Request(
+      'http://localhost:3000/api/newsletter/subscribe',
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-forwarded-for': '192.168.1.1',
+          'user-agent': 'Mozilla/5.0',
+        },
+        body: JSON.stringify({
+          email: 'test@example.com',
+          name: 'Test User',
+        }),
+      },
+    );
+
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ success: true, requiresConfirmation: true });
+    expect(mockUpsert).not.toHaveBeenCalled();
+    expect(mockSendConfirmationEmail).not.toHaveBeenCalled();
   });
 
   it('should require CAPTCHA if too many attempts', async () => {
@@ -311,7 +354,7 @@ describe('POST /api/newsletter/subscribe', () => {
     expect(mockTrackFailedAttempt).toHaveBeenCalled();
   });
 
-  it('should update existing subscriber instead of creating new one', async () => {
+  it('should keep an existing subscriber inactive until they confirm', async () => {
     const existingSubscriber = {
       id: 'sub-123',
       email: 'test@example.com',
@@ -342,10 +385,13 @@ describe('POST /api/newsletter/subscribe', () => {
     expect(mockUpsert).toHaveBeenCalledWith({
       where: { email: 'test@example.com' },
       update: expect.objectContaining({
-        isSubscribed: true,
+        name: 'Updated Name',
+        confirmationSentAt: expect.any(Date),
       }),
       create: expect.any(Object),
     });
+    const { update } = mockUpsert.mock.calls[0][0] as { update: Record<string, unknown> };
+    expect(update).not.toHaveProperty('isSubscribed');
   });
 
   it('should handle email sending errors gracefully', async () => {
@@ -357,7 +403,7 @@ describe('POST /api/newsletter/subscribe', () => {
 
     mockUpsert.mockResolvedValueOnce(mockSubscriber);
     mockCreate.mockResolvedValueOnce({ id: 'log-123' });
-    mockSendWelcomeEmail.mockRejectedValueOnce(new Error('Email error'));
+    mockSendConfirmationEmail.mockRejectedValueOnce(new Error('Email error'));
 
     const request = new Request(
       'http://localhost:3000/api/newsletter/subscribe',
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, beforeAll, jest } from '@jest/globals';
+
+type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
+  (...args: Args) => Promise<Return>
+>;
+
+// ---- Database mocks ----
+const mockFindUnique: AsyncMock = jest.fn();
+const mockUpdateMany: AsyncMock = jest.fn();
+const mockAuditCreate: AsyncMock = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    newsletterSubscriber: {
+      findUnique: mockFindUnique,
+      updateMany: mockUpdateMany,
+    },
+    newsletterAuditLog: {
+      create: mockAuditCreate,
+    },
+  },
+}));
+
+// ---- Import handlers AFTER mocks ----
+type Handler = (req: Request) => Promise<Response>;
+let POST: Handler;
+let GET: Handler;
+let token: string;
+
+beforeAll(async () => {
+  const { createUnsubscribeToken } = await import('@/lib/subscriber-links');
+  token = createUnsubscribeToken('sub-123');
+  const routeModule = await import('@/app/api/newsletter/unsubscribe/one-click/route');
+  POST = routeModule.POST as unknown as Handler;
+  GET = routeModule.GET as unknown as Handler;
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockFindUnique.mockResolvedValue({ id: 'sub-123', isSubscribed: true });
+  mockUpdateMany.mockResolvedValue({ count: 1 });
+  mockAuditCreate.mockResolvedValue({ id: 'log-123' });
+});
+
+const ONE_CLICK_URL = 'http://localhost:3000/api/newsletter/unsubscribe/one-click';
+
+const oneClickRequest = (url = `${ONE_CLICK_URL}?token=${token}`) =>
+  new Request(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'x-forwarded-for': '192.168.1.1',
+      'user-agent': 'GoogleImageProxy',
+    },
+    body: 'List-Unsubscribe=One-Click',
+  });
+
+describe('POST /api/newsletter/unsubscribe/one-click', () => {
+  it('unsubscribes from a form-encoded RFC 8058 request and writes the audit log', async () => {
+    const response = await POST(oneClickRequest());
+
+    expect(response.status).toBe(200);
+    expect(mockFindUnique).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'sub-123' },
+    }));
+    expect(mockUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'sub-123', isSubscribed: true },
+      data: expect.objectContaining({ isSubscribed: false, unsubscribeReason: 'one_click' }),
+    });
+    expect(mockAuditCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        subscriberId: 'sub-123',
+        action: 'unsubscribed',
+        details: expect.objectContaining({ method: 'one_click' }),
+        ipAddress: '192.168.1.1',
+      }),
+    });
+  });
+
+  it('succeeds again without a second audit entry when already unsubscribed', async () => {
+    mockFindUnique.mockResolvedValueOnce({ id: 'sub-123', isSubscribed: false });
+    mockUpdateMany.mockResolvedValueOnce({ count: 0 });
+
+    const response = await POST(oneClickRequest());
+
+    expect(response.status).toBe(200);
+    expect(mockAuditCreate).not.toHaveBeenCalled();
+  });
+
+  it('rejects a request without a token', async () => {
+    const response = await POST(oneClickRequest(ONE_CLICK_URL));
+
+    expect(response.status).toBe(400);
+    expect(mockFindUnique).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for a token that fails verification', async () => {
+    const response = await POST(oneClickRequest(`${ONE_CLICK_URL}?token=${token.slice(0, -2)}xx`));
+
+    expect(response.status).toBe(404);
+    expect(mockFindUnique).not.toHaveBeenCalled();
+    expect(mockUpdateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('GET /api/newsletter/unsubscribe/one-click', () => {
+  it('redirects to the unsubscribe page without unsubscribing', async () => {
+    const response = await GET(new Request(`${ONE_CLICK_URL}?token=${token}`));
+
+    expect(response.status).toBe(303);
+    expect(response.headers.get('location')).toBe(`http://localhost:3000/unsubscribe?token=${token}`);
+    expect(mockUpdateMany).not.toHaveBeenCalled();
+  });
+});
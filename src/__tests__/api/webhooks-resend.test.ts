@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, beforeAll, afterAll, jest } from '@jest/globals';
+import { WEBHOOK_SECRET, bouncedWebhook, type RecordedWebhook } from '../utils/resend-webhook-payloads';
+
+type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
+  (...args: Args) => Promise<Return>
+>;
+
+// ---- Database mocks ----
+const mockSendFindFirst: AsyncMock = jest.fn();
+const mockSendUpdateMany: AsyncMock = jest.fn();
+const mockSubscriberFindUnique: AsyncMock = jest.fn();
+const mockSubscriberUpdateMany: AsyncMock = jest.fn();
+const mockAuditCreate: AsyncMock = jest.fn();
+const mockSuppressionUpsert: AsyncMock = jest.fn();
+const mockProcessedCreate: AsyncMock = jest.fn();
+const mockProcessedDeleteMany: AsyncMock = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    newsletterSend: {
+      findFirst: mockSendFindFirst,
+      updateMany: mockSendUpdateMany,
+    },
+    newsletterSubscriber: {
+      findUnique: mockSubscriberFindUnique,
+      updateMany: mockSubscriberUpdateMany,
+    },
+    newsletterAuditLog: {
+      create: mockAuditCreate,
+    },
+    emailSuppression: {
+      upsert: mockSuppressionUpsert,
+    },
+    processedWebhook: {
+      create: mockProcessedCreate,
+      deleteMany: mockProcessedDeleteMany,
+    },
+  },
+}));
+
+// ---- Import handler AFTER mocks ----
+type Handler = (req: Request) => Promise<Response>;
+let POST: Handler;
+
+beforeAll(async () => {
+  process.env.RESEND_WEBHOOK_SECRET = WEBHOOK_SECRET;
+  jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+  const routeModule = await import('@/app/api/webhooks/resend/route');
+  POST = routeModule.POST as unknown as Handler;
+});
+
+afterAll(() => {
+  jest.useRealTimers();
+  delete process.env.RESEND_WEBHOOK_SECRET;
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.setSystemTime(bouncedWebhook.receivedAt);
+  mockSendFindFirst.mockResolvedValue({ id: 'send-1', subscriberId: 'sub-1' });
+  mockSendUpdateMany.mockResolvedValue({ count: 1 });
+  mockSubscriberFindUnique.mockResolvedValue({ id: 'sub-1', isSubscribed: true });
+  mockSubscriberUpdateMany.mockResolvedValue({ count: 1 });
+  mockAuditCreate.mockResolvedValue({ id: 'log-1' });
+  mockSuppressionUpsert.mockResolvedValue({ id: 'sup-1' });
+  mockProcessedCreate.mockResolvedValue({ id: bouncedWebhook.headers['svix-id'] });
+  mockProcessedDeleteMany.mockResolvedValue({ count: 0 });
+});
+
+const webhookRequest = (webhook: RecordedWebhook, body = webhook.body) =>
+  new Request('http://localhost:3000/api/webhooks/resend', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...webhook.headers },
+    body,
+  });
+
+describe('POST /api/webhooks/resend', () => {
+  it('processes a correctly signed bounce', async () => {
+    const response = await POST(webhookRequest(bouncedWebhook));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ received: true, outcome: 'processed' });
+    expect(mockSubscriberUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'sub-1', isSubscribed: true },
+      data: expect.objectContaining({ unsubscribeReason: 'hard_bounce' }),
+    });
+  });
+
+  it('acknowledges a retry of a bounce it already processed without applying it again', async () => {
+    mockProcessedCreate.mockRejectedValueOnce(Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }));
+
+    const response = await POST(webhookRequest(bouncedWebhook));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ received: true, outcome: 'duplicate' });
+    expect(mockProcessedCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ id: bouncedWebhook.headers['svix-id'], type: 'email.bounced' }),
+    });
+    expect(mockSubscriberUpdateMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects a request whose body does not match its signature', async () => {
+    const response = await POST(webhookRequest(bouncedWebhook, bouncedWebhook.body.replace('Permanent', 'Transient')));
+
+    expect(response.status).toBe(401);
+    expect(mockSendFindFirst).not.toHaveBeenCalled();
+  });
+
+  it('returns 500 so Resend retries when processing fails', async () => {
+    mockSendFindFirst.mockRejectedValueOnce(new Error('Database unavailable'));
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await POST(webhookRequest(bouncedWebhook));
+
+    expect(response.status).toBe(500);
+    errorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,242 @@
+import { describe, it, expect, beforeEach, beforeAll, jest } from '@jest/globals';
+import { compare, hash } from 'bcryptjs';
+import { createSignedToken } from '@/lib/signed-tokens';
+
+type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
+  (...args: Args) => Promise<Return>
+>;
+
+const mockFindFirst: AsyncMock = jest.fn();
+const mockFindUnique: AsyncMock = jest.fn();
+const mockCreate: AsyncMock = jest.fn();
+const mockUpdate: AsyncMock = jest.fn();
+const mockDelete: AsyncMock = jest.fn();
+const mockSessionDeleteMany: AsyncMock = jest.fn();
+const mockSendAdminAccountEmail: AsyncMock = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    profile: {
+      findFirst: mockFindFirst,
+      findUnique: mockFindUnique,
+      create: mockCreate,
+      update: mockUpdate,
+      delete: mockDelete,
+    },
+    session: {
+      deleteMany: mockSessionDeleteMany,
+    },
+  },
+}));
+
+jest.mock('@/lib/resend', () => ({
+  sendAdminAccountEmail: mockSendAdminAccountEmail,
+}));
+
+let accounts: typeof import('@/lib/admin-accounts');
+let storedHash: string;
+
+beforeAll(async () => {
+  accounts = await import('@/lib/admin-accounts');
+  storedHash = await hash('correct horse battery staple', 4);
+});
+
+const createdAt = new Date('2026-10-01T09:00:00Z');
+const changedAt = new Date('2026-10-10T09:00:00Z');
+const inviter = { id: 'admin-1', email: 'admin@example.com', role: 'owner' };
+
+const profile = (overrides: Record<string, unknown> = {}) => ({
+  id: 'profile-1',
+  email: 'grace@example.com',
+  name: 'Grace',
+  role: 'editor',
+  passwordHash: storedHash,
+  passwordChangedAt: changedAt,
+  invitedAt: null,
+  lastLoginAt: null,
+  createdAt,
+  ...overrides,
+});
+
+const tokenFrom = (url: string) => new URL(url).searchParams.get('token') as string;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  process.env.NEXT_PUBLIC_BASE_URL = 'https://example.com';
+  mockSendAdminAccountEmail.mockResolvedValue({ id: 'email-1' });
+  mockUpdate.mockImplementation(async (args: any) => ({ ...profile(), ...args.data }));
+  mockSessionDeleteMany.mockResolvedValue({ count: 0 });
+});
+
+describe('inviteAdminUser', () => {
+  it('creates a pending admin and emails a setup link', async () => {
+    mockFindFirst.mockResolvedValueOnce(null);
+    mockCreate.mockImplementationOnce(async (args: any) => profile({ passwordHash: null, passwordChangedAt: null, ...args.data }));
+    const now = new Date('2026-10-19T09:00:00Z');
+
+    const user = await accounts.inviteAdminUser(' Grace@Example.com ', 'Grace', 'editor', inviter, now);
+
+    expect(mockCreate).toHaveBeenCalledWith({
+      data: { email: 'grace@example.com', name: 'Grace', role: 'editor', invitedBy: 'admin-1', invitedAt: now },
+    });
+    expect(user).toEqual(expect.objectContaining({ email: 'grace@example.com', status: 'invited' }));
+    expect(mockSendAdminAccountEmail).toHaveBeenCalledWith(
+      'grace@example.com',
+      'invite',
+      expect.stringContaining('https://example.com/login/set-password?token='),
+      72,
+      { name: 'Grace', inviterEmail: 'admin@example.com' },
+    );
+  });
+
+  it('refuses an address that already has an account', async () => {
+    mockFindFirst.mockResolvedValueOnce(profile());
+
+    await expect(accounts.inviteAdminUser('grace@example.com', null, 'viewer', inviter)).resolves.toBeNull();
+    expect(mockCreate).not.toHaveBeenCalled();
+    expect(mockSendAdminAccountEmail).not.toHaveBeenCalled();
+  });
+});
+
+describe('requestPasswordReset', () => {
+  it('emails a reset link to an active admin', async () => {
+    mockFindFirst.mockResolvedValueOnce(profile());
+
+    await expect(accounts.requestPasswordReset('grace@example.com')).resolves.toBe(true);
+    expect(mockSendAdminAccountEmail).toHaveBeenCalledWith(
+      'grace@example.com',
+      'reset',
+      expect.stringContaining('/login/set-password?token='),
+      1,
+      undefined,
+    );
+  });
+
+  it('sends nothing for an unknown address', async () => {
+    mockFindFirst.mockResolvedValueOnce(null);
+
+    await expect(accounts.requestPasswordReset('nobody@example.com')).resolves.toBe(false);
+    expect(mockSendAdminAccountEmail).not.toHaveBeenCalled();
+  });
+});
+
+describe('setPasswordWithToken', () => {
+  it('sets the password from a reset link', async () => {
+    const token = accounts.createAccountLinkToken('reset', profile());
+    mockFindUnique.mockResolvedValueOnce(profile());
+
+    const result = await accounts.setPasswordWithToken(token, 'a brand new password');
+
+    expect(result).toEqual({
+      ok: true,
+      profile: { id: 'profile-1', email: 'grace@example.com', role: 'editor' },
+      passwordChangedAt: expect.any(Date),
+      twoFactorEnabled: false,
+    });
+    const { data } = mockUpdate.mock.calls[0][0] as { data: { passwordHash: string; passwordChangedAt: Date } };
+    await expect(compare('a brand new password', data.passwordHash)).resolves.toBe(true);
+    expect(data.passwordChangedAt).toBeInstanceOf(Date);
+    expect(mockSessionDeleteMany).toHaveBeenCalledWith({ where: { profileId: 'profile-1' } });
+  });
+
+  it('rejects a link once the password it was issued for has changed', async () => {
+    const token = accounts.createAccountLinkToken('invite', profile({ passwordHash: null, passwordChangedAt: null }));
+    mockFindUnique.mockResolvedValueOnce(profile());
+
+    await expect(accounts.setPasswordWithToken(token, 'a brand new password')).resolves.toEqual({
+      ok: false,
+      reason: 'invalid',
+    });
+    expect(mockSessionDeleteMany).not.toHaveBeenCalled();
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it('rejects expired links and tokens issued for something else', async () => {
+    const expired = accounts.createAccountLinkToken('reset', profile(), new Date('2026-01-01T00:00:00Z'));
+    const other = createSignedToken('preferences', `profile-1:${changedAt.getTime()}`);
+
+    await expect(accounts.setPasswordWithToken(expired, 'a brand new password')).resolves.toEqual({
+      ok: false,
+      reason: 'expired',
+    });
+    await expect(accounts.setPasswordWithToken(other, 'a brand new password')).resolves.toEqual({
+      ok: false,
+      reason: 'invalid',
+    });
+    expect(mockFindUnique).not.toHaveBeenCalled();
+  });
+
+  it('accepts the token from an emailed invitation', async () => {
+    const pending = profile({ passwordHash: null, passwordChangedAt: null });
+    mockFindFirst.mockResolvedValueOnce(null);
+    mockCreate.mockResolvedValueOnce(pending);
+    await accounts.inviteAdminUser('grace@example.com', 'Grace', 'editor', inviter);
+    const url = mockSendAdminAccountEmail.mock.calls[0][2] as string;
+    mockFindUnique.mockResolvedValueOnce(pending);
+
+    const result = await accounts.setPasswordWithToken(tokenFrom(url), 'a brand new password');
+
+    expect(result.ok).toBe(true);
+  });
+});
+
+describe('changePassword', () => {
+  it('requires the current password', async () => {
+    mockFindUnique.mockResolvedValue(profile());
+
+    await expect(accounts.changePassword('profile-1', 'wrong password', 'a brand new password')).resolves.toBe(false);
+    expect(mockUpdate).not.toHaveBeenCalled();
+
+    await expect(
+      accounts.changePassword('profile-1', 'correct horse battery staple', 'a brand new password'),
+    ).resolves.toBe(true);
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: 'profile-1' },
+      data: { passwordHash: expect.any(String), passwordChangedAt: expect.any(Date) },
+    });
+  });
+});
+
+describe('updateAdminRole', () => {
+  it('changes the role of another admin', async () => {
+    mockFindUnique.mockResolvedValueOnce(profile());
+
+    const user = await accounts.updateAdminRole('profile-1', 'newsletter_manager', inviter);
+
+    expect(mockUpdate).toHaveBeenCalledWith({ where: { id: 'profile-1' }, data: { role: 'newsletter_manager' } });
+    expect(user).toEqual(expect.objectContaining({ id: 'profile-1', role: 'newsletter_manager' }));
+  });
+
+  it('does not let admins change their own role', async () => {
+    await expect(accounts.updateAdminRole('admin-1', 'viewer', inviter)).resolves.toBe('self');
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it('ignores profiles that are not admins', async () => {
+    mockFindUnique.mockResolvedValueOnce(profile({ role: 'user' }));
+
+    await expect(accounts.updateAdminRole('profile-1', 'owner', inviter)).resolves.toBeNull();
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+});
+
+describe('deleteAdminUser', () => {
+  it('does not let admins remove themselves', async () => {
+    await expect(accounts.deleteAdminUser('admin-1', inviter)).resolves.toBe('self');
+    expect(mockDelete).not.toHaveBeenCalled();
+
+    mockFindUnique.mockResolvedValueOnce(profile());
+    await expect(accounts.deleteAdminUser('profile-1', inviter)).resolves.toBe('deleted');
+    expect(mockDelete).toHaveBeenCalledWith({ where: { id: 'profile-1' } });
+  });
+
+  it('ignores profiles that are not admins', async () => {
+    mockFindUnique.mockResolvedValueOnce(profile({ role: 'user' }));
+    await expect(accounts.deleteAdminUser('profile-1', inviter)).resolves.toBeNull();
+
+    mockFindUnique.mockResolvedValueOnce(null);
+    await expect(accounts.deleteAdminUser('missing', inviter)).resolves.toBeNull();
+
+    expect(mockDelete).not.toHaveBeenCalled();
+  });
+});
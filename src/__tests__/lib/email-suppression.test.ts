@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, beforeAll, jest } from '@jest/globals';
+
+type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
+  (...args: Args) => Promise<Return>
+>;
+
+// ---- Database mocks ----
+const mockSuppressionFindMany: AsyncMock = jest.fn();
+const mockSuppressionUpsert: AsyncMock = jest.fn();
+const mockSkippedEmailCreate: AsyncMock = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    emailSuppression: {
+      findMany: mockSuppressionFindMany,
+      upsert: mockSuppressionUpsert,
+    },
+    skippedEmail: {
+      create: mockSkippedEmailCreate,
+    },
+  },
+}));
+
+// ---- Import module AFTER mocks ----
+let suppression: typeof import('@/lib/email-suppression');
+
+beforeAll(async () => {
+  suppression = await import('@/lib/email-suppression');
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockSuppressionFindMany.mockResolvedValue([]);
+  mockSuppressionUpsert.mockResolvedValue({ id: 'sup-1' });
+  mockSkippedEmailCreate.mockResolvedValue({ id: 'skip-1' });
+});
+
+const domainEntry = { id: 'sup-domain', value: 'example.com', type: 'domain', reason: 'manual' };
+const emailEntry = { id: 'sup-email', value: 'reader@example.com', type: 'email', reason: 'hard_bounce' };
+
+describe('findSuppression', () => {
+  it('looks up the normalised address and its domain, ignoring expired entries', async () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+
+    await suppression.findSuppression('  Reader@Example.COM ', now);
+
+    expect(mockSuppressionFindMany).toHaveBeenCalledWith({
+      where: {
+        value: { in: ['reader@example.com', 'example.com'] },
+        OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+      },
+      select: { id: true, value: true, type: true, reason: true },
+    });
+  });
+
+  it('prefers an entry for the address over one for its domain', async () => {
+    mockSuppressionFindMany.mockResolvedValueOnce([domainEntry, emailEntry]);
+
+    expect(await suppression.findSuppression('reader@example.com')).toEqual(emailEntry);
+  });
+
+  it('matches on the domain when the address itself is not listed', async () => {
+    mockSuppressionFindMany.mockResolvedValueOnce([domainEntry]);
+
+    expect(await suppression.findSuppression('someone@example.com')).toEqual(domainEntry);
+  });
+});
+
+describe('checkSuppression', () => {
+  it('allows unsuppressed recipients without recording anything', async () => {
+    expect(await suppression.checkSuppression('reader@example.com', 'welcome')).toBeNull();
+    expect(mockSkippedEmailCreate).not.toHaveBeenCalled();
+  });
+
+  it('records the skipped message with the suppression reason', async () => {
+    mockSuppressionFindMany.mockResolvedValueOnce([emailEntry]);
+
+    const match = await suppression.checkSuppression('Reader@example.com', 'confirmation');
+
+    expect(match).toEqual(emailEntry);
+    expect(mockSkippedEmailCreate).toHaveBeenCalledWith({
+      data: {
+        email: 'reader@example.com',
+        category: 'confirmation',
+        reason: 'hard_bounce',
+        suppressionId: 'sup-email',
+      },
+    });
+  });
+});
+
+describe('suppressEmail', () => {
+  it('upserts the normalised value so repeated reports update one entry', async () => {
+    const expiresAt = new Date('2027-01-01T00:00:00Z');
+
+    await suppression.suppressEmail({
+      value: 'Spam.Example ',
+      type: 'domain',
+      reason: 'manual',
+      source: 'admin',
+      expiresAt,
+      createdBy: 'admin@example.com',
+    });
+
+    const data = {
+      type: 'domain',
+      reason: 'manual',
+      source: 'admin',
+      note: null,
+      expiresAt,
+      createdBy: 'admin@example.com',
+    };
+    expect(mockSuppressionUpsert).toHaveBeenCalledWith({
+      where: { value: 'spam.example' },
+      create: { value: 'spam.example', ...data },
+      update: data,
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, beforeAll, afterAll, jest } from '@jest/globals';
+import { parseTemplate, renderTemplate, findReferences, TemplateSyntaxError } from '@/lib/template-engine';
+
+type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
+  (...args: Args) => Promise<Return>
+>;
+
+const mockTemplateFindMany: AsyncMock = jest.fn();
+const mockTemplateUpsert: AsyncMock = jest.fn();
+const mockTemplateDeleteMany: AsyncMock = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    emailTemplate: {
+      findMany: mockTemplateFindMany,
+      upsert: mockTemplateUpsert,
+      deleteMany: mockTemplateDeleteMany,
+    },
+  },
+}));
+
+type TemplatesModule = typeof import('@/lib/email-templates');
+let templates: TemplatesModule;
+let DEFAULT_TEMPLATES: typeof import('@/lib/email-template-defaults')['DEFAULT_TEMPLATES'];
+
+beforeAll(async () => {
+  templates = await import('@/lib/email-templates');
+  ({ DEFAULT_TEMPLATES } = await import('@/lib/email-template-defaults'));
+});
+
+const render = (source: string, scope: Record<string, unknown>, escape = true) =>
+  renderTemplate(parseTemplate(source), scope, { escape, partials: { footer: parseTemplate('[{{brand}}]') } });
+
+const welcomeVariables = {
+  firstName: 'Ada',
+  isResubscription: false,
+  preferencesUrl: 'https://example.com/newsletter/preferences?token=p',
+  unsubscribeUrl: 'https://example.com/unsubscribe?token=u',
+};
+
+describe('template engine', () => {
+  it('escapes variables in HTML and leaves triple-brace variables alone', () => {
+    expect(render('{{name}} {{{name}}}', { name: '<b>Ada</b>' })).toBe('&lt;b&gt;Ada&lt;/b&gt; <b>Ada</b>');
+    expect(render('{{name}}', { name: '<b>Ada</b>' }, false)).toBe('<b>Ada</b>');
+  });
+
+  it('renders missing variables as empty and resolves dotted names', () => {
+    expect(render('Hi {{user.name}}{{missing}}!', { user: { name: 'Ada' } })).toBe('Hi Ada!');
+  });
+
+  it('renders if/else, nested blocks, lists and partials', () => {
+    const source = '{{#if vip}}VIP{{else}}{{#if items}}{{#each items}}{{label}}={{count}};{{/each}}{{else}}none{{/if}}{{/if}}{{> footer}}';
+
+    expect(render(source, { vip: true, brand: 'B' })).toBe('VIP[B]');
+    expect(render(source, { items: [{ label: 'a', count: 1 }, { label: 'b', count: 2 }], brand: 'B' })).toBe('a=1;b=2;[B]');
+    expect(render(source, { items: [], brand: 'B' })).toBe('none[B]');
+  });
+
+  it('rejects malformed templates', () => {
+    expect(() => parseTemplate('{{#if a}}open')).toThrow(TemplateSyntaxError);
+    expect(() => parseTemplate('{{#if a}}x{{/each}}')).toThrow('closes an {{#if}} block');
+    expect(() => parseTemplate('{{else}}')).toThrow(TemplateSyntaxError);
+    expect(() => parseTemplate('{{#with a}}{{/with}}')).toThrow('Unknown block');
+    expect(() => parseTemplate('{{ not valid }}')).toThrow('Invalid name');
+    expect(() => render('{{> header}}', {})).toThrow('Unknown partial');
+  });
+
+  it('reports variables outside list items and partials', () => {
+    const nodes = parseTemplate('{{a}}{{#each rows}}{{line}}{{b.c}}{{/each}}{{> footer}}');
+    expect(findReferences(nodes, { rows: ['line'] })).toEqual({
+      variables: ['a', 'rows', 'b'],
+      partials: ['footer'],
+    });
+  });
+});
+
+describe('email templates', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    templates.invalidateEmailTemplateCache();
+    process.env = {
+      ...originalEnv,
+      EMAIL_BRAND_NAME: 'Example Studio',
+      EMAIL_POSTAL_ADDRESS: '1 Main Street, Springfield',
+      NEXT_PUBLIC_SITE_URL: 'https://example.com',
+    };
+    delete process.env.EMAIL_SENDER_NAME;
+    mockTemplateFindMany.mockResolvedValue([]);
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('renders an email into the layout with branding, footer links and a text part', async () => {
+    const email = await templates.renderEmailTemplate('welcome', welcomeVariables);
+
+    expect(email.subject).toBe('Welcome, Ada');
+    expect(email.html).toContain('<!DOCTYPE html>');
+    expect(email.html).toContain('<title>Welcome, Ada</title>');
+    expect(email.html).toContain('>Example Studio</a>');
+    expect(email.html).toContain('Best regards,<br>Example</p>');
+    expect(email.html).toContain('href="https://example.com/unsubscribe?token=u"');
+    expect(email.html).toContain('1 Main Street, Springfield');
+    expect(email.html).not.toContain('Lagos');
+    expect(email.text).toContain('Hi Ada,');
+    expect(email.text).not.toMatch(/<[a-z]/i);
+  });
+
+  it('uses the stored version of a template over the default', async () => {
+    mockTemplateFindMany.mockResolvedValue([
+      {
+        key: 'confirmation',
+        subject: 'Confirm, {{firstName}}',
+        html: '<p>Click <a href="{{confirmUrl}}">here</a></p>',
+        text: 'Confirm at {{confirmUrl}}',
+        updatedAt: new Date(),
+        updatedBy: 'admin@example.com',
+      },
+    ]);
+
+    const email = await templates.renderEmailTemplate('confirmation', {
+      firstName: 'Ada',
+      confirmUrl: 'https://example.com/confirm?token=a&b',
+      expiresInHours: 48,
+    });
+
+    expect(email.subject).toBe('Confirm, Ada');
+    expect(email.html).toContain('href="https://example.com/confirm?token=a&amp;b"');
+    expect(email.text).toBe('Confirm at https://example.com/confirm?token=a&b\n\n1 Main Street, Springfield');
+  });
+
+  it('caches stored templates until they change', async () => {
+    await templates.renderEmailTemplate('welcome', welcomeVariables);
+    await templates.renderEmailTemplate('welcome', welcomeVariables);
+    expect(mockTemplateFindMany).toHaveBeenCalledTimes(1);
+
+    mockTemplateUpsert.mockResolvedValue({});
+    await templates.saveEmailTemplate('welcome', DEFAULT_TEMPLATES.welcome, 'admin@example.com');
+    await templates.renderEmailTemplate('welcome', welcomeVariables);
+    expect(mockTemplateFindMany).toHaveBeenCalledTimes(2);
+  });
+
+  it('falls back to the defaults when stored templates cannot be loaded', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    mockTemplateFindMany.mockRejectedValue(new Error('connection refused'));
+
+    const email = await templates.renderEmailTemplate('welcome', welcomeVariables);
+
+    expect(email.subject).toBe('Welcome, Ada');
+    consoleSpy.mockRestore();
+  });
+
+  it('ships defaults that pass validation', () => {
+    for (const key of templates.TEMPLATE_KEYS) {
+      expect([key, templates.validateTemplateSource(key, DEFAULT_TEMPLATES[key])]).toEqual([key, []]);
+    }
+  });
+
+  it('flags unknown variables, unknown partials and syntax errors', () => {
+    expect(
+      templates.validateTemplateSource('confirmation', {
+        subject: 'Hi {{firstName}}',
+        html: '{{confirmUrl}} {{password}} {{> sidebar}}',
+        text: '{{#if firstName}}',
+      }),
+    ).toEqual([
+      'HTML: unknown variable {{password}}',
+      'HTML: unknown partial {{> sidebar}}',
+      'Text: {{#if firstName}} is never closed',
+    ]);
+
+    expect(templates.validateTemplateSource('welcome', { subject: ' ', html: '<p></p>', text: null })).toEqual([
+      'Subject is required',
+    ]);
+    expect(templates.validateTemplateSource('footer', { subject: null, html: '{{> header}}', text: null })).toEqual([
+      'HTML: partials cannot include other partials',
+    ]);
+    expect(templates.validateTemplateSource('layout', { subject: null, html: '{{> header}}', text: null })).toEqual([
+      'HTML: the layout must include {{{body}}}',
+    ]);
+  });
+
+  it('allows list item fields inside each blocks', () => {
+    expect(
+      templates.validateTemplateSource('admin_notification', {
+        subject: 'New subscriber',
+        html: '{{#each locations}}{{location}} ({{count}}){{/each}}',
+        text: null,
+      }),
+    ).toEqual([]);
+  });
+
+  it('previews layout drafts around the welcome sample', async () => {
+    const preview = await templates.previewEmailTemplate('layout', {
+      subject: null,
+      html: '<main>{{{body}}}</main><small>{{brandName}}</small>',
+      text: null,
+    });
+
+    expect(preview.subject).toBe('Welcome, Ada');
+    expect(preview.html).toMatch(/^<main>[\s\S]*Hi Ada,[\s\S]*<\/main><small>Example Studio<\/small>$/);
+  });
+
+  it('resets a template by deleting its stored version', async () => {
+    mockTemplateDeleteMany.mockResolvedValue({ count: 1 });
+
+    await expect(templates.resetEmailTemplate('footer')).resolves.toBe(true);
+    expect(mockTemplateDeleteMany).toHaveBeenCalledWith({ where: { key: 'footer' } });
+  });
+});
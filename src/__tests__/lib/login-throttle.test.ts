@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, beforeAll, jest } from '@jest/globals';
+
+type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
+  (...args: Args) => Promise<Return>
+>;
+
+const mockFindMany: AsyncMock = jest.fn();
+const mockCount: AsyncMock = jest.fn();
+const mockCreate: AsyncMock = jest.fn();
+const mockDeleteMany: AsyncMock = jest.fn();
+const mockBlacklistFindFirst: AsyncMock = jest.fn();
+const mockBlacklistUpsert: AsyncMock = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    failedAttempt: {
+      findMany: mockFindMany,
+      count: mockCount,
+      create: mockCreate,
+      deleteMany: mockDeleteMany,
+    },
+    blacklistedIp: {
+      findFirst: mockBlacklistFindFirst,
+      upsert: mockBlacklistUpsert,
+    },
+  },
+}));
+
+let throttle: typeof import('@/lib/login-throttle');
+
+beforeAll(async () => {
+  throttle = await import('@/lib/login-throttle');
+});
+
+const now = new Date('2026-10-19T09:00:00Z');
+const seconds = (count: number) => count * 1000;
+
+// Failures the given number of seconds ago, most recent first
+const failures = (agos: number[], overrides: Record<string, unknown> = {}) =>
+  agos.map((ago) => ({
+    email: 'grace@example.com',
+    ipAddress: '203.0.113.7',
+    timestamp: new Date(now.getTime() - seconds(ago)),
+    ...overrides,
+  }));
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockFindMany.mockResolvedValue([]);
+  mockCount.mockResolvedValue(0);
+  mockBlacklistFindFirst.mockResolvedValue(null);
+});
+
+describe('getLoginDelayMs', () => {
+  it('doubles after the first couple of failures, up to a cap', () => {
+    expect([1, 2, 3, 4, 5, 10].map(throttle.getLoginDelayMs)).toEqual([0, 0, 2000, 4000, 8000, 30000]);
+  });
+});
+
+describe('checkLoginThrottle', () => {
+  it('allows attempts with no recent failures', async () => {
+    await expect(throttle.checkLoginThrottle('203.0.113.7', 'Grace@example.com', now)).resolves.toEqual({ allowed: true });
+    expect(mockFindMany).toHaveBeenCalledWith({
+      where: {
+        actionType: 'admin_login',
+        timestamp: { gte: new Date(now.getTime() - throttle.LOGIN_ATTEMPT_WINDOW_MS) },
+        OR: [{ email: 'grace@example.com' }, { ipAddress: '203.0.113.7' }],
+      },
+      orderBy: { timestamp: 'desc' },
+      select: { email: true, ipAddress: true, timestamp: true },
+    });
+  });
+
+  it('makes later attempts wait after repeated failures', async () => {
+    mockFindMany.mockResolvedValueOnce(failures([1, 30, 60]));
+
+    await expect(throttle.checkLoginThrottle('203.0.113.7', 'grace@example.com', now)).resolves.toEqual({
+      allowed: false,
+      reason: 'delayed',
+      retryAfterSeconds: 1,
+    });
+
+    mockFindMany.mockResolvedValueOnce(failures([5, 30, 60]));
+    await expect(throttle.checkLoginThrottle('203.0.113.7', 'grace@example.com', now)).resolves.toEqual({ allowed: true });
+  });
+
+  it('counts failures from one IP across different accounts', async () => {
+    mockFindMany.mockResolvedValueOnce([
+      ...failures([1], { email: 'a@example.com' }),
+      ...failures([2], { email: 'b@example.com' }),
+      ...failures([3], { email: 'c@example.com' }),
+    ]);
+
+    await expect(throttle.checkLoginThrottle('203.0.113.7', 'd@example.com', now)).resolves.toEqual(
+      expect.objectContaining({ reason: 'delayed' }),
+    );
+  });
+
+  it('locks the account until enough failures have aged out', async () => {
+    mockFindMany.mockResolvedValueOnce(failures([60, 120, 180, 240, 300, 360], { ipAddress: '198.51.100.2' }));
+
+    const result = await throttle.checkLoginThrottle('203.0.113.7', 'grace@example.com', now);
+
+    // The fifth most recent failure, five minutes ago, leaves the window in ten
+    expect(result).toEqual({ allowed: false, reason: 'locked', retryAfterSeconds: 10 * 60 });
+  });
+
+  it('refuses blacklisted IPs without counting failures', async () => {
+    mockBlacklistFindFirst.mockResolvedValueOnce({ ipAddress: '203.0.113.7', expiresAt: null });
+
+    await expect(throttle.checkLoginThrottle('203.0.113.7', 'grace@example.com', now)).resolves.toEqual({
+      allowed: false,
+      reason: 'blacklisted',
+    });
+    expect(mockFindMany).not.toHaveBeenCalled();
+  });
+
+  it('only throttles by account when the IP is unknown', async () => {
+    await throttle.checkLoginThrottle('unknown', 'grace@example.com', now);
+
+    expect(mockBlacklistFindFirst).not.toHaveBeenCalled();
+    expect(mockFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ OR: [{ email: 'grace@example.com' }] }) }),
+    );
+  });
+});
+
+describe('recordLoginFailure', () => {
+  it('records the attempt against the normalized email', async () => {
+    await throttle.recordLoginFailure('203.0.113.7', ' Grace@Example.com ', 'curl/8.0', now);
+
+    expect(mockCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        ipAddress: '203.0.113.7',
+        email: 'grace@example.com',
+        userAgent: 'curl/8.0',
+        actionType: 'admin_login',
+      }),
+    });
+    expect(mockBlacklistUpsert).not.toHaveBeenCalled();
+  });
+
+  it('blacklists an IP after too many failures', async () => {
+    mockCount.mockResolvedValueOnce(throttle.MAX_IP_FAILURES);
+    const consoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    await throttle.recordLoginFailure('203.0.113.7', 'grace@example.com', 'curl/8.0', now);
+
+    expect(mockBlacklistUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { ipAddress: '203.0.113.7' },
+        create: expect.objectContaining({ expiresAt: new Date(now.getTime() + throttle.IP_BLACKLIST_MS) }),
+      }),
+    );
+    consoleWarn.mockRestore();
+  });
+
+  it('never blacklists the shared unknown IP', async () => {
+    await throttle.recordLoginFailure('unknown', 'grace@example.com', 'curl/8.0', now);
+
+    expect(mockCount).not.toHaveBeenCalled();
+    expect(mockBlacklistUpsert).not.toHaveBeenCalled();
+  });
+});
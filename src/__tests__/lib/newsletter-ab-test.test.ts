@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, beforeAll, jest } from '@jest/globals';
+
+type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
+  (...args: Args) => Promise<Return>
+>;
+
+const mockSendCount: AsyncMock = jest.fn();
+const mockSendGroupBy: AsyncMock = jest.fn();
+const mockSendUpdateMany: AsyncMock = jest.fn();
+const mockNewsletterUpdateMany: AsyncMock = jest.fn();
+const mockAuditLogCreate: AsyncMock = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    newsletterSend: {
+      count: mockSendCount,
+      groupBy: mockSendGroupBy,
+      updateMany: mockSendUpdateMany,
+    },
+    newsletter: {
+      updateMany: mockNewsletterUpdateMany,
+    },
+    newsletterAuditLog: {
+      create: mockAuditLogCreate,
+    },
+  },
+}));
+
+let abTests: typeof import('@/lib/newsletter-ab-test');
+
+beforeAll(async () => {
+  abTests = await import('@/lib/newsletter-ab-test');
+});
+
+const abTest = { subjects: ['Subject B', 'Subject C'], test_percentage: 20, winner_metric: 'open' as const, wait_hours: 4 };
+
+const queuedAt = new Date('2026-10-19T08:00:00Z');
+const afterWait = new Date('2026-10-19T12:30:00Z');
+
+const newsletter = {
+  id: 'nl-1',
+  subject: 'Subject A',
+  abTest,
+  abWinner: null,
+  queuedAt,
+};
+
+// Test slice results: B has the best open rate, C the best click rate
+function mockTestResults() {
+  mockSendGroupBy
+    .mockResolvedValueOnce([
+      { newsletterId: 'nl-1', variant: 'A', abTestGroup: true, status: 'sent', _count: { _all: 10 } },
+      { newsletterId: 'nl-1', variant: 'B', abTestGroup: true, status: 'sent', _count: { _all: 10 } },
+      { newsletterId: 'nl-1', variant: 'C', abTestGroup: true, status: 'sent', _count: { _all: 10 } },
+    ])
+    .mockResolvedValueOnce([
+      { newsletterId: 'nl-1', variant: 'A', abTestGroup: true, _count: { _all: 10, openedAt: 2, clickedAt: 1 } },
+      { newsletterId: 'nl-1', variant: 'B', abTestGroup: true, _count: { _all: 10, openedAt: 5, clickedAt: 1 } },
+      { newsletterId: 'nl-1', variant: 'C', abTestGroup: true, _count: { _all: 10, openedAt: 3, clickedAt: 4 } },
+    ]);
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockSendGroupBy.mockReset();
+
+  mockSendCount.mockResolvedValue(0);
+  mockSendUpdateMany.mockResolvedValue({ count: 240 });
+  mockNewsletterUpdateMany.mockResolvedValue({ count: 1 });
+  mockAuditLogCreate.mockResolvedValue({});
+});
+
+describe('subject variants', () => {
+  it('labels the newsletter subject A and the test subjects after it', () => {
+    expect(abTests.getSubjectVariants('Subject A', abTest)).toEqual([
+      { variant: 'A', subject: 'Subject A' },
+      { variant: 'B', subject: 'Subject B' },
+      { variant: 'C', subject: 'Subject C' },
+    ]);
+    expect(abTests.getVariantSubject({ subject: 'Subject A', abTest }, 'C')).toBe('Subject C');
+    expect(abTests.getVariantSubject({ subject: 'Subject A', abTest }, null)).toBe('Subject A');
+    expect(abTests.getVariantSubject({ subject: 'Subject A', abTest: null }, 'B')).toBe('Subject A');
+  });
+
+  it('rejects malformed settings', () => {
+    expect(abTests.parseAbTest(null)).toBeNull();
+    expect(() => abTests.parseAbTest({ ...abTest, test_percentage: 90 })).toThrow();
+  });
+});
+
+describe('createTestSliceSampler', () => {
+  it('draws exactly the slice size and splits it evenly between variants', () => {
+    let seed = 7;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+    const sample = abTests.createTestSliceSampler(1000, abTest, random);
+
+    const drawn = Array.from({ length: 1000 }, () => sample()).filter((variant) => variant !== null);
+
+    expect(drawn).toHaveLength(200);
+    expect(drawn.filter((variant) => variant === 'A')).toHaveLength(67);
+    expect(drawn.filter((variant) => variant === 'B')).toHaveLength(67);
+    expect(drawn.filter((variant) => variant === 'C')).toHaveLength(66);
+  });
+
+  it('gives every variant a recipient in a small audience', () => {
+    expect(abTests.getTestSliceSize(4, abTest)).toBe(3);
+    expect(abTests.getTestSliceSize(2, abTest)).toBe(2);
+  });
+});
+
+describe('pickWinner', () => {
+  const groups = [
+    { variant: 'A' as const, group: 'test' as const, recipients: 10, sent: 10, tracked: 10, opened: 4, clicked: 1 },
+    { variant: 'B' as const, group: 'test' as const, recipients: 10, sent: 10, tracked: 10, opened: 4, clicked: 2 },
+  ];
+
+  it('picks the best rate for the metric, ties going to the earliest variant', () => {
+    expect(abTests.pickWinner(['A', 'B'], groups, 'open')).toBe('A');
+    expect(abTests.pickWinner(['A', 'B'], groups, 'click')).toBe('B');
+    expect(abTests.pickWinner(['A', 'B'], [], 'open')).toBe('A');
+  });
+});
+
+describe('decideAbTestIfDue', () => {
+  it('waits until the configured time has passed', async () => {
+    await expect(
+      abTests.decideAbTestIfDue(newsletter, new Date('2026-10-19T11:59:00Z')),
+    ).resolves.toBeNull();
+    expect(mockSendCount).not.toHaveBeenCalled();
+  });
+
+  it('waits for the test slice to finish sending', async () => {
+    mockSendCount.mockResolvedValueOnce(3);
+
+    await expect(abTests.decideAbTestIfDue(newsletter, afterWait)).resolves.toBeNull();
+    expect(mockNewsletterUpdateMany).not.toHaveBeenCalled();
+  });
+
+  it('records the winner and releases the held rows with its subject', async () => {
+    mockTestResults();
+
+    await expect(abTests.decideAbTestIfDue(newsletter, afterWait)).resolves.toBe('B');
+
+    expect(mockNewsletterUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'nl-1', abWinner: null },
+      data: { abWinner: 'B', abDecidedAt: afterWait },
+    });
+    expect(mockSendUpdateMany).toHaveBeenCalledWith({
+      where: { newsletterId: 'nl-1', status: 'held' },
+      data: { status: 'pending', variant: 'B' },
+    });
+    expect(mockAuditLogCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        newsletterId: 'nl-1',
+        action: 'ab_test_decided',
+        details: expect.objectContaining({ winner: 'B', metric: 'open', released: 240 }),
+      }),
+    });
+  });
+
+  it('uses the click rate when configured', async () => {
+    mockTestResults();
+
+    await expect(
+      abTests.decideAbTestIfDue({ ...newsletter, abTest: { ...abTest, winner_metric: 'click' } }, afterWait),
+    ).resolves.toBe('C');
+  });
+
+  it('leaves the held rows alone when another run decided first', async () => {
+    mockTestResults();
+    mockNewsletterUpdateMany.mockResolvedValueOnce({ count: 0 });
+
+    await expect(abTests.decideAbTestIfDue(newsletter, afterWait)).resolves.toBeNull();
+    expect(mockSendUpdateMany).not.toHaveBeenCalled();
+    expect(mockAuditLogCreate).not.toHaveBeenCalled();
+  });
+});
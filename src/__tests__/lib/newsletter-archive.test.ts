@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, beforeAll, jest } from '@jest/globals';
+import { createSignedToken } from '@/lib/signed-tokens';
+
+type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
+  (...args: Args) => Promise<Return>
+>;
+
+const mockNewsletterFindFirst: AsyncMock = jest.fn();
+const mockNewsletterFindMany: AsyncMock = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    newsletter: {
+      findFirst: mockNewsletterFindFirst,
+      findMany: mockNewsletterFindMany,
+    },
+  },
+}));
+
+let archive: typeof import('@/lib/newsletter-archive');
+
+beforeAll(async () => {
+  archive = await import('@/lib/newsletter-archive');
+});
+
+const sentAt = new Date('2026-10-01T09:00:00Z');
+
+const issue = (overrides: Record<string, unknown> = {}) => ({
+  id: 'nl-1',
+  subject: 'October update',
+  content: '<p>Hi {name},</p><script>alert(1)</script><p>News.</p>',
+  status: 'sent',
+  sentAt,
+  showInArchive: true,
+  ...overrides,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('getArchivedNewsletter', () => {
+  it('shows an archived issue to anyone, sanitised and without personal details', async () => {
+    mockNewsletterFindFirst.mockResolvedValue(issue());
+
+    const result = await archive.getArchivedNewsletter('nl-1');
+
+    expect(mockNewsletterFindFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'nl-1', status: { in: ['sending', 'sent'] } } }),
+    );
+    expect(result).toEqual({ id: 'nl-1', subject: 'October update', html: expect.any(String), sentAt });
+    expect(result?.html).toContain('Hi there,');
+    expect(result?.html).not.toContain('<script');
+  });
+
+  it('only shows issues outside the archive with a view in browser token for that issue', async () => {
+    mockNewsletterFindFirst.mockResolvedValue(issue({ showInArchive: false }));
+
+    await expect(archive.getArchivedNewsletter('nl-1')).resolves.toBeNull();
+    await expect(
+      archive.getArchivedNewsletter('nl-1', createSignedToken('view_newsletter', 'nl-2')),
+    ).resolves.toBeNull();
+    await expect(
+      archive.getArchivedNewsletter('nl-1', createSignedToken('unsubscribe', 'nl-1')),
+    ).resolves.toBeNull();
+
+    const url = archive.createViewInBrowserUrl('https://example.com', 'nl-1');
+    const token = new URL(url).searchParams.get('t');
+    expect(url.startsWith('https://example.com/newsletter/archive/nl-1?t=')).toBe(true);
+    await expect(archive.getArchivedNewsletter('nl-1', token)).resolves.toEqual(
+      expect.objectContaining({ id: 'nl-1' }),
+    );
+  });
+
+  it('needs a token while the issue is still being sent', async () => {
+    mockNewsletterFindFirst.mockResolvedValue(issue({ status: 'sending', sentAt: null }));
+
+    await expect(archive.getArchivedNewsletter('nl-1')).resolves.toBeNull();
+    await expect(
+      archive.getArchivedNewsletter('nl-1', createSignedToken('view_newsletter', 'nl-1')),
+    ).resolves.toEqual(expect.objectContaining({ sentAt: null }));
+  });
+
+  it('returns null for drafts and unknown ids', async () => {
+    mockNewsletterFindFirst.mockResolvedValue(null);
+
+    await expect(
+      archive.getArchivedNewsletter('nl-1', createSignedToken('view_newsletter', 'nl-1')),
+    ).resolves.toBeNull();
+  });
+});
+
+describe('listArchivedNewsletters', () => {
+  it('lists archived issues newest first with a plain-text excerpt', async () => {
+    mockNewsletterFindMany.mockResolvedValue([issue({ content: `<p>Hi {name}, ${'word '.repeat(60)}</p>` })]);
+
+    const [summary] = await archive.listArchivedNewsletters();
+
+    expect(mockNewsletterFindMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { status: 'sent', showInArchive: true, sentAt: { not: null } },
+      orderBy: { sentAt: 'desc' },
+    }));
+    expect(summary.id).toBe('nl-1');
+    expect(summary.sentAt).toBe(sentAt);
+    expect(summary.excerpt.startsWith('Hi there, word word')).toBe(true);
+    expect(summary.excerpt.endsWith('…')).toBe(true);
+    expect(summary.excerpt.length).toBeLessThanOrEqual(201);
+  });
+});
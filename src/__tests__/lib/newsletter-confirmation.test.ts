@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, beforeAll, jest } from '@jest/globals';
+
+type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
+  (...args: Args) => Promise<Return>
+>;
+
+const mockSubscriberFindUnique: AsyncMock = jest.fn();
+const mockSubscriberUpdateMany: AsyncMock = jest.fn();
+const mockSubscriberDeleteMany: AsyncMock = jest.fn();
+const mockAuditCreate: AsyncMock = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    newsletterSubscriber: {
+      findUnique: mockSubscriberFindUnique,
+      updateMany: mockSubscriberUpdateMany,
+      deleteMany: mockSubscriberDeleteMany,
+    },
+    newsletterAuditLog: {
+      create: mockAuditCreate,
+    },
+  },
+}));
+
+const mockSendWelcomeEmail: AsyncMock = jest.fn();
+const mockSendAdminNotification: AsyncMock = jest.fn();
+
+jest.mock('@/lib/resend', () => ({
+  sendWelcomeEmail: mockSendWelcomeEmail,
+  sendAdminNotification: mockSendAdminNotification,
+}));
+
+type ConfirmationModule = typeof import('@/lib/newsletter-confirmation');
+let createConfirmationToken: ConfirmationModule['createConfirmationToken'];
+let confirmSubscription: ConfirmationModule['confirmSubscription'];
+let cleanupUnconfirmedSubscribers: ConfirmationModule['cleanupUnconfirmedSubscribers'];
+let CONFIRMATION_TTL_MS: number;
+
+beforeAll(async () => {
+  ({ createConfirmationToken, confirmSubscription, cleanupUnconfirmedSubscribers, CONFIRMATION_TTL_MS } =
+    await import('@/lib/newsletter-confirmation'));
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockSubscriberUpdateMany.mockResolvedValue({ count: 1 });
+  mockSubscriberDeleteMany.mockResolvedValue({ count: 0 });
+  mockAuditCreate.mockResolvedValue({});
+  mockSendWelcomeEmail.mockResolvedValue(undefined);
+  mockSendAdminNotification.mockResolvedValue(undefined);
+});
+
+const pendingSubscriber = (overrides: Record<string, unknown> = {}) => ({
+  id: 'sub-1',
+  email: 'ada@example.com',
+  name: 'Ada',
+  isSubscribed: false,
+  isDeleted: false,
+  confirmedAt: null,
+  confirmationSentAt: new Date(),
+  ...overrides,
+});
+
+describe('confirmSubscription', () => {
+  it('activates a pending subscriber and sends the welcome email', async () => {
+    mockSubscriberFindUnique.mockResolvedValueOnce(pendingSubscriber());
+
+    const result = await confirmSubscription(createConfirmationToken('sub-1'), { ipAddress: '1.2.3.4' });
+
+    expect(result).toEqual({ status: 'confirmed', email: 'ada@example.com' });
+    expect(mockSubscriberUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'sub-1', confirmationSentAt: { not: null } },
+      data: expect.objectContaining({
+        isSubscribed: true,
+        confirmedAt: expect.any(Date),
+        confirmationSentAt: null,
+      }),
+    });
+    expect(mockAuditCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ subscriberId: 'sub-1', action: 'subscribed', ipAddress: '1.2.3.4' }),
+    });
+    expect(mockSendWelcomeEmail).toHaveBeenCalledWith('ada@example.com', 'Ada', expect.any(String), expect.any(String));
+    expect(mockSendAdminNotification).toHaveBeenCalled();
+  });
+
+  it('counts a confirmed re-subscription', async () => {
+    mockSubscriberFindUnique.mockResolvedValueOnce(pendingSubscriber({ confirmedAt: new Date('2025-01-01') }));
+
+    await confirmSubscription(createConfirmationToken('sub-1'));
+
+    const { data } = mockSubscriberUpdateMany.mock.calls[0][0] as { data: Record<string, unknown> };
+    expect(data.subscriptionCount).toEqual({ increment: 1 });
+  });
+
+  it('does not confirm twice when the link is reused', async () => {
+    mockSubscriberFindUnique.mockResolvedValueOnce(
+      pendingSubscriber({ isSubscribed: true, confirmedAt: new Date(), confirmationSentAt: null }),
+    );
+
+    const result = await confirmSubscription(createConfirmationToken('sub-1'));
+
+    expect(result).toEqual({ status: 'already_confirmed', email: 'ada@example.com' });
+    expect(mockSubscriberUpdateMany).not.toHaveBeenCalled();
+    expect(mockSendWelcomeEmail).not.toHaveBeenCalled();
+  });
+
+  it('rejects expired and tampered tokens without touching the database', async () => {
+    const expired = createConfirmationToken('sub-1', new Date(Date.now() - CONFIRMATION_TTL_MS - 1000));
+    const [payload, signature] = createConfirmationToken('sub-1').split('.');
+    const tampered = `${Buffer.from(JSON.stringify({ p: 'confirm_subscription', s: 'sub-2', e: null })).toString('base64url')}.${signature}`;
+
+    expect(await confirmSubscription(expired)).toEqual({ status: 'expired' });
+    expect(await confirmSubscription(tampered)).toEqual({ status: 'invalid' });
+    expect(await confirmSubscription(payload)).toEqual({ status: 'invalid' });
+    expect(mockSubscriberFindUnique).not.toHaveBeenCalled();
+  });
+});
+
+describe('cleanupUnconfirmedSubscribers', () => {
+  it('deletes sign-ups whose confirmation window has passed', async () => {
+    const now = new Date('2026-10-19T12:00:00.000Z');
+    mockSubscriberDeleteMany.mockResolvedValueOnce({ count: 3 });
+    mockSubscriberUpdateMany.mockResolvedValueOnce({ count: 1 });
+
+    const result = await cleanupUnconfirmedSubscribers(now);
+
+    const cutoff = new Date(now.getTime() - CONFIRMATION_TTL_MS);
+    expect(result).toEqual({ deleted: 3, expired: 1 });
+    expect(mockSubscriberDeleteMany).toHaveBeenCalledWith({
+      where: { confirmedAt: null, isSubscribed: false, confirmationSentAt: { lt: cutoff } },
+    });
+    expect(mockSubscriberUpdateMany).toHaveBeenCalledWith({
+      where: { confirmedAt: { not: null }, confirmationSentAt: { lt: cutoff } },
+      data: { confirmationSentAt: null },
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, beforeAll, jest } from '@jest/globals';
+
+type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
+  (...args: Args) => Promise<Return>
+>;
+
+const mockSubscriberFindMany: AsyncMock = jest.fn();
+const mockSubscriberUpdateMany: AsyncMock = jest.fn();
+const mockBlogPostFindMany: AsyncMock = jest.fn();
+const mockProjectFindMany: AsyncMock = jest.fn();
+const mockDeliveryFindMany: AsyncMock = jest.fn();
+const mockDeliveryCreateMany: AsyncMock = jest.fn();
+const mockNewsletterCreate: AsyncMock = jest.fn();
+const mockSendCreateMany: AsyncMock = jest.fn();
+
+jest.mock('@/lib/db', () => {
+  const mockDb: Record<string, unknown> = {
+    newsletterSubscriber: { findMany: mockSubscriberFindMany, updateMany: mockSubscriberUpdateMany },
+    blogPost: { findMany: mockBlogPostFindMany },
+    project: { findMany: mockProjectFindMany },
+    digestDelivery: { findMany: mockDeliveryFindMany, createMany: mockDeliveryCreateMany },
+    newsletter: { create: mockNewsletterCreate },
+    newsletterSend: { createMany: mockSendCreateMany },
+  };
+  mockDb.$transaction = (fn: (tx: unknown) => Promise<unknown>) => fn(mockDb);
+  return { db: mockDb };
+});
+
+let digest: typeof import('@/lib/newsletter-digest');
+
+beforeAll(async () => {
+  digest = await import('@/lib/newsletter-digest');
+});
+
+const now = new Date('2026-10-19T09:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+const subscriber = (id: string, preferences: unknown, lastDigestAt: Date | null) => ({
+  id,
+  preferences,
+  confirmedAt: daysAgo(60),
+  lastDigestAt,
+});
+
+const post = {
+  id: 'post-1',
+  title: 'Serverless <pipelines>',
+  slug: 'serverless-pipelines',
+  excerpt: 'Moving ETL to Lambda',
+  tags: ['Technology'],
+  publishedAt: daysAgo(3),
+};
+
+const project = {
+  id: 'project-1',
+  title: 'Portfolio redesign',
+  slug: 'portfolio-redesign',
+  excerpt: null,
+  technologies: ['design', 'Next.js'],
+  publishedAt: daysAgo(1),
+};
+
+let newsletterCount = 0;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  newsletterCount = 0;
+  process.env.NEXT_PUBLIC_BASE_URL = 'https://example.com';
+
+  mockSubscriberFindMany.mockResolvedValue([]);
+  mockSubscriberUpdateMany.mockResolvedValue({ count: 1 });
+  mockBlogPostFindMany.mockResolvedValue([post]);
+  mockProjectFindMany.mockResolvedValue([project]);
+  mockDeliveryFindMany.mockResolvedValue([]);
+  mockDeliveryCreateMany.mockResolvedValue({ count: 1 });
+  mockNewsletterCreate.mockImplementation(async () => ({ id: `digest-${++newsletterCount}` }));
+  mockSendCreateMany.mockResolvedValue({ count: 1 });
+});
+
+describe('digest cadence', () => {
+  it('reads the frequency from preferences, defaulting to weekly', () => {
+    expect(digest.getDigestFrequency({ frequency: 'daily', categories: [] })).toBe('daily');
+    expect(digest.getDigestFrequency({ frequency: 'hourly' })).toBe('weekly');
+    expect(digest.getDigestFrequency(null)).toBe('weekly');
+  });
+
+  it('is due a period after the last digest, allowing for a slightly early run', () => {
+    expect(digest.getDigestDueBefore('daily', now)).toEqual(new Date('2026-10-18T10:00:00Z'));
+    expect(digest.getDigestDueBefore('weekly', now)).toEqual(new Date('2026-10-12T10:00:00Z'));
+    expect(digest.getDigestDueBefore('monthly', now)).toEqual(new Date('2026-09-19T10:00:00Z'));
+  });
+
+  it('matches categories against tags case-insensitively, and everything without categories', () => {
+    expect(digest.matchesCategories({ tags: ['design'] }, ['Design'])).toBe(true);
+    expect(digest.matchesCategories({ tags: ['Technology'] }, ['Design'])).toBe(false);
+    expect(digest.matchesCategories({ tags: [] }, [])).toBe(true);
+  });
+});
+
+describe('generateDigests', () => {
+  it('queues each due subscriber the new items in their categories that they have not received', async () => {
+    mockSubscriberFindMany.mockResolvedValueOnce([
+      subscriber('sub-all', { frequency: 'weekly', categories: [] }, daysAgo(8)),
+      subscriber('sub-design', { frequency: 'weekly', categories: ['Design'] }, daysAgo(8)),
+      subscriber('sub-daily', { frequency: 'daily', categories: [] }, daysAgo(0.1)),
+    ]);
+    mockDeliveryFindMany.mockResolvedValueOnce([
+      { subscriberId: 'sub-all', itemType: 'project', itemId: 'project-1' },
+    ]);
+
+    const result = await digest.generateDigests(now);
+
+    expect(result).toEqual({ due: 2, queued: 2, newsletters: ['digest-1', 'digest-2'] });
+    expect(mockBlogPostFindMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ publishedAt: { gte: daysAgo(8), lte: now } }),
+    }));
+
+    expect(mockNewsletterCreate).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      data: expect.objectContaining({
+        subject: 'Weekly digest: Serverless <pipelines>',
+        kind: 'digest',
+        status: 'sending',
+        queuedAt: now,
+      }),
+    }));
+    const { content } = (mockNewsletterCreate.mock.calls[0][0] as { data: { content: string } }).data;
+    expect(content).toContain('Hi {name},');
+    expect(content).toContain('href="https://example.com/blog/serverless-pipelines"');
+    expect(content).toContain('Serverless &lt;pipelines&gt;');
+    expect(content).not.toContain('New projects');
+
+    expect(mockSendCreateMany).toHaveBeenCalledWith({
+      data: [{ newsletterId: 'digest-1', subscriberId: 'sub-all', status: 'pending' }],
+    });
+    expect(mockDeliveryCreateMany).toHaveBeenCalledWith({
+      data: [{ subscriberId: 'sub-all', newsletterId: 'digest-1', itemType: 'blog_post', itemId: 'post-1' }],
+    });
+    expect(mockDeliveryCreateMany).toHaveBeenCalledWith({
+      data: [{ subscriberId: 'sub-design', newsletterId: 'digest-2', itemType: 'project', itemId: 'project-1' }],
+    });
+    expect(mockSubscriberUpdateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['sub-design'] } },
+      data: { lastDigestAt: now },
+    });
+  });
+
+  it('sends subscribers due the same items one newsletter', async () => {
+    mockSubscriberFindMany.mockResolvedValueOnce([
+      subscriber('sub-1', { frequency: 'monthly' }, daysAgo(40)),
+      subscriber('sub-2', { frequency: 'monthly' }, daysAgo(31)),
+    ]);
+
+    const result = await digest.generateDigests(now);
+
+    expect(result.newsletters).toEqual(['digest-1']);
+    expect(mockNewsletterCreate).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ subject: 'Monthly digest: Serverless <pipelines> and 1 more' }),
+    }));
+    expect(mockSendCreateMany).toHaveBeenCalledWith({
+      data: [
+        { newsletterId: 'digest-1', subscriberId: 'sub-1', status: 'pending' },
+        { newsletterId: 'digest-1', subscriberId: 'sub-2', status: 'pending' },
+      ],
+    });
+  });
+
+  it('starts a new period without an email when there is nothing new', async () => {
+    mockSubscriberFindMany.mockResolvedValueOnce([
+      subscriber('sub-1', { frequency: 'weekly', categories: ['Marketing'] }, daysAgo(7)),
+    ]);
+
+    const result = await digest.generateDigests(now);
+
+    expect(result).toEqual({ due: 1, queued: 0, newsletters: [] });
+    expect(mockNewsletterCreate).not.toHaveBeenCalled();
+    expect(mockSubscriberUpdateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['sub-1'] } },
+      data: { lastDigestAt: now },
+    });
+  });
+
+  it('limits the first digest of a long-standing subscriber to one period', async () => {
+    mockSubscriberFindMany.mockResolvedValueOnce([
+      { ...subscriber('sub-old', { frequency: 'weekly' }, null), confirmedAt: new Date('2023-02-01T00:00:00Z') },
+      { ...subscriber('sub-new', { frequency: 'weekly' }, null), confirmedAt: daysAgo(3) },
+    ]);
+
+    const result = await digest.generateDigests(now);
+
+    expect(result.due).toBe(1);
+    expect(mockBlogPostFindMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ publishedAt: { gte: daysAgo(7), lte: now } }),
+    }));
+    expect(mockSendCreateMany).toHaveBeenCalledWith({
+      data: [{ newsletterId: 'digest-1', subscriberId: 'sub-old', status: 'pending' }],
+    });
+  });
+
+  it('leaves a digest that fails to queue for the next run', async () => {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockSubscriberFindMany.mockResolvedValueOnce([subscriber('sub-1', { frequency: 'weekly' }, daysAgo(7))]);
+    mockDeliveryCreateMany.mockRejectedValueOnce(Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }));
+
+    const result = await digest.generateDigests(now);
+
+    expect(result).toEqual({ due: 1, queued: 0, newsletters: [] });
+    expect(mockSubscriberUpdateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, beforeAll, jest } from '@jest/globals';
+import { MemoryTransport, setMailTransport } from '@/lib/mail-transport';
+
+type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
+  (...args: Args) => Promise<Return>
+>;
+
+const mockSubscriberFindFirst: AsyncMock = jest.fn();
+const mockSuppressionFindMany: AsyncMock = jest.fn();
+const mockSkippedEmailCreate: AsyncMock = jest.fn();
+const mockTemplateFindMany: AsyncMock = jest.fn();
+const mockProfileFindMany: AsyncMock = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    newsletterSubscriber: {
+      findFirst: mockSubscriberFindFirst,
+    },
+    emailSuppression: {
+      findMany: mockSuppressionFindMany,
+    },
+    skippedEmail: {
+      create: mockSkippedEmailCreate,
+    },
+    emailTemplate: {
+      findMany: mockTemplateFindMany,
+    },
+    profile: {
+      findMany: mockProfileFindMany,
+    },
+  },
+}));
+
+type PreviewModule = typeof import('@/lib/newsletter-preview');
+let previewNewsletter: PreviewModule['previewNewsletter'];
+let sendNewsletterTest: PreviewModule['sendNewsletterTest'];
+let SubscriberNotFoundError: PreviewModule['SubscriberNotFoundError'];
+let TestRecipientNotAllowedError: PreviewModule['TestRecipientNotAllowedError'];
+let resolveSubscriberLinkToken: typeof import('@/lib/subscriber-links')['resolveSubscriberLinkToken'];
+
+const transport = new MemoryTransport();
+
+const newsletter = {
+  subject: 'October update',
+  content: '<p>Hi {name}, <a href="https://example.com/post">read the post</a></p>',
+};
+
+const unsubscribeToken = (html: string) => {
+  const match = html.match(/unsubscribe\?token=([^"]+)"/);
+  if (!match) throw new Error('No unsubscribe link in the email');
+  return decodeURIComponent(match[1]);
+};
+
+beforeAll(async () => {
+  setMailTransport(transport);
+  ({ previewNewsletter, sendNewsletterTest, SubscriberNotFoundError, TestRecipientNotAllowedError } = await import(
+    '@/lib/newsletter-preview'
+  ));
+  ({ resolveSubscriberLinkToken } = await import('@/lib/subscriber-links'));
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  transport.clear();
+  process.env.NEXT_PUBLIC_BASE_URL = 'https://example.com';
+  process.env.RESEND_FROM_EMAIL = 'newsletter@example.com';
+
+  mockSubscriberFindFirst.mockResolvedValue({ id: 'sub-1', email: 'reader@example.com', name: 'Reader' });
+  mockSuppressionFindMany.mockResolvedValue([]);
+  mockSkippedEmailCreate.mockResolvedValue({});
+  mockTemplateFindMany.mockResolvedValue([]);
+  // Every address is an admin unless a test says otherwise
+  mockProfileFindMany.mockImplementation(async (args: any) =>
+    args.where.email.in.map((email: string) => ({ email, role: 'editor' })),
+  );
+});
+
+describe('previewNewsletter', () => {
+  it('renders the personalised email with the subscriber\'s own links and no tracking', async () => {
+    const preview = await previewNewsletter(newsletter, 'Reader@Example.com');
+
+    expect(mockSubscriberFindFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { email: 'reader@example.com', isDeleted: false } }),
+    );
+    expect(preview.recipient).toEqual({ email: 'reader@example.com', name: 'Reader' });
+    expect(preview.subject).toBe('October update');
+    expect(preview.html).toContain('Hi Reader,');
+    expect(preview.html).toContain('href="https://example.com/post"');
+    expect(preview.html).not.toContain('/api/newsletter/track/');
+    expect(preview.text).toContain('Hi Reader,');
+    expect(preview.text).toContain('To unsubscribe, visit: https://example.com/unsubscribe?token=');
+
+    await expect(resolveSubscriberLinkToken('unsubscribe', unsubscribeToken(preview.html))).resolves.toBe('sub-1');
+  });
+
+  it('uses a sample recipient when no subscriber is chosen', async () => {
+    const preview = await previewNewsletter(newsletter);
+
+    expect(mockSubscriberFindFirst).not.toHaveBeenCalled();
+    expect(preview.recipient).toBeNull();
+    expect(preview.html).toContain('Hi there,');
+  });
+
+  it('fails for an unknown subscriber', async () => {
+    mockSubscriberFindFirst.mockResolvedValue(null);
+
+    await expect(previewNewsletter(newsletter, 'nobody@example.com')).rejects.toBeInstanceOf(SubscriberNotFoundError);
+  });
+});
+
+describe('sendNewsletterTest', () => {
+  it('mails the rendered preview to each address once, without unsubscribe headers', async () => {
+    const result = await sendNewsletterTest(
+      newsletter,
+      ['admin@example.com', 'editor@example.com', 'admin@example.com'],
+      'reader@example.com',
+    );
+
+    expect(result).toEqual({ sent: ['admin@example.com', 'editor@example.com'], skipped: [], failed: [] });
+    expect(transport.outbox).toHaveLength(2);
+
+    const [message] = transport.outbox;
+    const preview = await previewNewsletter(newsletter, 'reader@example.com', { sampleLinks: true });
+    expect(message).toEqual(expect.objectContaining({
+      to: 'admin@example.com',
+      subject: preview.subject,
+      html: preview.html,
+      text: preview.text,
+      headers: { 'X-Newsletter-Test': 'true' },
+    }));
+  });
+
+  it('personalises the test but never includes the subscriber\'s own links', async () => {
+    await sendNewsletterTest(newsletter, ['admin@example.com'], 'reader@example.com');
+
+    const [message] = transport.outbox;
+    expect(message.html).toContain('Hi Reader,');
+    await expect(resolveSubscriberLinkToken('unsubscribe', unsubscribeToken(message.html))).resolves.toBe('preview');
+  });
+
+  it('refuses addresses that are not admin accounts', async () => {
+    mockProfileFindMany.mockResolvedValue([
+      { email: 'Admin@Example.com', role: 'owner' },
+      { email: 'former@example.com', role: 'user' },
+    ]);
+
+    await expect(
+      sendNewsletterTest(newsletter, ['admin@example.com', 'outsider@example.com', 'former@example.com']),
+    ).rejects.toThrow(new TestRecipientNotAllowedError(['outsider@example.com', 'former@example.com']));
+    expect(transport.outbox).toHaveLength(0);
+  });
+
+  it('skips suppressed addresses and reports failures', async () => {
+    mockSuppressionFindMany.mockImplementation(async (args: any) =>
+      args.where.value.in.includes('blocked@example.com')
+        ? [{ id: 'sup-1', value: 'blocked@example.com', type: 'email', reason: 'manual', expiresAt: null }]
+        : [],
+    );
+    jest.spyOn(transport, 'send').mockResolvedValueOnce({
+      id: null,
+      error: { name: 'validation_error', message: 'Invalid recipient', transient: false },
+    });
+
+    const result = await sendNewsletterTest(newsletter, ['broken@example.com', 'blocked@example.com']);
+
+    expect(result).toEqual({
+      sent: [],
+      skipped: ['blocked@example.com'],
+      failed: [{ email: 'broken@example.com', error: 'Invalid recipient' }],
+    });
+    expect(mockSkippedEmailCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ email: 'blocked@example.com', category: 'newsletter_test' }),
+    });
+  });
+});
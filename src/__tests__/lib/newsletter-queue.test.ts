@@ -0,0 +1,399 @@
+import { describe, it, expect, beforeEach, beforeAll, jest } from '@jest/globals';
+import { MemoryTransport, setMailTransport } from '@/lib/mail-transport';
+
+type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
+  (...args: Args) => Promise<Return>
+>;
+
+const mockSubscriberFindMany: AsyncMock = jest.fn();
+const mockSubscriberUpdate: AsyncMock = jest.fn();
+const mockSubscriberCount: AsyncMock = jest.fn();
+const mockNewsletterFindUnique: AsyncMock = jest.fn();
+const mockNewsletterFindMany: AsyncMock = jest.fn();
+const mockNewsletterUpdate: AsyncMock = jest.fn();
+const mockNewsletterUpdateMany: AsyncMock = jest.fn();
+const mockSendCreateMany: AsyncMock = jest.fn();
+const mockSendFindMany: AsyncMock = jest.fn();
+const mockSendUpdateMany: AsyncMock = jest.fn();
+const mockSendUpdate: AsyncMock = jest.fn();
+const mockSendGroupBy: AsyncMock = jest.fn();
+
+const mockSuppressionFindMany: AsyncMock = jest.fn();
+const mockSkippedEmailCreate: AsyncMock = jest.fn();
+const mockTemplateFindMany: AsyncMock = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    newsletterSubscriber: {
+      findMany: mockSubscriberFindMany,
+      update: mockSubscriberUpdate,
+      count: mockSubscriberCount,
+    },
+    newsletter: {
+      findUnique: mockNewsletterFindUnique,
+      findMany: mockNewsletterFindMany,
+      update: mockNewsletterUpdate,
+      updateMany: mockNewsletterUpdateMany,
+    },
+    newsletterSend: {
+      createMany: mockSendCreateMany,
+      findMany: mockSendFindMany,
+      updateMany: mockSendUpdateMany,
+      update: mockSendUpdate,
+      groupBy: mockSendGroupBy,
+    },
+    emailSuppression: {
+      findMany: mockSuppressionFindMany,
+    },
+    skippedEmail: {
+      create: mockSkippedEmailCreate,
+    },
+    emailTemplate: {
+      findMany: mockTemplateFindMany,
+    },
+  },
+}));
+
+// Messages are delivered to an in-memory outbox; the spy lets tests inject failures
+const transport = new MemoryTransport();
+const mockEmailSend = jest.spyOn(transport, 'send');
+
+type QueueModule = typeof import('@/lib/newsletter-queue');
+let enqueueNewsletter: QueueModule['enqueueNewsletter'];
+let startNewsletterSend: QueueModule['startNewsletterSend'];
+let processNewsletterQueue: QueueModule['processNewsletterQueue'];
+let getRetryDelay: QueueModule['getRetryDelay'];
+
+beforeAll(async () => {
+  setMailTransport(transport);
+  ({ enqueueNewsletter, startNewsletterSend, processNewsletterQueue, getRetryDelay } =
+    await import('@/lib/newsletter-queue'));
+});
+
+const subscriber = {
+  id: 'sub-1',
+  email: 'reader@example.com',
+  name: 'Reader',
+  isSubscribed: true,
+  isDeleted: false,
+};
+
+function queueRow(overrides: Record<string, unknown> = {}) {
+  return { id: 'send-1', newsletterId: 'nl-1', subscriberId: 'sub-1', attempts: 1, subscriber, ...overrides };
+}
+
+// First findMany call lists candidates, second loads the claimed rows, third finds nothing left
+function mockSingleBatch(row: ReturnType<typeof queueRow>) {
+  mockSendFindMany
+    .mockResolvedValueOnce([{ id: row.id }])
+    .mockResolvedValueOnce([row])
+    .mockResolvedValueOnce([]);
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockSendFindMany.mockReset();
+
+  mockNewsletterFindUnique.mockResolvedValue({
+    id: 'nl-1',
+    subject: 'Hello {name}',
+    content: '<p>Hi {name}</p>',
+    status: 'sending',
+    queuedAt: new Date(),
+  });
+  mockNewsletterUpdate.mockResolvedValue({});
+  mockNewsletterUpdateMany.mockResolvedValue({ count: 1 });
+  mockSendUpdateMany.mockResolvedValue({ count: 1 });
+  mockSendUpdate.mockResolvedValue({});
+  mockSendGroupBy.mockResolvedValue([]);
+  transport.clear();
+  mockSuppressionFindMany.mockResolvedValue([]);
+  mockSkippedEmailCreate.mockResolvedValue({});
+  mockTemplateFindMany.mockResolvedValue([]);
+});
+
+describe('enqueueNewsletter', () => {
+  it('creates pending rows and skips duplicates', async () => {
+    mockSubscriberFindMany.mockResolvedValueOnce([{ id: 'sub-1' }, { id: 'sub-2' }]);
+    mockSendCreateMany.mockResolvedValueOnce({ count: 1 });
+
+    const queued = await enqueueNewsletter('nl-1');
+
+    expect(queued).toBe(1);
+    expect(mockSendCreateMany).toHaveBeenCalledWith({
+      data: [
+        { newsletterId: 'nl-1', subscriberId: 'sub-1', status: 'pending' },
+        { newsletterId: 'nl-1', subscriberId: 'sub-2', status: 'pending' },
+      ],
+      skipDuplicates: true,
+    });
+  });
+
+  it('only queues subscribers matching the audience segment', async () => {
+    mockNewsletterFindUnique.mockResolvedValueOnce({ segment: { frequencies: ['daily'] } });
+    mockSubscriberFindMany.mockResolvedValueOnce([]);
+
+    await enqueueNewsletter('nl-1');
+
+    expect(mockSubscriberFindMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: {
+        isSubscribed: true,
+        isDeleted: false,
+        confirmedAt: { not: null },
+        AND: [{ OR: [{ preferences: { path: ['frequency'], equals: 'daily' } }] }],
+      },
+    }));
+  });
+
+  it('sends a subject test slice straight away and holds everyone else', async () => {
+    const random = jest.spyOn(Math, 'random').mockReturnValue(0);
+    mockNewsletterFindUnique.mockResolvedValueOnce({
+      segment: null,
+      abTest: { subjects: ['Subject B'], test_percentage: 20, winner_metric: 'open', wait_hours: 4 },
+    });
+    mockSubscriberCount.mockResolvedValueOnce(3);
+    mockSubscriberFindMany.mockResolvedValueOnce([{ id: 'sub-1' }, { id: 'sub-2' }, { id: 'sub-3' }]);
+    mockSendCreateMany.mockResolvedValueOnce({ count: 3 });
+
+    await enqueueNewsletter('nl-1');
+    random.mockRestore();
+
+    expect(mockSendCreateMany).toHaveBeenCalledWith({
+      data: [
+        { newsletterId: 'nl-1', subscriberId: 'sub-1', status: 'pending', variant: 'A', abTestGroup: true },
+        { newsletterId: 'nl-1', subscriberId: 'sub-2', status: 'pending', variant: 'B', abTestGroup: true },
+        { newsletterId: 'nl-1', subscriberId: 'sub-3', status: 'held' },
+      ],
+      skipDuplicates: true,
+    });
+  });
+});
+
+describe('startNewsletterSend', () => {
+  it('does nothing for a newsletter that was already sent', async () => {
+    mockNewsletterFindUnique.mockResolvedValueOnce({ id: 'nl-1', status: 'sent', queuedAt: new Date() });
+
+    await expect(startNewsletterSend('nl-1')).resolves.toBe(false);
+    expect(mockNewsletterUpdate).not.toHaveBeenCalled();
+    expect(mockSendCreateMany).not.toHaveBeenCalled();
+  });
+
+  it('does not enqueue again when resuming a queued campaign', async () => {
+    await expect(startNewsletterSend('nl-1')).resolves.toBe(true);
+    expect(mockSendCreateMany).not.toHaveBeenCalled();
+  });
+
+  it('marks a draft as sending and builds the queue', async () => {
+    mockNewsletterFindUnique.mockResolvedValueOnce({ id: 'nl-1', status: 'draft', queuedAt: null });
+    mockSubscriberFindMany.mockResolvedValueOnce([]);
+
+    await startNewsletterSend('nl-1');
+
+    expect(mockNewsletterUpdate).toHaveBeenCalledWith({
+      where: { id: 'nl-1' },
+      data: { status: 'sending' },
+    });
+    expect(mockNewsletterUpdate).toHaveBeenCalledWith({
+      where: { id: 'nl-1' },
+      data: { queuedAt: expect.any(Date) },
+    });
+  });
+});
+
+describe('processNewsletterQueue', () => {
+  it('sends claimed rows with an idempotency key and marks them sent', async () => {
+    mockSingleBatch(queueRow());
+
+    await processNewsletterQueue('nl-1', { sendIntervalMs: 0 });
+
+    expect(transport.outbox).toEqual([
+      expect.objectContaining({
+        to: 'reader@example.com',
+        html: expect.stringContaining('Hi Reader'),
+        idempotencyKey: 'newsletter-send/send-1',
+      }),
+    ]);
+    expect(transport.outbox[0].html).toContain('/newsletter/archive/nl-1?t=');
+    expect(mockSendUpdate).toHaveBeenCalledWith({
+      where: { id: 'send-1' },
+      data: expect.objectContaining({ status: 'sent', messageId: transport.outbox[0].id }),
+    });
+  });
+
+  it('adds tracking only when the newsletter enables it and the subscriber allows it', async () => {
+    mockNewsletterFindUnique.mockResolvedValueOnce({
+      id: 'nl-1',
+      subject: 'Hello',
+      content: '<p><a href="https://example.com/post">Read</a></p>',
+      trackingEnabled: true,
+    });
+    mockSingleBatch(queueRow());
+
+    await processNewsletterQueue('nl-1', { sendIntervalMs: 0 });
+
+    const { html } = transport.outbox[0];
+    expect(html).toContain('/api/newsletter/track/click?t=');
+    expect(html).toContain('/api/newsletter/track/open?t=');
+    expect(html).not.toContain('href="https://example.com/post"');
+    expect(mockSendUpdate).toHaveBeenCalledWith({
+      where: { id: 'send-1' },
+      data: expect.objectContaining({ status: 'sent', tracked: true }),
+    });
+
+    jest.clearAllMocks();
+    transport.clear();
+    mockNewsletterFindUnique.mockResolvedValueOnce({
+      id: 'nl-1',
+      subject: 'Hello',
+      content: '<p><a href="https://example.com/post">Read</a></p>',
+      trackingEnabled: true,
+    });
+    mockSingleBatch(queueRow({ subscriber: { ...subscriber, preferences: { tracking: false } } }));
+
+    await processNewsletterQueue('nl-1', { sendIntervalMs: 0 });
+
+    const untracked = transport.outbox[0];
+    expect(untracked.html).toContain('href="https://example.com/post"');
+    expect(untracked.html).not.toContain('/api/newsletter/track/');
+    expect(mockSendUpdate).toHaveBeenCalledWith({
+      where: { id: 'send-1' },
+      data: expect.objectContaining({ status: 'sent', tracked: false }),
+    });
+  });
+
+  it('sends each row with the subject of its variant', async () => {
+    mockNewsletterFindUnique.mockResolvedValueOnce({
+      id: 'nl-1',
+      subject: 'Hello {name}',
+      content: '<p>Hi {name}</p>',
+      status: 'sending',
+      queuedAt: new Date(),
+      abTest: { subjects: ['Big news inside'], test_percentage: 20, winner_metric: 'open', wait_hours: 4 },
+      abWinner: 'B',
+    });
+    mockSingleBatch(queueRow({ variant: 'B' }));
+
+    await processNewsletterQueue('nl-1', { sendIntervalMs: 0 });
+
+    expect(transport.outbox).toEqual([expect.objectContaining({ subject: 'Big news inside' })]);
+  });
+
+  it('skips rows another worker claimed first', async () => {
+    mockSendFindMany.mockResolvedValueOnce([{ id: 'send-1' }]).mockResolvedValueOnce([]);
+    mockSendUpdateMany.mockResolvedValueOnce({ count: 0 });
+
+    await processNewsletterQueue('nl-1', { sendIntervalMs: 0 });
+
+    expect(mockEmailSend).not.toHaveBeenCalled();
+  });
+
+  it('reschedules transient failures with backoff', async () => {
+    mockSingleBatch(queueRow({ attempts: 2 }));
+    mockEmailSend.mockResolvedValueOnce({
+      id: null,
+      error: { name: 'rate_limit_exceeded', message: 'Too many requests', transient: true },
+    });
+
+    await processNewsletterQueue('nl-1', { sendIntervalMs: 0 });
+
+    expect(mockSendUpdate).toHaveBeenCalledWith({
+      where: { id: 'send-1' },
+      data: expect.objectContaining({
+        status: 'pending',
+        errorMessage: 'Too many requests',
+        nextAttemptAt: expect.any(Date),
+      }),
+    });
+  });
+
+  it('fails permanently on non-retryable errors', async () => {
+    mockSingleBatch(queueRow());
+    mockEmailSend.mockResolvedValueOnce({
+      id: null,
+      error: { name: 'validation_error', message: 'Invalid recipient', transient: false },
+    });
+
+    await processNewsletterQueue('nl-1', { sendIntervalMs: 0 });
+
+    expect(mockSendUpdate).toHaveBeenCalledWith({
+      where: { id: 'send-1' },
+      data: expect.objectContaining({ status: 'failed', errorMessage: 'Invalid recipient' }),
+    });
+  });
+
+  it('gives up on transient failures after the last attempt', async () => {
+    mockSingleBatch(queueRow({ attempts: 3 }));
+    mockEmailSend.mockRejectedValueOnce(new Error('socket hang up'));
+
+    await processNewsletterQueue('nl-1', { sendIntervalMs: 0, maxAttempts: 3 });
+
+    expect(mockSendUpdate).toHaveBeenCalledWith({
+      where: { id: 'send-1' },
+      data: expect.objectContaining({ status: 'failed', errorMessage: 'socket hang up' }),
+    });
+  });
+
+  it('skips subscribers who unsubscribed after the campaign was queued', async () => {
+    mockSingleBatch(queueRow({ subscriber: { ...subscriber, isSubscribed: false } }));
+
+    await processNewsletterQueue('nl-1', { sendIntervalMs: 0 });
+
+    expect(mockEmailSend).not.toHaveBeenCalled();
+    expect(mockSendUpdate).toHaveBeenCalledWith({
+      where: { id: 'send-1' },
+      data: expect.objectContaining({ status: 'skipped' }),
+    });
+  });
+
+  it('skips suppressed recipients and records why', async () => {
+    mockSingleBatch(queueRow());
+    mockSuppressionFindMany.mockResolvedValueOnce([
+      { id: 'sup-1', value: 'example.com', type: 'domain', reason: 'manual' },
+    ]);
+
+    await processNewsletterQueue('nl-1', { sendIntervalMs: 0 });
+
+    expect(mockEmailSend).not.toHaveBeenCalled();
+    expect(mockSkippedEmailCreate).toHaveBeenCalledWith({
+      data: { email: 'reader@example.com', category: 'newsletter', reason: 'manual', suppressionId: 'sup-1' },
+    });
+    expect(mockSendUpdate).toHaveBeenCalledWith({
+      where: { id: 'send-1' },
+      data: expect.objectContaining({ status: 'skipped', errorMessage: 'Recipient suppressed: manual' }),
+    });
+  });
+
+  it('marks the newsletter sent once the queue is drained', async () => {
+    mockSendFindMany.mockResolvedValueOnce([]);
+    mockSendGroupBy.mockResolvedValueOnce([
+      { status: 'sent', _count: { _all: 2 } },
+      { status: 'failed', _count: { _all: 1 } },
+    ]);
+
+    const progress = await processNewsletterQueue('nl-1', { sendIntervalMs: 0 });
+
+    expect(mockNewsletterUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'nl-1', status: 'sending' },
+      data: { status: 'sent', sentAt: expect.any(Date) },
+    });
+    expect(progress).toMatchObject({ status: 'sent', total: 3, sent: 2, failed: 1 });
+  });
+
+  it('keeps the newsletter sending while rows are still pending', async () => {
+    mockSendFindMany.mockResolvedValueOnce([]);
+    mockSendGroupBy.mockResolvedValueOnce([{ status: 'pending', _count: { _all: 1 } }]);
+
+    const progress = await processNewsletterQueue('nl-1', { sendIntervalMs: 0 });
+
+    expect(mockNewsletterUpdateMany).not.toHaveBeenCalled();
+    expect(progress.status).toBe('sending');
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('grows exponentially and is capped', () => {
+    expect(getRetryDelay(1)).toBe(30 * 1000);
+    expect(getRetryDelay(2)).toBe(60 * 1000);
+    expect(getRetryDelay(20)).toBe(60 * 60 * 1000);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, beforeAll, jest } from '@jest/globals';
+
+type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
+  (...args: Args) => Promise<Return>
+>;
+
+const mockFindMany: AsyncMock = jest.fn();
+const mockUpdateMany: AsyncMock = jest.fn();
+const mockAuditCreate: AsyncMock = jest.fn();
+const mockStartNewsletterSend: AsyncMock = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    newsletter: {
+      findMany: mockFindMany,
+      updateMany: mockUpdateMany,
+    },
+    newsletterAuditLog: {
+      create: mockAuditCreate,
+    },
+  },
+}));
+
+jest.mock('@/lib/newsletter-queue', () => ({
+  startNewsletterSend: mockStartNewsletterSend,
+}));
+
+type SchedulerModule = typeof import('@/lib/newsletter-scheduler');
+let dispatchDueNewsletters: SchedulerModule['dispatchDueNewsletters'];
+let getScheduleAction: SchedulerModule['getScheduleAction'];
+
+beforeAll(async () => {
+  ({ dispatchDueNewsletters, getScheduleAction } = await import('@/lib/newsletter-scheduler'));
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockAuditCreate.mockResolvedValue({});
+  mockStartNewsletterSend.mockResolvedValue(true);
+});
+
+describe('dispatchDueNewsletters', () => {
+  const now = new Date('2026-01-01T09:00:00Z');
+  const scheduledFor = new Date('2026-01-01T08:00:00Z');
+
+  it('claims due newsletters and hands them to the send queue', async () => {
+    mockFindMany.mockResolvedValueOnce([{ id: 'nl-1', scheduledFor }]);
+    mockUpdateMany.mockResolvedValueOnce({ count: 1 });
+
+    const dispatched = await dispatchDueNewsletters(now);
+
+    expect(dispatched).toEqual(['nl-1']);
+    expect(mockUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'nl-1', status: 'scheduled', scheduledFor: { lte: now } },
+      data: { status: 'sending' },
+    });
+    expect(mockStartNewsletterSend).toHaveBeenCalledWith('nl-1');
+    expect(mockAuditCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        newsletterId: 'nl-1',
+        action: 'newsletter_dispatched',
+        details: expect.objectContaining({ from: 'scheduled', to: 'sending', actor: 'scheduler' }),
+      }),
+    });
+  });
+
+  it('does not dispatch a newsletter claimed by another run', async () => {
+    mockFindMany.mockResolvedValueOnce([{ id: 'nl-1', scheduledFor }]);
+    mockUpdateMany.mockResolvedValueOnce({ count: 0 });
+
+    const dispatched = await dispatchDueNewsletters(now);
+
+    expect(dispatched).toEqual([]);
+    expect(mockStartNewsletterSend).not.toHaveBeenCalled();
+    expect(mockAuditCreate).not.toHaveBeenCalled();
+  });
+});
+
+describe('getScheduleAction', () => {
+  const at = (iso: string) => new Date(iso);
+
+  it('detects scheduling, cancelling and rescheduling', () => {
+    expect(getScheduleAction(null, { status: 'scheduled', scheduledFor: at('2026-01-01T00:00:00Z') }))
+      .toBe('newsletter_scheduled');
+    expect(
+      getScheduleAction(
+        { status: 'scheduled', scheduledFor: at('2026-01-01T00:00:00Z') },
+        { status: 'draft', scheduledFor: null },
+      ),
+    ).toBe('newsletter_schedule_cancelled');
+    expect(
+      getScheduleAction(
+        { status: 'scheduled', scheduledFor: at('2026-01-01T00:00:00Z') },
+        { status: 'scheduled', scheduledFor: at('2026-01-02T00:00:00Z') },
+      ),
+    ).toBe('newsletter_rescheduled');
+  });
+
+  it('returns null when the schedule is unchanged', () => {
+    expect(getScheduleAction({ status: 'draft', scheduledFor: null }, { status: 'draft', scheduledFor: null }))
+      .toBeNull();
+  });
+});
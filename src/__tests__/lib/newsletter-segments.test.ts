@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, beforeAll, jest } from '@jest/globals';
+
+type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
+  (...args: Args) => Promise<Return>
+>;
+
+const mockSubscriberCount: AsyncMock = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    newsletterSubscriber: {
+      count: mockSubscriberCount,
+    },
+  },
+}));
+
+type SegmentsModule = typeof import('@/lib/newsletter-segments');
+let buildSegmentWhere: SegmentsModule['buildSegmentWhere'];
+let parseSegment: SegmentsModule['parseSegment'];
+let countSegmentRecipients: SegmentsModule['countSegmentRecipients'];
+
+const TAG_ID = '6f1c2d3e-4b5a-4c6d-8e7f-9a0b1c2d3e4f';
+
+beforeAll(async () => {
+  ({ buildSegmentWhere, parseSegment, countSegmentRecipients } = await import('@/lib/newsletter-segments'));
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('buildSegmentWhere', () => {
+  it('matches every active, confirmed subscriber without a segment', () => {
+    expect(buildSegmentWhere(null)).toEqual({ isSubscribed: true, isDeleted: false, confirmedAt: { not: null } });
+  });
+
+  it('combines each rule with AND and the values within a rule with OR', () => {
+    const where = buildSegmentWhere({
+      tags: [TAG_ID],
+      categories: ['Technology', 'Design'],
+      frequencies: ['weekly'],
+      locations: ['Lagos'],
+      signed_up_after: '2026-01-01T00:00:00.000Z',
+    });
+
+    expect(where).toEqual({
+      isSubscribed: true,
+      isDeleted: false,
+      confirmedAt: { not: null },
+      AND: [
+        { subscriberTags: { some: { tagId: { in: [TAG_ID] } } } },
+        {
+          OR: [
+            { preferences: { path: ['categories'], array_contains: ['Technology'] } },
+            { preferences: { path: ['categories'], array_contains: ['Design'] } },
+          ],
+        },
+        { OR: [{ preferences: { path: ['frequency'], equals: 'weekly' } }] },
+        { OR: [{ location: { equals: 'Lagos', mode: 'insensitive' } }] },
+        { createdAt: { gte: new Date('2026-01-01T00:00:00.000Z') } },
+      ],
+    });
+  });
+
+  it('excludes subscribers carrying an excluded tag', () => {
+    expect(buildSegmentWhere({ exclude_tags: [TAG_ID] })).toEqual({
+      isSubscribed: true,
+      isDeleted: false,
+      confirmedAt: { not: null },
+      AND: [{ subscriberTags: { none: { tagId: { in: [TAG_ID] } } } }],
+    });
+  });
+});
+
+describe('parseSegment', () => {
+  it('treats a segment without rules as everyone', () => {
+    expect(parseSegment(null)).toBeNull();
+    expect(parseSegment({ tags: [], categories: [] })).toBeNull();
+  });
+
+  it('rejects malformed stored rules instead of widening the audience', () => {
+    expect(() => parseSegment({ frequencies: ['hourly'] })).toThrow();
+  });
+});
+
+describe('countSegmentRecipients', () => {
+  it('counts subscribers with the segment where-clause', async () => {
+    mockSubscriberCount.mockResolvedValueOnce(42);
+
+    await expect(countSegmentRecipients({ frequencies: ['daily'] })).resolves.toBe(42);
+    expect(mockSubscriberCount).toHaveBeenCalledWith({
+      where: buildSegmentWhere({ frequencies: ['daily'] }),
+    });
+  });
+});
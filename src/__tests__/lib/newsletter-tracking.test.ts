@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, beforeAll, jest } from '@jest/globals';
+
+type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
+  (...args: Args) => Promise<Return>
+>;
+
+// ---- Database mocks ----
+const mockSendFindUnique: AsyncMock = jest.fn();
+const mockSendUpdate: AsyncMock = jest.fn();
+const mockSendUpdateMany: AsyncMock = jest.fn();
+const mockSendGroupBy: AsyncMock = jest.fn();
+const mockEventCreate: AsyncMock = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    newsletterSend: {
+      findUnique: mockSendFindUnique,
+      update: mockSendUpdate,
+      updateMany: mockSendUpdateMany,
+      groupBy: mockSendGroupBy,
+    },
+    newsletterSendEvent: {
+      create: mockEventCreate,
+    },
+  },
+}));
+
+// ---- Import module AFTER mocks ----
+let tracking: typeof import('@/lib/newsletter-tracking');
+
+beforeAll(async () => {
+  tracking = await import('@/lib/newsletter-tracking');
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockSendFindUnique.mockResolvedValue({ tracked: true, subscriber: { preferences: {} } });
+  mockSendUpdate.mockResolvedValue({});
+  mockSendUpdateMany.mockResolvedValue({ count: 1 });
+  mockEventCreate.mockResolvedValue({ id: 'event-1' });
+});
+
+const BASE_URL = 'https://example.com';
+
+const clickToken = (html: string) => {
+  const match = html.match(/\/api\/newsletter\/track\/click\?t=([^"]+)"/);
+  return match ? match[1] : '';
+};
+
+describe('addTracking', () => {
+  it('rewrites links through the click redirect and appends the open pixel', () => {
+    const html = tracking.addTracking('<p><a href="https://blog.example.org/post?a=1&amp;b=2">Read</a></p>', BASE_URL, 'send-1');
+
+    expect(html).not.toContain('href="https://blog.example.org');
+    expect(html).toContain(`href="${BASE_URL}/api/newsletter/track/click?t=`);
+    expect(html).toContain(`<img src="${BASE_URL}/api/newsletter/track/open?t=`);
+  });
+
+  it('leaves unsubscribe, preferences, view in browser and non-http links untouched', () => {
+    const source = [
+      `<a href="${BASE_URL}/unsubscribe?token=abc">Unsubscribe</a>`,
+      `<a href="${BASE_URL}/newsletter/preferences?token=abc">Preferences</a>`,
+      `<a href="${BASE_URL}/newsletter/archive/nl-1?t=abc">View in browser</a>`,
+      '<a href="mailto:hello@example.com">Email</a>',
+    ].join('');
+
+    const html = tracking.addTracking(source, BASE_URL, 'send-1');
+
+    expect(html.startsWith(source)).toBe(true);
+    expect(html).not.toContain('/track/click');
+  });
+});
+
+describe('recordClick', () => {
+  it('records the click and returns the original link', async () => {
+    const html = tracking.addTracking('<a href="https://blog.example.org/post?a=1&amp;b=2">Read</a>', BASE_URL, 'send-1');
+
+    const url = await tracking.recordClick(clickToken(html));
+
+    expect(url).toBe('https://blog.example.org/post?a=1&b=2');
+    expect(mockSendUpdate).toHaveBeenCalledWith({
+      where: { id: 'send-1' },
+      data: { clickCount: { increment: 1 } },
+    });
+    expect(mockSendUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'send-1', openedAt: null },
+      data: { openedAt: expect.any(Date) },
+    });
+    expect(mockSendUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'send-1', clickedAt: null },
+      data: { clickedAt: expect.any(Date) },
+    });
+    expect(mockEventCreate).toHaveBeenCalledWith({
+      data: { sendId: 'send-1', type: 'click', url: 'https://blog.example.org/post?a=1&b=2' },
+    });
+  });
+
+  it('redirects without recording when the subscriber has opted out since', async () => {
+    mockSendFindUnique.mockResolvedValueOnce({ tracked: true, subscriber: { preferences: { tracking: false } } });
+    const html = tracking.addTracking('<a href="https://blog.example.org/">Read</a>', BASE_URL, 'send-1');
+
+    const url = await tracking.recordClick(clickToken(html));
+
+    expect(url).toBe('https://blog.example.org/');
+    expect(mockSendUpdate).not.toHaveBeenCalled();
+    expect(mockEventCreate).not.toHaveBeenCalled();
+  });
+
+  it('does not record sends delivered without tracking', async () => {
+    mockSendFindUnique.mockResolvedValueOnce({ tracked: false, subscriber: { preferences: {} } });
+    const html = tracking.addTracking('<a href="https://blog.example.org/">Read</a>', BASE_URL, 'send-1');
+
+    await tracking.recordClick(clickToken(html));
+
+    expect(mockEventCreate).not.toHaveBeenCalled();
+  });
+
+  it('returns null for a tampered token', async () => {
+    const html = tracking.addTracking('<a href="https://blog.example.org/">Read</a>', BASE_URL, 'send-1');
+    const token = clickToken(html);
+
+    const url = await tracking.recordClick(`${token.slice(0, -2)}xx`);
+
+    expect(url).toBeNull();
+    expect(mockSendFindUnique).not.toHaveBeenCalled();
+  });
+});
+
+describe('getNewsletterEngagement', () => {
+  it('maps grouped send counts to engagement per newsletter', async () => {
+    mockSendGroupBy.mockResolvedValueOnce([
+      {
+        newsletterId: 'newsletter-1',
+        _count: { _all: 10, openedAt: 4, clickedAt: 1 },
+        _sum: { openCount: 7, clickCount: 2 },
+      },
+    ]);
+
+    const engagement = await tracking.getNewsletterEngagement(['newsletter-1']);
+
+    expect(mockSendGroupBy).toHaveBeenCalledWith(expect.objectContaining({
+      where: { newsletterId: { in: ['newsletter-1'] }, status: 'sent', tracked: true },
+    }));
+    expect(engagement.get('newsletter-1')).toEqual({ tracked: 10, opened: 4, clicked: 1, opens: 7, clicks: 2 });
+    expect(tracking.toRate(4, 10)).toBe(40);
+    expect(tracking.toRate(1, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from '@jest/globals';
+import { getPermissions, hasPermission, isAdminRole, PERMISSIONS, ROLES } from '@/lib/permissions';
+
+describe('isAdminRole', () => {
+  it('accepts the admin roles only', () => {
+    expect(ROLES.every((role) => isAdminRole(role))).toBe(true);
+    expect(isAdminRole('user')).toBe(false);
+    expect(isAdminRole('admin')).toBe(false);
+  });
+});
+
+describe('hasPermission', () => {
+  it('gives owners every permission', () => {
+    expect(PERMISSIONS.every((permission) => hasPermission('owner', permission))).toBe(true);
+  });
+
+  it('keeps editors to content', () => {
+    expect(hasPermission('editor', 'blog:publish')).toBe(true);
+    expect(hasPermission('editor', 'projects:edit')).toBe(true);
+    expect(hasPermission('editor', 'newsletter:view')).toBe(false);
+    expect(hasPermission('editor', 'subscribers:view')).toBe(false);
+  });
+
+  it('lets newsletter managers send but not erase subscribers', () => {
+    expect(hasPermission('newsletter_manager', 'newsletter:send')).toBe(true);
+    expect(hasPermission('newsletter_manager', 'subscribers:export')).toBe(true);
+    expect(hasPermission('newsletter_manager', 'subscribers:erase')).toBe(false);
+    expect(hasPermission('newsletter_manager', 'blog:edit')).toBe(false);
+  });
+
+  it('lets viewers look without changing anything', () => {
+    const granted = getPermissions('viewer');
+
+    expect(granted.filter((permission) => permission.endsWith(':view'))).toEqual(granted.filter((p) => p !== 'account:manage'));
+    expect(hasPermission('viewer', 'account:manage')).toBe(true);
+    expect(hasPermission('viewer', 'users:manage')).toBe(false);
+  });
+
+  it('lets every admin manage their own account', () => {
+    expect(ROLES.every((role) => hasPermission(role, 'account:manage'))).toBe(true);
+  });
+
+  it('gives other profiles nothing', () => {
+    expect(getPermissions('user')).toEqual([]);
+    expect(hasPermission('user', 'blog:view')).toBe(false);
+  });
+});
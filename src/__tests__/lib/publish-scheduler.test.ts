@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, beforeAll, jest } from '@jest/globals';
+
+type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
+  (...args: Args) => Promise<Return>
+>;
+
+const mockBlogUpdateMany: AsyncMock = jest.fn();
+const mockProjectUpdateMany: AsyncMock = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    blogPost: {
+      updateMany: mockBlogUpdateMany,
+    },
+    project: {
+      updateMany: mockProjectUpdateMany,
+    },
+  },
+}));
+
+type PublishModule = typeof import('@/lib/publish-scheduler');
+let publishDueContent: PublishModule['publishDueContent'];
+let publiclyVisibleWhere: PublishModule['publiclyVisibleWhere'];
+
+beforeAll(async () => {
+  ({ publishDueContent, publiclyVisibleWhere } = await import('@/lib/publish-scheduler'));
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('publiclyVisibleWhere', () => {
+  it('includes published content and scheduled content that is due', () => {
+    const now = new Date('2026-01-01T00:00:00Z');
+    expect(publiclyVisibleWhere(now)).toEqual({
+      OR: [
+        { status: 'published' },
+        { status: 'scheduled', publishedAt: { lte: now } },
+      ],
+    });
+  });
+});
+
+describe('publishDueContent', () => {
+  it('publishes due scheduled blog posts and projects', async () => {
+    const now = new Date('2026-01-01T00:00:00Z');
+    mockBlogUpdateMany.mockResolvedValueOnce({ count: 2 });
+    mockProjectUpdateMany.mockResolvedValueOnce({ count: 0 });
+
+    const result = await publishDueContent(now);
+
+    expect(result).toEqual({ blogPosts: 2, projects: 0 });
+    const expectedArgs = {
+      where: { status: 'scheduled', publishedAt: { lte: now } },
+      data: { status: 'published' },
+    };
+    expect(mockBlogUpdateMany).toHaveBeenCalledWith(expectedArgs);
+    expect(mockProjectUpdateMany).toHaveBeenCalledWith(expectedArgs);
+  });
+});
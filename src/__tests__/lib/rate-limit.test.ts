@@ -331,4 +331,26 @@ describe('withRateLimit', () => {
     expect(response.headers.get('X-RateLimit-Remaining')).toBe('3');
     expect(response.headers.get('X-RateLimit-Reset')).toBe(resetTime.toString());
   });
+
+  it('should key the limit per request when given an identifier function', async () => {
+    mockLimiter.check.mockResolvedValue({
+      success: true,
+      remaining: 4,
+      resetTime: Date.now() + 60000,
+    });
+
+    const request = new NextRequest('http://localhost:3000/api/test', {
+      method: 'GET',
+      headers: { 'x-forwarded-for': '203.0.113.7' },
+    });
+    const wrappedHandler = withRateLimit(
+      mockLimiter as unknown as InstanceType<typeof RateLimiter>,
+      (req) => `test-id:${req.headers.get('x-forwarded-for')}`,
+      mockHandler
+    );
+
+    await wrappedHandler(request);
+
+    expect(mockLimiter.check).toHaveBeenCalledWith('test-id:203.0.113.7');
+  });
 });
@@ -0,0 +1,322 @@
+import { describe, it, expect, beforeEach, beforeAll, jest } from '@jest/globals';
+import {
+  WEBHOOK_SECRET,
+  bouncedWebhook,
+  complainedWebhook,
+  deliveredWebhook,
+  type RecordedWebhook,
+} from '../utils/resend-webhook-payloads';
+
+type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
+  (...args: Args) => Promise<Return>
+>;
+
+// ---- Database mocks ----
+const mockSendFindFirst: AsyncMock = jest.fn();
+const mockSendFindUnique: AsyncMock = jest.fn();
+const mockSendUpdate: AsyncMock = jest.fn();
+const mockSendUpdateMany: AsyncMock = jest.fn();
+const mockEventCreate: AsyncMock = jest.fn();
+const mockSubscriberFindUnique: AsyncMock = jest.fn();
+const mockSubscriberUpdateMany: AsyncMock = jest.fn();
+const mockAuditCreate: AsyncMock = jest.fn();
+const mockSuppressionUpsert: AsyncMock = jest.fn();
+const mockProcessedCreate: AsyncMock = jest.fn();
+const mockProcessedDeleteMany: AsyncMock = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    newsletterSend: {
+      findFirst: mockSendFindFirst,
+      findUnique: mockSendFindUnique,
+      update: mockSendUpdate,
+      updateMany: mockSendUpdateMany,
+    },
+    newsletterSendEvent: {
+      create: mockEventCreate,
+    },
+    newsletterSubscriber: {
+      findUnique: mockSubscriberFindUnique,
+      updateMany: mockSubscriberUpdateMany,
+    },
+    newsletterAuditLog: {
+      create: mockAuditCreate,
+    },
+    emailSuppression: {
+      upsert: mockSuppressionUpsert,
+    },
+    processedWebhook: {
+      create: mockProcessedCreate,
+      deleteMany: mockProcessedDeleteMany,
+    },
+  },
+}));
+
+// ---- Import module AFTER mocks ----
+let webhooks: typeof import('@/lib/resend-webhooks');
+
+beforeAll(async () => {
+  webhooks = await import('@/lib/resend-webhooks');
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockSendFindFirst.mockResolvedValue({ id: 'send-1', subscriberId: 'sub-1' });
+  mockSendFindUnique.mockResolvedValue({ tracked: true, subscriber: { preferences: {} } });
+  mockSendUpdate.mockResolvedValue({});
+  mockSendUpdateMany.mockResolvedValue({ count: 1 });
+  mockEventCreate.mockResolvedValue({ id: 'event-1' });
+  mockSubscriberFindUnique.mockResolvedValue({ id: 'sub-1', isSubscribed: true });
+  mockSubscriberUpdateMany.mockResolvedValue({ count: 1 });
+  mockAuditCreate.mockResolvedValue({ id: 'log-1' });
+  mockSuppressionUpsert.mockResolvedValue({ id: 'sup-1' });
+  mockProcessedCreate.mockResolvedValue({ id: 'msg_1' });
+  mockProcessedDeleteMany.mockResolvedValue({ count: 0 });
+});
+
+const alreadyProcessed = () => Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+
+const headersOf = (webhook: RecordedWebhook) => ({
+  id: webhook.headers['svix-id'],
+  timestamp: webhook.headers['svix-timestamp'],
+  signature: webhook.headers['svix-signature'],
+});
+
+describe('verifyWebhookSignature', () => {
+  it.each([
+    ['delivered', deliveredWebhook],
+    ['bounced', bouncedWebhook],
+    ['complained', complainedWebhook],
+  ])('accepts the recorded %s event', (_name, webhook) => {
+    expect(
+      webhooks.verifyWebhookSignature(webhook.body, headersOf(webhook), WEBHOOK_SECRET, webhook.receivedAt),
+    ).toBe(true);
+  });
+
+  it('accepts a matching signature among several during secret rotation', () => {
+    const headers = {
+      ...headersOf(bouncedWebhook),
+      signature: `v1,c29tZXRoaW5nIGVsc2U= ${bouncedWebhook.headers['svix-signature']}`,
+    };
+
+    expect(
+      webhooks.verifyWebhookSignature(bouncedWebhook.body, headers, WEBHOOK_SECRET, bouncedWebhook.receivedAt),
+    ).toBe(true);
+  });
+
+  it('rejects a body that was modified after signing', () => {
+    const tampered = bouncedWebhook.body.replace('gone@example.com', 'someone@example.com');
+
+    expect(
+      webhooks.verifyWebhookSignature(tampered, headersOf(bouncedWebhook), WEBHOOK_SECRET, bouncedWebhook.receivedAt),
+    ).toBe(false);
+  });
+
+  it('rejects a different signing secret', () => {
+    expect(
+      webhooks.verifyWebhookSignature(
+        deliveredWebhook.body,
+        headersOf(deliveredWebhook),
+        'whsec_dGhpcyBpcyBub3QgdGhlIHJpZ2h0IHNlY3JldA==',
+        deliveredWebhook.receivedAt,
+      ),
+    ).toBe(false);
+  });
+
+  it('rejects a replay outside the timestamp tolerance', () => {
+    const later = new Date(deliveredWebhook.receivedAt.getTime() + 10 * 60 * 1000);
+
+    expect(
+      webhooks.verifyWebhookSignature(deliveredWebhook.body, headersOf(deliveredWebhook), WEBHOOK_SECRET, later),
+    ).toBe(false);
+  });
+
+  it('rejects missing headers and a missing secret', () => {
+    const headers = { ...headersOf(deliveredWebhook), signature: null };
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(
+      webhooks.verifyWebhookSignature(deliveredWebhook.body, headers, WEBHOOK_SECRET, deliveredWebhook.receivedAt),
+    ).toBe(false);
+    expect(
+      webhooks.verifyWebhookSignature(deliveredWebhook.body, headersOf(deliveredWebhook), '', deliveredWebhook.receivedAt),
+    ).toBe(false);
+
+    errorSpy.mockRestore();
+  });
+});
+
+describe('handleResendEvent', () => {
+  it('marks the matching send as delivered', async () => {
+    const outcome = await webhooks.handleResendEvent(JSON.parse(deliveredWebhook.body));
+
+    expect(outcome).toBe('processed');
+    expect(mockSendFindFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { messageId: '4ef9a417-02e9-4d39-ad75-9611e0fcc33c' },
+    }));
+    expect(mockSendUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'send-1', deliveredAt: null },
+      data: { deliveredAt: new Date('2026-10-19T09:41:12.126Z') },
+    });
+    expect(mockSubscriberUpdateMany).not.toHaveBeenCalled();
+  });
+
+  it('marks a hard bounce and unsubscribes the subscriber with an audit entry', async () => {
+    const outcome = await webhooks.handleResendEvent(JSON.parse(bouncedWebhook.body));
+
+    expect(outcome).toBe('processed');
+    expect(mockSendUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'send-1', bouncedAt: null },
+      data: expect.objectContaining({
+        status: 'bounced',
+        bounceType: 'Permanent',
+        errorMessage: "The recipient's email address does not exist.",
+      }),
+    });
+    expect(mockSubscriberUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'sub-1', isSubscribed: true },
+      data: expect.objectContaining({ isSubscribed: false, unsubscribeReason: 'hard_bounce' }),
+    });
+    expect(mockAuditCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        subscriberId: 'sub-1',
+        action: 'unsubscribed',
+        details: expect.objectContaining({
+          method: 'webhook',
+          reason: 'hard_bounce',
+          email_id: '56761188-7520-42d8-8898-ff6fc54ce618',
+        }),
+      }),
+    });
+  });
+
+  it('adds a hard-bounced address to the suppression list', async () => {
+    await webhooks.handleResendEvent(JSON.parse(bouncedWebhook.body));
+
+    expect(mockSuppressionUpsert).toHaveBeenCalledWith({
+      where: { value: 'gone@example.com' },
+      create: expect.objectContaining({ value: 'gone@example.com', type: 'email', reason: 'hard_bounce', source: 'webhook' }),
+      update: expect.objectContaining({ reason: 'hard_bounce', source: 'webhook' }),
+    });
+  });
+
+  it('records a soft bounce without unsubscribing', async () => {
+    const event = JSON.parse(bouncedWebhook.body);
+    event.data.bounce.type = 'Transient';
+
+    await webhooks.handleResendEvent(event);
+
+    expect(mockSendUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'send-1', bouncedAt: null },
+      data: expect.not.objectContaining({ status: 'bounced' }),
+    });
+    expect(mockSubscriberUpdateMany).not.toHaveBeenCalled();
+    expect(mockSuppressionUpsert).not.toHaveBeenCalled();
+  });
+
+  it('unsubscribes on a complaint about an email without a send row', async () => {
+    mockSendFindFirst.mockResolvedValueOnce(null);
+    mockSubscriberFindUnique
+      .mockResolvedValueOnce({ id: 'sub-2' })
+      .mockResolvedValueOnce({ id: 'sub-2', isSubscribed: true });
+
+    const outcome = await webhooks.handleResendEvent(JSON.parse(complainedWebhook.body));
+
+    expect(outcome).toBe('processed');
+    expect(mockSubscriberFindUnique).toHaveBeenCalledWith({
+      where: { email: 'angry@example.com' },
+      select: { id: true },
+    });
+    expect(mockSubscriberUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'sub-2', isSubscribed: true },
+      data: expect.objectContaining({ unsubscribeReason: 'spam_complaint' }),
+    });
+  });
+
+  it('does not audit again when a retried complaint arrives', async () => {
+    mockSubscriberUpdateMany.mockResolvedValueOnce({ count: 0 });
+
+    await webhooks.handleResendEvent(JSON.parse(complainedWebhook.body));
+
+    expect(mockAuditCreate).not.toHaveBeenCalled();
+  });
+
+  it('records an open through newsletter tracking', async () => {
+    const event = { ...JSON.parse(deliveredWebhook.body), type: 'email.opened' };
+
+    await webhooks.handleResendEvent(event);
+
+    expect(mockEventCreate).toHaveBeenCalledWith({
+      data: { sendId: 'send-1', type: 'open', url: null },
+    });
+  });
+
+  it('ignores event types it does not handle', async () => {
+    const event = { ...JSON.parse(deliveredWebhook.body), type: 'email.delivery_delayed' };
+
+    expect(await webhooks.handleResendEvent(event)).toBe('ignored');
+    expect(mockSendFindFirst).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['delivered', deliveredWebhook],
+    ['bounced', bouncedWebhook],
+    ['complained', complainedWebhook],
+  ])('records the svix-id of a %s event it applies', async (_name, webhook) => {
+    const now = webhook.receivedAt;
+
+    expect(await webhooks.handleResendEvent(JSON.parse(webhook.body), webhook.headers['svix-id'], now)).toBe('processed');
+    expect(mockProcessedCreate).toHaveBeenCalledWith({
+      data: { id: webhook.headers['svix-id'], type: JSON.parse(webhook.body).type, createdAt: now },
+    });
+    expect(mockProcessedDeleteMany).toHaveBeenCalledWith({
+      where: { createdAt: { lt: new Date(now.getTime() - webhooks.PROCESSED_WEBHOOK_RETENTION_MS) } },
+    });
+  });
+
+  it.each([
+    ['delivered', deliveredWebhook],
+    ['bounced', bouncedWebhook],
+    ['complained', complainedWebhook],
+  ])('skips a retried %s event it has already applied', async (_name, webhook) => {
+    mockProcessedCreate.mockRejectedValueOnce(alreadyProcessed());
+
+    expect(await webhooks.handleResendEvent(JSON.parse(webhook.body), webhook.headers['svix-id'])).toBe('duplicate');
+    expect(mockSendFindFirst).not.toHaveBeenCalled();
+    expect(mockSendUpdateMany).not.toHaveBeenCalled();
+    expect(mockSuppressionUpsert).not.toHaveBeenCalled();
+  });
+
+  it('counts a retried open only once', async () => {
+    const event = { ...JSON.parse(deliveredWebhook.body), type: 'email.opened' };
+
+    await webhooks.handleResendEvent(event, 'msg_open');
+    mockProcessedCreate.mockRejectedValueOnce(alreadyProcessed());
+    expect(await webhooks.handleResendEvent(event, 'msg_open')).toBe('duplicate');
+
+    expect(mockEventCreate).toHaveBeenCalledTimes(1);
+  });
+
+  it('forgets the svix-id when applying the event fails so the retry goes through', async () => {
+    mockSendFindFirst.mockRejectedValueOnce(new Error('Database unavailable'));
+
+    await expect(webhooks.handleResendEvent(JSON.parse(deliveredWebhook.body), 'msg_1')).rejects.toThrow('Database unavailable');
+    expect(mockProcessedDeleteMany).toHaveBeenLastCalledWith({ where: { id: 'msg_1' } });
+  });
+
+  it('does not record ids of events it ignores', async () => {
+    const event = { ...JSON.parse(deliveredWebhook.body), type: 'email.delivery_delayed' };
+
+    await webhooks.handleResendEvent(event, 'msg_1');
+
+    expect(mockProcessedCreate).not.toHaveBeenCalled();
+  });
+
+  it('reports a delivery for an unknown email as unmatched', async () => {
+    mockSendFindFirst.mockResolvedValueOnce(null);
+
+    expect(await webhooks.handleResendEvent(JSON.parse(deliveredWebhook.body))).toBe('unmatched');
+    expect(mockSendUpdateMany).not.toHaveBeenCalled();
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
 import { createMockResponse } from '../utils/test-helpers';
 
 type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
@@ -36,6 +36,7 @@ let trackFailedAttempt: SecurityModule['trackFailedAttempt'];
 let isCaptchaRequired: SecurityModule['isCaptchaRequired'];
 let verifyCaptcha: SecurityModule['verifyCaptcha'];
 let cleanupOldRecords: SecurityModule['cleanupOldRecords'];
+let getClientIp: SecurityModule['getClientIp'];
 
 beforeAll(async () => {
   ({
@@ -45,6 +46,7 @@ beforeAll(async () => {
     isCaptchaRequired,
     verifyCaptcha,
     cleanupOldRecords,
+    getClientIp,
   } = await import('@/lib/security'));
 });
 
@@ -249,3 +251,27 @@ describe('cleanupOldRecords', () => {
     expect(mockDeleteMany).toHaveBeenCalled();
   });
 });
+
+describe('getClientIp', () => {
+  const request = (headers: Record<string, string>) => new Request('http://localhost:3000/api/test', { headers });
+
+  afterEach(() => {
+    delete process.env.TRUSTED_PROXY_HOPS;
+  });
+
+  it('should use the entry appended by the proxy, not a client-supplied one', () => {
+    expect(getClientIp(request({ 'x-forwarded-for': '198.51.100.66, 203.0.113.7' }))).toBe('203.0.113.7');
+    expect(getClientIp(request({ 'x-forwarded-for': '203.0.113.7' }))).toBe('203.0.113.7');
+  });
+
+  it('should count back past each trusted proxy', () => {
+    process.env.TRUSTED_PROXY_HOPS = '2';
+
+    expect(getClientIp(request({ 'x-forwarded-for': '198.51.100.66, 203.0.113.7, 10.0.0.5' }))).toBe('203.0.113.7');
+  });
+
+  it('should fall back to x-real-ip, then unknown', () => {
+    expect(getClientIp(request({ 'x-real-ip': '203.0.113.7' }))).toBe('203.0.113.7');
+    expect(getClientIp(request({}))).toBe('unknown');
+  });
+});
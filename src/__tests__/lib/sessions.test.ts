@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, beforeAll, jest } from '@jest/globals';
+
+type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
+  (...args: Args) => Promise<Return>
+>;
+
+const mockCreate: AsyncMock = jest.fn();
+const mockFindUnique: AsyncMock = jest.fn();
+const mockFindMany: AsyncMock = jest.fn();
+const mockUpdate: AsyncMock = jest.fn();
+const mockDeleteMany: AsyncMock = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    session: {
+      create: mockCreate,
+      findUnique: mockFindUnique,
+      findMany: mockFindMany,
+      update: mockUpdate,
+      deleteMany: mockDeleteMany,
+    },
+  },
+}));
+
+let sessions: typeof import('@/lib/sessions');
+
+beforeAll(async () => {
+  sessions = await import('@/lib/sessions');
+});
+
+const now = new Date('2026-10-19T09:00:00Z');
+const minutes = (count: number) => count * 60 * 1000;
+
+const session = (overrides: Record<string, unknown> = {}) => ({
+  id: 'session-1',
+  profileId: 'profile-1',
+  userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 Chrome/129.0 Safari/537.36',
+  ipAddress: '203.0.113.7',
+  createdAt: new Date(now.getTime() - minutes(60)),
+  lastSeenAt: new Date(now.getTime() - minutes(10)),
+  expiresAt: new Date(now.getTime() + minutes(60)),
+  ...overrides,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockDeleteMany.mockResolvedValue({ count: 0 });
+  mockCreate.mockImplementation(async (args: any) => ({ id: 'session-1', ...args.data }));
+  mockUpdate.mockImplementation(async (args: any) => ({ ...session(), ...args.data }));
+});
+
+describe('createSession', () => {
+  it('records the client and clears out expired sessions', async () => {
+    const created = await sessions.createSession(
+      'profile-1',
+      { ipAddress: '203.0.113.7', userAgent: 'curl/8.0' },
+      now,
+    );
+
+    expect(created.expiresAt).toEqual(new Date(now.getTime() + sessions.SESSION_IDLE_TTL_MS));
+    expect(mockDeleteMany).toHaveBeenCalledWith({ where: { profileId: 'profile-1', expiresAt: { lt: now } } });
+    expect(mockCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ profileId: 'profile-1', ipAddress: '203.0.113.7', userAgent: 'curl/8.0' }),
+    });
+  });
+});
+
+describe('findActiveSession', () => {
+  it('ignores revoked and expired sessions', async () => {
+    mockFindUnique.mockResolvedValueOnce(session());
+    await expect(sessions.findActiveSession('session-1', now)).resolves.toEqual(session());
+
+    mockFindUnique.mockResolvedValueOnce(null);
+    await expect(sessions.findActiveSession('session-1', now)).resolves.toBeNull();
+
+    mockFindUnique.mockResolvedValueOnce(session({ expiresAt: now }));
+    await expect(sessions.findActiveSession('session-1', now)).resolves.toBeNull();
+  });
+});
+
+describe('touchSession', () => {
+  it('is only needed once the last write is a few minutes old', () => {
+    expect(sessions.shouldTouchSession(session({ lastSeenAt: new Date(now.getTime() - minutes(1)) }), now)).toBe(false);
+    expect(sessions.shouldTouchSession(session(), now)).toBe(true);
+  });
+
+  it('slides the expiry forward', async () => {
+    await sessions.touchSession(session(), { ipAddress: '198.51.100.2', userAgent: null }, now);
+
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: 'session-1' },
+      data: {
+        lastSeenAt: now,
+        expiresAt: new Date(now.getTime() + sessions.SESSION_IDLE_TTL_MS),
+        ipAddress: '198.51.100.2',
+      },
+    });
+  });
+
+  it('never extends a session past its maximum age', async () => {
+    const createdAt = new Date(now.getTime() - sessions.SESSION_MAX_AGE_MS + minutes(30));
+
+    const touched = await sessions.touchSession(session({ createdAt }), { ipAddress: null, userAgent: null }, now);
+
+    expect(touched.expiresAt).toEqual(new Date(now.getTime() + minutes(30)));
+    expect(touched.ipAddress).toBe('203.0.113.7');
+  });
+});
+
+describe('listSessions', () => {
+  it('describes each device and marks the current session', async () => {
+    mockFindMany.mockResolvedValueOnce([session(), session({ id: 'session-2', userAgent: null, ipAddress: null })]);
+
+    const list = await sessions.listSessions('profile-1', 'session-1', now);
+
+    expect(mockFindMany).toHaveBeenCalledWith({
+      where: { profileId: 'profile-1', expiresAt: { gt: now } },
+      orderBy: { lastSeenAt: 'desc' },
+    });
+    expect(list.map(({ id, device, current }) => ({ id, device, current }))).toEqual([
+      { id: 'session-1', device: 'Chrome on macOS', current: true },
+      { id: 'session-2', device: 'Unknown device', current: false },
+    ]);
+  });
+});
+
+describe('describeDevice', () => {
+  it.each([
+    ['Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 Chrome/129.0 Safari/537.36 Edg/129.0', 'Edge on Windows'],
+    ['Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 Version/17.5 Mobile/15E148 Safari/604.1', 'Safari on iOS'],
+    ['Mozilla/5.0 (X11; Linux x86_64; rv:131.0) Gecko/20100101 Firefox/131.0', 'Firefox on Linux'],
+    ['curl/8.0', 'Unknown device'],
+  ])('names %s', (userAgent, device) => {
+    expect(sessions.describeDevice(userAgent)).toBe(device);
+  });
+});
+
+describe('revoking', () => {
+  it('only revokes sessions belonging to the admin', async () => {
+    mockDeleteMany.mockResolvedValueOnce({ count: 0 });
+
+    await expect(sessions.revokeSession('session-9', 'profile-1')).resolves.toBe(false);
+    expect(mockDeleteMany).toHaveBeenCalledWith({ where: { id: 'session-9', profileId: 'profile-1' } });
+  });
+
+  it('can keep the current session when revoking the rest', async () => {
+    mockDeleteMany.mockResolvedValueOnce({ count: 3 });
+
+    await expect(sessions.revokeAllSessions('profile-1', 'session-1')).resolves.toBe(3);
+    expect(mockDeleteMany).toHaveBeenCalledWith({
+      where: { profileId: 'profile-1', id: { not: 'session-1' } },
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { createSignedToken, verifySignedToken } from '@/lib/signed-tokens';
+
+const ORIGINAL_SECRET = process.env.NEWSLETTER_TOKEN_SECRET;
+const ORIGINAL_PREVIOUS = process.env.NEWSLETTER_TOKEN_PREVIOUS_SECRETS;
+
+afterEach(() => {
+  process.env.NEWSLETTER_TOKEN_SECRET = ORIGINAL_SECRET;
+  process.env.NEWSLETTER_TOKEN_PREVIOUS_SECRETS = ORIGINAL_PREVIOUS;
+  if (ORIGINAL_SECRET === undefined) delete process.env.NEWSLETTER_TOKEN_SECRET;
+  if (ORIGINAL_PREVIOUS === undefined) delete process.env.NEWSLETTER_TOKEN_PREVIOUS_SECRETS;
+});
+
+describe('signed tokens', () => {
+  it('verifies a token without expiry for its own purpose only', () => {
+    const token = createSignedToken('unsubscribe', 'sub-1');
+
+    expect(verifySignedToken('unsubscribe', token, new Date('2099-01-01'))).toEqual({
+      valid: true,
+      subject: 'sub-1',
+      expiresAt: null,
+    });
+    expect(verifySignedToken('preferences', token)).toEqual({ valid: false, reason: 'invalid' });
+  });
+
+  it('reports expiry separately from a bad signature', () => {
+    const token = createSignedToken('confirm_subscription', 'sub-1', new Date('2026-01-01T00:00:00Z'));
+
+    expect(verifySignedToken('confirm_subscription', token, new Date('2026-01-02T00:00:00Z'))).toEqual({
+      valid: false,
+      reason: 'expired',
+    });
+    expect(verifySignedToken('confirm_subscription', `${token}x`)).toEqual({ valid: false, reason: 'invalid' });
+  });
+
+  it('keeps accepting tokens signed with a previous secret after rotation', () => {
+    process.env.NEWSLETTER_TOKEN_SECRET = 'old-secret-with-at-least-32-characters!!';
+    const token = createSignedToken('unsubscribe', 'sub-1');
+
+    process.env.NEWSLETTER_TOKEN_SECRET = 'new-secret-with-at-least-32-characters!!';
+    expect(verifySignedToken('unsubscribe', token).valid).toBe(false);
+
+    process.env.NEWSLETTER_TOKEN_PREVIOUS_SECRETS = 'something-else, old-secret-with-at-least-32-characters!!';
+    expect(verifySignedToken('unsubscribe', token)).toMatchObject({ valid: true, subject: 'sub-1' });
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, beforeAll, jest } from '@jest/globals';
+import { createSignedToken } from '@/lib/signed-tokens';
+
+type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
+  (...args: Args) => Promise<Return>
+>;
+
+const mockSubscriberCount: AsyncMock = jest.fn();
+const mockSubscriberFindMany: AsyncMock = jest.fn();
+const mockSubscriberDeleteMany: AsyncMock = jest.fn();
+const mockContactCount: AsyncMock = jest.fn();
+const mockContactFindMany: AsyncMock = jest.fn();
+const mockContactDeleteMany: AsyncMock = jest.fn();
+const mockFailedAttemptCount: AsyncMock = jest.fn();
+const mockFailedAttemptDeleteMany: AsyncMock = jest.fn();
+const mockSendDeleteMany: AsyncMock = jest.fn();
+const mockAuditLogDeleteMany: AsyncMock = jest.fn();
+const mockAuditLogCreate: AsyncMock = jest.fn();
+const mockSkippedEmailDeleteMany: AsyncMock = jest.fn();
+const mockSendDataRequestEmail: AsyncMock = jest.fn();
+
+jest.mock('@/lib/db', () => {
+  const mockDb: Record<string, unknown> = {
+    newsletterSubscriber: {
+      count: mockSubscriberCount,
+      findMany: mockSubscriberFindMany,
+      deleteMany: mockSubscriberDeleteMany,
+    },
+    contactMessage: {
+      count: mockContactCount,
+      findMany: mockContactFindMany,
+      deleteMany: mockContactDeleteMany,
+    },
+    failedAttempt: {
+      count: mockFailedAttemptCount,
+      deleteMany: mockFailedAttemptDeleteMany,
+    },
+    newsletterSend: { deleteMany: mockSendDeleteMany },
+    newsletterAuditLog: { deleteMany: mockAuditLogDeleteMany, create: mockAuditLogCreate },
+    skippedEmail: { deleteMany: mockSkippedEmailDeleteMany },
+  };
+  mockDb.$transaction = (fn: (tx: unknown) => Promise<unknown>) => fn(mockDb);
+  return { db: mockDb };
+});
+
+jest.mock('@/lib/resend', () => ({
+  sendDataRequestEmail: mockSendDataRequestEmail,
+}));
+
+let subscriberData: typeof import('@/lib/subscriber-data');
+
+beforeAll(async () => {
+  subscriberData = await import('@/lib/subscriber-data');
+});
+
+const byEmail = { email: { equals: 'ada@example.com', mode: 'insensitive' } };
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  process.env.NEXT_PUBLIC_BASE_URL = 'https://example.com';
+
+  mockSubscriberCount.mockResolvedValue(0);
+  mockContactCount.mockResolvedValue(0);
+  mockFailedAttemptCount.mockResolvedValue(0);
+  mockSendDataRequestEmail.mockResolvedValue({ id: 'email-1' });
+});
+
+describe('data request links', () => {
+  it('carry the normalised address and only verify for their own request type', () => {
+    const url = subscriberData.createDataRequestUrl('https://example.com', 'export', ' Ada@Example.com ');
+    const token = new URL(url).searchParams.get('token') as string;
+
+    expect(url.startsWith('https://example.com/api/newsletter/data/export?token=')).toBe(true);
+    expect(subscriberData.verifyDataRequestToken('export', token)).toEqual(
+      expect.objectContaining({ valid: true, subject: 'ada@example.com' }),
+    );
+    expect(subscriberData.verifyDataRequestToken('erasure', token)).toEqual({ valid: false, reason: 'invalid' });
+    expect(
+      subscriberData.verifyDataRequestToken('export', createSignedToken('preferences', 'ada@example.com')).valid,
+    ).toBe(false);
+  });
+
+  it('expire after a day', () => {
+    const issuedAt = new Date('2026-10-18T09:00:00Z');
+    const token = subscriberData.createDataRequestToken('erasure', 'ada@example.com', issuedAt);
+
+    expect(subscriberData.verifyDataRequestToken('erasure', token)).toEqual({ valid: false, reason: 'expired' });
+  });
+});
+
+describe('requestSubscriberData', () => {
+  it('emails a link when data is stored for the address', async () => {
+    mockContactCount.mockResolvedValueOnce(2);
+
+    await expect(subscriberData.requestSubscriberData('Ada@example.com', 'erasure')).resolves.toBe(true);
+
+    expect(mockContactCount).toHaveBeenCalledWith({ where: byEmail });
+    expect(mockSendDataRequestEmail).toHaveBeenCalledWith(
+      'ada@example.com',
+      'erasure',
+      expect.stringContaining('https://example.com/newsletter/data/erase?token='),
+      24,
+    );
+  });
+
+  it('sends nothing for an unknown address', async () => {
+    await expect(subscriberData.requestSubscriberData('nobody@example.com', 'export')).resolves.toBe(false);
+    expect(mockSendDataRequestEmail).not.toHaveBeenCalled();
+  });
+});
+
+describe('exportSubscriberData', () => {
+  it('bundles the subscriber with their tags, sends, audit entries and contact messages', async () => {
+    const createdAt = new Date('2026-01-01T00:00:00Z');
+    mockSubscriberFindMany.mockResolvedValueOnce([{
+      id: 'sub-1',
+      email: 'ada@example.com',
+      name: 'Ada',
+      location: 'London',
+      isSubscribed: true,
+      preferences: { frequency: 'weekly', categories: [] },
+      confirmedAt: createdAt,
+      unsubscribeReason: null,
+      unsubscribeFeedback: null,
+      unsubscribeToken: 'a'.repeat(64),
+      createdAt,
+      updatedAt: createdAt,
+      subscriberTags: [{ createdAt, tag: { name: 'VIP' } }],
+      newsletterSends: [{
+        status: 'sent',
+        sentAt: createdAt,
+        deliveredAt: null,
+        openedAt: createdAt,
+        openCount: 2,
+        clickedAt: null,
+        clickCount: 0,
+        bouncedAt: null,
+        complainedAt: null,
+        newsletter: { subject: 'January update' },
+      }],
+      auditLogs: [{
+        action: 'subscription_requested',
+        details: { email: 'ada@example.com' },
+        ipAddress: '203.0.113.1',
+        userAgent: 'Mozilla/5.0',
+        createdAt,
+      }],
+    }]);
+    mockContactFindMany.mockResolvedValueOnce([
+      { name: 'Ada', email: 'ada@example.com', subject: 'Hello', message: 'Hi there', createdAt },
+    ]);
+
+    const data = await subscriberData.exportSubscriberData('ada@example.com', new Date('2026-10-19T09:00:00Z'));
+
+    expect(mockSubscriberFindMany).toHaveBeenCalledWith(expect.objectContaining({ where: byEmail }));
+    expect(data.exported_at).toBe('2026-10-19T09:00:00.000Z');
+    expect(data.subscribers[0]).toEqual(expect.objectContaining({
+      email: 'ada@example.com',
+      tags: [{ name: 'VIP', added_at: '2026-01-01T00:00:00.000Z' }],
+      sends: [expect.objectContaining({ newsletter_subject: 'January update', status: 'sent', open_count: 2 })],
+      audit_log: [expect.objectContaining({ action: 'subscription_requested', ip_address: '203.0.113.1' })],
+    }));
+    expect(data.subscribers[0]).not.toHaveProperty('unsubscribe_token');
+    expect(data.contact_messages).toEqual([
+      { name: 'Ada', subject: 'Hello', message: 'Hi there', created_at: '2026-01-01T00:00:00.000Z' },
+    ]);
+  });
+});
+
+describe('eraseSubscriberData', () => {
+  it('deletes everything stored for the address and logs the erasure without it', async () => {
+    mockSubscriberFindMany.mockResolvedValueOnce([{ id: 'sub-1' }]);
+    mockSendDeleteMany.mockResolvedValueOnce({ count: 4 });
+    mockAuditLogDeleteMany.mockResolvedValueOnce({ count: 3 });
+    mockSubscriberDeleteMany.mockResolvedValueOnce({ count: 1 });
+    mockContactDeleteMany.mockResolvedValueOnce({ count: 2 });
+    mockFailedAttemptDeleteMany.mockResolvedValueOnce({ count: 1 });
+    mockSkippedEmailDeleteMany.mockResolvedValueOnce({ count: 0 });
+
+    const result = await subscriberData.eraseSubscriberData('Ada@example.com', 'admin@example.com');
+
+    expect(result).toEqual({
+      subscribers: 1,
+      sends: 4,
+      audit_entries: 3,
+      contact_messages: 2,
+      failed_attempts: 1,
+      skipped_emails: 0,
+    });
+    expect(mockSendDeleteMany).toHaveBeenCalledWith({ where: { subscriberId: { in: ['sub-1'] } } });
+    expect(mockAuditLogDeleteMany).toHaveBeenCalledWith({ where: { subscriberId: { in: ['sub-1'] } } });
+    expect(mockSubscriberDeleteMany).toHaveBeenCalledWith({ where: { id: { in: ['sub-1'] } } });
+    expect(mockContactDeleteMany).toHaveBeenCalledWith({ where: byEmail });
+    expect(mockFailedAttemptDeleteMany).toHaveBeenCalledWith({ where: byEmail });
+    expect(mockSkippedEmailDeleteMany).toHaveBeenCalledWith({ where: byEmail });
+
+    expect(mockAuditLogCreate).toHaveBeenCalledWith({
+      data: { action: 'data_erased', details: { ...result, actor: 'admin@example.com' } },
+    });
+    expect(JSON.stringify(mockAuditLogCreate.mock.calls)).not.toContain('ada@example.com');
+  });
+});
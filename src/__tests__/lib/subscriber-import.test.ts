@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, beforeAll, jest } from '@jest/globals';
+
+type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
+  (...args: Args) => Promise<Return>
+>;
+
+const mockSubscriberFindMany: AsyncMock = jest.fn();
+const mockSubscriberUpsert: AsyncMock = jest.fn();
+const mockSubscriberUpdate: AsyncMock = jest.fn();
+const mockTagFindMany: AsyncMock = jest.fn();
+const mockTagUpsert: AsyncMock = jest.fn();
+const mockSubscriberTagCreateMany: AsyncMock = jest.fn();
+const mockAuditCreateMany: AsyncMock = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    newsletterSubscriber: {
+      findMany: mockSubscriberFindMany,
+      upsert: mockSubscriberUpsert,
+      update: mockSubscriberUpdate,
+    },
+    newsletterTag: {
+      findMany: mockTagFindMany,
+      upsert: mockTagUpsert,
+    },
+    subscriberTag: {
+      createMany: mockSubscriberTagCreateMany,
+    },
+    newsletterAuditLog: {
+      createMany: mockAuditCreateMany,
+    },
+  },
+}));
+
+type ImportModule = typeof import('@/lib/subscriber-import');
+let parseCsv: ImportModule['parseCsv'];
+let parseSubscriberCsv: ImportModule['parseSubscriberCsv'];
+let importSubscribers: ImportModule['importSubscribers'];
+
+beforeAll(async () => {
+  ({ parseCsv, parseSubscriberCsv, importSubscribers } = await import('@/lib/subscriber-import'));
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockSubscriberFindMany.mockResolvedValue([]);
+  mockTagFindMany.mockResolvedValue([]);
+  mockSubscriberUpsert.mockResolvedValue({ id: 'new-sub' });
+  mockSubscriberUpdate.mockResolvedValue({});
+  mockTagUpsert.mockResolvedValue({ id: 'new-tag' });
+  mockSubscriberTagCreateMany.mockResolvedValue({ count: 0 });
+  mockAuditCreateMany.mockResolvedValue({ count: 0 });
+});
+
+const existingSubscriber = (overrides: Record<string, unknown>) => ({
+  id: 'sub-1',
+  email: 'ada@example.com',
+  name: 'Ada',
+  location: null,
+  isSubscribed: true,
+  isDeleted: false,
+  subscriberTags: [],
+  ...overrides,
+});
+
+describe('parseCsv', () => {
+  it('handles quoted fields, escaped quotes, CRLF and a byte order mark', () => {
+    const csv = '\uFEFFEmail,Name\r\n"a@example.com","Doe, ""Jane"""\r\nb@example.com,Bob\r\n';
+    expect(parseCsv(csv)).toEqual([
+      ['Email', 'Name'],
+      ['a@example.com', 'Doe, "Jane"'],
+      ['b@example.com', 'Bob'],
+    ]);
+  });
+});
+
+describe('parseSubscriberCsv', () => {
+  it('maps columns by header, splits tags and skips blank lines', () => {
+    const { rows, error } = parseSubscriberCsv('Email,Name,Tags\na@example.com,<b>Ann</b>,vip; beta\n\nb@example.com,,\n');
+
+    expect(error).toBeUndefined();
+    expect(rows).toEqual([
+      { line: 2, email: 'a@example.com', name: 'bAnn/b', location: '', tags: ['vip', 'beta'] },
+      { line: 4, email: 'b@example.com', name: '', location: '', tags: [] },
+    ]);
+  });
+
+  it('requires an email column', () => {
+    expect(parseSubscriberCsv('Name\nAnn\n').error).toBe('The file must have an "email" column.');
+  });
+});
+
+describe('importSubscribers', () => {
+  const row = (line: number, email: string, extra: Record<string, unknown> = {}) => ({
+    line,
+    email,
+    name: '',
+    location: '',
+    tags: [] as string[],
+    ...extra,
+  });
+
+  it('reports the diff without writing on a dry run', async () => {
+    mockSubscriberFindMany.mockResolvedValueOnce([
+      existingSubscriber({ id: 'sub-1', email: 'ada@example.com' }),
+      existingSubscriber({ id: 'sub-2', email: 'gone@example.com', isSubscribed: false }),
+      existingSubscriber({ id: 'sub-3', email: 'deleted@example.com', isDeleted: true }),
+    ]);
+
+    const report = await importSubscribers(
+      [
+        row(2, 'new@example.com', { tags: ['vip'] }),
+        row(3, 'ada@example.com', { name: 'Ada Lovelace' }),
+        row(4, 'gone@example.com'),
+        row(5, 'deleted@example.com'),
+        row(6, 'not-an-email'),
+        row(7, 'new@example.com'),
+      ],
+      { dryRun: true, actor: 'admin@example.com' },
+    );
+
+    expect(report.summary).toEqual({
+      total: 6,
+      create: 1,
+      update: 1,
+      unchanged: 0,
+      skip_unsubscribed: 1,
+      skip_deleted: 1,
+      duplicate: 1,
+      invalid: 1,
+    });
+    expect(report.new_tags).toEqual(['vip']);
+    expect(report.rows[1]).toEqual({
+      line: 3,
+      email: 'ada@example.com',
+      action: 'update',
+      changes: { name: { from: 'Ada', to: 'Ada Lovelace' } },
+    });
+    expect(mockSubscriberUpsert).not.toHaveBeenCalled();
+    expect(mockSubscriberUpdate).not.toHaveBeenCalled();
+    expect(mockAuditCreateMany).not.toHaveBeenCalled();
+  });
+
+  it('creates subscribers, attaches tags and audits every matched row', async () => {
+    mockSubscriberFindMany.mockResolvedValueOnce([
+      existingSubscriber({ id: 'sub-2', email: 'gone@example.com', isSubscribed: false }),
+    ]);
+    mockTagFindMany.mockResolvedValueOnce([{ id: 'tag-vip', name: 'vip' }]);
+
+    await importSubscribers(
+      [row(2, 'new@example.com', { name: 'New' }), row(3, 'gone@example.com')],
+      { dryRun: false, tags: ['vip'], actor: 'admin@example.com', ipAddress: '1.2.3.4' },
+    );
+
+    expect(mockSubscriberUpsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { email: 'new@example.com' },
+      update: {},
+    }));
+    expect(mockTagUpsert).not.toHaveBeenCalled();
+    expect(mockSubscriberTagCreateMany).toHaveBeenCalledWith({
+      data: [{ subscriberId: 'new-sub', tagId: 'tag-vip' }],
+      skipDuplicates: true,
+    });
+
+    const { data } = mockAuditCreateMany.mock.calls[0][0] as { data: { subscriberId: string; details: { result: string } }[] };
+    expect(data.map((entry) => [entry.subscriberId, entry.details.result])).toEqual([
+      ['new-sub', 'create'],
+      ['sub-2', 'skip_unsubscribed'],
+    ]);
+  });
+});
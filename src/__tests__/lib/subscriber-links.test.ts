@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach, beforeAll, jest } from '@jest/globals';
+
+type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
+  (...args: Args) => Promise<Return>
+>;
+
+const mockSubscriberFindFirst: AsyncMock = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    newsletterSubscriber: {
+      findFirst: mockSubscriberFindFirst,
+    },
+  },
+}));
+
+type LinksModule = typeof import('@/lib/subscriber-links');
+let createUnsubscribeToken: LinksModule['createUnsubscribeToken'];
+let createPreferencesToken: LinksModule['createPreferencesToken'];
+let resolveSubscriberLinkToken: LinksModule['resolveSubscriberLinkToken'];
+
+beforeAll(async () => {
+  ({ createUnsubscribeToken, createPreferencesToken, resolveSubscriberLinkToken } = await import('@/lib/subscriber-links'));
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockSubscriberFindFirst.mockResolvedValue(null);
+});
+
+describe('resolveSubscriberLinkToken', () => {
+  it('resolves signed tokens without a database lookup', async () => {
+    expect(await resolveSubscriberLinkToken('unsubscribe', createUnsubscribeToken('sub-1'))).toBe('sub-1');
+    expect(await resolveSubscriberLinkToken('preferences', createUnsubscribeToken('sub-1'))).toBeNull();
+    expect(await resolveSubscriberLinkToken('preferences', createPreferencesToken('sub-1'))).toBe('sub-1');
+    expect(mockSubscriberFindFirst).not.toHaveBeenCalled();
+  });
+
+  it('still honours unexpired legacy tokens stored on the subscriber', async () => {
+    const legacyToken = 'a'.repeat(64);
+    mockSubscriberFindFirst.mockResolvedValueOnce({ id: 'sub-legacy' });
+
+    expect(await resolveSubscriberLinkToken('unsubscribe', legacyToken)).toBe('sub-legacy');
+    expect(mockSubscriberFindFirst).toHaveBeenCalledWith({
+      where: {
+        unsubscribeToken: legacyToken,
+        OR: [{ unsubscribeTokenExpiresAt: null }, { unsubscribeTokenExpiresAt: { gt: expect.any(Date) } }],
+      },
+      select: { id: true },
+    });
+  });
+
+  it('rejects anything else', async () => {
+    expect(await resolveSubscriberLinkToken('unsubscribe', 'not-a-token')).toBeNull();
+    expect(await resolveSubscriberLinkToken('unsubscribe', null)).toBeNull();
+    expect(mockSubscriberFindFirst).not.toHaveBeenCalled();
+  });
+});
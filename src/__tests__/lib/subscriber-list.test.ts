@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, beforeAll, jest } from '@jest/globals';
+
+type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
+  (...args: Args) => Promise<Return>
+>;
+
+const mockFindMany: AsyncMock = jest.fn();
+const mockCount: AsyncMock = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    newsletterSubscriber: {
+      findMany: mockFindMany,
+      count: mockCount,
+    },
+  },
+}));
+
+let subscriberList: typeof import('@/lib/subscriber-list');
+
+beforeAll(async () => {
+  subscriberList = await import('@/lib/subscriber-list');
+});
+
+const createdAt = new Date('2026-03-01T12:00:00Z');
+
+const subscriberRecord = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  email: `${id}@example.com`,
+  name: null,
+  isSubscribed: true,
+  isDeleted: false,
+  unsubscribeReason: null,
+  unsubscribeFeedback: null,
+  confirmedAt: createdAt,
+  createdAt,
+  location: null,
+  subscriberTags: [],
+  ...overrides,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockCount.mockResolvedValue(0);
+});
+
+describe('buildSubscriberListWhere', () => {
+  it('combines every filter', () => {
+    const where = subscriberList.buildSubscriberListWhere({
+      status: 'unsubscribed',
+      search: 'ada',
+      tag: '7f2c1a52-9a8e-4d43-8b1f-6c1f0c7f8a10',
+      location: 'london',
+      created_after: '2026-01-01T00:00:00.000Z',
+      created_before: '2026-02-01T00:00:00.000Z',
+    });
+
+    expect(where).toEqual({
+      AND: [
+        { isDeleted: false, isSubscribed: false, confirmedAt: { not: null } },
+        {
+          OR: [
+            { email: { contains: 'ada', mode: 'insensitive' } },
+            { name: { contains: 'ada', mode: 'insensitive' } },
+          ],
+        },
+        { subscriberTags: { some: { tagId: '7f2c1a52-9a8e-4d43-8b1f-6c1f0c7f8a10' } } },
+        { location: { contains: 'london', mode: 'insensitive' } },
+        { createdAt: { gte: new Date('2026-01-01T00:00:00.000Z') } },
+        { createdAt: { lte: new Date('2026-02-01T00:00:00.000Z') } },
+      ],
+    });
+  });
+
+  it('matches every confirmed subscriber, deleted included, with no filters', () => {
+    expect(subscriberList.buildSubscriberListWhere({})).toEqual({ AND: [{ confirmedAt: { not: null } }] });
+    expect(subscriberList.buildSubscriberListWhere({ status: 'deleted' })).toEqual({ AND: [{ isDeleted: true }] });
+  });
+});
+
+describe('parseSubscriberListQuery', () => {
+  it('applies defaults and ignores empty params', () => {
+    const query = subscriberList.parseSubscriberListQuery(new URLSearchParams('search=&status=pending&limit=25'));
+
+    expect(query).toEqual({ status: 'pending', sort: 'created_at', order: 'desc', limit: 25 });
+  });
+
+  it('rejects unknown sort fields', () => {
+    expect(() => subscriberList.parseSubscriberListQuery(new URLSearchParams('sort=name'))).toThrow();
+  });
+});
+
+describe('listSubscribers', () => {
+  it('returns a page with the cursor for the next one', async () => {
+    mockFindMany.mockResolvedValueOnce([subscriberRecord('sub-2'), subscriberRecord('sub-3'), subscriberRecord('sub-4')]);
+    mockCount.mockResolvedValueOnce(10);
+
+    const page = await subscriberList.listSubscribers({
+      status: 'subscribed',
+      sort: 'email',
+      order: 'asc',
+      limit: 2,
+      cursor: 'sub-1',
+    });
+
+    expect(mockFindMany).toHaveBeenCalledWith(expect.objectContaining({
+      orderBy: [{ email: 'asc' }, { id: 'asc' }],
+      take: 3,
+      skip: 1,
+      cursor: { id: 'sub-1' },
+    }));
+    expect(page.subscribers.map((subscriber) => subscriber.id)).toEqual(['sub-2', 'sub-3']);
+    expect(page.subscribers[0]).toEqual(expect.objectContaining({
+      email: 'sub-2@example.com',
+      is_deleted: false,
+      created_at: '2026-03-01T12:00:00.000Z',
+    }));
+    expect(page.next_cursor).toBe('sub-3');
+    expect(page.total).toBe(10);
+  });
+
+  it('has no next cursor on the last page', async () => {
+    mockFindMany.mockResolvedValueOnce([subscriberRecord('sub-1')]);
+    mockCount.mockResolvedValueOnce(1);
+
+    const page = await subscriberList.listSubscribers({ status: 'all', sort: 'created_at', order: 'desc', limit: 50 });
+
+    expect(mockFindMany).toHaveBeenCalledWith(expect.not.objectContaining({ cursor: expect.anything() }));
+    expect(page.next_cursor).toBeNull();
+  });
+});
+
+describe('forEachSubscriberPage', () => {
+  it('walks every matching subscriber a page at a time', async () => {
+    const firstPage = Array.from({ length: 1000 }, (_, i) => ({ id: `sub-${i}` }));
+    mockFindMany.mockResolvedValueOnce(firstPage).mockResolvedValueOnce([{ id: 'sub-1000' }]);
+    const pages: string[][] = [];
+
+    await subscriberList.forEachSubscriberPage({ status: 'subscribed' }, async (ids) => {
+      pages.push(ids);
+    });
+
+    expect(pages.map((ids) => ids.length)).toEqual([1000, 1]);
+    expect(mockFindMany).toHaveBeenLastCalledWith(expect.objectContaining({
+      skip: 1,
+      cursor: { id: 'sub-999' },
+    }));
+  });
+});
+
+describe('exportSubscribersCsv', () => {
+  it('escapes cells and defuses formulas', async () => {
+    mockFindMany.mockResolvedValueOnce([
+      subscriberRecord('sub-1', {
+        name: 'Lovelace, Ada',
+        isSubscribed: false,
+        unsubscribeFeedback: '=HYPERLINK("http://evil.example")',
+        subscriberTags: [{ tag: { id: 'tag-1', name: 'VIP' } }, { tag: { id: 'tag-2', name: 'Beta' } }],
+      }),
+    ]);
+
+    const csv = await subscriberList.exportSubscribersCsv({ status: 'all', sort: 'created_at', order: 'desc' });
+    const [header, row] = csv.split('\n');
+
+    expect(header).toBe('Email,Name,Status,Tags,Location,Unsubscribe Reason,Feedback,Confirmed At,Subscribed On');
+    expect(row).toBe(
+      'sub-1@example.com,"Lovelace, Ada",Unsubscribed,VIP; Beta,,,"\'=HYPERLINK(""http://evil.example"")",' +
+        '2026-03-01T12:00:00.000Z,2026-03-01T12:00:00.000Z',
+    );
+  });
+});
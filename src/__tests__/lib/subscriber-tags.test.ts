@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, beforeAll, jest } from '@jest/globals';
+
+type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
+  (...args: Args) => Promise<Return>
+>;
+
+const mockCreateMany: AsyncMock = jest.fn();
+const mockDeleteMany: AsyncMock = jest.fn();
+const mockNewsletterFindMany: AsyncMock = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    subscriberTag: {
+      createMany: mockCreateMany,
+      deleteMany: mockDeleteMany,
+    },
+    newsletter: {
+      findMany: mockNewsletterFindMany,
+    },
+  },
+}));
+
+type TagsModule = typeof import('@/lib/subscriber-tags');
+let tagSubscribers: TagsModule['tagSubscribers'];
+let untagSubscribers: TagsModule['untagSubscribers'];
+let findNewslettersUsingTag: TagsModule['findNewslettersUsingTag'];
+
+const TAG_ID = '6f1c2d3e-4b5a-4c6d-8e7f-9a0b1c2d3e4f';
+const OTHER_TAG_ID = '0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d';
+
+beforeAll(async () => {
+  ({ tagSubscribers, untagSubscribers, findNewslettersUsingTag } = await import('@/lib/subscriber-tags'));
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('tagSubscribers', () => {
+  it('assigns every tag to every subscriber and skips existing assignments', async () => {
+    mockCreateMany.mockResolvedValueOnce({ count: 3 });
+
+    const count = await tagSubscribers(['sub-1', 'sub-2'], ['tag-1', 'tag-2']);
+
+    expect(count).toBe(3);
+    expect(mockCreateMany).toHaveBeenCalledWith({
+      data: [
+        { subscriberId: 'sub-1', tagId: 'tag-1' },
+        { subscriberId: 'sub-1', tagId: 'tag-2' },
+        { subscriberId: 'sub-2', tagId: 'tag-1' },
+        { subscriberId: 'sub-2', tagId: 'tag-2' },
+      ],
+      skipDuplicates: true,
+    });
+  });
+});
+
+describe('untagSubscribers', () => {
+  it('removes only the given tags from the given subscribers', async () => {
+    mockDeleteMany.mockResolvedValueOnce({ count: 2 });
+
+    await expect(untagSubscribers(['sub-1', 'sub-2'], ['tag-1'])).resolves.toBe(2);
+    expect(mockDeleteMany).toHaveBeenCalledWith({
+      where: {
+        subscriberId: { in: ['sub-1', 'sub-2'] },
+        tagId: { in: ['tag-1'] },
+      },
+    });
+  });
+});
+
+describe('findNewslettersUsingTag', () => {
+  it('finds unsent newsletters whose segment includes or excludes the tag', async () => {
+    mockNewsletterFindMany.mockResolvedValueOnce([
+      { id: 'nl-1', subject: 'Included', segment: { tags: [TAG_ID] } },
+      { id: 'nl-2', subject: 'Excluded', segment: { exclude_tags: [TAG_ID] } },
+      { id: 'nl-3', subject: 'Other tag', segment: { tags: [OTHER_TAG_ID] } },
+      { id: 'nl-4', subject: 'Everyone', segment: null },
+    ]);
+
+    await expect(findNewslettersUsingTag(TAG_ID)).resolves.toEqual([
+      { id: 'nl-1', subject: 'Included' },
+      { id: 'nl-2', subject: 'Excluded' },
+    ]);
+    expect(mockNewsletterFindMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { status: { in: ['draft', 'scheduled'] } },
+    }));
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  createOtpauthUri,
+  decodeBase32,
+  encodeBase32,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  verifyTotp,
+} from '@/lib/totp';
+
+// The SHA-1 secret from the RFC 6238 test vectors, "12345678901234567890"
+const RFC_SECRET = encodeBase32(Buffer.from('12345678901234567890'));
+
+describe('base32', () => {
+  it('round-trips and matches the RFC 4648 encoding', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(decodeBase32(RFC_SECRET).toString()).toBe('12345678901234567890');
+    expect(decodeBase32('gezd gnbv').toString()).toBe('12345');
+  });
+
+  it('makes 32-character secrets', () => {
+    expect(generateTotpSecret()).toMatch(/^[A-Z2-7]{32}$/);
+  });
+});
+
+describe('generateTotp', () => {
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+  ])('matches the RFC 6238 vector at %i seconds', (seconds, code) => {
+    expect(generateTotp(RFC_SECRET, getTotpStep(new Date(seconds * 1000)))).toBe(code);
+  });
+});
+
+describe('verifyTotp', () => {
+  const now = new Date(1111111109 * 1000);
+
+  it('returns the step the code belongs to', () => {
+    expect(verifyTotp(RFC_SECRET, '081804', now)).toBe(getTotpStep(now));
+    expect(verifyTotp(RFC_SECRET, '081 804', now)).toBe(getTotpStep(now));
+  });
+
+  it('allows one step of clock drift either way', () => {
+    const previous = generateTotp(RFC_SECRET, getTotpStep(now) - 1);
+    const tooOld = generateTotp(RFC_SECRET, getTotpStep(now) - 2);
+
+    expect(verifyTotp(RFC_SECRET, previous, now)).toBe(getTotpStep(now) - 1);
+    expect(verifyTotp(RFC_SECRET, tooOld, now)).toBeNull();
+  });
+
+  it('rejects malformed codes', () => {
+    expect(verifyTotp(RFC_SECRET, '12345', now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef', now)).toBeNull();
+  });
+});
+
+describe('createOtpauthUri', () => {
+  it('labels the account with the issuer', () => {
+    const uri = createOtpauthUri('JBSWY3DPEHPK3PXP', 'ada@example.com', 'Example Site');
+
+    expect(uri.startsWith('otpauth://totp/Example%20Site%3Aada%40example.com?')).toBe(true);
+    const params = new URL(uri).searchParams;
+    expect(params.get('secret')).toBe('JBSWY3DPEHPK3PXP');
+    expect(params.get('issuer')).toBe('Example Site');
+    expect(params.get('digits')).toBe('6');
+  });
+});
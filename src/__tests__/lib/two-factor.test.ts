@@ -0,0 +1,229 @@
+/**
+ * @jest-environment node
+ */
+// qrcode encodes with TextEncoder, which jsdom doesn't provide
+import { describe, it, expect, beforeEach, beforeAll, jest } from '@jest/globals';
+import { generateTotp, getTotpStep } from '@/lib/totp';
+import { decryptSecret, encryptSecret } from '@/lib/secret-encryption';
+
+type AsyncMock<Args extends any[] = any[], Return = unknown> = jest.MockedFunction<
+  (...args: Args) => Promise<Return>
+>;
+
+const mockFindUnique: AsyncMock = jest.fn();
+const mockUpdate: AsyncMock = jest.fn();
+const mockUpdateMany: AsyncMock = jest.fn();
+const mockFailedAttemptCount: AsyncMock = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    profile: {
+      findUnique: mockFindUnique,
+      update: mockUpdate,
+      updateMany: mockUpdateMany,
+    },
+    failedAttempt: {
+      count: mockFailedAttemptCount,
+    },
+  },
+}));
+
+let twoFactor: typeof import('@/lib/two-factor');
+
+beforeAll(async () => {
+  process.env.JWT_SECRET = 'test-jwt-secret-key-minimum-32-characters-long';
+  twoFactor = await import('@/lib/two-factor');
+});
+
+const SECRET = 'JBSWY3DPEHPK3PXP';
+const now = new Date('2026-10-19T09:00:00Z');
+const step = getTotpStep(now);
+
+const profile = (overrides: Record<string, unknown> = {}) => ({
+  id: 'profile-1',
+  email: 'grace@example.com',
+  role: 'editor',
+  passwordChangedAt: new Date('2026-10-10T09:00:00Z'),
+  twoFactorSecret: encryptSecret(SECRET),
+  twoFactorEnabledAt: new Date('2026-10-11T09:00:00Z'),
+  twoFactorLastUsedStep: null,
+  twoFactorRecoveryCodes: [] as string[],
+  ...overrides,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  delete process.env.ADMIN_REQUIRE_2FA;
+  mockUpdate.mockResolvedValue({});
+  mockUpdateMany.mockResolvedValue({ count: 1 });
+});
+
+describe('secret encryption', () => {
+  it('round-trips without storing the plaintext', () => {
+    const encrypted = encryptSecret(SECRET);
+
+    expect(encrypted).not.toContain(SECRET);
+    expect(encrypted).not.toBe(encryptSecret(SECRET));
+    expect(decryptSecret(encrypted)).toBe(SECRET);
+  });
+
+  it('refuses tampered values', () => {
+    const [version, iv, tag, ciphertext] = encryptSecret(SECRET).split('.');
+    const flipped = Buffer.from(ciphertext, 'base64url');
+    flipped[0] ^= 1;
+
+    expect(() => decryptSecret([version, iv, tag, flipped.toString('base64url')].join('.'))).toThrow();
+  });
+});
+
+describe('verifyTwoFactorCode', () => {
+  it('accepts a current code once', async () => {
+    const code = generateTotp(SECRET, step);
+
+    await expect(twoFactor.verifyTwoFactorCode(profile(), code, now)).resolves.toBe('totp');
+    expect(mockUpdateMany).toHaveBeenCalledWith({
+      where: {
+        id: 'profile-1',
+        OR: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { lt: step } }],
+      },
+      data: { twoFactorLastUsedStep: step },
+    });
+
+    mockUpdateMany.mockResolvedValueOnce({ count: 0 });
+    await expect(twoFactor.verifyTwoFactorCode(profile({ twoFactorLastUsedStep: step }), code, now)).resolves.toBeNull();
+  });
+
+  it('uses up a recovery code', async () => {
+    const [first, second] = twoFactor.generateRecoveryCodes(2);
+    const stored = [twoFactor.hashRecoveryCode(first), twoFactor.hashRecoveryCode(second)];
+
+    await expect(
+      twoFactor.verifyTwoFactorCode(profile({ twoFactorRecoveryCodes: stored }), first.toUpperCase(), now),
+    ).resolves.toBe('recovery');
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: 'profile-1' },
+      data: { twoFactorRecoveryCodes: [stored[1]] },
+    });
+  });
+
+  it('still accepts recovery codes when the secret can no longer be decrypted', async () => {
+    const [code] = twoFactor.generateRecoveryCodes(1);
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(
+      twoFactor.verifyTwoFactorCode(
+        profile({ twoFactorSecret: 'v1.bad.bad.bad', twoFactorRecoveryCodes: [twoFactor.hashRecoveryCode(code)] }),
+        code,
+        now,
+      ),
+    ).resolves.toBe('recovery');
+    consoleError.mockRestore();
+  });
+
+  it('rejects codes when 2FA is off', async () => {
+    const code = generateTotp(SECRET, step);
+
+    await expect(
+      twoFactor.verifyTwoFactorCode(profile({ twoFactorEnabledAt: null }), code, now),
+    ).resolves.toBeNull();
+    expect(mockUpdateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('enrolment', () => {
+  it('stores the new secret encrypted and returns a QR code', async () => {
+    mockFindUnique.mockResolvedValueOnce(profile({ twoFactorSecret: null, twoFactorEnabledAt: null }));
+
+    const enrollment = await twoFactor.beginTwoFactorEnrollment({ id: 'profile-1', email: 'grace@example.com' });
+
+    expect(enrollment?.otpauth_uri).toContain(`secret=${enrollment?.secret}`);
+    expect(enrollment?.qr_code).toMatch(/^data:image\/png;base64,/);
+    const { data } = mockUpdate.mock.calls[0][0] as { data: { twoFactorSecret: string } };
+    expect(data.twoFactorSecret).not.toContain(enrollment?.secret as string);
+    expect(decryptSecret(data.twoFactorSecret)).toBe(enrollment?.secret);
+  });
+
+  it('turns 2FA on with a correct code and returns recovery codes', async () => {
+    mockFindUnique.mockResolvedValueOnce(profile({ twoFactorEnabledAt: null }));
+
+    const codes = await twoFactor.confirmTwoFactorEnrollment('profile-1', generateTotp(SECRET, step), now);
+
+    expect(codes).toHaveLength(twoFactor.RECOVERY_CODE_COUNT);
+    expect(codes?.[0]).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/);
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: 'profile-1' },
+      data: {
+        twoFactorEnabledAt: now,
+        twoFactorLastUsedStep: step,
+        twoFactorRecoveryCodes: (codes as string[]).map(twoFactor.hashRecoveryCode),
+      },
+    });
+  });
+
+  it('keeps 2FA off when the code is wrong', async () => {
+    mockFindUnique.mockResolvedValueOnce(profile({ twoFactorEnabledAt: null }));
+
+    await expect(twoFactor.confirmTwoFactorEnrollment('profile-1', '000000', now)).resolves.toBeNull();
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+});
+
+describe('disableTwoFactor', () => {
+  it('is refused while 2FA is required', async () => {
+    process.env.ADMIN_REQUIRE_2FA = 'true';
+
+    await expect(twoFactor.disableTwoFactor('profile-1', generateTotp(SECRET, step), now)).resolves.toBe('required');
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it('clears the secret and recovery codes', async () => {
+    mockFindUnique.mockResolvedValueOnce(profile());
+
+    await expect(twoFactor.disableTwoFactor('profile-1', generateTotp(SECRET, step), now)).resolves.toBe('disabled');
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: 'profile-1' },
+      data: {
+        twoFactorSecret: null,
+        twoFactorEnabledAt: null,
+        twoFactorLastUsedStep: null,
+        twoFactorRecoveryCodes: [],
+      },
+    });
+  });
+});
+
+describe('pre-auth tokens', () => {
+  it('identify the profile until the password changes', async () => {
+    const token = twoFactor.createPreAuthToken(profile());
+
+    mockFindUnique.mockResolvedValueOnce(profile());
+    await expect(twoFactor.verifyPreAuthToken(token)).resolves.toEqual(expect.objectContaining({ id: 'profile-1' }));
+
+    mockFindUnique.mockResolvedValueOnce(profile({ passwordChangedAt: new Date('2026-10-18T09:00:00Z') }));
+    await expect(twoFactor.verifyPreAuthToken(token)).resolves.toBeNull();
+  });
+
+  it('expire after a few minutes', async () => {
+    const token = twoFactor.createPreAuthToken(profile(), now);
+
+    await expect(
+      twoFactor.verifyPreAuthToken(token, new Date(now.getTime() + twoFactor.PRE_AUTH_TTL_MS + 1000)),
+    ).resolves.toBeNull();
+    expect(mockFindUnique).not.toHaveBeenCalled();
+  });
+});
+
+describe('isTwoFactorLocked', () => {
+  it('counts recent wrong codes for the account', async () => {
+    mockFailedAttemptCount.mockResolvedValueOnce(twoFactor.MAX_CODE_ATTEMPTS);
+
+    await expect(twoFactor.isTwoFactorLocked('grace@example.com', now)).resolves.toBe(true);
+    expect(mockFailedAttemptCount).toHaveBeenCalledWith({
+      where: {
+        email: 'grace@example.com',
+        actionType: 'admin_two_factor',
+        timestamp: { gte: new Date(now.getTime() - twoFactor.CODE_ATTEMPT_WINDOW_MS) },
+      },
+    });
+  });
+});
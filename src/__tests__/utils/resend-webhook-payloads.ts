@@ -0,0 +1,42 @@
+/**
+ * Signed Resend webhook deliveries recorded for tests. Bodies must stay
+ * byte-for-byte identical or their signatures stop verifying.
+ */
+
+export const WEBHOOK_SECRET = 'whsec_MfKQ9r8GKYqrTwjUPD8ILPZIo2LaLaSw';
+
+export interface RecordedWebhook {
+  headers: { 'svix-id': string; 'svix-timestamp': string; 'svix-signature': string };
+  body: string;
+  receivedAt: Date;
+}
+
+export const deliveredWebhook: RecordedWebhook = {
+  headers: {
+    'svix-id': 'msg_2nJ4kRgXqY0vT7bPzL1wH9sE3aC',
+    'svix-timestamp': '1792402872',
+    'svix-signature': 'v1,sFmlpWdnuU5fFwuVYEekERydPF5UVBZCaYz2ZQdHz7Q=',
+  },
+  body: `{"type":"email.delivered","created_at":"2026-10-19T09:41:12.126Z","data":{"created_at":"2026-10-19T09:41:11.894719+00:00","email_id":"4ef9a417-02e9-4d39-ad75-9611e0fcc33c","from":"Newsletter <noreply@yourdomain.com>","to":["reader@example.com"],"subject":"October update"}}`,
+  receivedAt: new Date('2026-10-19T09:41:13Z'),
+};
+
+export const bouncedWebhook: RecordedWebhook = {
+  headers: {
+    'svix-id': 'msg_2nJ4lM8sVwQ3eK6rUyD0pF5hZbN',
+    'svix-timestamp': '1792402923',
+    'svix-signature': 'v1,HYwVOUeTpHfvwjpe7fYHSNdI7zaXqsHU40B62a5M/j4=',
+  },
+  body: `{"type":"email.bounced","created_at":"2026-10-19T09:42:03.512Z","data":{"created_at":"2026-10-19T09:41:58.102233+00:00","email_id":"56761188-7520-42d8-8898-ff6fc54ce618","from":"Newsletter <noreply@yourdomain.com>","to":["gone@example.com"],"subject":"October update","bounce":{"message":"The recipient's email address does not exist.","subType":"General","type":"Permanent"}}}`,
+  receivedAt: new Date('2026-10-19T09:42:04Z'),
+};
+
+export const complainedWebhook: RecordedWebhook = {
+  headers: {
+    'svix-id': 'msg_2nJ4xA7cGtH2jW9mRqS4vL8eYkP',
+    'svix-timestamp': '1792404347',
+    'svix-signature': 'v1,PjPjEfqDHey2C4Ag0Ycqmwk2QEwpS/5xlS8wumdDZYY=',
+  },
+  body: `{"type":"email.complained","created_at":"2026-10-19T10:05:47.331Z","data":{"created_at":"2026-10-19T09:41:12.004512+00:00","email_id":"a1d3c5e7-9b2f-4e6a-8c0d-1f3b5d7e9a2c","from":"Newsletter <noreply@yourdomain.com>","to":["angry@example.com"],"subject":"October update"}}`,
+  receivedAt: new Date('2026-10-19T10:05:48Z'),
+};
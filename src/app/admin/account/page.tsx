@@ -0,0 +1,502 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { ROLE_LABELS, isAdminRole } from '@/lib/permissions';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recovery_codes_remaining: number;
+}
+
+interface TwoFactorEnrollment {
+  secret: string;
+  otpauth_uri: string;
+  qr_code: string;
+}
+
+interface ActiveSession {
+  id: string;
+  device: string;
+  ip_address: string | null;
+  created_at: string;
+  last_seen_at: string;
+  expires_at: string;
+  current: boolean;
+}
+
+export default function AccountPage() {
+  const router = useRouter();
+  const [email, setEmail] = useState<string | null>(null);
+  const [role, setRole] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [changingPassword, setChangingPassword] = useState(false);
+  const [twoFactor, setTwoFactor] = useState<TwoFactorStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [twoFactorBusy, setTwoFactorBusy] = useState(false);
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [sessionsBusy, setSessionsBusy] = useState(false);
+
+  useEffect(() => {
+    fetchCurrentUser();
+    fetchTwoFactorStatus();
+    fetchSessions();
+  }, []);
+
+  const fetchSessions = async () => {
+    try {
+      const response = await fetch('/api/admin/account/sessions');
+      if (!response.ok) throw new Error('Failed to fetch sessions');
+      const data = await response.json();
+      setSessions(data.sessions);
+    } catch (err) {
+      console.error('Error fetching sessions:', err);
+    }
+  };
+
+  // Revokes one session, or every session when no id is given
+  const revokeSessions = async (id?: string): Promise<Record<string, unknown> | null> => {
+    setSessionsBusy(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch(id ? `/api/admin/account/sessions/${id}` : '/api/admin/account/sessions', {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to sign out');
+      }
+      return data;
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to sign out');
+      return null;
+    } finally {
+      setSessionsBusy(false);
+    }
+  };
+
+  const handleRevokeSession = async (session: ActiveSession) => {
+    if (!confirm(`Sign out ${session.device}?`)) return;
+    if (await revokeSessions(session.id)) {
+      setNotice(`Signed out ${session.device}.`);
+      await fetchSessions();
+    }
+  };
+
+  const handleRevokeAllSessions = async () => {
+    if (!confirm('Sign out on every device, including this one?')) return;
+    if (await revokeSessions()) {
+      router.replace('/login');
+    }
+  };
+
+  const fetchTwoFactorStatus = async () => {
+    try {
+      const response = await fetch('/api/admin/account/two-factor');
+      if (!response.ok) throw new Error('Failed to fetch two-factor status');
+      setTwoFactor(await response.json());
+    } catch (err) {
+      console.error('Error fetching two-factor status:', err);
+    }
+  };
+
+  // Runs one two-factor request, showing its error; returns the response body on success
+  const twoFactorRequest = async (
+    url: string,
+    method: string,
+    body?: Record<string, string>
+  ): Promise<Record<string, unknown> | null> => {
+    setTwoFactorBusy(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Request failed');
+      }
+      return data;
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return null;
+    } finally {
+      setTwoFactorBusy(false);
+      setTwoFactorCode('');
+    }
+  };
+
+  const handleStartTwoFactor = async () => {
+    setRecoveryCodes([]);
+    const data = await twoFactorRequest('/api/admin/account/two-factor', 'POST');
+    if (data) setEnrollment(data as unknown as TwoFactorEnrollment);
+  };
+
+  const handleConfirmTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await twoFactorRequest('/api/admin/account/two-factor', 'PUT', { code: twoFactorCode });
+    if (data) {
+      setEnrollment(null);
+      setRecoveryCodes(data.recovery_codes as string[]);
+      setNotice('Two-factor authentication is on.');
+      await fetchTwoFactorStatus();
+    }
+  };
+
+  const handleRegenerateCodes = async () => {
+    const data = await twoFactorRequest('/api/admin/account/two-factor/recovery-codes', 'POST', { code: twoFactorCode });
+    if (data) {
+      setRecoveryCodes(data.recovery_codes as string[]);
+      setNotice('New recovery codes created. The old ones no longer work.');
+      await fetchTwoFactorStatus();
+    }
+  };
+
+  const handleDisableTwoFactor = async () => {
+    if (!confirm('Turn off two-factor authentication? Signing in will only need your password.')) return;
+    const data = await twoFactorRequest('/api/admin/account/two-factor', 'DELETE', { code: twoFactorCode });
+    if (data) {
+      setRecoveryCodes([]);
+      setNotice('Two-factor authentication is off.');
+      await fetchTwoFactorStatus();
+    }
+  };
+
+  const fetchCurrentUser = async () => {
+    try {
+      const response = await fetch('/api/auth/login');
+      if (!response.ok) return;
+      const data = await response.json();
+      setEmail(data.user?.email ?? null);
+      setRole(data.user?.role ?? null);
+    } catch (err) {
+      console.error('Error fetching current user:', err);
+    }
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setNotice(null);
+
+    if (newPassword !== confirmPassword) {
+      setError('New passwords do not match');
+      return;
+    }
+
+    setChangingPassword(true);
+    try {
+      const response = await fetch('/api/admin/account/password', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ current_password: currentPassword, new_password: newPassword }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details?.[0]?.message || errorData.error || 'Failed to change password');
+      }
+
+      setNotice('Password changed. Other sessions have been signed out.');
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      await fetchSessions();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to change password');
+    } finally {
+      setChangingPassword(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-white">Account</h2>
+        {email && (
+          <p className="mt-1 text-sm text-gray-400">
+            Signed in as {email}
+            {role && isAdminRole(role) && ` (${ROLE_LABELS[role]})`}
+          </p>
+        )}
+      </div>
+
+      {error && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="rounded-md bg-red-500/10 border border-red-500 p-4"
+        >
+          <h3 className="text-sm font-medium text-red-400">{error}</h3>
+        </motion.div>
+      )}
+
+      {notice && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="rounded-md bg-green-500/10 border border-green-500 p-4"
+        >
+          <h3 className="text-sm font-medium text-green-400">{notice}</h3>
+        </motion.div>
+      )}
+
+      <form onSubmit={handleChangePassword} className="bg-gray-800 rounded-lg p-6 space-y-4">
+        <h3 className="text-lg font-medium text-gray-300">Change your password</h3>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label htmlFor="current-password" className="block text-sm font-medium text-gray-300">Current password</label>
+            <input
+              id="current-password"
+              type="password"
+              required
+              autoComplete="current-password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-700 bg-gray-700 text-white shadow-sm focus:border-purple-500 focus:ring-purple-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="new-password" className="block text-sm font-medium text-gray-300">New password</label>
+            <input
+              id="new-password"
+              type="password"
+              required
+              minLength={12}
+              autoComplete="new-password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-700 bg-gray-700 text-white shadow-sm focus:border-purple-500 focus:ring-purple-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="confirm-password" className="block text-sm font-medium text-gray-300">Confirm new password</label>
+            <input
+              id="confirm-password"
+              type="password"
+              required
+              minLength={12}
+              autoComplete="new-password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-700 bg-gray-700 text-white shadow-sm focus:border-purple-500 focus:ring-purple-500 sm:text-sm"
+            />
+          </div>
+          <div className="flex items-end">
+            <button
+              type="submit"
+              disabled={changingPassword}
+              className="w-full px-4 py-2 rounded-md bg-purple-600 text-white text-sm font-medium hover:bg-purple-700 disabled:opacity-50"
+            >
+              {changingPassword ? 'Saving...' : 'Change password'}
+            </button>
+          </div>
+        </div>
+        <p className="text-xs text-gray-400">At least 12 characters. Changing it signs you out on other devices.</p>
+      </form>
+
+      {twoFactor && (
+        <div className="bg-gray-800 rounded-lg p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-medium text-gray-300">Two-factor authentication</h3>
+            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+              twoFactor.enabled ? 'bg-green-900 text-green-200' : 'bg-gray-700 text-gray-300'
+            }`}>
+              {twoFactor.enabled ? 'On' : 'Off'}
+            </span>
+          </div>
+
+          {recoveryCodes.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-300">
+                Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+                authenticator app, and they won&apos;t be shown again.
+              </p>
+              <ul className="grid grid-cols-2 md:grid-cols-5 gap-2 rounded-md bg-gray-900 border border-gray-700 p-4 font-mono text-sm text-white">
+                {recoveryCodes.map((recoveryCode) => (
+                  <li key={recoveryCode}>{recoveryCode}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {!twoFactor.enabled && !enrollment && (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-400">
+                {twoFactor.required
+                  ? 'Two-factor authentication is required for admin accounts.'
+                  : 'Ask for a code from an authenticator app as well as your password when signing in.'}
+              </p>
+              <button
+                type="button"
+                onClick={handleStartTwoFactor}
+                disabled={twoFactorBusy}
+                className="px-4 py-2 rounded-md bg-purple-600 text-white text-sm font-medium hover:bg-purple-700 disabled:opacity-50"
+              >
+                Set up two-factor authentication
+              </button>
+            </div>
+          )}
+
+          {enrollment && (
+            <form onSubmit={handleConfirmTwoFactor} className="space-y-4">
+              <p className="text-sm text-gray-300">
+                Scan this QR code with an authenticator app, then enter the 6-digit code it shows.
+              </p>
+              <div className="flex flex-col md:flex-row md:items-center gap-4">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={enrollment.qr_code} alt="QR code for your authenticator app" className="w-48 h-48 rounded bg-white p-2" />
+                <p className="text-xs text-gray-400">
+                  Can&apos;t scan it? Enter this key instead:
+                  <span className="block mt-1 font-mono text-gray-200 break-all">{enrollment.secret}</span>
+                </p>
+              </div>
+              <div className="flex gap-4 items-end">
+                <div>
+                  <label htmlFor="enroll-code" className="block text-sm font-medium text-gray-300">Code</label>
+                  <input
+                    id="enroll-code"
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    required
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                    className="mt-1 block w-40 rounded-md border-gray-700 bg-gray-700 text-white shadow-sm focus:border-purple-500 focus:ring-purple-500 sm:text-sm tracking-widest"
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={twoFactorBusy}
+                  className="px-4 py-2 rounded-md bg-purple-600 text-white text-sm font-medium hover:bg-purple-700 disabled:opacity-50"
+                >
+                  Turn on
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setEnrollment(null)}
+                  className="px-4 py-2 text-sm text-gray-400 hover:text-white"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          )}
+
+          {twoFactor.enabled && (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-400">
+                {twoFactor.recovery_codes_remaining} recovery code{twoFactor.recovery_codes_remaining === 1 ? '' : 's'} left.
+                Enter a code from your app to make changes.
+              </p>
+              <div className="flex flex-wrap gap-4 items-end">
+                <div>
+                  <label htmlFor="manage-code" className="block text-sm font-medium text-gray-300">Code</label>
+                  <input
+                    id="manage-code"
+                    type="text"
+                    autoComplete="one-time-code"
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                    className="mt-1 block w-40 rounded-md border-gray-700 bg-gray-700 text-white shadow-sm focus:border-purple-500 focus:ring-purple-500 sm:text-sm tracking-widest"
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={handleRegenerateCodes}
+                  disabled={twoFactorBusy || !twoFactorCode}
+                  className="px-4 py-2 rounded-md bg-gray-700 text-white text-sm font-medium hover:bg-gray-600 disabled:opacity-50"
+                >
+                  New recovery codes
+                </button>
+                {!twoFactor.required && (
+                  <button
+                    type="button"
+                    onClick={handleDisableTwoFactor}
+                    disabled={twoFactorBusy || !twoFactorCode}
+                    className="px-4 py-2 rounded-md text-red-400 text-sm font-medium hover:text-red-300 disabled:opacity-50"
+                  >
+                    Turn off
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="bg-gray-800 rounded-lg p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-300">Active sessions</h3>
+          <button
+            type="button"
+            onClick={handleRevokeAllSessions}
+            disabled={sessionsBusy || sessions.length === 0}
+            className="px-4 py-2 rounded-md text-red-400 text-sm font-medium hover:text-red-300 disabled:opacity-50"
+          >
+            Log out everywhere
+          </button>
+        </div>
+        <p className="text-sm text-gray-400">
+          Devices signed in to your account. Sessions end after a week without use.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-700">
+            <thead>
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Device</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">IP address</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Last active</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Signed in</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {sessions.map((session) => (
+                <tr key={session.id}>
+                  <td className="px-4 py-3 text-sm text-white">
+                    {session.device}
+                    {session.current && (
+                      <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-900 text-green-200">
+                        This device
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-300">{session.ip_address ?? 'Unknown'}</td>
+                  <td className="px-4 py-3 text-sm text-gray-300">{new Date(session.last_seen_at).toLocaleString()}</td>
+                  <td className="px-4 py-3 text-sm text-gray-300">{new Date(session.created_at).toLocaleDateString()}</td>
+                  <td className="px-4 py-3 text-right">
+                    {!session.current && (
+                      <button
+                        type="button"
+                        onClick={() => handleRevokeSession(session)}
+                        disabled={sessionsBusy}
+                        className="text-sm text-red-400 hover:text-red-300 disabled:opacity-50"
+                      >
+                        Sign out
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
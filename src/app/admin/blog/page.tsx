@@ -4,6 +4,7 @@ import { useEffect, useState, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import { useRouter } from 'next/navigation';
 import { format } from 'date-fns';
+import { ScheduleControls } from '@/components/admin/ScheduleControls';
 
 interface BlogPost {
   id: string;
@@ -35,6 +36,7 @@ export default function BlogPosts() {
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [publishingId, setPublishingId] = useState<string | null>(null);
   const [unpublishingId, setUnpublishingId] = useState<string | null>(null);
+  const [schedulingId, setSchedulingId] = useState<string | null>(null);
   const [isSearchFocused, setIsSearchFocused] = useState(false);
 
   const fetchPosts = useCallback(async () => {
@@ -143,6 +145,60 @@ export default function BlogPosts() {
     }
   }, []);
 
+  const handleSchedule = useCallback(async (id: string, publishAt: string) => {
+    setSchedulingId(id);
+    try {
+      const response = await fetch(`/api/admin/blog/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          status: 'scheduled',
+          publishedAt: publishAt,
+        }),
+      });
+      if (!response.ok) throw new Error('Failed to schedule post');
+
+      setPosts(prevPosts => prevPosts.map(post =>
+        post.id === id
+          ? { ...post, status: 'scheduled', published_at: publishAt }
+          : post
+      ));
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to schedule post';
+      setError(errorMessage);
+      console.error('Error scheduling post:', err);
+    } finally {
+      setSchedulingId(null);
+    }
+  }, []);
+
+  const handleCancelSchedule = useCallback(async (id: string) => {
+    setSchedulingId(id);
+    try {
+      const response = await fetch(`/api/admin/blog/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          status: 'draft',
+          publishedAt: null,
+        }),
+      });
+      if (!response.ok) throw new Error('Failed to cancel scheduled post');
+
+      setPosts(prevPosts => prevPosts.map(post =>
+        post.id === id
+          ? { ...post, status: 'draft', published_at: null }
+          : post
+      ));
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to cancel scheduled post';
+      setError(errorMessage);
+      console.error('Error cancelling scheduled post:', err);
+    } finally {
+      setSchedulingId(null);
+    }
+  }, []);
+
   const handleSearchKeyDown = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Escape') {
       setSearchTerm('');
@@ -373,6 +429,15 @@ export default function BlogPosts() {
                             {publishingId === post.id ? 'Publishing...' : 'Publish'}
                           </button>
                         )}
+                        {post.status !== 'published' && (
+                          <ScheduleControls
+                            scheduledFor={post.published_at}
+                            isScheduled={post.status === 'scheduled'}
+                            disabled={schedulingId === post.id}
+                            onSchedule={(publishAt) => handleSchedule(post.id, publishAt)}
+                            onCancel={() => handleCancelSchedule(post.id)}
+                          />
+                        )}
                         <button
                           onClick={() => handleDelete(post.id)}
                           disabled={deletingId === post.id}
@@ -0,0 +1,403 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+
+type TemplateKind = 'email' | 'layout' | 'partial';
+
+interface TemplateSummary {
+  key: string;
+  name: string;
+  description: string;
+  kind: TemplateKind;
+  customized: boolean;
+  updated_at: string | null;
+  updated_by: string | null;
+}
+
+interface TemplateSource {
+  subject: string | null;
+  html: string;
+  text: string | null;
+}
+
+interface VariableSpec {
+  type: string;
+  description: string;
+  fields?: string[];
+}
+
+interface TemplateDetail extends TemplateSummary, TemplateSource {
+  variables: Record<string, VariableSpec>;
+  default: TemplateSource;
+}
+
+interface Preview {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const KIND_LABELS: Record<TemplateKind, string> = {
+  email: 'Emails',
+  layout: 'Layout',
+  partial: 'Partials',
+};
+
+const inputClassName =
+  'mt-1 block w-full rounded-md border-gray-700 bg-gray-700 text-white shadow-sm focus:border-purple-500 focus:ring-purple-500 sm:text-sm';
+
+export default function EmailTemplatesPage() {
+  const [templates, setTemplates] = useState<TemplateSummary[]>([]);
+  const [selected, setSelected] = useState<TemplateDetail | null>(null);
+  const [subject, setSubject] = useState('');
+  const [html, setHtml] = useState('');
+  const [text, setText] = useState('');
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [previewTab, setPreviewTab] = useState<'html' | 'text'>('html');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  const fetchTemplates = async () => {
+    try {
+      const response = await fetch('/api/admin/email-templates');
+      if (!response.ok) throw new Error('Failed to fetch email templates');
+      const data = await response.json();
+      setTemplates(data.templates || []);
+    } catch (err) {
+      console.error('Error fetching email templates:', err);
+      setError('Failed to fetch email templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadSource = (source: TemplateSource) => {
+    setSubject(source.subject || '');
+    setHtml(source.html);
+    setText(source.text || '');
+    setPreview(null);
+  };
+
+  const selectTemplate = async (key: string) => {
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/admin/email-templates/${key}`);
+      if (!response.ok) throw new Error('Failed to fetch email template');
+      const data: TemplateDetail = await response.json();
+      setSelected(data);
+      loadSource(data);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch email template');
+    }
+  };
+
+  const draft = () => ({
+    subject: selected?.kind === 'email' ? subject : null,
+    html,
+    text: text.trim() ? text : null,
+  });
+
+  const errorMessage = (data: { error?: string; details?: unknown[] }, fallback: string) => {
+    const [detail] = data.details || [];
+    if (typeof detail === 'string') return `${data.error}: ${data.details?.join('; ')}`;
+    if (detail && typeof detail === 'object' && 'message' in detail) return String(detail.message);
+    return data.error || fallback;
+  };
+
+  const handlePreview = async () => {
+    if (!selected) return;
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/email-templates/${selected.key}/preview`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(draft()),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(errorMessage(data, 'Failed to preview email template'));
+      setPreview(data);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to preview email template');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!selected) return;
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/admin/email-templates/${selected.key}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(draft()),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(errorMessage(data, 'Failed to save email template'));
+
+      setSelected({ ...selected, ...data });
+      setMessage('Template saved. New emails use it straight away.');
+      await fetchTemplates();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to save email template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!selected) return;
+    if (!confirm(`Discard your changes to "${selected.name}" and use the built-in template?`)) return;
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/admin/email-templates/${selected.key}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to reset email template');
+      }
+
+      setSelected({ ...selected, ...selected.default, customized: false, updated_at: null, updated_by: null });
+      loadSource(selected.default);
+      setMessage('Template reset to the built-in default.');
+      await fetchTemplates();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to reset email template');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-purple-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-white">Email Templates</h2>
+        <p className="mt-1 text-sm text-gray-400">
+          Every email is rendered into the layout, which includes the header and footer partials.
+          Use <code className="text-purple-300">{'{{name}}'}</code> for variables,{' '}
+          <code className="text-purple-300">{'{{#if name}}...{{else}}...{{/if}}'}</code> and{' '}
+          <code className="text-purple-300">{'{{#each list}}...{{/each}}'}</code> for blocks.
+        </p>
+      </div>
+
+      {error && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="rounded-md bg-red-500/10 border border-red-500 p-4"
+        >
+          <h3 className="text-sm font-medium text-red-400">{error}</h3>
+        </motion.div>
+      )}
+
+      {message && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="rounded-md bg-green-500/10 border border-green-500 p-4"
+        >
+          <h3 className="text-sm font-medium text-green-400">{message}</h3>
+        </motion.div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <div className="bg-gray-800 rounded-lg p-6 space-y-6">
+          {(Object.keys(KIND_LABELS) as TemplateKind[]).map((kind) => (
+            <div key={kind}>
+              <h3 className="text-xs font-medium text-gray-400 uppercase tracking-wider mb-2">{KIND_LABELS[kind]}</h3>
+              <ul className="space-y-1">
+                {templates
+                  .filter((template) => template.kind === kind)
+                  .map((template) => (
+                    <li key={template.key}>
+                      <button
+                        onClick={() => selectTemplate(template.key)}
+                        className={`w-full text-left px-3 py-2 rounded-md text-sm ${
+                          selected?.key === template.key
+                            ? 'bg-purple-600 text-white'
+                            : 'text-gray-300 hover:bg-gray-700 hover:text-white'
+                        }`}
+                      >
+                        {template.name}
+                        {template.customized && (
+                          <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-700 text-gray-300">
+                            edited
+                          </span>
+                        )}
+                      </button>
+                    </li>
+                  ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        <div className="lg:col-span-3 space-y-6">
+          {!selected ? (
+            <div className="bg-gray-800 rounded-lg p-6 text-sm text-gray-400">
+              Choose a template to edit it.
+            </div>
+          ) : (
+            <>
+              <div className="bg-gray-800 rounded-lg p-6 space-y-4">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h3 className="text-lg font-medium text-gray-300">{selected.name}</h3>
+                    <p className="text-sm text-gray-400">{selected.description}</p>
+                    <p className="mt-1 text-xs text-gray-500">
+                      {selected.customized && selected.updated_at
+                        ? `Edited ${new Date(selected.updated_at).toLocaleString()}${selected.updated_by ? ` by ${selected.updated_by}` : ''}`
+                        : 'Using the built-in template'}
+                    </p>
+                  </div>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={handlePreview}
+                      className="px-4 py-2 rounded-md bg-gray-700 text-sm text-gray-300 hover:text-white"
+                    >
+                      Preview
+                    </button>
+                    {selected.customized && (
+                      <button
+                        onClick={handleReset}
+                        className="px-4 py-2 rounded-md bg-gray-700 text-sm text-red-400 hover:text-red-300"
+                      >
+                        Reset to default
+                      </button>
+                    )}
+                    <button
+                      onClick={handleSave}
+                      disabled={saving}
+                      className="px-4 py-2 rounded-md bg-purple-600 text-white text-sm font-medium hover:bg-purple-700 disabled:opacity-50"
+                    >
+                      {saving ? 'Saving...' : 'Save'}
+                    </button>
+                  </div>
+                </div>
+
+                {selected.kind === 'email' && (
+                  <div>
+                    <label htmlFor="template-subject" className="block text-sm font-medium text-gray-300">Subject</label>
+                    <input
+                      id="template-subject"
+                      type="text"
+                      value={subject}
+                      onChange={(e) => setSubject(e.target.value)}
+                      className={inputClassName}
+                    />
+                  </div>
+                )}
+                <div>
+                  <label htmlFor="template-html" className="block text-sm font-medium text-gray-300">HTML</label>
+                  <textarea
+                    id="template-html"
+                    rows={16}
+                    value={html}
+                    onChange={(e) => setHtml(e.target.value)}
+                    spellCheck={false}
+                    className={`${inputClassName} font-mono`}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="template-text" className="block text-sm font-medium text-gray-300">Plain text (optional)</label>
+                  <textarea
+                    id="template-text"
+                    rows={6}
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    spellCheck={false}
+                    placeholder="Leave empty to generate the plain-text version from the HTML"
+                    className={`${inputClassName} font-mono`}
+                  />
+                </div>
+              </div>
+
+              <div className="bg-gray-800 rounded-lg p-6">
+                <h3 className="text-lg font-medium text-gray-300 mb-4">Variables</h3>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-700">
+                    <thead>
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Name</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Type</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Description</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-700">
+                      {Object.entries(selected.variables).map(([name, spec]) => (
+                        <tr key={name}>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-purple-300">
+                            {spec.type === 'html' ? `{{{${name}}}}` : `{{${name}}}`}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                            {spec.type}
+                            {spec.fields && ` of ${spec.fields.join(', ')}`}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-300">{spec.description}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              {preview && (
+                <div className="bg-gray-800 rounded-lg p-6 space-y-4">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-lg font-medium text-gray-300">Preview</h3>
+                    <div className="flex space-x-2">
+                      {(['html', 'text'] as const).map((tab) => (
+                        <button
+                          key={tab}
+                          onClick={() => setPreviewTab(tab)}
+                          className={`px-3 py-1 rounded-md text-sm ${
+                            previewTab === tab ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:text-white'
+                          }`}
+                        >
+                          {tab === 'html' ? 'HTML' : 'Plain text'}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <p className="text-sm text-gray-300">
+                    <span className="text-gray-400">Subject:</span> {preview.subject}
+                  </p>
+                  {previewTab === 'html' ? (
+                    <iframe
+                      title="Email preview"
+                      sandbox=""
+                      srcDoc={preview.html}
+                      className="w-full h-[600px] rounded-md bg-white"
+                    />
+                  ) : (
+                    <pre className="whitespace-pre-wrap rounded-md bg-gray-900 p-4 text-sm text-gray-300">{preview.text}</pre>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
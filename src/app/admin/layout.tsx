@@ -4,10 +4,19 @@
 
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import Link from 'next/link';
-import { usePathname } from 'next/navigation';
+import { usePathname, useRouter } from 'next/navigation';
 import { motion } from 'framer-motion';
+import { Permission } from '@/lib/permissions';
+
+interface NavItem {
+  name: string;
+  href: string;
+  // Hidden unless the signed-in role has this permission
+  permission?: Permission;
+  icon: React.ReactNode;
+}
 
 export default function AdminLayout({
   children,
@@ -16,9 +25,18 @@ export default function AdminLayout({
 }) {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isCollapsed, setIsCollapsed] = useState(false);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
   const pathname = usePathname();
+  const router = useRouter();
+
+  useEffect(() => {
+    fetch('/api/auth/login', { credentials: 'include' })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setPermissions(data?.user?.permissions ?? []))
+      .catch(() => setPermissions([]));
+  }, []);
 
-  const navigation = [
+  const navigation: NavItem[] = [
     { 
       name: 'Dashboard', 
       href: '/admin',
@@ -31,6 +49,7 @@ export default function AdminLayout({
     { 
       name: 'Newsletters', 
       href: '/admin/newsletters',
+      permission: 'newsletter:view',
       icon: (
         <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
@@ -40,6 +59,7 @@ export default function AdminLayout({
     { 
       name: 'Blog', 
       href: '/admin/blog',
+      permission: 'blog:view',
       icon: (
         <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 20H5a2 2 0 01-2-2V6a2 2 0 012-2h10a2 2 0 012 2v1m2 13a2 2 0 01-2-2V7m2 13a2 2 0 002-2V9a2 2 0 00-2-2h-2m-4-3H9M7 16h6M7 8h6v4H7V8z" />
@@ -49,24 +69,67 @@ export default function AdminLayout({
     { 
       name: 'Subscribers', 
       href: '/admin/subscribers',
+      permission: 'subscribers:view',
       icon: (
         <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
         </svg>
       )
     },
+    { 
+      name: 'Suppressions', 
+      href: '/admin/suppressions',
+      permission: 'email:manage',
+      icon: (
+        <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
+        </svg>
+      )
+    },
+    { 
+      name: 'Email Templates', 
+      href: '/admin/email-templates',
+      permission: 'email:manage',
+      icon: (
+        <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+        </svg>
+      )
+    },
     { 
       name: 'Projects', 
       href: '/admin/projects',
+      permission: 'projects:view',
       icon: (
         <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" />
         </svg>
       )
     },
+    { 
+      name: 'Users', 
+      href: '/admin/users',
+      permission: 'users:manage',
+      icon: (
+        <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" />
+        </svg>
+      )
+    },
+    { 
+      name: 'Account', 
+      href: '/admin/account',
+      permission: 'account:manage',
+      icon: (
+        <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+        </svg>
+      )
+    },
     { 
       name: 'Performance', 
       href: '/admin/performance',
+      permission: 'performance:view',
       icon: (
         <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
@@ -75,6 +138,25 @@ export default function AdminLayout({
     },
   ];
 
+  const visibleNavigation = navigation.filter(
+    (item) => !item.permission || permissions.includes(item.permission)
+  );
+
+  const handleSignOut = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST', credentials: 'include' });
+    } catch (err) {
+      console.error('Error signing out:', err);
+    }
+    router.replace('/login');
+  };
+
+  const signOutIcon = (
+    <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" />
+    </svg>
+  );
+
   return (
     <div className="min-h-screen bg-gray-900 flex">
       {/* Static sidebar for desktop */}
@@ -100,7 +182,7 @@ export default function AdminLayout({
                 </button>
               </div>
               <nav className="mt-5 flex-1 px-2 space-y-1">
-                {navigation.map((item) => (
+                {visibleNavigation.map((item) => (
                   <Link
                     key={item.name}
                     href={item.href}
@@ -119,6 +201,19 @@ export default function AdminLayout({
                 ))}
               </nav>
             </div>
+            <div className="flex-shrink-0 border-t border-gray-700 p-2">
+              <button
+                type="button"
+                onClick={handleSignOut}
+                className={`w-full flex items-center ${isCollapsed ? 'justify-center' : 'justify-start'} px-4 py-2 text-sm font-medium rounded-md text-gray-300 hover:bg-gray-700 hover:text-white`}
+                title={isCollapsed ? 'Sign out' : ''}
+              >
+                <div className={isCollapsed ? 'mr-0' : 'mr-3'}>
+                  {signOutIcon}
+                </div>
+                {!isCollapsed && <span>Sign out</span>}
+              </button>
+            </div>
           </div>
         </div>
       </div>
@@ -143,7 +238,7 @@ export default function AdminLayout({
                   <h1 className="text-xl font-bold text-white">Admin</h1>
                 </div>
                 <nav className="mt-5 px-2 space-y-1">
-                  {navigation.map((item) => (
+                  {visibleNavigation.map((item) => (
                     <Link
                       key={item.name}
                       href={item.href}
@@ -180,6 +275,15 @@ export default function AdminLayout({
                         Dashboard
                       </p>
                     </div>
+                    <button
+                      type="button"
+                      onClick={handleSignOut}
+                      className="ml-auto p-2 rounded-md text-gray-400 hover:text-white hover:bg-gray-700"
+                      title="Sign out"
+                    >
+                      <span className="sr-only">Sign out</span>
+                      {signOutIcon}
+                    </button>
                   </div>
                 </div>
               </div>
@@ -9,7 +9,28 @@ const Editor = dynamic(() => import('../../../../components/Editor'), {
   ssr: false,
   loading: () => <div className="h-64 bg-gray-800 animate-pulse rounded-lg" />,
 });
-import { NewsletterFormData } from '@/types/newsletter';
+import { NEWSLETTER_VARIANTS, NewsletterAbTest, NewsletterFormData } from '@/types/newsletter';
+import { SegmentBuilder } from '@/components/admin/SegmentBuilder';
+
+interface NewsletterPreview {
+  subject: string;
+  html: string;
+  text: string;
+  recipient: { email: string; name: string | null } | null;
+}
+
+const DEFAULT_AB_TEST: NewsletterAbTest = {
+  subjects: [''],
+  test_percentage: 20,
+  winner_metric: 'open',
+  wait_hours: 4,
+};
+
+interface TestSendResult {
+  sent: string[];
+  skipped: string[];
+  failed: { email: string; error: string }[];
+}
 
 export default function NewsletterForm({ params }: { params: { action: string; id: string } }) {
   const router = useRouter();
@@ -18,10 +39,22 @@ export default function NewsletterForm({ params }: { params: { action: string; i
     content: '',
     status: 'draft',
     scheduled_for: null,
+    segment: null,
+    tracking_enabled: false,
+    show_in_archive: false,
+    ab_test: null,
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showSchedule, setShowSchedule] = useState(false);
+  const [previewAs, setPreviewAs] = useState('');
+  const [testRecipients, setTestRecipients] = useState('');
+  const [preview, setPreview] = useState<NewsletterPreview | null>(null);
+  const [previewTab, setPreviewTab] = useState<'html' | 'text'>('html');
+  const [previewing, setPreviewing] = useState(false);
+  const [testSending, setTestSending] = useState(false);
+  const [testMessage, setTestMessage] = useState<string | null>(null);
+  const [abWinner, setAbWinner] = useState<string | null>(null);
 
   useEffect(() => {
     if (params.action === 'edit' && params.id) {
@@ -42,7 +75,12 @@ export default function NewsletterForm({ params }: { params: { action: string; i
       setNewsletter({
         ...data,
         scheduled_for: data.scheduled_for || null,
+        segment: data.segment || null,
+        tracking_enabled: Boolean(data.tracking_enabled),
+        show_in_archive: Boolean(data.show_in_archive),
+        ab_test: data.ab_test || null,
       });
+      setAbWinner(data.ab_winner || null);
       if (data.scheduled_for) {
         setShowSchedule(true);
       }
@@ -75,6 +113,10 @@ export default function NewsletterForm({ params }: { params: { action: string; i
             content: newsletter.content,
             status: newsletter.status,
             scheduled_for: newsletter.scheduled_for,
+            segment: newsletter.segment,
+            tracking_enabled: newsletter.tracking_enabled,
+            show_in_archive: newsletter.show_in_archive,
+            ab_test: newsletter.ab_test,
           }),
         });
 
@@ -91,6 +133,10 @@ export default function NewsletterForm({ params }: { params: { action: string; i
             content: newsletter.content,
             status: newsletter.status,
             scheduled_for: newsletter.scheduled_for,
+            segment: newsletter.segment,
+            tracking_enabled: newsletter.tracking_enabled,
+            show_in_archive: newsletter.show_in_archive,
+            ab_test: newsletter.ab_test,
           }),
         });
 
@@ -110,6 +156,84 @@ export default function NewsletterForm({ params }: { params: { action: string; i
     }
   };
 
+  const previewBody = () => ({
+    subject: newsletter.subject,
+    content: newsletter.content,
+    subscriber_email: previewAs.trim() || null,
+  });
+
+  const responseError = async (response: Response, fallback: string) => {
+    const errorData = await response.json();
+    return errorData.details?.[0]?.message || errorData.error || fallback;
+  };
+
+  const handlePreview = async () => {
+    setPreviewing(true);
+    setError(null);
+
+    try {
+      if (!newsletter.subject || !newsletter.content) {
+        throw new Error('Subject and content are required');
+      }
+
+      const response = await fetch('/api/admin/newsletters/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(previewBody()),
+      });
+
+      if (!response.ok) {
+        throw new Error(await responseError(response, 'Failed to preview newsletter'));
+      }
+
+      setPreview(await response.json());
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to preview newsletter');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleTestSend = async () => {
+    setTestSending(true);
+    setError(null);
+    setTestMessage(null);
+
+    try {
+      if (!newsletter.subject || !newsletter.content) {
+        throw new Error('Subject and content are required');
+      }
+
+      const recipients = testRecipients
+        .split(/[\s,;]+/)
+        .map(email => email.trim())
+        .filter(Boolean);
+
+      const response = await fetch('/api/admin/newsletters/test-send', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...previewBody(), recipients }),
+      });
+
+      if (!response.ok) {
+        throw new Error(await responseError(response, 'Failed to send test newsletter'));
+      }
+
+      const result: TestSendResult = await response.json();
+      const parts = [];
+      if (result.sent.length) parts.push(`Sent to ${result.sent.join(', ')}`);
+      if (result.skipped.length) parts.push(`skipped suppressed ${result.skipped.join(', ')}`);
+      if (result.failed.length) {
+        parts.push(`failed for ${result.failed.map(failure => `${failure.email} (${failure.error})`).join(', ')}`);
+      }
+      setTestMessage(parts.join('; ') || 'Nothing was sent');
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to send test newsletter');
+    } finally {
+      setTestSending(false);
+    }
+  };
+
   const handleScheduleToggle = () => {
     setShowSchedule(!showSchedule);
     if (!showSchedule) {
@@ -167,6 +291,174 @@ export default function NewsletterForm({ params }: { params: { action: string; i
           />
         </div>
 
+        <SegmentBuilder
+          segment={newsletter.segment}
+          disabled={newsletter.status === 'sending' || newsletter.status === 'sent'}
+          onChange={segment => setNewsletter(prev => ({ ...prev, segment }))}
+        />
+
+        <label className="flex items-start gap-3 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={newsletter.tracking_enabled}
+            disabled={newsletter.status === 'sending' || newsletter.status === 'sent' || Boolean(newsletter.ab_test)}
+            onChange={e => setNewsletter(prev => ({ ...prev, tracking_enabled: e.target.checked }))}
+            className="mt-1"
+          />
+          <span>
+            Track opens and clicks
+            <span className="block text-xs text-gray-500">
+              Adds a tracking pixel and redirects links through this site. Subscribers who opted out of tracking are never tracked.
+            </span>
+          </span>
+        </label>
+
+        <div className="space-y-4 rounded-lg border border-gray-700 p-4">
+          <label className="flex items-start gap-3 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={Boolean(newsletter.ab_test)}
+              disabled={newsletter.status === 'sending' || newsletter.status === 'sent'}
+              onChange={e => setNewsletter(prev => ({
+                ...prev,
+                ab_test: e.target.checked ? DEFAULT_AB_TEST : null,
+                tracking_enabled: e.target.checked ? true : prev.tracking_enabled,
+              }))}
+              className="mt-1"
+            />
+            <span>
+              A/B test the subject
+              <span className="block text-xs text-gray-500">
+                Sends each subject to an equal share of a random test slice, then sends the subject with the best open or click rate to everyone else once the wait is over. Needs open and click tracking.
+              </span>
+            </span>
+          </label>
+
+          {abWinner && (
+            <p className="text-sm text-green-400">Subject {abWinner} won the test.</p>
+          )}
+
+          {newsletter.ab_test && (
+            <AbTestSettings
+              abTest={newsletter.ab_test}
+              disabled={newsletter.status === 'sending' || newsletter.status === 'sent'}
+              onChange={ab_test => setNewsletter(prev => ({ ...prev, ab_test }))}
+            />
+          )}
+        </div>
+
+        <label className="flex items-start gap-3 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={newsletter.show_in_archive}
+            onChange={e => setNewsletter(prev => ({ ...prev, show_in_archive: e.target.checked }))}
+            className="mt-1"
+          />
+          <span>
+            Show in public archive
+            <span className="block text-xs text-gray-500">
+              Lists the newsletter at /newsletter/archive once it has been sent. Recipients can always open it from the &quot;view in browser&quot; link in their email.
+            </span>
+          </span>
+        </label>
+
+        <div className="space-y-4 rounded-lg border border-gray-700 p-4">
+          <div>
+            <h2 className="text-sm font-medium text-gray-300">Preview and test</h2>
+            <p className="text-xs text-gray-500">
+              Renders the newsletter as it will arrive, with {'{name}'} filled in and the unsubscribe footer. Tracking is not added to previews or tests.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="preview-as" className="block text-sm font-medium text-gray-300 mb-2">
+                Preview as subscriber (optional)
+              </label>
+              <input
+                type="email"
+                id="preview-as"
+                value={previewAs}
+                onChange={e => setPreviewAs(e.target.value)}
+                placeholder="subscriber@example.com"
+                className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="test-recipients" className="block text-sm font-medium text-gray-300 mb-2">
+                Send test to
+              </label>
+              <input
+                type="text"
+                id="test-recipients"
+                value={testRecipients}
+                onChange={e => setTestRecipients(e.target.value)}
+                placeholder="Your address, or other admins' (comma-separated)"
+                className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-4">
+            <button
+              type="button"
+              onClick={handlePreview}
+              disabled={previewing}
+              className="px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-colors disabled:opacity-50"
+            >
+              {previewing ? 'Rendering...' : 'Preview'}
+            </button>
+            <button
+              type="button"
+              onClick={handleTestSend}
+              disabled={testSending}
+              className="px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-colors disabled:opacity-50"
+            >
+              {testSending ? 'Sending...' : 'Send test'}
+            </button>
+            {testMessage && <span className="text-sm text-green-400">{testMessage}</span>}
+          </div>
+
+          {preview && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-gray-300">
+                  <span className="text-gray-500">Subject:</span> {preview.subject}
+                  <span className="block text-xs text-gray-500">
+                    {preview.recipient
+                      ? `As ${preview.recipient.name || 'a subscriber with no name'} <${preview.recipient.email}>`
+                      : 'As a sample subscriber with no name'}
+                  </span>
+                </p>
+                <div className="flex space-x-2">
+                  {(['html', 'text'] as const).map(tab => (
+                    <button
+                      key={tab}
+                      type="button"
+                      onClick={() => setPreviewTab(tab)}
+                      className={`px-3 py-1 rounded-md text-sm ${
+                        previewTab === tab ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-300 hover:text-white'
+                      }`}
+                    >
+                      {tab === 'html' ? 'HTML' : 'Plain text'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {previewTab === 'html' ? (
+                <iframe
+                  title="Newsletter preview"
+                  sandbox=""
+                  srcDoc={preview.html}
+                  className="w-full h-[600px] rounded-md bg-white"
+                />
+              ) : (
+                <pre className="whitespace-pre-wrap rounded-md bg-gray-900 p-4 text-sm text-gray-300">{preview.text}</pre>
+              )}
+            </div>
+          )}
+        </div>
+
         <div className="flex items-center space-x-4">
           <button
             type="button"
@@ -219,3 +511,109 @@ export default function NewsletterForm({ params }: { params: { action: string; i
     </div>
   );
 }
+
+interface AbTestSettingsProps {
+  abTest: NewsletterAbTest;
+  disabled: boolean;
+  onChange: (abTest: NewsletterAbTest) => void;
+}
+
+function AbTestSettings({ abTest, disabled, onChange }: AbTestSettingsProps) {
+  const inputClass =
+    'w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50';
+
+  const setSubject = (index: number, subject: string) =>
+    onChange({ ...abTest, subjects: abTest.subjects.map((current, i) => (i === index ? subject : current)) });
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500">Subject A is the subject above.</p>
+
+      {abTest.subjects.map((subject, index) => (
+        <div key={index} className="flex items-center gap-3">
+          <label htmlFor={`ab-subject-${index}`} className="w-24 text-sm font-medium text-gray-300">
+            Subject {NEWSLETTER_VARIANTS[index + 1]}
+          </label>
+          <input
+            type="text"
+            id={`ab-subject-${index}`}
+            value={subject}
+            disabled={disabled}
+            required
+            onChange={e => setSubject(index, e.target.value)}
+            className={inputClass}
+          />
+          {abTest.subjects.length > 1 && (
+            <button
+              type="button"
+              disabled={disabled}
+              onClick={() => onChange({ ...abTest, subjects: abTest.subjects.filter((_, i) => i !== index) })}
+              className="text-sm text-gray-400 hover:text-red-400 disabled:opacity-50"
+            >
+              Remove
+            </button>
+          )}
+        </div>
+      ))}
+
+      {abTest.subjects.length < NEWSLETTER_VARIANTS.length - 1 && (
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => onChange({ ...abTest, subjects: [...abTest.subjects, ''] })}
+          className="text-sm text-indigo-400 hover:text-indigo-300 disabled:opacity-50"
+        >
+          Add subject
+        </button>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="ab-test-percentage" className="block text-sm font-medium text-gray-300 mb-2">
+            Test slice (% of audience)
+          </label>
+          <input
+            type="number"
+            id="ab-test-percentage"
+            min={5}
+            max={50}
+            value={abTest.test_percentage}
+            disabled={disabled}
+            onChange={e => onChange({ ...abTest, test_percentage: Number(e.target.value) })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="ab-wait-hours" className="block text-sm font-medium text-gray-300 mb-2">
+            Wait before picking (hours)
+          </label>
+          <input
+            type="number"
+            id="ab-wait-hours"
+            min={1}
+            max={72}
+            value={abTest.wait_hours}
+            disabled={disabled}
+            onChange={e => onChange({ ...abTest, wait_hours: Number(e.target.value) })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="ab-winner-metric" className="block text-sm font-medium text-gray-300 mb-2">
+            Pick the winner by
+          </label>
+          <select
+            id="ab-winner-metric"
+            value={abTest.winner_metric}
+            disabled={disabled}
+            onChange={e => onChange({ ...abTest, winner_metric: e.target.value as NewsletterAbTest['winner_metric'] })}
+            className={inputClass}
+          >
+            <option value="open">Open rate</option>
+            <option value="click">Click rate</option>
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,17 +7,28 @@ import { motion } from 'framer-motion';
 interface Newsletter {
   id: string;
   subject: string;
-  status: 'draft' | 'sent' | 'scheduled';
+  status: 'draft' | 'sent' | 'scheduled' | 'sending';
   recipients_count: number;
   sent_count?: number;
   created_at: string;
   sent_at?: string | null;
+  scheduled_for?: string | null;
+  show_in_archive?: boolean;
+  kind?: 'campaign' | 'digest';
 }
 
+// Format a date for a datetime-local input in the browser's timezone
+const toLocalInputValue = (value: string) => {
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
 export default function NewslettersPage() {
   const [newsletters, setNewsletters] = useState<Newsletter[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  const [reschedulingId, setReschedulingId] = useState<string | null>(null);
+  const [rescheduleValue, setRescheduleValue] = useState('');
 
   useEffect(() => {
     fetchNewsletters();
@@ -37,6 +48,43 @@ export default function NewslettersPage() {
     }
   };
 
+  const updateSchedule = async (id: string, body: { action: 'cancel' } | { action: 'reschedule'; scheduled_for: string }) => {
+    setError('');
+    try {
+      const response = await fetch(`/api/admin/newsletters/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update schedule');
+      }
+      const updated = await response.json();
+      setNewsletters(prev =>
+        prev.map(newsletter =>
+          newsletter.id === id
+            ? { ...newsletter, status: updated.status, scheduled_for: updated.scheduled_for }
+            : newsletter
+        )
+      );
+      setReschedulingId(null);
+    } catch (error) {
+      console.error('Error updating schedule:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update schedule');
+    }
+  };
+
+  const handleCancelSchedule = (id: string) => {
+    if (!confirm('Cancel this scheduled send? The newsletter will go back to draft.')) return;
+    updateSchedule(id, { action: 'cancel' });
+  };
+
+  const handleReschedule = (id: string) => {
+    if (!rescheduleValue) return;
+    updateSchedule(id, { action: 'reschedule', scheduled_for: new Date(rescheduleValue).toISOString() });
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -98,6 +146,11 @@ export default function NewslettersPage() {
                 <tr key={newsletter.id}>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-white">
                     {newsletter.subject}
+                    {newsletter.kind === 'digest' && (
+                      <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-purple-100 text-purple-800">
+                        Digest
+                      </span>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <span
@@ -106,11 +159,21 @@ export default function NewslettersPage() {
                           ? 'bg-green-100 text-green-800'
                           : newsletter.status === 'scheduled'
                           ? 'bg-yellow-100 text-yellow-800'
+                          : newsletter.status === 'sending'
+                          ? 'bg-blue-100 text-blue-800'
                           : 'bg-gray-100 text-gray-800'
                       }`}
                     >
                       {newsletter.status.charAt(0).toUpperCase() + newsletter.status.slice(1)}
                     </span>
+                    {newsletter.status === 'scheduled' && newsletter.scheduled_for && (
+                      <div className="mt-1 text-xs text-gray-400">
+                        {new Date(newsletter.scheduled_for).toLocaleString()}
+                      </div>
+                    )}
+                    {newsletter.status === 'sent' && newsletter.show_in_archive && (
+                      <div className="mt-1 text-xs text-gray-400">In public archive</div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
                     {newsletter.recipients_count}
@@ -118,7 +181,49 @@ export default function NewslettersPage() {
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
                     {new Date(newsletter.created_at).toLocaleDateString()}
                   </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-3">
+                    {reschedulingId === newsletter.id ? (
+                      <>
+                        <input
+                          type="datetime-local"
+                          value={rescheduleValue}
+                          onChange={e => setRescheduleValue(e.target.value)}
+                          className="px-2 py-1 bg-gray-900 border border-gray-700 rounded text-white text-sm"
+                        />
+                        <button
+                          onClick={() => handleReschedule(newsletter.id)}
+                          className="text-green-400 hover:text-green-300"
+                        >
+                          Save
+                        </button>
+                        <button
+                          onClick={() => setReschedulingId(null)}
+                          className="text-gray-400 hover:text-gray-300"
+                        >
+                          Close
+                        </button>
+                      </>
+                    ) : (
+                      (newsletter.status === 'draft' || newsletter.status === 'scheduled') && (
+                        <button
+                          onClick={() => {
+                            setReschedulingId(newsletter.id);
+                            setRescheduleValue(newsletter.scheduled_for ? toLocalInputValue(newsletter.scheduled_for) : '');
+                          }}
+                          className="text-yellow-400 hover:text-yellow-300"
+                        >
+                          {newsletter.status === 'scheduled' ? 'Reschedule' : 'Schedule'}
+                        </button>
+                      )
+                    )}
+                    {newsletter.status === 'scheduled' && reschedulingId !== newsletter.id && (
+                      <button
+                        onClick={() => handleCancelSchedule(newsletter.id)}
+                        className="text-red-400 hover:text-red-300"
+                      >
+                        Cancel
+                      </button>
+                    )}
                     <Link
                       href={`/admin/newsletters/${newsletter.id}`}
                       className="text-purple-400 hover:text-purple-300"
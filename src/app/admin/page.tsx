@@ -15,7 +15,7 @@ async function getStats() {
       activeProjects,
     ] = await Promise.all([
       db.newsletterSubscriber.count(),
-      db.newsletterSubscriber.count({ where: { isSubscribed: true } }),
+      db.newsletterSubscriber.count({ where: { isSubscribed: true, confirmedAt: { not: null } } }),
       db.newsletter.count(),
       db.newsletter.count({ where: { status: 'sent' } }),
       db.project.count(),
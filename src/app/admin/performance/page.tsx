@@ -1,16 +1,8 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, Fragment } from 'react';
 import { motion } from 'framer-motion';
-
-interface NewsletterMetrics {
-  id: string;
-  subject: string;
-  sent_at: string;
-  recipients_count: number;
-  sent_count: number;
-  failed_count: number;
-}
+import type { NewsletterMetrics } from '@/types/newsletter';
 
 export default function PerformancePage() {
   const [activeView, setActiveView] = useState<'newsletters' | 'campaigns'>('newsletters');
@@ -25,7 +17,7 @@ export default function PerformancePage() {
 
   const fetchMetrics = async () => {
     try {
-      const response = await fetch('/api/admin/newsletters');
+      const response = await fetch('/api/admin/performance/newsletters');
       if (!response.ok) throw new Error('Failed to fetch metrics');
       const data = await response.json();
 
@@ -75,6 +67,13 @@ export default function PerformancePage() {
     return totalRecipients > 0 ? ((totalFailed / totalRecipients) * 100).toFixed(1) : 0;
   };
 
+  // Engagement rates are only meaningful over sends that carried tracking
+  const calculateEngagementRate = (count: keyof NewsletterMetrics, total: keyof NewsletterMetrics) => {
+    const totalCount = metrics.reduce((acc, metric) => acc + (Number(metric[count]) || 0), 0);
+    const totalBase = metrics.reduce((acc, metric) => acc + (Number(metric[total]) || 0), 0);
+    return totalBase > 0 ? ((totalCount / totalBase) * 100).toFixed(1) : 0;
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -162,6 +161,21 @@ export default function PerformancePage() {
               <p className="text-3xl font-bold text-white mt-2">{calculateFailureRate()}%</p>
               <p className="text-sm text-gray-400 mt-2">Failed deliveries</p>
             </div>
+            <div className="bg-gray-800 rounded-lg p-6">
+              <h3 className="text-lg font-medium text-gray-300">Open Rate</h3>
+              <p className="text-3xl font-bold text-white mt-2">{calculateEngagementRate('unique_opens', 'tracked_count')}%</p>
+              <p className="text-sm text-gray-400 mt-2">Tracked emails opened</p>
+            </div>
+            <div className="bg-gray-800 rounded-lg p-6">
+              <h3 className="text-lg font-medium text-gray-300">Click Rate</h3>
+              <p className="text-3xl font-bold text-white mt-2">{calculateEngagementRate('unique_clicks', 'tracked_count')}%</p>
+              <p className="text-sm text-gray-400 mt-2">Tracked emails with a click</p>
+            </div>
+            <div className="bg-gray-800 rounded-lg p-6">
+              <h3 className="text-lg font-medium text-gray-300">Click-to-Open Rate</h3>
+              <p className="text-3xl font-bold text-white mt-2">{calculateEngagementRate('unique_clicks', 'unique_opens')}%</p>
+              <p className="text-sm text-gray-400 mt-2">Opened emails with a click</p>
+            </div>
           </div>
 
           <div className="bg-gray-800 rounded-lg p-6">
@@ -175,25 +189,79 @@ export default function PerformancePage() {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Recipients</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Successful</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Failed</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Delivered</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Bounced</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Complaints</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Opens</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Clicks</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-700">
                   {metrics.map((metric) => (
-                    <tr key={metric.id}>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-white">{metric.subject}</td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
-                        {metric.sent_at ? new Date(metric.sent_at).toLocaleDateString() : 'Not sent'}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
-                        {metric.recipients_count}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
-                        {metric.sent_count || 0}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
-                        {metric.failed_count || 0}
-                      </td>
-                    </tr>
+                    <Fragment key={metric.id}>
+                      <tr>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-white">
+                          {metric.subject}
+                          {metric.variants.length > 0 && (
+                            <span className="block text-xs text-gray-400">
+                              {metric.ab_winner ? `Subject test: ${metric.ab_winner} won` : 'Subject test running'}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                          {metric.sent_at ? new Date(metric.sent_at).toLocaleDateString() : 'Not sent'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                          {metric.recipients_count}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                          {metric.sent_count || 0}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                          {metric.failed_count || 0}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                          {metric.delivered_count || 0}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                          {metric.bounced_count || 0}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                          {metric.complained_count || 0}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                          {metric.tracked_count > 0 ? `${metric.unique_opens} (${metric.open_rate}%)` : '—'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                          {metric.tracked_count > 0 ? `${metric.unique_clicks} (${metric.click_rate}%)` : '—'}
+                        </td>
+                      </tr>
+                      {metric.variants.map((variant) => (
+                        <tr key={`${variant.variant}-${variant.group}`} className="bg-gray-900/40">
+                          <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-300">
+                            <span className="font-semibold text-white mr-2">{variant.variant}</span>
+                            {variant.subject}
+                            {variant.group === 'test' && metric.ab_winner === variant.variant && (
+                              <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                                Winner
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-6 py-2 whitespace-nowrap text-xs text-gray-400">
+                            {variant.group === 'test' ? 'Test slice' : 'Rest of audience'}
+                          </td>
+                          <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-300">{variant.recipients_count}</td>
+                          <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-300">{variant.sent_count}</td>
+                          <td colSpan={4} />
+                          <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-300">
+                            {variant.tracked_count > 0 ? `${variant.unique_opens} (${variant.open_rate}%)` : '—'}
+                          </td>
+                          <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-300">
+                            {variant.tracked_count > 0 ? `${variant.unique_clicks} (${variant.click_rate}%)` : '—'}
+                          </td>
+                        </tr>
+                      ))}
+                    </Fragment>
                   ))}
                 </tbody>
               </table>
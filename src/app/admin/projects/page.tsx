@@ -5,6 +5,7 @@ import { motion } from 'framer-motion';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { format } from 'date-fns';
+import { ScheduleControls } from '@/components/admin/ScheduleControls';
 
 interface Project {
   id: string;
@@ -39,13 +40,14 @@ export default function ProjectsPage() {
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [publishingId, setPublishingId] = useState<string | null>(null);
   const [unpublishingId, setUnpublishingId] = useState<string | null>(null);
+  const [schedulingId, setSchedulingId] = useState<string | null>(null);
   const [isSearchFocused, setIsSearchFocused] = useState(false);
   const fetchProjects = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
       
-      const response = await fetch('/api/projects');
+      const response = await fetch('/api/admin/projects');
       if (!response.ok) throw new Error('Failed to fetch projects');
       const data = await response.json();
 
@@ -152,6 +154,60 @@ export default function ProjectsPage() {
     }
   }, []);
 
+  const handleSchedule = useCallback(async (id: string, publishAt: string) => {
+    setSchedulingId(id);
+    try {
+      const response = await fetch(`/api/admin/projects/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          status: 'scheduled',
+          publishedAt: publishAt,
+        }),
+      });
+      if (!response.ok) throw new Error('Failed to schedule project');
+
+      setProjects(prevProjects => prevProjects.map(project =>
+        project.id === id
+          ? { ...project, status: 'scheduled', published_at: publishAt }
+          : project
+      ));
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to schedule project';
+      setError(errorMessage);
+      console.error('Error scheduling project:', err);
+    } finally {
+      setSchedulingId(null);
+    }
+  }, []);
+
+  const handleCancelSchedule = useCallback(async (id: string) => {
+    setSchedulingId(id);
+    try {
+      const response = await fetch(`/api/admin/projects/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          status: 'draft',
+          publishedAt: null,
+        }),
+      });
+      if (!response.ok) throw new Error('Failed to cancel scheduled project');
+
+      setProjects(prevProjects => prevProjects.map(project =>
+        project.id === id
+          ? { ...project, status: 'draft', published_at: null }
+          : project
+      ));
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to cancel scheduled project';
+      setError(errorMessage);
+      console.error('Error cancelling scheduled project:', err);
+    } finally {
+      setSchedulingId(null);
+    }
+  }, []);
+
   const handleSearchKeyDown = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Escape') {
       setSearchTerm('');
@@ -388,6 +444,15 @@ export default function ProjectsPage() {
                             {publishingId === project.id ? 'Publishing...' : 'Publish'}
                           </button>
                         )}
+                        {project.status !== 'published' && (
+                          <ScheduleControls
+                            scheduledFor={project.published_at}
+                            isScheduled={project.status === 'scheduled'}
+                            disabled={schedulingId === project.id}
+                            onSchedule={(publishAt) => handleSchedule(project.id, publishAt)}
+                            onCancel={() => handleCancelSchedule(project.id)}
+                          />
+                        )}
                     <button
                       onClick={() => handleDelete(project.id)}
                           disabled={deletingId === project.id}
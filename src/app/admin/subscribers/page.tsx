@@ -1,56 +1,242 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
+import { TagManager, SubscriberTagSummary } from '@/components/admin/TagManager';
+import { SubscriberImport } from '@/components/admin/SubscriberImport';
+import type { SubscriberListFilters, SubscriberSortField, SubscriberStatusFilter } from '@/types/newsletter';
 
 interface Subscriber {
   id: string;
   email: string;
   name: string | null;
   is_subscribed: boolean;
+  is_deleted: boolean;
+  confirmed_at: string | null;
   unsubscribe_reason: string | null;
   unsubscribe_feedback: string | null;
   created_at: string;
   location?: string | null;
+  tags: { id: string; name: string }[];
 }
 
+interface SubscriberListResponse {
+  subscribers: Subscriber[];
+  next_cursor: string | null;
+  total: number;
+}
+
+const PAGE_SIZE = 50;
+
+const STATUS_FILTERS: { value: SubscriberStatusFilter; label: string }[] = [
+  { value: 'all', label: 'All confirmed' },
+  { value: 'subscribed', label: 'Subscribed' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'unsubscribed', label: 'Unsubscribed' },
+  { value: 'deleted', label: 'Deleted' },
+];
+
 export default function SubscribersPage() {
   const [subscribers, setSubscribers] = useState<Subscriber[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [exporting, setExporting] = useState(false);
-  const [filter, setFilter] = useState<'all' | 'subscribed' | 'unsubscribed'>('all');
+  const [filter, setFilter] = useState<SubscriberStatusFilter>('all');
   const [searchTerm, setSearchTerm] = useState('');
+  const [locationTerm, setLocationTerm] = useState('');
+  const [search, setSearch] = useState('');
+  const [location, setLocation] = useState('');
+  const [createdAfter, setCreatedAfter] = useState('');
+  const [createdBefore, setCreatedBefore] = useState('');
+  const [sort, setSort] = useState<SubscriberSortField>('created_at');
+  const [order, setOrder] = useState<'asc' | 'desc'>('desc');
+  const [tags, setTags] = useState<SubscriberTagSummary[]>([]);
+  const [tagFilter, setTagFilter] = useState('all');
+  // Cursors of the pages visited so far for a query; the last one is the current page
+  const [pageCursors, setPageCursors] = useState<{ query: string; cursors: (string | null)[] }>({ query: '', cursors: [null] });
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Set to the query when every matching subscriber, on every page, is selected
+  const [allMatchingQuery, setAllMatchingQuery] = useState<string | null>(null);
+  const [bulkTagId, setBulkTagId] = useState('');
+  const [bulkUpdating, setBulkUpdating] = useState(false);
+  const [bulkError, setBulkError] = useState<string | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [dataActionId, setDataActionId] = useState<string | null>(null);
+  const [dataError, setDataError] = useState<string | null>(null);
+  const latestRequest = useRef(0);
+
+  const filters: SubscriberListFilters = {
+    status: filter,
+    ...(search ? { search } : {}),
+    ...(tagFilter !== 'all' ? { tag: tagFilter } : {}),
+    ...(location ? { location } : {}),
+    ...(createdAfter ? { created_after: new Date(`${createdAfter}T00:00:00`).toISOString() } : {}),
+    ...(createdBefore ? { created_before: new Date(`${createdBefore}T23:59:59.999`).toISOString() } : {}),
+  };
+  const listQuery = new URLSearchParams({ ...(filters as Record<string, string>), sort, order }).toString();
+
+  // Changing the filters or sort order starts again from the first page
+  const cursors = pageCursors.query === listQuery ? pageCursors.cursors : [null];
+  const currentCursor = cursors[cursors.length - 1];
+  const selectAllMatching = allMatchingQuery === listQuery;
 
   useEffect(() => {
-    fetchSubscribers();
+    fetchTags();
   }, []);
 
+  // Wait for typing to pause before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearch(searchTerm.trim());
+      setLocation(locationTerm.trim());
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm, locationTerm]);
+
+  useEffect(() => {
+    fetchSubscribers();
+  }, [listQuery, currentCursor]);
+
+  const fetchTags = async () => {
+    try {
+      const response = await fetch('/api/admin/tags');
+      if (!response.ok) throw new Error('Failed to fetch tags');
+      const data = await response.json();
+      setTags(data || []);
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+    }
+  };
+
+  const handleTagsChanged = () => {
+    fetchTags();
+    fetchSubscribers();
+  };
+
   const fetchSubscribers = async () => {
+    // Responses can arrive out of order while filters change; only the latest counts
+    const requestId = ++latestRequest.current;
     try {
-      const response = await fetch('/api/admin/subscribers');
+      const params = new URLSearchParams(listQuery);
+      params.set('limit', String(PAGE_SIZE));
+      if (currentCursor) params.set('cursor', currentCursor);
+
+      const response = await fetch(`/api/admin/subscribers?${params}`);
       if (!response.ok) throw new Error('Failed to fetch subscribers');
-      const data = await response.json();
-      setSubscribers(data || []);
+      const data: SubscriberListResponse = await response.json();
+      if (requestId !== latestRequest.current) return;
+
+      setSubscribers(data.subscribers);
+      setTotal(data.total);
+      setNextCursor(data.next_cursor);
     } catch (error) {
       console.error('Error fetching subscribers:', error);
     } finally {
-      setLoading(false);
+      if (requestId === latestRequest.current) setLoading(false);
+    }
+  };
+
+  const goToNextPage = () => {
+    if (!nextCursor) return;
+    setPageCursors({ query: listQuery, cursors: [...cursors, nextCursor] });
+  };
+
+  const goToPreviousPage = () => {
+    if (cursors.length < 2) return;
+    setPageCursors({ query: listQuery, cursors: cursors.slice(0, -1) });
+  };
+
+  const toggleSort = (field: SubscriberSortField) => {
+    if (sort === field) {
+      setOrder(order === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSort(field);
+      setOrder(field === 'email' ? 'asc' : 'desc');
+    }
+  };
+
+  const sortIndicator = (field: SubscriberSortField) => (sort === field ? (order === 'asc' ? ' ↑' : ' ↓') : '');
+
+  const isSelected = (id: string) => selectAllMatching || selectedIds.has(id);
+
+  const allPageSelected = subscribers.length > 0 && subscribers.every(subscriber => isSelected(subscriber.id));
+
+  const selectedCount = selectAllMatching ? total : selectedIds.size;
+
+  const pageStart = (cursors.length - 1) * PAGE_SIZE + 1;
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    setAllMatchingQuery(null);
+  };
+
+  const toggleSelected = (id: string) => {
+    // Unticking one row turns "every matching subscriber" into this page minus that row
+    const current = selectAllMatching ? new Set(subscribers.map(subscriber => subscriber.id)) : selectedIds;
+    setAllMatchingQuery(null);
+
+    const next = new Set(current);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelectedIds(next);
+  };
+
+  const toggleSelectAll = () => {
+    if (allPageSelected) {
+      clearSelection();
+      return;
+    }
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      subscribers.forEach(subscriber => next.add(subscriber.id));
+      return next;
+    });
+  };
+
+  const handleBulkTag = async (action: 'tag' | 'untag') => {
+    if (!bulkTagId || selectedCount === 0) return;
+    setBulkUpdating(true);
+    setBulkError(null);
+    try {
+      const response = await fetch('/api/admin/subscribers/tags', {
+        method: action === 'tag' ? 'POST' : 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(selectAllMatching ? { filters } : { subscriber_ids: Array.from(selectedIds) }),
+          tag_ids: [bulkTagId],
+        }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update tags');
+      }
+      handleTagsChanged();
+    } catch (error) {
+      console.error('Error updating subscriber tags:', error);
+      setBulkError(error instanceof Error ? error.message : 'Failed to update tags');
+    } finally {
+      setBulkUpdating(false);
     }
   };
 
-  const filteredSubscribers = subscribers.filter(subscriber => {
-    const matchesFilter = 
-      filter === 'all' || 
-      (filter === 'subscribed' && subscriber.is_subscribed) || 
-      (filter === 'unsubscribed' && !subscriber.is_subscribed);
-    
-    const matchesSearch = 
-      !searchTerm || 
-      subscriber.email.toLowerCase().includes(searchTerm.toLowerCase()) || 
-      (subscriber.name && subscriber.name.toLowerCase().includes(searchTerm.toLowerCase()));
-    
-    return matchesFilter && matchesSearch;
-  });
+  // Sign-ups that haven't used their confirmation link yet
+  const isPending = (subscriber: Subscriber) => !subscriber.is_subscribed && !subscriber.confirmed_at;
+
+  const getStatusText = (subscriber: Subscriber) => {
+    if (subscriber.is_deleted) return 'Deleted';
+    if (subscriber.is_subscribed) return 'Subscribed';
+    return isPending(subscriber) ? 'Pending' : 'Unsubscribed';
+  };
+
+  const getStatusStyle = (subscriber: Subscriber) => {
+    if (subscriber.is_deleted) return 'bg-gray-700 text-gray-300';
+    if (subscriber.is_subscribed) return 'bg-green-900 text-green-300';
+    return isPending(subscriber) ? 'bg-yellow-900 text-yellow-300' : 'bg-red-900 text-red-300';
+  };
 
   const getReasonText = (reason: string | null) => {
     if (!reason) return 'N/A';
@@ -58,51 +244,22 @@ export default function SubscribersPage() {
       too_many_emails: 'Too many emails',
       not_relevant: 'Content not relevant',
       not_interesting: 'Content not interesting',
+      one_click: 'One-click unsubscribe',
+      hard_bounce: 'Hard bounce',
+      spam_complaint: 'Spam complaint',
       other: 'Other reason'
     };
     return reasons[reason] || reason;
   };
 
-  const exportToCSV = () => {
+  // The server applies the current filters, so the file covers every page
+  const exportToCSV = async () => {
+    setExporting(true);
     try {
-      setExporting(true);
-      
-      // Create CSV headers
-      const headers = [
-        'Email',
-        'Name',
-        'Status',
-        'Unsubscribe Reason',
-        'Feedback',
-        'Subscribed On'
-      ];
-      
-      // Convert subscribers to CSV rows
-      const rows = filteredSubscribers.map(subscriber => [
-        subscriber.email,
-        subscriber.name || 'N/A',
-        subscriber.is_subscribed ? 'Subscribed' : 'Unsubscribed',
-        getReasonText(subscriber.unsubscribe_reason),
-        subscriber.unsubscribe_feedback || 'N/A',
-        new Date(subscriber.created_at).toLocaleDateString()
-      ]);
-      
-      // Combine headers and rows
-      const csvContent = [
-        headers.join(','),
-        ...rows.map(row => 
-          row.map(cell => 
-            // Escape quotes and wrap cells with commas in quotes
-            typeof cell === 'string' && (cell.includes(',') || cell.includes('"')) 
-              ? `"${cell.replace(/"/g, '""')}"` 
-              : cell
-          ).join(',')
-        )
-      ].join('\n');
-      
-      // Create download link
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-      const url = URL.createObjectURL(blob);
+      const response = await fetch(`/api/admin/subscribers/export?${listQuery}`);
+      if (!response.ok) throw new Error('Failed to export subscribers');
+
+      const url = URL.createObjectURL(await response.blob());
       const link = document.createElement('a');
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
       const filename = `subscribers-${timestamp}.csv`;
@@ -113,14 +270,91 @@ export default function SubscribersPage() {
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
-      
-      setTimeout(() => setExporting(false), 1000);
+      URL.revokeObjectURL(url);
     } catch (error) {
       console.error('Error exporting subscribers:', error);
+    } finally {
       setExporting(false);
     }
   };
 
+  const handleExportData = async (subscriber: Subscriber) => {
+    setDataActionId(subscriber.id);
+    setDataError(null);
+    try {
+      const response = await fetch(`/api/admin/subscribers/${subscriber.id}/data`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to export subscriber data');
+      }
+
+      const blob = new Blob([JSON.stringify(await response.json(), null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.setAttribute('href', url);
+      link.setAttribute('download', `subscriber-data-${subscriber.email}.json`);
+      link.style.visibility = 'hidden';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting subscriber data:', error);
+      setDataError(error instanceof Error ? error.message : 'Failed to export subscriber data');
+    } finally {
+      setDataActionId(null);
+    }
+  };
+
+  const handleEraseData = async (subscriber: Subscriber) => {
+    if (!confirm(
+      `Permanently delete all data for ${subscriber.email}? This removes the subscriber, their send history and audit entries, and any contact messages and failed attempts for the address. It can't be undone.`
+    )) {
+      return;
+    }
+
+    setDataActionId(subscriber.id);
+    setDataError(null);
+    try {
+      const response = await fetch(`/api/admin/subscribers/${subscriber.id}/data`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to erase subscriber data');
+      }
+
+      setSelectedIds(prev => {
+        const next = new Set(prev);
+        next.delete(subscriber.id);
+        return next;
+      });
+      fetchSubscribers();
+    } catch (error) {
+      console.error('Error erasing subscriber data:', error);
+      setDataError(error instanceof Error ? error.message : 'Failed to erase subscriber data');
+    } finally {
+      setDataActionId(null);
+    }
+  };
+
+  const renderDataActions = (subscriber: Subscriber) => (
+    <div className="flex flex-col items-start gap-1">
+      <button
+        onClick={() => handleExportData(subscriber)}
+        disabled={dataActionId === subscriber.id}
+        className="text-xs text-indigo-400 hover:text-indigo-300 disabled:opacity-50"
+      >
+        Export data
+      </button>
+      <button
+        onClick={() => handleEraseData(subscriber)}
+        disabled={dataActionId === subscriber.id}
+        className="text-xs text-red-400 hover:text-red-300 disabled:opacity-50"
+      >
+        Erase data
+      </button>
+    </div>
+  );
+
   if (loading) {
     return (
       <div className="animate-pulse p-4">
@@ -133,63 +367,164 @@ export default function SubscribersPage() {
 
   return (
     <div className="p-4 pt-6">
-      <h1 className="text-3xl font-bold text-white mb-8">Newsletter Subscribers</h1>
+      <div className="flex items-center justify-between mb-8">
+        <h1 className="text-3xl font-bold text-white">Newsletter Subscribers</h1>
+        {!showImport && (
+          <button
+            onClick={() => setShowImport(true)}
+            className="px-4 py-2 text-sm bg-indigo-600 hover:bg-indigo-700 text-white rounded-md transition-colors"
+          >
+            Import CSV
+          </button>
+        )}
+      </div>
+
+      {showImport && (
+        <SubscriberImport tags={tags} onImported={handleTagsChanged} onClose={() => setShowImport(false)} />
+      )}
       
       <div className="mb-8">
         <div className="flex flex-col sm:flex-row justify-between gap-4 mb-6">
           <div className="flex flex-wrap gap-2">
+            {STATUS_FILTERS.map(status => (
+              <button
+                key={status.value}
+                onClick={() => setFilter(status.value)}
+                className={`px-4 py-2 rounded-md font-medium transition-colors ${
+                  filter === status.value 
+                    ? 'bg-indigo-600 text-white shadow-md' 
+                    : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                {status.label}
+              </button>
+            ))}
+          </div>
+          
+          <div className="flex flex-col sm:flex-row gap-2">
+            <select
+              value={tagFilter}
+              onChange={(e) => setTagFilter(e.target.value)}
+              className="px-4 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="all">All tags</option>
+              {tags.map(tag => (
+                <option key={tag.id} value={tag.id}>{tag.name}</option>
+              ))}
+            </select>
+            <div className="relative">
+              <input
+                type="text"
+                placeholder="Search email or name..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full sm:w-64 px-4 py-2 bg-gray-800 border border-gray-700 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              />
+              {searchTerm && (
+                <button 
+                  onClick={() => setSearchTerm('')} 
+                  className="absolute right-3 top-2.5 text-gray-400 hover:text-white"
+                >
+                  ×
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-2 mb-6">
+          <input
+            type="text"
+            placeholder="Location"
+            aria-label="Filter by location"
+            value={locationTerm}
+            onChange={(e) => setLocationTerm(e.target.value)}
+            className="w-full sm:w-48 px-4 py-2 bg-gray-800 border border-gray-700 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            Signed up from
+            <input
+              type="date"
+              value={createdAfter}
+              onChange={(e) => setCreatedAfter(e.target.value)}
+              className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            to
+            <input
+              type="date"
+              value={createdBefore}
+              onChange={(e) => setCreatedBefore(e.target.value)}
+              className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </label>
+        </div>
+
+        {allPageSelected && total > subscribers.length && (
+          <div className="mb-3 text-sm text-gray-300">
+            {selectAllMatching ? (
+              <>
+                All {total} matching subscribers are selected.{' '}
+                <button onClick={clearSelection} className="text-indigo-400 hover:text-indigo-300">
+                  Clear selection
+                </button>
+              </>
+            ) : (
+              <>
+                All {subscribers.length} subscribers on this page are selected.{' '}
+                <button onClick={() => setAllMatchingQuery(listQuery)} className="text-indigo-400 hover:text-indigo-300">
+                  Select all {total} matching subscribers
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
+        {selectedCount > 0 && (
+          <div className="mb-6 bg-gray-900 border border-gray-800 rounded-lg p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+            <span className="text-sm text-gray-300">{selectedCount} selected</span>
+            <select
+              value={bulkTagId}
+              onChange={(e) => setBulkTagId(e.target.value)}
+              className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="">Choose a tag...</option>
+              {tags.map(tag => (
+                <option key={tag.id} value={tag.id}>{tag.name}</option>
+              ))}
+            </select>
             <button
-              onClick={() => setFilter('all')}
-              className={`px-4 py-2 rounded-md font-medium transition-colors ${
-                filter === 'all' 
-                  ? 'bg-indigo-600 text-white shadow-md' 
-                  : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
-              }`}
+              onClick={() => handleBulkTag('tag')}
+              disabled={bulkUpdating || !bulkTagId}
+              className="px-3 py-2 text-sm bg-indigo-600 hover:bg-indigo-700 text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
-              All ({subscribers.length})
+              Apply Tag
             </button>
             <button
-              onClick={() => setFilter('subscribed')}
-              className={`px-4 py-2 rounded-md font-medium transition-colors ${
-                filter === 'subscribed' 
-                  ? 'bg-indigo-600 text-white shadow-md' 
-                  : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
-              }`}
+              onClick={() => handleBulkTag('untag')}
+              disabled={bulkUpdating || !bulkTagId}
+              className="px-3 py-2 text-sm bg-gray-700 hover:bg-gray-600 text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
-              Subscribed ({subscribers.filter(s => s.is_subscribed).length})
+              Remove Tag
             </button>
             <button
-              onClick={() => setFilter('unsubscribed')}
-              className={`px-4 py-2 rounded-md font-medium transition-colors ${
-                filter === 'unsubscribed' 
-                  ? 'bg-indigo-600 text-white shadow-md' 
-                  : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
-              }`}
+              onClick={clearSelection}
+              className="px-3 py-2 text-sm text-gray-400 hover:text-white"
             >
-              Unsubscribed ({subscribers.filter(s => !s.is_subscribed).length})
+              Clear selection
             </button>
+            {bulkError && <span className="text-sm text-red-400">{bulkError}</span>}
           </div>
-          
-          <div className="relative">
-            <input
-              type="text"
-              placeholder="Search subscribers..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="w-full sm:w-64 px-4 py-2 bg-gray-800 border border-gray-700 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-            />
-            {searchTerm && (
-              <button 
-                onClick={() => setSearchTerm('')} 
-                className="absolute right-3 top-2.5 text-gray-400 hover:text-white"
-              >
-                ×
-              </button>
-            )}
-          </div>
-        </div>
+        )}
         
-        {filteredSubscribers.length > 0 ? (
+        {dataError && (
+          <div className="bg-red-500/10 border border-red-500 text-red-500 px-4 py-3 rounded mb-4">
+            {dataError}
+          </div>
+        )}
+
+        {subscribers.length > 0 ? (
           <>
             {/* Desktop table view - hidden on small screens */}
             <div className="hidden md:block">
@@ -202,17 +537,43 @@ export default function SubscribersPage() {
                   <table className="w-full table-fixed divide-y divide-gray-800">
                     <thead className="bg-gray-800">
                       <tr>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider w-[25%]">Email</th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider w-[15%]">Name</th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider w-[12%]">Status</th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider w-[18%]">Unsubscribe Reason</th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider w-[20%]">Feedback</th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider w-[10%]">Subscribed On</th>
+                        <th className="px-4 py-3 text-left w-[5%]">
+                          <input
+                            type="checkbox"
+                            aria-label="Select all subscribers on this page"
+                            checked={allPageSelected}
+                            onChange={toggleSelectAll}
+                          />
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider w-[20%]">
+                          <button onClick={() => toggleSort('email')} className="uppercase tracking-wider hover:text-white">
+                            Email{sortIndicator('email')}
+                          </button>
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider w-[12%]">Name</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider w-[11%]">Status</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider w-[12%]">Tags</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider w-[12%]">Unsubscribe Reason</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider w-[10%]">Feedback</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider w-[10%]">
+                          <button onClick={() => toggleSort('created_at')} className="uppercase tracking-wider hover:text-white">
+                            Subscribed On{sortIndicator('created_at')}
+                          </button>
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider w-[8%]">Data</th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-gray-800 bg-gray-900">
-                      {filteredSubscribers.map((subscriber) => (
+                      {subscribers.map((subscriber) => (
                         <tr key={subscriber.id} className="hover:bg-gray-800">
+                          <td className="px-4 py-4">
+                            <input
+                              type="checkbox"
+                              aria-label={`Select ${subscriber.email}`}
+                              checked={isSelected(subscriber.id)}
+                              onChange={() => toggleSelected(subscriber.id)}
+                            />
+                          </td>
                           <td className="px-6 py-4 text-sm text-gray-200">
                             <div className="break-all">
                               {subscriber.email}
@@ -225,11 +586,20 @@ export default function SubscribersPage() {
                           </td>
                           <td className="px-6 py-4">
                             <span className={`px-3 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                              subscriber.is_subscribed ? 'bg-green-900 text-green-300' : 'bg-red-900 text-red-300'
+                              getStatusStyle(subscriber)
                             }`}>
-                              {subscriber.is_subscribed ? 'Subscribed' : 'Unsubscribed'}
+                              {getStatusText(subscriber)}
                             </span>
                           </td>
+                          <td className="px-6 py-4 text-sm text-gray-200">
+                            <div className="flex flex-wrap gap-1">
+                              {subscriber.tags.length > 0 ? subscriber.tags.map(tag => (
+                                <span key={tag.id} className="px-2 py-0.5 text-xs rounded-full bg-indigo-900 text-indigo-300">
+                                  {tag.name}
+                                </span>
+                              )) : 'N/A'}
+                            </div>
+                          </td>
                           <td className="px-6 py-4 text-sm text-gray-200">
                             <div className="break-words">
                               {getReasonText(subscriber.unsubscribe_reason)}
@@ -243,6 +613,9 @@ export default function SubscribersPage() {
                           <td className="px-6 py-4 text-sm text-gray-200">
                             {new Date(subscriber.created_at).toLocaleDateString()}
                           </td>
+                          <td className="px-6 py-4">
+                            {renderDataActions(subscriber)}
+                          </td>
                         </tr>
                       ))}
                     </tbody>
@@ -251,12 +624,26 @@ export default function SubscribersPage() {
                 
                 <div className="bg-gray-800 px-6 py-3 flex justify-between items-center">
                   <p className="text-sm text-gray-400">
-                    Showing {filteredSubscribers.length} of {subscribers.length} subscribers
+                    Showing {pageStart}–{pageStart + subscribers.length - 1} of {total} subscribers
                   </p>
                   <div className="flex items-center gap-2">
+                    <button
+                      onClick={goToPreviousPage}
+                      disabled={cursors.length < 2}
+                      className="px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      Previous
+                    </button>
+                    <button
+                      onClick={goToNextPage}
+                      disabled={!nextCursor}
+                      className="px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      Next
+                    </button>
                     <button 
                       onClick={exportToCSV}
-                      disabled={exporting || filteredSubscribers.length === 0}
+                      disabled={exporting || total === 0}
                       className="px-3 py-1 text-sm bg-indigo-600 hover:bg-indigo-700 text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-1"
                     >
                       {exporting ? (
@@ -289,17 +676,25 @@ export default function SubscribersPage() {
                 animate={{ opacity: 1 }}
                 className="space-y-4"
               >
-                {filteredSubscribers.map((subscriber) => (
+                {subscribers.map((subscriber) => (
                   <div 
                     key={subscriber.id} 
                     className="bg-gray-900 rounded-lg shadow-lg border border-gray-800 p-4 hover:bg-gray-850 transition-colors"
                   >
                     <div className="flex justify-between items-start mb-2">
-                      <div className="text-gray-200 font-medium break-all pr-2">{subscriber.email}</div>
+                      <label className="flex items-start gap-2 text-gray-200 font-medium break-all pr-2">
+                        <input
+                          type="checkbox"
+                          className="mt-1"
+                          checked={isSelected(subscriber.id)}
+                          onChange={() => toggleSelected(subscriber.id)}
+                        />
+                        {subscriber.email}
+                      </label>
                       <span className={`px-3 py-1 text-xs leading-5 font-semibold rounded-full ${
-                        subscriber.is_subscribed ? 'bg-green-900 text-green-300' : 'bg-red-900 text-red-300'
+                        getStatusStyle(subscriber)
                       }`}>
-                        {subscriber.is_subscribed ? 'Subscribed' : 'Unsubscribed'}
+                        {getStatusText(subscriber)}
                       </span>
                     </div>
                     
@@ -312,8 +707,17 @@ export default function SubscribersPage() {
                         <p className="text-gray-400">Subscribed On:</p>
                         <p className="text-gray-200">{new Date(subscriber.created_at).toLocaleDateString()}</p>
                       </div>
+                      {subscriber.tags.length > 0 && (
+                        <div className="col-span-2 flex flex-wrap gap-1">
+                          {subscriber.tags.map(tag => (
+                            <span key={tag.id} className="px-2 py-0.5 text-xs rounded-full bg-indigo-900 text-indigo-300">
+                              {tag.name}
+                            </span>
+                          ))}
+                        </div>
+                      )}
                       
-                      {!subscriber.is_subscribed && (
+                      {!subscriber.is_subscribed && !isPending(subscriber) && (
                         <>
                           <div className="col-span-2">
                             <p className="text-gray-400">Unsubscribe Reason:</p>
@@ -328,28 +732,48 @@ export default function SubscribersPage() {
                         </>
                       )}
                     </div>
+
+                    <div className="mt-3 pt-3 border-t border-gray-800">
+                      {renderDataActions(subscriber)}
+                    </div>
                   </div>
                 ))}
                 
                 <div className="bg-gray-800 rounded-lg px-4 py-3 flex justify-between items-center">
                   <p className="text-sm text-gray-400">
-                    Showing {filteredSubscribers.length} of {subscribers.length}
+                    {pageStart}–{pageStart + subscribers.length - 1} of {total}
                   </p>
-                  <button 
-                    onClick={exportToCSV}
-                    disabled={exporting || filteredSubscribers.length === 0}
-                    className="px-3 py-1 text-sm bg-indigo-600 hover:bg-indigo-700 text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-1"
-                  >
-                    {exporting ? (
-                      <>
-                        <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                        </svg>
-                        Exporting...
-                      </>
-                    ) : "Export"}
-                  </button>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={goToPreviousPage}
+                      disabled={cursors.length < 2}
+                      className="px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      Previous
+                    </button>
+                    <button
+                      onClick={goToNextPage}
+                      disabled={!nextCursor}
+                      className="px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      Next
+                    </button>
+                    <button 
+                      onClick={exportToCSV}
+                      disabled={exporting || total === 0}
+                      className="px-3 py-1 text-sm bg-indigo-600 hover:bg-indigo-700 text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-1"
+                    >
+                      {exporting ? (
+                        <>
+                          <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                          </svg>
+                          Exporting...
+                        </>
+                      ) : "Export"}
+                    </button>
+                  </div>
                 </div>
               </motion.div>
             </div>
@@ -360,6 +784,8 @@ export default function SubscribersPage() {
           </div>
         )}
       </div>
+
+      <TagManager tags={tags} onChange={handleTagsChanged} />
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,349 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+
+interface Suppression {
+  id: string;
+  value: string;
+  type: 'email' | 'domain';
+  reason: string;
+  source: string;
+  note: string | null;
+  expires_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  skipped_count: number;
+}
+
+interface SkippedEmail {
+  id: string;
+  email: string;
+  category: string;
+  reason: string;
+  created_at: string;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  hard_bounce: 'Hard bounce',
+  spam_complaint: 'Spam complaint',
+  manual: 'Added manually',
+};
+
+const CATEGORY_LABELS: Record<string, string> = {
+  newsletter: 'Newsletter',
+  newsletter_test: 'Newsletter test',
+  welcome: 'Welcome email',
+  confirmation: 'Confirmation email',
+  admin_notification: 'Subscriber notification',
+  contact_notification: 'Contact notification',
+  contact_autoreply: 'Contact auto-reply',
+  data_request: 'Data request link',
+  admin_account: 'Admin invite or reset',
+};
+
+export default function SuppressionsPage() {
+  const [suppressions, setSuppressions] = useState<Suppression[]>([]);
+  const [recentSkips, setRecentSkips] = useState<SkippedEmail[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [value, setValue] = useState('');
+  const [type, setType] = useState<'email' | 'domain'>('email');
+  const [reason, setReason] = useState('manual');
+  const [note, setNote] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchSuppressions = useCallback(async (search: string) => {
+    try {
+      const query = search ? `?search=${encodeURIComponent(search)}` : '';
+      const response = await fetch(`/api/admin/suppressions${query}`);
+      if (!response.ok) throw new Error('Failed to fetch suppressions');
+      const data = await response.json();
+      setSuppressions(data.suppressions || []);
+      setRecentSkips(data.recent_skips || []);
+    } catch (err) {
+      console.error('Error fetching suppressions:', err);
+      setError('Failed to fetch suppressions');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSuppressions('');
+  }, [fetchSuppressions]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    fetchSuppressions(searchTerm);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/suppressions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          value,
+          type,
+          reason: reason.trim() || 'manual',
+          note: note.trim() || null,
+          expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details?.[0]?.message || errorData.error || 'Failed to add suppression');
+      }
+
+      setValue('');
+      setNote('');
+      setExpiresAt('');
+      await fetchSuppressions(searchTerm);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to add suppression');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (suppression: Suppression) => {
+    if (!confirm(`Allow email to ${suppression.value} again?`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/suppressions/${suppression.id}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to remove suppression');
+      }
+      setSuppressions(suppressions.filter((item) => item.id !== suppression.id));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to remove suppression');
+    }
+  };
+
+  const isExpired = (suppression: Suppression) =>
+    !!suppression.expires_at && new Date(suppression.expires_at) <= new Date();
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-purple-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-white">Suppression List</h2>
+        <p className="mt-1 text-sm text-gray-400">
+          No email of any kind is sent to these addresses and domains. Hard bounces and spam complaints are added automatically.
+        </p>
+      </div>
+
+      {error && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="rounded-md bg-red-500/10 border border-red-500 p-4"
+        >
+          <h3 className="text-sm font-medium text-red-400">{error}</h3>
+        </motion.div>
+      )}
+
+      <form onSubmit={handleAdd} className="bg-gray-800 rounded-lg p-6 space-y-4">
+        <h3 className="text-lg font-medium text-gray-300">Add suppression</h3>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="md:col-span-2">
+            <label htmlFor="suppression-value" className="block text-sm font-medium text-gray-300">
+              {type === 'email' ? 'Email address' : 'Domain'}
+            </label>
+            <input
+              id="suppression-value"
+              type="text"
+              required
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder={type === 'email' ? 'someone@example.com' : 'example.com'}
+              className="mt-1 block w-full rounded-md border-gray-700 bg-gray-700 text-white shadow-sm focus:border-purple-500 focus:ring-purple-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="suppression-type" className="block text-sm font-medium text-gray-300">Type</label>
+            <select
+              id="suppression-type"
+              value={type}
+              onChange={(e) => setType(e.target.value as 'email' | 'domain')}
+              className="mt-1 block w-full rounded-md border-gray-700 bg-gray-700 text-white shadow-sm focus:border-purple-500 focus:ring-purple-500 sm:text-sm"
+            >
+              <option value="email">Email address</option>
+              <option value="domain">Whole domain</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="suppression-reason" className="block text-sm font-medium text-gray-300">Reason</label>
+            <input
+              id="suppression-reason"
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={50}
+              className="mt-1 block w-full rounded-md border-gray-700 bg-gray-700 text-white shadow-sm focus:border-purple-500 focus:ring-purple-500 sm:text-sm"
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label htmlFor="suppression-note" className="block text-sm font-medium text-gray-300">Note (optional)</label>
+            <input
+              id="suppression-note"
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={500}
+              className="mt-1 block w-full rounded-md border-gray-700 bg-gray-700 text-white shadow-sm focus:border-purple-500 focus:ring-purple-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="suppression-expires" className="block text-sm font-medium text-gray-300">Expires (optional)</label>
+            <input
+              id="suppression-expires"
+              type="datetime-local"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-700 bg-gray-700 text-white shadow-sm focus:border-purple-500 focus:ring-purple-500 sm:text-sm"
+            />
+          </div>
+          <div className="flex items-end">
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full px-4 py-2 rounded-md bg-purple-600 text-white text-sm font-medium hover:bg-purple-700 disabled:opacity-50"
+            >
+              {saving ? 'Adding...' : 'Suppress'}
+            </button>
+          </div>
+        </div>
+      </form>
+
+      <div className="bg-gray-800 rounded-lg p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-300">Suppressed ({suppressions.length})</h3>
+          <form onSubmit={handleSearch} className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Search..."
+              className="block rounded-md border-gray-700 bg-gray-700 text-white shadow-sm focus:border-purple-500 focus:ring-purple-500 sm:text-sm"
+            />
+            <button type="submit" className="px-3 py-2 rounded-md bg-gray-700 text-sm text-gray-300 hover:text-white">
+              Search
+            </button>
+          </form>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-700">
+            <thead>
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Address / Domain</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Reason</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Source</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Expires</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Skipped</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {suppressions.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-400">No suppressed addresses</td>
+                </tr>
+              ) : (
+                suppressions.map((suppression) => (
+                  <tr key={suppression.id} className={isExpired(suppression) ? 'opacity-50' : ''}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-white">
+                      {suppression.value}
+                      {suppression.type === 'domain' && (
+                        <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-700 text-gray-300">
+                          domain
+                        </span>
+                      )}
+                      {suppression.note && <p className="text-xs text-gray-400">{suppression.note}</p>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                      {REASON_LABELS[suppression.reason] || suppression.reason}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                      {suppression.source === 'webhook' ? 'Resend' : suppression.created_by || 'Admin'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                      {suppression.expires_at
+                        ? `${isExpired(suppression) ? 'Expired ' : ''}${new Date(suppression.expires_at).toLocaleString()}`
+                        : 'Never'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">{suppression.skipped_count}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                      <button
+                        onClick={() => handleRemove(suppression)}
+                        className="text-red-400 hover:text-red-300"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-gray-800 rounded-lg p-6">
+        <h3 className="text-lg font-medium text-gray-300 mb-4">Recently skipped emails</h3>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-700">
+            <thead>
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Recipient</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Email</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Reason</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">When</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {recentSkips.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-6 py-4 text-center text-sm text-gray-400">Nothing has been skipped</td>
+                </tr>
+              ) : (
+                recentSkips.map((skip) => (
+                  <tr key={skip.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-white">{skip.email}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                      {CATEGORY_LABELS[skip.category] || skip.category}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                      {REASON_LABELS[skip.reason] || skip.reason}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                      {new Date(skip.created_at).toLocaleString()}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
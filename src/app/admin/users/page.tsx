@@ -0,0 +1,336 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { ROLES, ROLE_LABELS, Role, isAdminRole } from '@/lib/permissions';
+
+interface AdminUser {
+  id: string;
+  email: string;
+  name: string | null;
+  role: string;
+  status: 'active' | 'invited';
+  two_factor_enabled: boolean;
+  invited_at: string | null;
+  last_login_at: string | null;
+  created_at: string;
+}
+
+export default function UsersPage() {
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [currentEmail, setCurrentEmail] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+  const [role, setRole] = useState<Role>('editor');
+  const [inviting, setInviting] = useState(false);
+  const [actionId, setActionId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchUsers();
+    fetchCurrentUser();
+  }, []);
+
+  const fetchUsers = async () => {
+    try {
+      const response = await fetch('/api/admin/users');
+      if (!response.ok) throw new Error('Failed to fetch users');
+      const data = await response.json();
+      setUsers(data || []);
+    } catch (err) {
+      console.error('Error fetching users:', err);
+      setError('Failed to fetch users');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchCurrentUser = async () => {
+    try {
+      const response = await fetch('/api/auth/login');
+      if (!response.ok) return;
+      const data = await response.json();
+      setCurrentEmail(data.user?.email ?? null);
+    } catch (err) {
+      console.error('Error fetching current user:', err);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setInviting(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch('/api/admin/users', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, name: name.trim() || null, role }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details?.[0]?.message || errorData.error || 'Failed to invite user');
+      }
+
+      setNotice(`Invitation sent to ${email}`);
+      setEmail('');
+      setName('');
+      await fetchUsers();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to invite user');
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleSendLink = async (user: AdminUser) => {
+    setActionId(user.id);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}/link`, { method: 'POST' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to send link');
+      }
+      setNotice(
+        user.status === 'invited'
+          ? `Invitation sent again to ${user.email}`
+          : `Password reset link sent to ${user.email}`
+      );
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to send link');
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const handleRoleChange = async (user: AdminUser, newRole: Role) => {
+    setActionId(user.id);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role: newRole }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to change role');
+      }
+      const updated: AdminUser = await response.json();
+      setUsers(users.map((item) => (item.id === updated.id ? updated : item)));
+      setNotice(`${user.email} is now ${ROLE_LABELS[newRole].toLowerCase()}`);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to change role');
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const handleRemove = async (user: AdminUser) => {
+    if (!confirm(`Remove ${user.email}? They will no longer be able to sign in.`)) return;
+
+    setActionId(user.id);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to remove user');
+      }
+      setUsers(users.filter((item) => item.id !== user.id));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to remove user');
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-purple-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-white">Users</h2>
+        <p className="mt-1 text-sm text-gray-400">
+          Everyone who can sign in to the admin and what their role lets them do. New users get an email with a link to choose their password.
+        </p>
+      </div>
+
+      {error && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="rounded-md bg-red-500/10 border border-red-500 p-4"
+        >
+          <h3 className="text-sm font-medium text-red-400">{error}</h3>
+        </motion.div>
+      )}
+
+      {notice && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="rounded-md bg-green-500/10 border border-green-500 p-4"
+        >
+          <h3 className="text-sm font-medium text-green-400">{notice}</h3>
+        </motion.div>
+      )}
+
+      <form onSubmit={handleInvite} className="bg-gray-800 rounded-lg p-6 space-y-4">
+        <h3 className="text-lg font-medium text-gray-300">Invite user</h3>
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div className="md:col-span-2">
+            <label htmlFor="invite-email" className="block text-sm font-medium text-gray-300">Email address</label>
+            <input
+              id="invite-email"
+              type="email"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="someone@example.com"
+              className="mt-1 block w-full rounded-md border-gray-700 bg-gray-700 text-white shadow-sm focus:border-purple-500 focus:ring-purple-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="invite-name" className="block text-sm font-medium text-gray-300">Name (optional)</label>
+            <input
+              id="invite-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              className="mt-1 block w-full rounded-md border-gray-700 bg-gray-700 text-white shadow-sm focus:border-purple-500 focus:ring-purple-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="invite-role" className="block text-sm font-medium text-gray-300">Role</label>
+            <select
+              id="invite-role"
+              value={role}
+              onChange={(e) => setRole(e.target.value as Role)}
+              className="mt-1 block w-full rounded-md border-gray-700 bg-gray-700 text-white shadow-sm focus:border-purple-500 focus:ring-purple-500 sm:text-sm"
+            >
+              {ROLES.map((value) => (
+                <option key={value} value={value}>{ROLE_LABELS[value]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-end">
+            <button
+              type="submit"
+              disabled={inviting}
+              className="w-full px-4 py-2 rounded-md bg-purple-600 text-white text-sm font-medium hover:bg-purple-700 disabled:opacity-50"
+            >
+              {inviting ? 'Sending...' : 'Send invitation'}
+            </button>
+          </div>
+        </div>
+      </form>
+
+      <div className="bg-gray-800 rounded-lg p-6">
+        <h3 className="text-lg font-medium text-gray-300 mb-4">Users ({users.length})</h3>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-700">
+            <thead>
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">User</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Role</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Last sign-in</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Added</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {users.map((user) => (
+                <tr key={user.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-white">
+                    {user.email}
+                    {user.email === currentEmail && (
+                      <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-700 text-gray-300">
+                        you
+                      </span>
+                    )}
+                    {user.name && <p className="text-xs text-gray-400">{user.name}</p>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                    {user.email === currentEmail || !isAdminRole(user.role) ? (
+                      isAdminRole(user.role) ? ROLE_LABELS[user.role] : user.role
+                    ) : (
+                      <select
+                        aria-label={`Role for ${user.email}`}
+                        value={user.role}
+                        disabled={actionId === user.id}
+                        onChange={(e) => handleRoleChange(user, e.target.value as Role)}
+                        className="rounded-md border-gray-700 bg-gray-700 text-white text-sm focus:border-purple-500 focus:ring-purple-500 disabled:opacity-50"
+                      >
+                        {ROLES.map((value) => (
+                          <option key={value} value={value}>{ROLE_LABELS[value]}</option>
+                        ))}
+                      </select>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                      user.status === 'active' ? 'bg-green-900 text-green-200' : 'bg-yellow-900 text-yellow-200'
+                    }`}>
+                      {user.status === 'active' ? 'Active' : 'Invited'}
+                    </span>
+                    {user.two_factor_enabled && (
+                      <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-indigo-900 text-indigo-200">
+                        2FA
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                    {user.last_login_at ? new Date(user.last_login_at).toLocaleString() : 'Never'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                    {new Date(user.invited_at ?? user.created_at).toLocaleDateString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm space-x-4">
+                    {user.email !== currentEmail && (
+                      <>
+                        <button
+                          onClick={() => handleSendLink(user)}
+                          disabled={actionId === user.id}
+                          className="text-indigo-400 hover:text-indigo-300 disabled:opacity-50"
+                        >
+                          {user.status === 'invited' ? 'Resend invitation' : 'Send reset link'}
+                        </button>
+                        <button
+                          onClick={() => handleRemove(user)}
+                          disabled={actionId === user.id}
+                          className="text-red-400 hover:text-red-300 disabled:opacity-50"
+                        >
+                          Remove
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
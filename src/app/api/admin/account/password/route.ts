@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureAdminRoute, handleError } from '@/lib/api-security';
+import { passwordChangeSchema } from '@/lib/validation-schemas';
+import { changePassword } from '@/lib/admin-accounts';
+import { revokeAllSessions } from '@/lib/sessions';
+
+export const dynamic = 'force-dynamic';
+
+export const PUT = secureAdminRoute('account:manage', async (request: NextRequest, user) => {
+  try {
+    const body = await request.json();
+    const validated = passwordChangeSchema.parse(body);
+
+    const changed = await changePassword(user.id, validated.current_password, validated.new_password);
+    if (!changed) {
+      return NextResponse.json(
+        { error: 'Current password is incorrect' },
+        { status: 400 }
+      );
+    }
+
+    // Sign out every other device, but keep this session
+    const revokedSessions = await revokeAllSessions(user.id, user.sessionId);
+
+    console.log('AUDIT:', {
+      userId: user.id,
+      userEmail: user.email,
+      action: 'password_changed',
+      resourceType: 'Profile',
+      resourceId: user.id,
+      details: { revoked_sessions: revokedSessions },
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || null,
+      userAgent: request.headers.get('user-agent') || null,
+      timestamp: new Date().toISOString(),
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+    return handleError(error, 'Failed to change password');
+  }
+});
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { secureAdminRoute, handleError } from '@/lib/api-security';
+import { clearAuthCookie } from '@/lib/auth-middleware';
+import type { AuthenticatedUser } from '@/lib/auth-middleware';
+import { revokeSession } from '@/lib/sessions';
+
+export const dynamic = 'force-dynamic';
+
+async function deleteHandler(request: NextRequest, user: AuthenticatedUser, id: string) {
+  try {
+    // Scoped to the signed-in admin, so another admin's session is a 404
+    const revoked = await revokeSession(id, user.id);
+    if (!revoked) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const current = id === user.sessionId;
+    if (current) {
+      await clearAuthCookie();
+    }
+
+    console.log('AUDIT:', {
+      userId: user.id,
+      userEmail: user.email,
+      action: 'session_revoked',
+      resourceType: 'Session',
+      resourceId: id,
+      details: { current },
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || null,
+      userAgent: request.headers.get('user-agent') || null,
+      timestamp: new Date().toISOString(),
+    });
+
+    return NextResponse.json({ success: true, current });
+  } catch (error) {
+    return handleError(error, 'Failed to sign out session');
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return secureAdminRoute('account:manage', (req, user) => deleteHandler(req, user, id))(request);
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { secureAdminRoute, handleError } from '@/lib/api-security';
+import { clearAuthCookie } from '@/lib/auth-middleware';
+import { listSessions, revokeAllSessions } from '@/lib/sessions';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = secureAdminRoute('account:manage', async (request: NextRequest, user) => {
+  try {
+    return NextResponse.json({ sessions: await listSessions(user.id, user.sessionId) });
+  } catch (error) {
+    return handleError(error, 'Failed to fetch sessions');
+  }
+});
+
+// Log out everywhere, including this session
+export const DELETE = secureAdminRoute('account:manage', async (request: NextRequest, user) => {
+  try {
+    const revoked = await revokeAllSessions(user.id);
+    await clearAuthCookie();
+
+    console.log('AUDIT:', {
+      userId: user.id,
+      userEmail: user.email,
+      action: 'sessions_revoked',
+      resourceType: 'Session',
+      resourceId: user.id,
+      details: { revoked },
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || null,
+      userAgent: request.headers.get('user-agent') || null,
+      timestamp: new Date().toISOString(),
+    });
+
+    return NextResponse.json({ success: true, revoked });
+  } catch (error) {
+    return handleError(error, 'Failed to sign out sessions');
+  }
+});
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureAdminRoute, handleError } from '@/lib/api-security';
+import { twoFactorCodeSchema } from '@/lib/validation-schemas';
+import { getClientIp, trackFailedAttempt } from '@/lib/security';
+import { regenerateRecoveryCodes, TWO_FACTOR_ACTION_TYPE } from '@/lib/two-factor';
+
+export const dynamic = 'force-dynamic';
+
+// Replaces the recovery codes; the old ones stop working
+export const POST = secureAdminRoute('account:manage', async (request: NextRequest, user) => {
+  try {
+    const { code } = twoFactorCodeSchema.parse(await request.json());
+
+    const recoveryCodes = await regenerateRecoveryCodes(user.id, code);
+    if (!recoveryCodes) {
+      await trackFailedAttempt(getClientIp(request), user.email, request.headers.get('user-agent') || 'unknown', TWO_FACTOR_ACTION_TYPE);
+      return NextResponse.json(
+        { error: 'Invalid authentication code' },
+        { status: 400 }
+      );
+    }
+
+    console.log('AUDIT:', {
+      userId: user.id,
+      userEmail: user.email,
+      action: 'two_factor_recovery_codes_regenerated',
+      resourceType: 'Profile',
+      resourceId: user.id,
+      details: {},
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || null,
+      userAgent: request.headers.get('user-agent') || null,
+      timestamp: new Date().toISOString(),
+    });
+
+    return NextResponse.json({ recovery_codes: recoveryCodes });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+    return handleError(error, 'Failed to regenerate recovery codes');
+  }
+});
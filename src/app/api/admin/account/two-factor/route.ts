@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureAdminRoute, handleError } from '@/lib/api-security';
+import { twoFactorCodeSchema } from '@/lib/validation-schemas';
+import { getClientIp, trackFailedAttempt } from '@/lib/security';
+import {
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  TWO_FACTOR_ACTION_TYPE,
+} from '@/lib/two-factor';
+
+export const dynamic = 'force-dynamic';
+
+function auditTwoFactor(request: NextRequest, user: { id: string; email: string }, action: string) {
+  console.log('AUDIT:', {
+    userId: user.id,
+    userEmail: user.email,
+    action,
+    resourceType: 'Profile',
+    resourceId: user.id,
+    details: {},
+    ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || null,
+    userAgent: request.headers.get('user-agent') || null,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+async function recordWrongCode(request: NextRequest, email: string) {
+  await trackFailedAttempt(getClientIp(request), email, request.headers.get('user-agent') || 'unknown', TWO_FACTOR_ACTION_TYPE);
+}
+
+export const GET = secureAdminRoute('account:manage', async (request: NextRequest, user) => {
+  try {
+    return NextResponse.json(await getTwoFactorStatus(user.id));
+  } catch (error) {
+    return handleError(error, 'Failed to fetch two-factor status');
+  }
+});
+
+// Starts enrolment: returns the secret, otpauth URI and QR code to scan
+export const POST = secureAdminRoute('account:manage', async (request: NextRequest, user) => {
+  try {
+    const enrollment = await beginTwoFactorEnrollment(user);
+    if (!enrollment) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already on' },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(enrollment);
+  } catch (error) {
+    return handleError(error, 'Failed to start two-factor setup');
+  }
+});
+
+// Confirms enrolment with a code from the app and returns the recovery codes
+export const PUT = secureAdminRoute('account:manage', async (request: NextRequest, user) => {
+  try {
+    const { code } = twoFactorCodeSchema.parse(await request.json());
+
+    const recoveryCodes = await confirmTwoFactorEnrollment(user.id, code);
+    if (!recoveryCodes) {
+      await recordWrongCode(request, user.email);
+      return NextResponse.json(
+        { error: 'Invalid authentication code' },
+        { status: 400 }
+      );
+    }
+
+    auditTwoFactor(request, user, 'two_factor_enabled');
+    return NextResponse.json({ success: true, recovery_codes: recoveryCodes });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+    return handleError(error, 'Failed to turn on two-factor authentication');
+  }
+});
+
+export const DELETE = secureAdminRoute('account:manage', async (request: NextRequest, user) => {
+  try {
+    const { code } = twoFactorCodeSchema.parse(await request.json());
+
+    const result = await disableTwoFactor(user.id, code);
+    if (result === 'required') {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is required for all admins' },
+        { status: 403 }
+      );
+    }
+    if (result === 'invalid') {
+      await recordWrongCode(request, user.email);
+      return NextResponse.json(
+        { error: 'Invalid authentication code' },
+        { status: 400 }
+      );
+    }
+
+    auditTwoFactor(request, user, 'two_factor_disabled');
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+    return handleError(error, 'Failed to turn off two-factor authentication');
+  }
+});
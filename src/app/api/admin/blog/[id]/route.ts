@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { secureAdminRoute, handleError, mapPrismaError, sanitizeContent } from '@/lib/api-security';
+import { secureAdminRoute, requirePermission, handleError, mapPrismaError, sanitizeContent } from '@/lib/api-security';
 import { blogPostUpdateSchema, blogPostPatchSchema } from '@/lib/validation-schemas';
 import { z } from 'zod';
 import type { BlogPostUpdateData } from '@/types/database';
@@ -53,7 +53,7 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
-  return secureAdminRoute((req, user) => getHandler(req, user, id))(request);
+  return secureAdminRoute('blog:view', (req, user) => getHandler(req, user, id))(request);
 }
 
 async function putHandler(request: NextRequest, user: { id: string; email: string; role: string }, id: string) {
@@ -75,6 +75,12 @@ async function putHandler(request: NextRequest, user: { id: string; email: strin
       );
     }
 
+    // Publishing, scheduling and unpublishing all need blog:publish
+    if (validated.status !== undefined && validated.status !== existing.status) {
+      const forbidden = requirePermission(user, 'blog:publish');
+      if (forbidden) return forbidden;
+    }
+
     // Check if slug is being changed and if new slug exists
     if (validated.slug && validated.slug !== existing.slug) {
       const slugExists = await db.blogPost.findUnique({
@@ -170,7 +176,7 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
-  return secureAdminRoute((req, user) => putHandler(req, user, id))(request);
+  return secureAdminRoute('blog:edit', (req, user) => putHandler(req, user, id))(request);
 }
 
 async function deleteHandler(request: NextRequest, user: { id: string; email: string; role: string }, id: string) {
@@ -220,7 +226,7 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
-  return secureAdminRoute((req, user) => deleteHandler(req, user, id))(request);
+  return secureAdminRoute('blog:edit', (req, user) => deleteHandler(req, user, id))(request);
 }
 
 async function patchHandler(request: NextRequest, user: { id: string; email: string; role: string }, id: string) {
@@ -311,5 +317,5 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
-  return secureAdminRoute((req, user) => patchHandler(req, user, id))(request);
+  return secureAdminRoute('blog:publish', (req, user) => patchHandler(req, user, id))(request);
 }
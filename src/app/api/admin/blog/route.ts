@@ -1,12 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { secureAdminRoute, handleError, mapPrismaError, sanitizeContent } from '@/lib/api-security';
+import { secureAdminRoute, requirePermission, handleError, mapPrismaError, sanitizeContent } from '@/lib/api-security';
 import { blogPostCreateSchema } from '@/lib/validation-schemas';
 import { z } from 'zod';
 
 export const dynamic = 'force-dynamic';
 
-export const GET = secureAdminRoute(async (request: NextRequest) => {
+export const GET = secureAdminRoute('blog:view', async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url);
     const status = searchParams.get('status');
@@ -71,13 +71,18 @@ export const GET = secureAdminRoute(async (request: NextRequest) => {
   }
 });
 
-export const POST = secureAdminRoute(async (request: NextRequest, user) => {
+export const POST = secureAdminRoute('blog:edit', async (request: NextRequest, user) => {
   try {
     const body = await request.json();
 
     // Validate input with Zod
     const validated = blogPostCreateSchema.parse(body);
 
+    if (validated.status !== 'draft') {
+      const forbidden = requirePermission(user, 'blog:publish');
+      if (forbidden) return forbidden;
+    }
+
     // Check if slug already exists
     const existing = await db.blogPost.findUnique({
       where: { slug: validated.slug },
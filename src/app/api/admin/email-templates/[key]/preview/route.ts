@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { secureAdminRoute, handleError } from '@/lib/api-security';
+import { isTemplateKey, previewEmailTemplate, validateTemplateSource } from '@/lib/email-templates';
+import { emailTemplateUpdateSchema } from '@/lib/validation-schemas';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+// Renders an unsaved draft with sample data
+async function previewHandler(request: NextRequest, key: string) {
+  try {
+    if (!isTemplateKey(key)) {
+      return NextResponse.json(
+        { error: 'Email template not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+
+    // Validate input
+    const validated = emailTemplateUpdateSchema.parse(body);
+    const draft = { subject: validated.subject ?? null, html: validated.html, text: validated.text };
+
+    const errors = validateTemplateSource(key, draft);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid template', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const preview = await previewEmailTemplate(key, draft);
+    return NextResponse.json(preview);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+    return handleError(error, 'Failed to preview email template');
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  const { key } = await params;
+  return secureAdminRoute('email:manage', (req) => previewHandler(req, key))(request);
+}
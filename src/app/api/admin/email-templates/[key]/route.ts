@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { secureAdminRoute, handleError, mapPrismaError } from '@/lib/api-security';
+import {
+  BRANDING_VARIABLES,
+  getStoredTemplates,
+  getTemplateDefinition,
+  isTemplateKey,
+  resetEmailTemplate,
+  saveEmailTemplate,
+  TemplateKey,
+  validateTemplateSource,
+} from '@/lib/email-templates';
+import { DEFAULT_TEMPLATES } from '@/lib/email-template-defaults';
+import { emailTemplateUpdateSchema } from '@/lib/validation-schemas';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+type AdminUser = { id: string; email: string; role: string };
+
+function notFound() {
+  return NextResponse.json(
+    { error: 'Email template not found' },
+    { status: 404 }
+  );
+}
+
+function logAudit(request: NextRequest, user: AdminUser, action: string, key: TemplateKey) {
+  console.log('AUDIT:', {
+    userId: user.id,
+    userEmail: user.email,
+    action,
+    resourceType: 'EmailTemplate',
+    resourceId: key,
+    details: { key },
+    ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || null,
+    userAgent: request.headers.get('user-agent') || null,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+async function getHandler(key: string) {
+  try {
+    if (!isTemplateKey(key)) return notFound();
+
+    const definition = getTemplateDefinition(key);
+    const template = (await getStoredTemplates()).get(key);
+    const source = template || DEFAULT_TEMPLATES[key];
+
+    return NextResponse.json({
+      key,
+      name: definition.name,
+      description: definition.description,
+      kind: definition.kind,
+      subject: source.subject,
+      html: source.html,
+      text: source.text,
+      customized: !!template,
+      updated_at: template?.updatedAt.toISOString() || null,
+      updated_by: template?.updatedBy || null,
+      variables: { ...BRANDING_VARIABLES, ...definition.variables },
+      default: DEFAULT_TEMPLATES[key],
+    });
+  } catch (error) {
+    return handleError(error, 'Failed to fetch email template');
+  }
+}
+
+async function putHandler(request: NextRequest, user: AdminUser, key: string) {
+  try {
+    if (!isTemplateKey(key)) return notFound();
+
+    const body = await request.json();
+
+    // Validate input
+    const validated = emailTemplateUpdateSchema.parse(body);
+    const source = { subject: validated.subject ?? null, html: validated.html, text: validated.text };
+
+    const errors = validateTemplateSource(key, source);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid template', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const template = await saveEmailTemplate(key, source, user.email);
+    logAudit(request, user, 'email_template_updated', key);
+
+    return NextResponse.json({
+      key,
+      subject: template.subject,
+      html: template.html,
+      text: template.text,
+      customized: true,
+      updated_at: template.updatedAt.toISOString(),
+      updated_by: template.updatedBy,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error && typeof error === 'object' && 'code' in error) {
+      const { message, status } = mapPrismaError(error);
+      return NextResponse.json({ error: message }, { status });
+    }
+    return handleError(error, 'Failed to update email template');
+  }
+}
+
+async function deleteHandler(request: NextRequest, user: AdminUser, key: string) {
+  try {
+    if (!isTemplateKey(key)) return notFound();
+
+    // Deleting the stored version puts the built-in default back in use
+    const reset = await resetEmailTemplate(key);
+    if (reset) {
+      logAudit(request, user, 'email_template_reset', key);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleError(error, 'Failed to reset email template');
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  const { key } = await params;
+  return secureAdminRoute('email:manage', () => getHandler(key))(request);
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  const { key } = await params;
+  return secureAdminRoute('email:manage', (req, user) => putHandler(req, user, key))(request);
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  const { key } = await params;
+  return secureAdminRoute('email:manage', (req, user) => deleteHandler(req, user, key))(request);
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { secureAdminRoute, handleError } from '@/lib/api-security';
+import { getStoredTemplates, getTemplateDefinition, TEMPLATE_KEYS } from '@/lib/email-templates';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = secureAdminRoute('email:manage', async () => {
+  try {
+    const stored = await getStoredTemplates();
+
+    return NextResponse.json({
+      templates: TEMPLATE_KEYS.map((key) => {
+        const definition = getTemplateDefinition(key);
+        const template = stored.get(key);
+        return {
+          key,
+          name: definition.name,
+          description: definition.description,
+          kind: definition.kind,
+          customized: !!template,
+          updated_at: template?.updatedAt.toISOString() || null,
+          updated_by: template?.updatedBy || null,
+        };
+      }),
+    });
+  } catch (error) {
+    return handleError(error, 'Failed to fetch email templates');
+  }
+});
@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import { db } from '@/lib/db';
-import { secureAdminRoute, handleError, mapPrismaError, sanitizeContent } from '@/lib/api-security';
-import { newsletterUpdateSchema } from '@/lib/validation-schemas';
+import { secureAdminRoute, requirePermission, handleError, mapPrismaError, sanitizeContent } from '@/lib/api-security';
+import { newsletterUpdateSchema, newsletterScheduleSchema } from '@/lib/validation-schemas';
+import { getScheduleAction, logNewsletterTransition } from '@/lib/newsletter-scheduler';
+import { normalizeSegment, parseSegment } from '@/lib/newsletter-segments';
+import { parseAbTest } from '@/lib/newsletter-ab-test';
 import { z } from 'zod';
 import type { NewsletterUpdateData } from '@/types/database';
 
@@ -37,6 +41,12 @@ async function getHandler(request: NextRequest, user: { id: string; email: strin
       content: newsletter.content,
       status: newsletter.status,
       scheduled_for: newsletter.scheduledFor?.toISOString() || null,
+      segment: parseSegment(newsletter.segment),
+      tracking_enabled: newsletter.trackingEnabled,
+      show_in_archive: newsletter.showInArchive,
+      kind: newsletter.kind,
+      ab_test: parseAbTest(newsletter.abTest),
+      ab_winner: newsletter.abWinner,
       created_at: newsletter.createdAt.toISOString(),
       sent_at: newsletter.sentAt?.toISOString() || null,
       recipients_count: totalCount,
@@ -58,7 +68,7 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
-  return secureAdminRoute((req, user) => getHandler(req, user, id))(request);
+  return secureAdminRoute('newsletter:view', (req, user) => getHandler(req, user, id))(request);
 }
 
 async function putHandler(request: NextRequest, user: { id: string; email: string; role: string }, id: string) {
@@ -79,6 +89,71 @@ async function putHandler(request: NextRequest, user: { id: string; email: strin
       );
     }
 
+    if (
+      (existing.status === 'sending' || existing.status === 'sent') &&
+      validated.status !== undefined &&
+      validated.status !== existing.status
+    ) {
+      return NextResponse.json(
+        { error: 'Newsletter has already been sent' },
+        { status: 409 }
+      );
+    }
+
+    // Scheduling or sending needs newsletter:send, and so does undoing it
+    if (validated.status !== undefined && validated.status !== existing.status) {
+      const forbidden = requirePermission(user, 'newsletter:send');
+      if (forbidden) return forbidden;
+    }
+
+    // The send queue is built from the segment when sending starts, so the
+    // audience is fixed from then on
+    const segment = validated.segment !== undefined ? normalizeSegment(validated.segment) : undefined;
+    if (
+      (existing.status === 'sending' || existing.status === 'sent') &&
+      segment !== undefined &&
+      JSON.stringify(segment) !== JSON.stringify(parseSegment(existing.segment))
+    ) {
+      return NextResponse.json(
+        { error: 'Audience cannot be changed once sending has started' },
+        { status: 409 }
+      );
+    }
+
+    if (
+      (existing.status === 'sending' || existing.status === 'sent') &&
+      validated.tracking_enabled !== undefined &&
+      validated.tracking_enabled !== existing.trackingEnabled
+    ) {
+      return NextResponse.json(
+        { error: 'Tracking cannot be changed once sending has started' },
+        { status: 409 }
+      );
+    }
+
+    const abTest = validated.ab_test;
+    if (
+      (existing.status === 'sending' || existing.status === 'sent') &&
+      abTest !== undefined &&
+      JSON.stringify(abTest) !== JSON.stringify(parseAbTest(existing.abTest))
+    ) {
+      return NextResponse.json(
+        { error: 'Subject test cannot be changed once sending has started' },
+        { status: 409 }
+      );
+    }
+
+    // The winner is picked on open or click rate
+    if (
+      (abTest !== undefined ? abTest : existing.abTest) &&
+      !(validated.tracking_enabled ?? existing.trackingEnabled)
+    ) {
+      return NextResponse.json(
+        { error: 'Subject tests need open and click tracking' },
+        { status: 400 }
+      );
+    }
+
     const updateData: NewsletterUpdateData = {
       updatedAt: new Date(),
     };
@@ -89,12 +164,30 @@ async function putHandler(request: NextRequest, user: { id: string; email: strin
     if (validated.scheduled_for !== undefined) {
       updateData.scheduledFor = validated.scheduled_for ? new Date(validated.scheduled_for) : null;
     }
+    if (segment !== undefined) updateData.segment = segment ?? Prisma.DbNull;
+    if (validated.tracking_enabled !== undefined) updateData.trackingEnabled = validated.tracking_enabled;
+    if (validated.show_in_archive !== undefined) updateData.showInArchive = validated.show_in_archive;
+    if (abTest !== undefined) updateData.abTest = abTest ?? Prisma.DbNull;
 
     const newsletter = await db.newsletter.update({
       where: { id },
       data: updateData,
     });
 
+    const scheduleAction = getScheduleAction(existing, newsletter);
+    if (scheduleAction) {
+      await logNewsletterTransition({
+        newsletterId: newsletter.id,
+        action: scheduleAction,
+        from: existing.status,
+        to: newsletter.status,
+        actor: user.email,
+        details: { scheduledFor: newsletter.scheduledFor?.toISOString() ?? null },
+        ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || null,
+        userAgent: request.headers.get('user-agent') || null,
+      });
+    }
+
     // Log audit event
     console.log('AUDIT:', {
       userId: user.id,
@@ -114,6 +207,12 @@ async function putHandler(request: NextRequest, user: { id: string; email: strin
       content: newsletter.content,
       status: newsletter.status,
       scheduled_for: newsletter.scheduledFor?.toISOString() || null,
+      segment: parseSegment(newsletter.segment),
+      tracking_enabled: newsletter.trackingEnabled,
+      show_in_archive: newsletter.showInArchive,
+      kind: newsletter.kind,
+      ab_test: parseAbTest(newsletter.abTest),
+      ab_winner: newsletter.abWinner,
       created_at: newsletter.createdAt.toISOString(),
       sent_at: newsletter.sentAt?.toISOString() || null,
     };
@@ -139,5 +238,117 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
-  return secureAdminRoute((req, user) => putHandler(req, user, id))(request);
+  return secureAdminRoute('newsletter:edit', (req, user) => putHandler(req, user, id))(request);
+}
+
+async function patchHandler(request: NextRequest, user: { id: string; email: string; role: string }, id: string) {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validated = newsletterScheduleSchema.parse(body);
+
+    const existing = await db.newsletter.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Newsletter not found' },
+        { status: 404 }
+      );
+    }
+
+    let scheduledFor: Date | null = null;
+    if (validated.action === 'reschedule') {
+      scheduledFor = new Date(validated.scheduled_for);
+      if (scheduledFor <= new Date()) {
+        return NextResponse.json(
+          { error: 'Scheduled time must be in the future' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Conditional update so a newsletter the scheduler has already picked up
+    // cannot be cancelled or moved
+    const { count } = await db.newsletter.updateMany({
+      where: {
+        id,
+        status: validated.action === 'cancel' ? 'scheduled' : { in: ['draft', 'scheduled'] },
+      },
+      data: {
+        status: validated.action === 'cancel' ? 'draft' : 'scheduled',
+        scheduledFor,
+        updatedAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        {
+          error: validated.action === 'cancel'
+            ? 'Only scheduled newsletters can be cancelled'
+            : 'Newsletter has already been sent',
+        },
+        { status: 409 }
+      );
+    }
+
+    const newsletter = await db.newsletter.findUniqueOrThrow({
+      where: { id },
+    });
+
+    await logNewsletterTransition({
+      newsletterId: newsletter.id,
+      action: getScheduleAction(existing, newsletter) ?? 'newsletter_rescheduled',
+      from: existing.status,
+      to: newsletter.status,
+      actor: user.email,
+      details: {
+        previousScheduledFor: existing.scheduledFor?.toISOString() ?? null,
+        scheduledFor: newsletter.scheduledFor?.toISOString() ?? null,
+      },
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || null,
+      userAgent: request.headers.get('user-agent') || null,
+    });
+
+    const transformed = {
+      id: newsletter.id,
+      subject: newsletter.subject,
+      content: newsletter.content,
+      status: newsletter.status,
+      scheduled_for: newsletter.scheduledFor?.toISOString() || null,
+      segment: parseSegment(newsletter.segment),
+      tracking_enabled: newsletter.trackingEnabled,
+      show_in_archive: newsletter.showInArchive,
+      kind: newsletter.kind,
+      ab_test: parseAbTest(newsletter.abTest),
+      ab_winner: newsletter.abWinner,
+      created_at: newsletter.createdAt.toISOString(),
+      sent_at: newsletter.sentAt?.toISOString() || null,
+    };
+
+    return NextResponse.json(transformed);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error && typeof error === 'object' && 'code' in error) {
+      const { message, status } = mapPrismaError(error);
+      return NextResponse.json({ error: message }, { status });
+    }
+    return handleError(error, 'Failed to update newsletter schedule');
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return secureAdminRoute('newsletter:send', (req, user) => patchHandler(req, user, id))(request);
 }
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { secureAdminRoute, handleError, mapPrismaError } from '@/lib/api-security';
+import { newsletterSegmentSchema } from '@/lib/validation-schemas';
+import { buildSegmentWhere, countSegmentRecipients } from '@/lib/newsletter-segments';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+// Options for the segment builder: existing tags and known subscriber locations
+export const GET = secureAdminRoute('newsletter:view', async () => {
+  try {
+    const [tags, locations] = await Promise.all([
+      db.newsletterTag.findMany({
+        orderBy: { name: 'asc' },
+        select: { id: true, name: true },
+      }),
+      db.newsletterSubscriber.findMany({
+        where: { ...buildSegmentWhere(null), location: { not: null } },
+        distinct: ['location'],
+        orderBy: { location: 'asc' },
+        select: { location: true },
+      }),
+    ]);
+
+    return NextResponse.json({
+      tags,
+      locations: locations.map((subscriber: typeof locations[0]) => subscriber.location),
+    });
+  } catch (error) {
+    return handleError(error, 'Failed to fetch audience options');
+  }
+});
+
+// Recipient count preview for a segment
+export const POST = secureAdminRoute('newsletter:view', async (request: NextRequest) => {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const segment = newsletterSegmentSchema.nullable().parse(body.segment ?? null);
+
+    const [count, total] = await Promise.all([
+      countSegmentRecipients(segment),
+      countSegmentRecipients(null),
+    ]);
+
+    return NextResponse.json({ count, total });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error && typeof error === 'object' && 'code' in error) {
+      const { message, status } = mapPrismaError(error);
+      return NextResponse.json({ error: message }, { status });
+    }
+    return handleError(error, 'Failed to count recipients');
+  }
+});
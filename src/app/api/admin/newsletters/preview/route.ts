@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { secureAdminRoute, handleError } from '@/lib/api-security';
+import { previewNewsletter, SubscriberNotFoundError } from '@/lib/newsletter-preview';
+import { newsletterPreviewSchema } from '@/lib/validation-schemas';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+// Final personalised HTML and text of the editor's content, as one subscriber would get it
+export const POST = secureAdminRoute('newsletter:edit', async (request: NextRequest) => {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validated = newsletterPreviewSchema.parse(body);
+
+    const preview = await previewNewsletter(
+      { subject: validated.subject, content: validated.content },
+      validated.subscriber_email,
+    );
+
+    return NextResponse.json({
+      subject: preview.subject,
+      html: preview.html,
+      text: preview.text,
+      recipient: preview.recipient,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof SubscriberNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    return handleError(error, 'Failed to preview newsletter');
+  }
+});
@@ -1,12 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import { db } from '@/lib/db';
-import { secureAdminRoute, handleError, mapPrismaError, sanitizeContent } from '@/lib/api-security';
+import { secureAdminRoute, requirePermission, handleError, mapPrismaError, sanitizeContent } from '@/lib/api-security';
 import { newsletterCreateSchema } from '@/lib/validation-schemas';
+import { getScheduleAction, logNewsletterTransition } from '@/lib/newsletter-scheduler';
+import { normalizeSegment, parseSegment } from '@/lib/newsletter-segments';
+import { parseAbTest } from '@/lib/newsletter-ab-test';
 import { z } from 'zod';
 
 export const dynamic = 'force-dynamic';
 
-export const GET = secureAdminRoute(async (request: NextRequest) => {
+export const GET = secureAdminRoute('newsletter:view', async (request: NextRequest) => {
   try {
     const newsletters = await db.newsletter.findMany({
       orderBy: { createdAt: 'desc' },
@@ -35,6 +39,11 @@ export const GET = secureAdminRoute(async (request: NextRequest) => {
         created_at: newsletter.createdAt.toISOString(),
         sent_at: newsletter.sentAt?.toISOString() || null,
         scheduled_for: newsletter.scheduledFor?.toISOString() || null,
+        tracking_enabled: newsletter.trackingEnabled,
+        show_in_archive: newsletter.showInArchive,
+        kind: newsletter.kind,
+        ab_test: parseAbTest(newsletter.abTest),
+        ab_winner: newsletter.abWinner,
       };
     });
 
@@ -44,13 +53,26 @@ export const GET = secureAdminRoute(async (request: NextRequest) => {
   }
 });
 
-export const POST = secureAdminRoute(async (request: NextRequest, user) => {
+export const POST = secureAdminRoute('newsletter:edit', async (request: NextRequest, user) => {
   try {
     const body = await request.json();
 
     // Validate input
     const validated = newsletterCreateSchema.parse(body);
 
+    if (validated.status !== 'draft') {
+      const forbidden = requirePermission(user, 'newsletter:send');
+      if (forbidden) return forbidden;
+    }
+
+    // The winner is picked on open or click rate
+    if (validated.ab_test && !validated.tracking_enabled) {
+      return NextResponse.json(
+        { error: 'Subject tests need open and click tracking' },
+        { status: 400 }
+      );
+    }
+
     // Sanitize HTML content
     const sanitizedContent = sanitizeContent(validated.content);
 
@@ -60,9 +82,27 @@ export const POST = secureAdminRoute(async (request: NextRequest, user) => {
         content: sanitizedContent,
         status: validated.status,
         scheduledFor: validated.scheduled_for ? new Date(validated.scheduled_for) : null,
+        segment: normalizeSegment(validated.segment) ?? Prisma.DbNull,
+        trackingEnabled: validated.tracking_enabled ?? false,
+        showInArchive: validated.show_in_archive ?? false,
+        abTest: validated.ab_test ?? Prisma.DbNull,
       },
     });
 
+    const scheduleAction = getScheduleAction(null, newsletter);
+    if (scheduleAction) {
+      await logNewsletterTransition({
+        newsletterId: newsletter.id,
+        action: scheduleAction,
+        from: null,
+        to: newsletter.status,
+        actor: user.email,
+        details: { scheduledFor: newsletter.scheduledFor?.toISOString() ?? null },
+        ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || null,
+        userAgent: request.headers.get('user-agent') || null,
+      });
+    }
+
     // Log audit event
     console.log('AUDIT:', {
       userId: user.id,
@@ -82,6 +122,12 @@ export const POST = secureAdminRoute(async (request: NextRequest, user) => {
       content: newsletter.content,
       status: newsletter.status,
       scheduled_for: newsletter.scheduledFor?.toISOString() || null,
+      segment: parseSegment(newsletter.segment),
+      tracking_enabled: newsletter.trackingEnabled,
+      show_in_archive: newsletter.showInArchive,
+      kind: newsletter.kind,
+      ab_test: parseAbTest(newsletter.abTest),
+      ab_winner: newsletter.abWinner,
       created_at: newsletter.createdAt.toISOString(),
       updated_at: newsletter.updatedAt.toISOString(),
     }, { status: 201 });
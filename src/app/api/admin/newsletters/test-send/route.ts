@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { secureAdminRoute, handleError } from '@/lib/api-security';
+import { sendNewsletterTest, SubscriberNotFoundError, TestRecipientNotAllowedError } from '@/lib/newsletter-preview';
+import { newsletterTestSendSchema } from '@/lib/validation-schemas';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+// Mails the rendered preview to admin accounts; nothing is queued or recorded as sent
+export const POST = secureAdminRoute('newsletter:edit', async (request: NextRequest, user) => {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validated = newsletterTestSendSchema.parse(body);
+    const recipients = validated.recipients?.length ? validated.recipients : [user.email];
+
+    const result = await sendNewsletterTest(
+      { subject: validated.subject, content: validated.content },
+      recipients,
+      validated.subscriber_email,
+    );
+
+    // Log audit event
+    console.log('AUDIT:', {
+      userId: user.id,
+      userEmail: user.email,
+      action: 'newsletter_test_sent',
+      resourceType: 'Newsletter',
+      resourceId: null,
+      details: {
+        subject: validated.subject,
+        recipients,
+        subscriber_email: validated.subscriber_email || null,
+        sent: result.sent.length,
+        skipped: result.skipped.length,
+        failed: result.failed.length,
+      },
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || null,
+      userAgent: request.headers.get('user-agent') || null,
+      timestamp: new Date().toISOString(),
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof SubscriberNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof TestRecipientNotAllowedError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return handleError(error, 'Failed to send test newsletter');
+  }
+});
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { secureAdminRoute, handleError } from '@/lib/api-security';
+import { getNewsletterEngagement, toRate } from '@/lib/newsletter-tracking';
+import { getVariantMetrics } from '@/lib/newsletter-ab-test';
+import type { NewsletterMetrics } from '@/types/newsletter';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = secureAdminRoute('performance:view', async (request: NextRequest) => {
+  try {
+    const newsletters = await db.newsletter.findMany({
+      where: { status: { in: ['sending', 'sent'] } },
+      orderBy: { sentAt: 'desc' },
+      select: { id: true, subject: true, sentAt: true, abTest: true, abWinner: true },
+    });
+
+    const ids = newsletters.map((newsletter: typeof newsletters[0]) => newsletter.id);
+    const [statusGroups, feedbackGroups, engagement, variants] = await Promise.all([
+      ids.length > 0
+        ? db.newsletterSend.groupBy({
+            by: ['newsletterId', 'status'],
+            where: { newsletterId: { in: ids } },
+            _count: { _all: true },
+          })
+        : [],
+      ids.length > 0
+        ? db.newsletterSend.groupBy({
+            by: ['newsletterId'],
+            where: { newsletterId: { in: ids } },
+            _count: { deliveredAt: true, complainedAt: true },
+          })
+        : [],
+      getNewsletterEngagement(ids),
+      getVariantMetrics(newsletters),
+    ]);
+
+    const counts = new Map<string, Record<string, number>>();
+    for (const group of statusGroups as Array<{ newsletterId: string; status: string; _count: { _all: number } }>) {
+      const byStatus = counts.get(group.newsletterId) ?? {};
+      byStatus[group.status] = group._count._all;
+      counts.set(group.newsletterId, byStatus);
+    }
+
+    const feedback = new Map<string, { deliveredAt: number; complainedAt: number }>();
+    for (const group of feedbackGroups as Array<{ newsletterId: string; _count: { deliveredAt: number; complainedAt: number } }>) {
+      feedback.set(group.newsletterId, group._count);
+    }
+
+    const metrics: NewsletterMetrics[] = newsletters.map((newsletter: typeof newsletters[0]) => {
+      const byStatus = counts.get(newsletter.id) ?? {};
+      const stats = engagement.get(newsletter.id) ?? { tracked: 0, opened: 0, clicked: 0, opens: 0, clicks: 0 };
+
+      return {
+        id: newsletter.id,
+        subject: newsletter.subject,
+        sent_at: newsletter.sentAt?.toISOString() || null,
+        recipients_count: Object.values(byStatus).reduce((total, count) => total + count, 0),
+        sent_count: byStatus.sent ?? 0,
+        failed_count: byStatus.failed ?? 0,
+        delivered_count: feedback.get(newsletter.id)?.deliveredAt ?? 0,
+        bounced_count: byStatus.bounced ?? 0,
+        complained_count: feedback.get(newsletter.id)?.complainedAt ?? 0,
+        tracked_count: stats.tracked,
+        unique_opens: stats.opened,
+        unique_clicks: stats.clicked,
+        open_rate: toRate(stats.opened, stats.tracked),
+        click_rate: toRate(stats.clicked, stats.tracked),
+        click_to_open_rate: toRate(stats.clicked, stats.opened),
+        ab_winner: newsletter.abWinner,
+        variants: variants.get(newsletter.id) ?? [],
+      };
+    });
+
+    return NextResponse.json(metrics);
+  } catch (error) {
+    return handleError(error, 'Failed to fetch newsletter metrics');
+  }
+});
@@ -4,7 +4,7 @@ import { secureAdminRoute, handleError } from '@/lib/api-security';
 
 export const dynamic = 'force-dynamic';
 
-export const GET = secureAdminRoute(async (request: NextRequest) => {
+export const GET = secureAdminRoute('performance:view', async (request: NextRequest) => {
   try {
     const metrics = await db.performanceMetric.findMany({
       orderBy: { timestamp: 'desc' },
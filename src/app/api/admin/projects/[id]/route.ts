@@ -52,7 +52,7 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
-  return secureAdminRoute((req, user) => getHandler(req, user, id))(request);
+  return secureAdminRoute('projects:view', (req, user) => getHandler(req, user, id))(request);
 }
 
 async function putHandler(request: NextRequest, user: { id: string; email: string; role: string }, id: string) {
@@ -170,7 +170,7 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
-  return secureAdminRoute((req, user) => putHandler(req, user, id))(request);
+  return secureAdminRoute('projects:edit', (req, user) => putHandler(req, user, id))(request);
 }
 
 async function deleteHandler(request: NextRequest, user: { id: string; email: string; role: string }, id: string) {
@@ -220,7 +220,7 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
-  return secureAdminRoute((req, user) => deleteHandler(req, user, id))(request);
+  return secureAdminRoute('projects:edit', (req, user) => deleteHandler(req, user, id))(request);
 }
 
 async function patchHandler(request: NextRequest, user: { id: string; email: string; role: string }, id: string) {
@@ -297,5 +297,5 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
-  return secureAdminRoute((req, user) => patchHandler(req, user, id))(request);
+  return secureAdminRoute('projects:edit', (req, user) => patchHandler(req, user, id))(request);
 }
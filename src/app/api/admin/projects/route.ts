@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { secureAdminRoute, handleError } from '@/lib/api-security';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = secureAdminRoute('projects:view', async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+
+    // Validate status parameter
+    const statusSchema = z.enum(['draft', 'published', 'scheduled', 'all']).optional();
+    const validatedStatus = statusSchema.parse(status || 'all');
+
+    const where: { status?: string } = {};
+    if (validatedStatus && validatedStatus !== 'all') {
+      where.status = validatedStatus;
+    }
+
+    const projects = await db.project.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        title: true,
+        slug: true,
+        excerpt: true,
+        content: true,
+        coverImage: true,
+        technologies: true,
+        githubUrl: true,
+        liveUrl: true,
+        author: true,
+        status: true,
+        publishedAt: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    });
+
+    // Transform to match frontend format
+    const transformed = projects.map((project: typeof projects[0]) => ({
+      id: project.id,
+      title: project.title,
+      slug: project.slug,
+      excerpt: project.excerpt || '',
+      content: project.content,
+      cover_image: project.coverImage || '',
+      technologies: project.technologies,
+      github_url: project.githubUrl || '',
+      live_url: project.liveUrl || '',
+      author: project.author,
+      status: project.status,
+      published_at: project.publishedAt?.toISOString() || null,
+      created_at: project.createdAt.toISOString(),
+      updated_at: project.updatedAt.toISOString(),
+    }));
+
+    return NextResponse.json(transformed);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid status parameter', details: error.errors },
+        { status: 400 }
+      );
+    }
+    return handleError(error, 'Failed to fetch projects');
+  }
+});
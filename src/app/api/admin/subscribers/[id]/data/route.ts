@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { secureAdminRoute, handleError, mapPrismaError } from '@/lib/api-security';
+import { eraseSubscriberData, exportSubscriberData } from '@/lib/subscriber-data';
+
+export const dynamic = 'force-dynamic';
+
+async function findSubscriberEmail(id: string): Promise<string | null> {
+  const subscriber = await db.newsletterSubscriber.findUnique({
+    where: { id },
+    select: { email: true },
+  });
+  return subscriber?.email ?? null;
+}
+
+function logAudit(request: NextRequest, user: { id: string; email: string }, action: string, id: string, details: unknown) {
+  console.log('AUDIT:', {
+    userId: user.id,
+    userEmail: user.email,
+    action,
+    resourceType: 'NewsletterSubscriber',
+    resourceId: id,
+    details,
+    ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || null,
+    userAgent: request.headers.get('user-agent') || null,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+async function getHandler(request: NextRequest, user: { id: string; email: string; role: string }, id: string) {
+  try {
+    const email = await findSubscriberEmail(id);
+    if (!email) {
+      return NextResponse.json({ error: 'Subscriber not found' }, { status: 404 });
+    }
+
+    const data = await exportSubscriberData(email);
+    logAudit(request, user, 'subscriber_data_exported', id, {});
+
+    return NextResponse.json(data, {
+      headers: {
+        'Content-Disposition': `attachment; filename="subscriber-${id}.json"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    return handleError(error, 'Failed to export subscriber data');
+  }
+}
+
+async function deleteHandler(request: NextRequest, user: { id: string; email: string; role: string }, id: string) {
+  try {
+    const email = await findSubscriberEmail(id);
+    if (!email) {
+      return NextResponse.json({ error: 'Subscriber not found' }, { status: 404 });
+    }
+
+    const result = await eraseSubscriberData(email, user.email);
+    // The address is gone; the log keeps only what was deleted
+    logAudit(request, user, 'subscriber_data_erased', id, result);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error) {
+      const { message, status } = mapPrismaError(error);
+      return NextResponse.json({ error: message }, { status });
+    }
+    return handleError(error, 'Failed to erase subscriber data');
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return secureAdminRoute('subscribers:export', (req, user) => getHandler(req, user, id))(request);
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return secureAdminRoute('subscribers:erase', (req, user) => deleteHandler(req, user, id))(request);
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureAdminRoute, handleError } from '@/lib/api-security';
+import { exportSubscribersCsv, parseSubscriberListQuery } from '@/lib/subscriber-list';
+
+export const dynamic = 'force-dynamic';
+
+// Every subscriber matching the list filters, not just the page on screen
+export const GET = secureAdminRoute('subscribers:export', async (request: NextRequest, user) => {
+  try {
+    const query = parseSubscriberListQuery(request.nextUrl.searchParams);
+    const csv = await exportSubscribersCsv(query);
+
+    console.log('AUDIT:', {
+      userId: user.id,
+      userEmail: user.email,
+      action: 'subscribers_exported',
+      resourceType: 'NewsletterSubscriber',
+      resourceId: null,
+      details: {
+        filters: {
+          search: query.search,
+          status: query.status,
+          tag: query.tag,
+          location: query.location,
+          created_after: query.created_after,
+          created_before: query.created_before,
+        },
+      },
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || null,
+      userAgent: request.headers.get('user-agent') || null,
+      timestamp: new Date().toISOString(),
+    });
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="subscribers-${timestamp}.csv"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+    return handleError(error, 'Failed to export subscribers');
+  }
+});
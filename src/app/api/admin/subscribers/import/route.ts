@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { secureAdminRoute, handleError, mapPrismaError } from '@/lib/api-security';
+import { subscriberImportSchema } from '@/lib/validation-schemas';
+import { importSubscribers, parseSubscriberCsv } from '@/lib/subscriber-import';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = secureAdminRoute('subscribers:edit', async (request: NextRequest, user) => {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validated = subscriberImportSchema.parse(body);
+
+    const { rows, error } = parseSubscriberCsv(validated.csv);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const ipAddress = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || null;
+    const userAgent = request.headers.get('user-agent') || null;
+
+    const report = await importSubscribers(rows, {
+      dryRun: validated.dry_run,
+      tags: validated.tags,
+      actor: user.email,
+      ipAddress,
+      userAgent,
+    });
+
+    if (!validated.dry_run) {
+      // Log audit event
+      console.log('AUDIT:', {
+        userId: user.id,
+        userEmail: user.email,
+        action: 'subscribers_imported',
+        resourceType: 'NewsletterSubscriber',
+        resourceId: null,
+        details: { summary: report.summary, newTags: report.new_tags },
+        ipAddress,
+        userAgent,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    return NextResponse.json(report);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error && typeof error === 'object' && 'code' in error) {
+      const { message, status } = mapPrismaError(error);
+      return NextResponse.json({ error: message }, { status });
+    }
+    return handleError(error, 'Failed to import subscribers');
+  }
+});
@@ -1,38 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/lib/db';
+import { z } from 'zod';
 import { secureAdminRoute, handleError } from '@/lib/api-security';
+import { listSubscribers, parseSubscriberListQuery } from '@/lib/subscriber-list';
 
 export const dynamic = 'force-dynamic';
 
-export const GET = secureAdminRoute(async (request: NextRequest) => {
+export const GET = secureAdminRoute('subscribers:view', async (request: NextRequest) => {
   try {
-    const subscribers = await db.newsletterSubscriber.findMany({
-      orderBy: { createdAt: 'desc' },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        isSubscribed: true,
-        unsubscribeReason: true,
-        unsubscribeFeedback: true,
-        createdAt: true,
-        location: true,
-      },
-    });
-
-    const transformed = subscribers.map((sub: typeof subscribers[0]) => ({
-      id: sub.id,
-      email: sub.email,
-      name: sub.name,
-      is_subscribed: sub.isSubscribed,
-      unsubscribe_reason: sub.unsubscribeReason,
-      unsubscribe_feedback: sub.unsubscribeFeedback,
-      created_at: sub.createdAt.toISOString(),
-      location: sub.location,
-    }));
-
-    return NextResponse.json(transformed);
+    const query = parseSubscriberListQuery(request.nextUrl.searchParams);
+    return NextResponse.json(await listSubscribers(query));
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
     return handleError(error, 'Failed to fetch subscribers');
   }
 });
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { secureAdminRoute, handleError, mapPrismaError } from '@/lib/api-security';
+import { subscriberTagBulkSchema } from '@/lib/validation-schemas';
+import { tagSubscribers, untagSubscribers } from '@/lib/subscriber-tags';
+import { forEachSubscriberPage } from '@/lib/subscriber-list';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+async function bulkHandler(request: NextRequest, user: { id: string; email: string; role: string }, action: 'tag' | 'untag') {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validated = subscriberTagBulkSchema.parse(body);
+
+    const apply = (subscriberIds: string[]) => action === 'tag'
+      ? tagSubscribers(subscriberIds, validated.tag_ids)
+      : untagSubscribers(subscriberIds, validated.tag_ids);
+
+    let count = 0;
+    if (validated.filters) {
+      await forEachSubscriberPage(validated.filters, async (subscriberIds) => {
+        count += await apply(subscriberIds);
+      });
+    } else {
+      count = await apply(validated.subscriber_ids ?? []);
+    }
+
+    // Log audit event
+    console.log('AUDIT:', {
+      userId: user.id,
+      userEmail: user.email,
+      action: action === 'tag' ? 'subscribers_tagged' : 'subscribers_untagged',
+      resourceType: 'SubscriberTag',
+      resourceId: null,
+      details: {
+        subscriberIds: validated.subscriber_ids,
+        filters: validated.filters,
+        tagIds: validated.tag_ids,
+        count,
+      },
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || null,
+      userAgent: request.headers.get('user-agent') || null,
+      timestamp: new Date().toISOString(),
+    });
+
+    return NextResponse.json({ success: true, count });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error && typeof error === 'object' && 'code' in error) {
+      const { message, status } = mapPrismaError(error);
+      return NextResponse.json({ error: message }, { status });
+    }
+    return handleError(error, action === 'tag' ? 'Failed to tag subscribers' : 'Failed to untag subscribers');
+  }
+}
+
+// Apply tags to a selection of subscribers, or to every subscriber matching the list filters
+export const POST = secureAdminRoute('subscribers:edit', (request, user) => bulkHandler(request, user, 'tag'));
+
+// Remove tags from a selection of subscribers
+export const DELETE = secureAdminRoute('subscribers:edit', (request, user) => bulkHandler(request, user, 'untag'));
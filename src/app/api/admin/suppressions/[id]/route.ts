@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { secureAdminRoute, handleError, mapPrismaError } from '@/lib/api-security';
+
+export const dynamic = 'force-dynamic';
+
+async function deleteHandler(request: NextRequest, user: { id: string; email: string; role: string }, id: string) {
+  try {
+    const suppression = await db.emailSuppression.findUnique({
+      where: { id },
+      select: { id: true, value: true, reason: true },
+    });
+
+    if (!suppression) {
+      return NextResponse.json(
+        { error: 'Suppression not found' },
+        { status: 404 }
+      );
+    }
+
+    // Skipped emails keep their reason; the relation is cleared by the foreign key
+    await db.emailSuppression.delete({
+      where: { id },
+    });
+
+    // Log audit event
+    console.log('AUDIT:', {
+      userId: user.id,
+      userEmail: user.email,
+      action: 'suppression_removed',
+      resourceType: 'EmailSuppression',
+      resourceId: suppression.id,
+      details: { value: suppression.value, reason: suppression.reason },
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || null,
+      userAgent: request.headers.get('user-agent') || null,
+      timestamp: new Date().toISOString(),
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error) {
+      const { message, status } = mapPrismaError(error);
+      return NextResponse.json({ error: message }, { status });
+    }
+    return handleError(error, 'Failed to remove suppression');
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return secureAdminRoute('email:manage', (req, user) => deleteHandler(req, user, id))(request);
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { secureAdminRoute, handleError, mapPrismaError } from '@/lib/api-security';
+import { normalizeSuppressionValue, suppressEmail } from '@/lib/email-suppression';
+import { suppressionCreateSchema } from '@/lib/validation-schemas';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+const RECENT_SKIPS_LIMIT = 50;
+
+function transformSuppression(suppression: {
+  id: string;
+  value: string;
+  type: string;
+  reason: string;
+  source: string;
+  note: string | null;
+  expiresAt: Date | null;
+  createdBy: string | null;
+  createdAt: Date;
+  _count?: { skippedEmails: number };
+}) {
+  return {
+    id: suppression.id,
+    value: suppression.value,
+    type: suppression.type,
+    reason: suppression.reason,
+    source: suppression.source,
+    note: suppression.note,
+    expires_at: suppression.expiresAt?.toISOString() || null,
+    created_by: suppression.createdBy,
+    created_at: suppression.createdAt.toISOString(),
+    skipped_count: suppression._count?.skippedEmails ?? 0,
+  };
+}
+
+export const GET = secureAdminRoute('email:manage', async (request: NextRequest) => {
+  try {
+    const search = normalizeSuppressionValue(request.nextUrl.searchParams.get('search') || '');
+
+    const [suppressions, skipped] = await Promise.all([
+      db.emailSuppression.findMany({
+        where: search ? { value: { contains: search } } : {},
+        orderBy: { createdAt: 'desc' },
+        include: {
+          _count: { select: { skippedEmails: true } },
+        },
+      }),
+      db.skippedEmail.findMany({
+        orderBy: { createdAt: 'desc' },
+        take: RECENT_SKIPS_LIMIT,
+      }),
+    ]);
+
+    return NextResponse.json({
+      suppressions: suppressions.map(transformSuppression),
+      recent_skips: skipped.map((skip: typeof skipped[0]) => ({
+        id: skip.id,
+        email: skip.email,
+        category: skip.category,
+        reason: skip.reason,
+        created_at: skip.createdAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    return handleError(error, 'Failed to fetch suppressions');
+  }
+});
+
+export const POST = secureAdminRoute('email:manage', async (request: NextRequest, user) => {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validated = suppressionCreateSchema.parse(body);
+
+    const suppression = await suppressEmail({
+      value: validated.value,
+      type: validated.type,
+      reason: validated.reason,
+      source: 'admin',
+      note: validated.note || null,
+      expiresAt: validated.expires_at ? new Date(validated.expires_at) : null,
+      createdBy: user.email,
+    });
+
+    // Log audit event
+    console.log('AUDIT:', {
+      userId: user.id,
+      userEmail: user.email,
+      action: 'suppression_added',
+      resourceType: 'EmailSuppression',
+      resourceId: suppression.id,
+      details: { value: suppression.value, type: suppression.type, reason: suppression.reason },
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || null,
+      userAgent: request.headers.get('user-agent') || null,
+      timestamp: new Date().toISOString(),
+    });
+
+    return NextResponse.json(transformSuppression(suppression), { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error && typeof error === 'object' && 'code' in error) {
+      const { message, status } = mapPrismaError(error);
+      return NextResponse.json({ error: message }, { status });
+    }
+    return handleError(error, 'Failed to add suppression');
+  }
+});
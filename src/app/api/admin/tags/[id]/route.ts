@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { secureAdminRoute, handleError, mapPrismaError } from '@/lib/api-security';
+import { tagUpdateSchema } from '@/lib/validation-schemas';
+import { findNewslettersUsingTag } from '@/lib/subscriber-tags';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+async function putHandler(request: NextRequest, user: { id: string; email: string; role: string }, id: string) {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validated = tagUpdateSchema.parse(body);
+
+    const existing = await db.newsletterTag.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Tag not found' },
+        { status: 404 }
+      );
+    }
+
+    const updateData: Partial<{ name: string; description: string | null }> = {};
+    if (validated.name !== undefined) updateData.name = validated.name;
+    if (validated.description !== undefined) updateData.description = validated.description || null;
+
+    const tag = await db.newsletterTag.update({
+      where: { id },
+      data: updateData,
+      include: {
+        _count: { select: { subscriberTags: true } },
+      },
+    });
+
+    // Log audit event
+    console.log('AUDIT:', {
+      userId: user.id,
+      userEmail: user.email,
+      action: 'tag_updated',
+      resourceType: 'NewsletterTag',
+      resourceId: tag.id,
+      details: { previousName: existing.name, name: tag.name },
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || null,
+      userAgent: request.headers.get('user-agent') || null,
+      timestamp: new Date().toISOString(),
+    });
+
+    return NextResponse.json({
+      id: tag.id,
+      name: tag.name,
+      description: tag.description,
+      subscriber_count: tag._count.subscriberTags,
+      created_at: tag.createdAt.toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error && typeof error === 'object' && 'code' in error) {
+      const { message, status } = mapPrismaError(error);
+      return NextResponse.json({ error: message }, { status });
+    }
+    return handleError(error, 'Failed to update tag');
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return secureAdminRoute('subscribers:edit', (req, user) => putHandler(req, user, id))(request);
+}
+
+async function deleteHandler(request: NextRequest, user: { id: string; email: string; role: string }, id: string) {
+  try {
+    const tag = await db.newsletterTag.findUnique({
+      where: { id },
+      select: { id: true, name: true },
+    });
+
+    if (!tag) {
+      return NextResponse.json(
+        { error: 'Tag not found' },
+        { status: 404 }
+      );
+    }
+
+    const newsletters = await findNewslettersUsingTag(id);
+    if (newsletters.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Tag is used by the audience of an unsent newsletter',
+          newsletters,
+        },
+        { status: 409 }
+      );
+    }
+
+    // Subscriber assignments are removed by the cascade on SubscriberTag
+    await db.newsletterTag.delete({
+      where: { id },
+    });
+
+    // Log audit event
+    console.log('AUDIT:', {
+      userId: user.id,
+      userEmail: user.email,
+      action: 'tag_deleted',
+      resourceType: 'NewsletterTag',
+      resourceId: tag.id,
+      details: { name: tag.name },
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || null,
+      userAgent: request.headers.get('user-agent') || null,
+      timestamp: new Date().toISOString(),
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error) {
+      const { message, status } = mapPrismaError(error);
+      return NextResponse.json({ error: message }, { status });
+    }
+    return handleError(error, 'Failed to delete tag');
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return secureAdminRoute('subscribers:edit', (req, user) => deleteHandler(req, user, id))(request);
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { secureAdminRoute, handleError, mapPrismaError } from '@/lib/api-security';
+import { tagCreateSchema } from '@/lib/validation-schemas';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = secureAdminRoute('subscribers:view', async () => {
+  try {
+    const tags = await db.newsletterTag.findMany({
+      orderBy: { name: 'asc' },
+      include: {
+        _count: { select: { subscriberTags: true } },
+      },
+    });
+
+    const transformed = tags.map((tag: typeof tags[0]) => ({
+      id: tag.id,
+      name: tag.name,
+      description: tag.description,
+      subscriber_count: tag._count.subscriberTags,
+      created_at: tag.createdAt.toISOString(),
+    }));
+
+    return NextResponse.json(transformed);
+  } catch (error) {
+    return handleError(error, 'Failed to fetch tags');
+  }
+});
+
+export const POST = secureAdminRoute('subscribers:edit', async (request: NextRequest, user) => {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validated = tagCreateSchema.parse(body);
+
+    const tag = await db.newsletterTag.create({
+      data: {
+        name: validated.name,
+        description: validated.description || null,
+      },
+    });
+
+    // Log audit event
+    console.log('AUDIT:', {
+      userId: user.id,
+      userEmail: user.email,
+      action: 'tag_created',
+      resourceType: 'NewsletterTag',
+      resourceId: tag.id,
+      details: { name: tag.name },
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || null,
+      userAgent: request.headers.get('user-agent') || null,
+      timestamp: new Date().toISOString(),
+    });
+
+    return NextResponse.json({
+      id: tag.id,
+      name: tag.name,
+      description: tag.description,
+      subscriber_count: 0,
+      created_at: tag.createdAt.toISOString(),
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error && typeof error === 'object' && 'code' in error) {
+      const { message, status } = mapPrismaError(error);
+      return NextResponse.json({ error: message }, { status });
+    }
+    return handleError(error, 'Failed to create tag');
+  }
+});
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { secureAdminRoute, handleError } from '@/lib/api-security';
+import { resendAccountLink } from '@/lib/admin-accounts';
+
+export const dynamic = 'force-dynamic';
+
+// Emails the user a new invitation, or a password reset once they have a password
+async function postHandler(request: NextRequest, user: { id: string; email: string; role: string }, id: string) {
+  try {
+    const sent = await resendAccountLink(id, user);
+    if (!sent) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    console.log('AUDIT:', {
+      userId: user.id,
+      userEmail: user.email,
+      action: 'admin_link_sent',
+      resourceType: 'Profile',
+      resourceId: id,
+      details: {},
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || null,
+      userAgent: request.headers.get('user-agent') || null,
+      timestamp: new Date().toISOString(),
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleError(error, 'Failed to send link');
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return secureAdminRoute('users:manage', (req, user) => postHandler(req, user, id))(request);
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { secureAdminRoute, handleError, mapPrismaError } from '@/lib/api-security';
+import { z } from 'zod';
+import { deleteAdminUser, updateAdminRole } from '@/lib/admin-accounts';
+import { adminRoleUpdateSchema } from '@/lib/validation-schemas';
+
+export const dynamic = 'force-dynamic';
+
+async function deleteHandler(request: NextRequest, user: { id: string; email: string; role: string }, id: string) {
+  try {
+    const result = await deleteAdminUser(id, user);
+    if (result === 'self') {
+      return NextResponse.json(
+        { error: 'You cannot remove your own account' },
+        { status: 400 }
+      );
+    }
+    if (!result) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    console.log('AUDIT:', {
+      userId: user.id,
+      userEmail: user.email,
+      action: 'admin_removed',
+      resourceType: 'Profile',
+      resourceId: id,
+      details: {},
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || null,
+      userAgent: request.headers.get('user-agent') || null,
+      timestamp: new Date().toISOString(),
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error) {
+      const { message, status } = mapPrismaError(error);
+      return NextResponse.json({ error: message }, { status });
+    }
+    return handleError(error, 'Failed to remove user');
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return secureAdminRoute('users:manage', (req, user) => deleteHandler(req, user, id))(request);
+}
+
+async function patchHandler(request: NextRequest, user: { id: string; email: string; role: string }, id: string) {
+  try {
+    const { role } = adminRoleUpdateSchema.parse(await request.json());
+
+    const result = await updateAdminRole(id, role, user);
+    if (result === 'self') {
+      return NextResponse.json(
+        { error: 'You cannot change your own role' },
+        { status: 400 }
+      );
+    }
+    if (!result) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    console.log('AUDIT:', {
+      userId: user.id,
+      userEmail: user.email,
+      action: 'admin_role_changed',
+      resourceType: 'Profile',
+      resourceId: id,
+      details: { role },
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || null,
+      userAgent: request.headers.get('user-agent') || null,
+      timestamp: new Date().toISOString(),
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error && typeof error === 'object' && 'code' in error) {
+      const { message, status } = mapPrismaError(error);
+      return NextResponse.json({ error: message }, { status });
+    }
+    return handleError(error, 'Failed to update user');
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return secureAdminRoute('users:manage', (req, user) => patchHandler(req, user, id))(request);
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { secureAdminRoute, handleError, mapPrismaError } from '@/lib/api-security';
+import { adminInviteSchema } from '@/lib/validation-schemas';
+import { inviteAdminUser, listAdminUsers } from '@/lib/admin-accounts';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = secureAdminRoute('users:manage', async () => {
+  try {
+    return NextResponse.json(await listAdminUsers());
+  } catch (error) {
+    return handleError(error, 'Failed to fetch users');
+  }
+});
+
+export const POST = secureAdminRoute('users:manage', async (request: NextRequest, user) => {
+  try {
+    const body = await request.json();
+    const validated = adminInviteSchema.parse(body);
+
+    const invited = await inviteAdminUser(validated.email, validated.name, validated.role, user);
+    if (!invited) {
+      return NextResponse.json(
+        { error: 'An account with this email already exists' },
+        { status: 409 }
+      );
+    }
+
+    console.log('AUDIT:', {
+      userId: user.id,
+      userEmail: user.email,
+      action: 'admin_invited',
+      resourceType: 'Profile',
+      resourceId: invited.id,
+      details: { email: invited.email, role: invited.role },
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || null,
+      userAgent: request.headers.get('user-agent') || null,
+      timestamp: new Date().toISOString(),
+    });
+
+    return NextResponse.json(invited, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error && typeof error === 'object' && 'code' in error) {
+      const { message, status } = mapPrismaError(error);
+      return NextResponse.json({ error: message }, { status });
+    }
+    return handleError(error, 'Failed to invite user');
+  }
+});
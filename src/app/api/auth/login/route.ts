@@ -1,95 +1,89 @@
 import { NextResponse, NextRequest } from 'next/server';
-import { db } from '@/lib/db';
-import { cookies } from 'next/headers';
-import * as jwt from 'jsonwebtoken';
 import { withRateLimit, authLimiter } from '@/lib/rate-limit';
 import { addSecurityHeaders, handleError } from '@/lib/api-security';
+import { authenticateAdmin } from '@/lib/admin-accounts';
+import { requireAuth, startSession } from '@/lib/auth-middleware';
+import { getPermissions } from '@/lib/permissions';
+import { createPreAuthToken, isTwoFactorRequired } from '@/lib/two-factor';
+import { checkLoginThrottle, clearLoginFailures, recordLoginFailure } from '@/lib/login-throttle';
+import { getClientIp } from '@/lib/security';
+
+// Rate limited per client IP, so one caller can't use up everyone's attempts
+export const POST = withRateLimit(authLimiter, (request) => `login:${getClientIp(request)}`, async (request: NextRequest) => {
+  const ip = getClientIp(request);
+  const userAgent = request.headers.get('user-agent') || 'unknown';
 
-// Get JWT secret - must be set in environment variables
-function getJwtSecret(): string {
-  const secret = process.env.JWT_SECRET || process.env.AUTH_SECRET;
-  if (!secret || secret.length < 32) {
-    throw new Error(
-      'JWT_SECRET or AUTH_SECRET environment variable must be set and be at least 32 characters long. ' +
-      'This is required for secure authentication.'
-    );
-  }
-  return secret;
-}
-
-export const POST = withRateLimit(authLimiter, 'login', async (request: NextRequest) => {
   try {
     const body = await request.json();
     const { email, password } = body;
 
-    if (!email || !password) {
+    if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
       return NextResponse.json(
         { error: 'Email and password are required' },
         { status: 400 }
       );
     }
 
-    // Admin credentials must be set in environment variables
-    const adminEmail = process.env.ADMIN_EMAIL;
-    const adminPassword = process.env.ADMIN_PASSWORD;
+    const throttle = await checkLoginThrottle(ip, email);
+    if (!throttle.allowed) {
+      if (throttle.reason === 'blacklisted') {
+        return NextResponse.json(
+          { error: 'Too many attempts. Please try again later.' },
+          { status: 429 }
+        );
+      }
 
-    if (!adminEmail || !adminPassword) {
+      const minutes = Math.ceil(throttle.retryAfterSeconds / 60);
       return NextResponse.json(
-        { error: 'Admin authentication not configured. ADMIN_EMAIL and ADMIN_PASSWORD must be set.' },
+        {
+          error: throttle.reason === 'locked'
+            ? `Too many failed sign-in attempts. Please try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`
+            : 'Please wait a few seconds before trying again.',
+          retryAfter: throttle.retryAfterSeconds,
+        },
+        { status: 429, headers: { 'Retry-After': throttle.retryAfterSeconds.toString() } }
+      );
+    }
+
+    const result = await authenticateAdmin(email, password);
+
+    if (!result.ok && result.reason === 'not_configured') {
+      return NextResponse.json(
+        { error: 'Admin authentication not configured. ADMIN_EMAIL and ADMIN_PASSWORD must be set to create the first account.' },
         { status: 500 }
       );
     }
 
-    // Verify credentials
-    if (email !== adminEmail || password !== adminPassword) {
+    if (!result.ok) {
+      await recordLoginFailure(ip, email, userAgent);
       return NextResponse.json(
         { error: 'Invalid email or password' },
         { status: 401 }
       );
     }
 
-    // Check or create profile in database
-    let profile = await db.profile.findFirst({
-      where: { email },
-    });
+    const { profile } = result;
+    await clearLoginFailures(email);
 
-    if (!profile) {
-      profile = await db.profile.create({
-        data: {
-          email,
-          role: 'admin',
-        },
-      });
-    } else if (profile.role !== 'admin') {
-      // Update to admin if not already
-      profile = await db.profile.update({
-        where: { id: profile.id },
-        data: { role: 'admin' },
+    // With 2FA on (or required but not set up yet) the password only earns a
+    // pre-auth token; the session starts after the second step
+    if (result.twoFactorEnabled || isTwoFactorRequired()) {
+      const response = NextResponse.json({
+        success: false,
+        two_factor: result.twoFactorEnabled ? 'verify' : 'setup',
+        pre_auth_token: createPreAuthToken({ id: profile.id, passwordChangedAt: result.passwordChangedAt }),
       });
+      return addSecurityHeaders(response);
     }
 
-    // Create JWT token
-    const token = jwt.sign(
-      { email: profile.email, role: profile.role, id: profile.id },
-      getJwtSecret(),
-      { expiresIn: '7d' }
-    );
-
-    // Set HTTP-only cookie
-    const cookieStore = await cookies();
-    cookieStore.set('auth-token', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 60 * 60 * 24 * 7, // 7 days
-      path: '/',
-    });
+    await startSession(profile, request);
 
     const response = NextResponse.json({
       success: true,
       user: {
         email: profile.email,
         role: profile.role,
+        permissions: getPermissions(profile.role),
       },
     });
     return addSecurityHeaders(response);
@@ -99,39 +93,18 @@ export const POST = withRateLimit(authLimiter, 'login', async (request: NextRequ
 });
 
 export async function GET(request: NextRequest) {
-  try {
-    const cookieStore = await cookies();
-    const token = cookieStore.get('auth-token')?.value;
-
-    if (!token) {
-      return NextResponse.json({ authenticated: false }, { status: 401 });
-    }
-
-    // Verify token
-    try {
-      const decoded = jwt.verify(token, getJwtSecret()) as { email: string; role: string; id: string };
-      
-      const profile = await db.profile.findFirst({
-        where: { email: decoded.email },
-      });
-
-      if (!profile || profile.role !== 'admin') {
-        return NextResponse.json({ authenticated: false }, { status: 401 });
-      }
-
-      const response = NextResponse.json({
-        authenticated: true,
-        user: {
-          email: profile.email,
-          role: profile.role,
-        },
-      });
-      return addSecurityHeaders(response);
-    } catch (jwtError) {
-      return NextResponse.json({ authenticated: false }, { status: 401 });
-    }
-  } catch (error) {
+  const { authenticated, user } = await requireAuth(request);
+  if (!authenticated || !user) {
     return NextResponse.json({ authenticated: false }, { status: 401 });
   }
-}
 
+  const response = NextResponse.json({
+    authenticated: true,
+    user: {
+      email: user.email,
+      role: user.role,
+      permissions: getPermissions(user.role),
+    },
+  });
+  return addSecurityHeaders(response);
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addSecurityHeaders, handleError, verifyCSRF } from '@/lib/api-security';
+import { endSession } from '@/lib/auth-middleware';
+
+export const dynamic = 'force-dynamic';
+
+// Revokes the current session and clears the cookie. Succeeds even when the
+// session has already expired, so the client always ends up signed out. Not
+// rate limited: a spent budget must never stop anyone signing out.
+export async function POST(request: NextRequest) {
+  try {
+    if (!verifyCSRF(request)) {
+      return NextResponse.json(
+        { error: 'Invalid request origin' },
+        { status: 403 }
+      );
+    }
+
+    await endSession();
+
+    return addSecurityHeaders(NextResponse.json({ success: true }));
+  } catch (error) {
+    return handleError(error, 'Failed to sign out');
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRateLimit, authLimiter, passwordResetLimiter } from '@/lib/rate-limit';
+import { getClientIp } from '@/lib/security';
+import { passwordResetRequestSchema } from '@/lib/validation-schemas';
+import { requestPasswordReset } from '@/lib/admin-accounts';
+
+export const dynamic = 'force-dynamic';
+
+// Emails a reset link to an admin. The response is the same whether or not
+// the address has an account, or its reset limit was reached, so it can't be
+// used to find admins.
+export const POST = withRateLimit(authLimiter, (req) => `password-forgot:${getClientIp(req)}`, async (request: Request) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { email } = passwordResetRequestSchema.parse(body);
+
+    const perAddress = await passwordResetLimiter.check(email);
+    if (!perAddress.success) {
+      return NextResponse.json({ success: true });
+    }
+
+    try {
+      await requestPasswordReset(email);
+    } catch (emailError) {
+      console.error('Error sending password reset email:', emailError);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0]?.message || 'Invalid request' },
+        { status: 400 }
+      );
+    }
+    console.error('Error handling password reset request:', error);
+    return NextResponse.json(
+      { error: 'Failed to handle your request' },
+      { status: 500 }
+    );
+  }
+});
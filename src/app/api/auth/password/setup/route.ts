@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRateLimit, authLimiter } from '@/lib/rate-limit';
+import { getClientIp } from '@/lib/security';
+import { passwordSetupSchema } from '@/lib/validation-schemas';
+import { setPasswordWithToken } from '@/lib/admin-accounts';
+import { startSession } from '@/lib/auth-middleware';
+import { createPreAuthToken, isTwoFactorRequired } from '@/lib/two-factor';
+
+export const dynamic = 'force-dynamic';
+
+// Sets the password from an invite or reset link and signs the admin in. With
+// 2FA on (or required but not set up yet) it answers like the sign-in form:
+// the link only earns a pre-auth token and the code step starts the session.
+export const POST = withRateLimit(authLimiter, (req) => `password-setup:${getClientIp(req)}`, async (request: Request) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { token, password } = passwordSetupSchema.parse(body);
+
+    const result = await setPasswordWithToken(token, password);
+    if (!result.ok) {
+      return NextResponse.json(
+        {
+          error: result.reason === 'expired'
+            ? 'This link has expired. Please ask for a new one.'
+            : 'This link is invalid or has already been used',
+        },
+        { status: result.reason === 'expired' ? 410 : 400 }
+      );
+    }
+
+    console.log('AUDIT:', {
+      userId: result.profile.id,
+      userEmail: result.profile.email,
+      action: 'password_set',
+      resourceType: 'Profile',
+      resourceId: result.profile.id,
+      details: {},
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || null,
+      userAgent: request.headers.get('user-agent') || null,
+      timestamp: new Date().toISOString(),
+    });
+
+    if (result.twoFactorEnabled || isTwoFactorRequired()) {
+      return NextResponse.json({
+        success: false,
+        two_factor: result.twoFactorEnabled ? 'verify' : 'setup',
+        pre_auth_token: createPreAuthToken({ id: result.profile.id, passwordChangedAt: result.passwordChangedAt }),
+      });
+    }
+
+    await startSession(result.profile, request);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0]?.message || 'Invalid request' },
+        { status: 400 }
+      );
+    }
+    console.error('Error setting password:', error);
+    return NextResponse.json(
+      { error: 'Failed to set your password' },
+      { status: 500 }
+    );
+  }
+});
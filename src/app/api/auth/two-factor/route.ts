@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRateLimit, authLimiter } from '@/lib/rate-limit';
+import { addSecurityHeaders } from '@/lib/api-security';
+import { twoFactorLoginSchema } from '@/lib/validation-schemas';
+import { startSession } from '@/lib/auth-middleware';
+import { getPermissions } from '@/lib/permissions';
+import { getClientIp, trackFailedAttempt } from '@/lib/security';
+import {
+  isTwoFactorEnabled,
+  isTwoFactorLocked,
+  TWO_FACTOR_ACTION_TYPE,
+  verifyPreAuthToken,
+  verifyTwoFactorCode,
+} from '@/lib/two-factor';
+
+export const dynamic = 'force-dynamic';
+
+// Second sign-in step: exchanges the pre-auth token from /api/auth/login and
+// an authenticator or recovery code for a session
+export const POST = withRateLimit(authLimiter, (req) => `two-factor:${getClientIp(req)}`, async (request: Request) => {
+  const ip = getClientIp(request);
+  const userAgent = request.headers.get('user-agent') || 'unknown';
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { pre_auth_token, code } = twoFactorLoginSchema.parse(body);
+
+    const profile = await verifyPreAuthToken(pre_auth_token);
+    if (!profile || !isTwoFactorEnabled(profile)) {
+      return NextResponse.json(
+        { error: 'Your sign-in has expired. Please sign in again.' },
+        { status: 401 }
+      );
+    }
+
+    if (await isTwoFactorLocked(profile.email)) {
+      return NextResponse.json(
+        { error: 'Too many incorrect codes. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const method = await verifyTwoFactorCode(profile, code);
+    if (!method) {
+      await trackFailedAttempt(ip, profile.email, userAgent, TWO_FACTOR_ACTION_TYPE);
+      return NextResponse.json(
+        { error: 'Invalid authentication code' },
+        { status: 401 }
+      );
+    }
+
+    await startSession(profile, request);
+
+    console.log('AUDIT:', {
+      userId: profile.id,
+      userEmail: profile.email,
+      action: 'two_factor_verified',
+      resourceType: 'Profile',
+      resourceId: profile.id,
+      details: { method },
+      ipAddress: ip,
+      userAgent,
+      timestamp: new Date().toISOString(),
+    });
+
+    const response = NextResponse.json({
+      success: true,
+      user: {
+        email: profile.email,
+        role: profile.role,
+        permissions: getPermissions(profile.role),
+      },
+      ...(method === 'recovery' && {
+        recovery_codes_remaining: profile.twoFactorRecoveryCodes.length - 1,
+      }),
+    });
+    return addSecurityHeaders(response);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0]?.message || 'Invalid request' },
+        { status: 400 }
+      );
+    }
+    console.error('Error verifying two-factor code:', error);
+    return NextResponse.json(
+      { error: 'Failed to verify your code' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,105 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRateLimit, authLimiter } from '@/lib/rate-limit';
+import { addSecurityHeaders } from '@/lib/api-security';
+import { twoFactorSetupSchema } from '@/lib/validation-schemas';
+import { startSession } from '@/lib/auth-middleware';
+import { getPermissions } from '@/lib/permissions';
+import { getClientIp, trackFailedAttempt } from '@/lib/security';
+import {
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  isTwoFactorEnabled,
+  isTwoFactorLocked,
+  isTwoFactorRequired,
+  TWO_FACTOR_ACTION_TYPE,
+  verifyPreAuthToken,
+} from '@/lib/two-factor';
+
+export const dynamic = 'force-dynamic';
+
+// Enrolment during sign-in, for admins who haven't set up 2FA while it is
+// required. Without a code it starts enrolment; with one it confirms it and
+// starts the session.
+export const POST = withRateLimit(authLimiter, (req) => `two-factor-setup:${getClientIp(req)}`, async (request: Request) => {
+  const ip = getClientIp(request);
+  const userAgent = request.headers.get('user-agent') || 'unknown';
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { pre_auth_token, code } = twoFactorSetupSchema.parse(body);
+
+    const profile = await verifyPreAuthToken(pre_auth_token);
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Your sign-in has expired. Please sign in again.' },
+        { status: 401 }
+      );
+    }
+
+    if (!isTwoFactorRequired() || isTwoFactorEnabled(profile)) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already set up for this account' },
+        { status: 400 }
+      );
+    }
+
+    if (!code) {
+      const enrollment = await beginTwoFactorEnrollment(profile);
+      return addSecurityHeaders(NextResponse.json(enrollment));
+    }
+
+    if (await isTwoFactorLocked(profile.email)) {
+      return NextResponse.json(
+        { error: 'Too many incorrect codes. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const recoveryCodes = await confirmTwoFactorEnrollment(profile.id, code);
+    if (!recoveryCodes) {
+      await trackFailedAttempt(ip, profile.email, userAgent, TWO_FACTOR_ACTION_TYPE);
+      return NextResponse.json(
+        { error: 'Invalid authentication code' },
+        { status: 400 }
+      );
+    }
+
+    await startSession(profile, request);
+
+    console.log('AUDIT:', {
+      userId: profile.id,
+      userEmail: profile.email,
+      action: 'two_factor_enabled',
+      resourceType: 'Profile',
+      resourceId: profile.id,
+      details: {},
+      ipAddress: ip,
+      userAgent,
+      timestamp: new Date().toISOString(),
+    });
+
+    const response = NextResponse.json({
+      success: true,
+      recovery_codes: recoveryCodes,
+      user: {
+        email: profile.email,
+        role: profile.role,
+        permissions: getPermissions(profile.role),
+      },
+    });
+    return addSecurityHeaders(response);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0]?.message || 'Invalid request' },
+        { status: 400 }
+      );
+    }
+    console.error('Error setting up two-factor authentication:', error);
+    return NextResponse.json(
+      { error: 'Failed to set up two-factor authentication' },
+      { status: 500 }
+    );
+  }
+});
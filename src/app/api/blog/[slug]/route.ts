@@ -1,5 +1,6 @@
 import { db } from '@/lib/db'
 import { NextResponse } from 'next/server'
+import { publiclyVisibleWhere } from '@/lib/publish-scheduler'
 
 export async function GET(
   request: Request,
@@ -9,7 +10,7 @@ export async function GET(
     const post = await db.blogPost.findUnique({
       where: {
         slug: params.slug,
-        status: 'published',
+        ...publiclyVisibleWhere(),
       },
       select: {
         id: true,
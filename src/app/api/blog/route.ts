@@ -1,5 +1,6 @@
 import { db } from '@/lib/db'
 import { NextResponse } from 'next/server'
+import { publiclyVisibleWhere } from '@/lib/publish-scheduler'
 
 export const dynamic = 'force-dynamic'
 
@@ -9,7 +10,7 @@ export async function GET(request: Request) {
     const status = searchParams.get('status') || 'published'
 
     const posts = await db.blogPost.findMany({
-      where: { status },
+      where: status === 'published' ? publiclyVisibleWhere() : { status },
       orderBy: { createdAt: 'desc' },
       select: {
         id: true,
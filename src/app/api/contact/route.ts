@@ -1,9 +1,10 @@
 import { NextResponse } from 'next/server';
-import { Resend } from 'resend';
 import { withRateLimit, contactFormLimiter } from '@/lib/rate-limit';
 import { sanitizeEmail, sanitizeSubject, sanitizeText } from '@/lib/sanitize-text';
-import { sanitizeHtmlServer } from '@/lib/sanitize-server';
 import { db } from '@/lib/db';
+import { checkSuppression } from '@/lib/email-suppression';
+import { sendMail } from '@/lib/mail-transport';
+import { getFromAddress, renderEmailTemplate, EmailTemplateVariables } from '@/lib/email-templates';
 
 export const dynamic = 'force-dynamic';
 
@@ -54,12 +55,6 @@ export const POST = withRateLimit(contactFormLimiter, 'contact-form', async (req
       );
     }
 
-    // Initialize Resend client
-    const resend = new Resend(process.env.RESEND_API_KEY);
-
-    // Generate a personalized response
-    const responseMessage = generatePersonalizedResponse(sanitizedName, sanitizedSubject || '', sanitizedMessage);
-
     // Send email notification to admin
     try {
       const contactEmail = process.env.CONTACT_EMAIL;
@@ -67,30 +62,39 @@ export const POST = withRateLimit(contactFormLimiter, 'contact-form', async (req
         throw new Error('CONTACT_EMAIL environment variable must be set');
       }
 
-      await resend.emails.send({
-        from: `Bamise Omolaso <${process.env.RESEND_FROM_EMAIL || 'onboarding@resend.dev'}>`,
-        to: contactEmail,
-        subject: `New Contact Form Submission: ${sanitizedSubject || 'No Subject'}`,
-        html: sanitizeHtmlServer(`
-          <h2>New Contact Form Submission</h2>
-          <p><strong>From:</strong> ${sanitizedName} (${sanitizedEmail})</p>
-          <p><strong>Subject:</strong> ${sanitizedSubject || 'No Subject'}</p>
-          <p><strong>Message:</strong></p>
-          <p>${sanitizedMessage.replace(/\n/g, '<br>')}</p>
-        `)
-      });
+      if (!(await checkSuppression(contactEmail, 'contact_notification'))) {
+        const notification = await renderEmailTemplate('contact_notification', {
+          name: sanitizedName,
+          email: sanitizedEmail,
+          subject: sanitizedSubject || '',
+          messageLines: sanitizedMessage.split('\n').map((line) => ({ line })),
+        });
+        const { error } = await sendMail({
+          from: getFromAddress(),
+          to: contactEmail,
+          ...notification,
+        });
+        if (error) throw new Error(error.message);
+      }
     } catch (err: unknown) {
       console.error('Admin email error:', err instanceof Error ? err.message : err);
     }
 
-    // Send response email to the user
+    // Send response email to the user, unless their address is suppressed
     try {
-      await resend.emails.send({
-        from: `Bamise Omolaso <${process.env.RESEND_FROM_EMAIL || 'onboarding@resend.dev'}>`,
-        to: sanitizedEmail,
-        subject: `Re: ${sanitizedSubject || 'Your Message'}`,
-        html: sanitizeHtmlServer(responseMessage)
-      });
+      if (!(await checkSuppression(sanitizedEmail, 'contact_autoreply'))) {
+        // Generate a personalized response
+        const response = await renderEmailTemplate(
+          'contact_autoreply',
+          getAutoReplyVariables(sanitizedName, sanitizedSubject || '', sanitizedMessage)
+        );
+        const { error } = await sendMail({
+          from: getFromAddress(),
+          to: sanitizedEmail,
+          ...response,
+        });
+        if (error) throw new Error(error.message);
+      }
     } catch (err: unknown) {
       console.error('Response email error:', err instanceof Error ? err.message : err);
     }
@@ -105,51 +109,17 @@ export const POST = withRateLimit(contactFormLimiter, 'contact-form', async (req
   }
 });
 
-function generatePersonalizedResponse(name: string, subject: string, message: string): string {
+function getAutoReplyVariables(name: string, subject: string, message: string): EmailTemplateVariables['contact_autoreply'] {
   const firstName = name.split(' ')[0];
   const lowerSubject = subject.toLowerCase();
   const lowerMessage = message.toLowerCase();
-  
-  let responseContent = '';
-  
-  if (lowerSubject.includes('job') || lowerSubject.includes('opportunity') || 
-      lowerSubject.includes('collaboration') || lowerSubject.includes('work together') ||
-      lowerMessage.includes('job') || lowerMessage.includes('opportunity') || 
-      lowerMessage.includes('collaboration') || lowerMessage.includes('work together')) {
-    responseContent = `
-      <p>Thank you for your interest in working together! I'm always excited to explore new opportunities and collaborations.</p>
-      <p>I've received your message and will review it carefully. I'll get back to you with more specific information about how we might work together.</p>
-      <p>In the meantime, feel free to check out my portfolio to see more of my work.</p>
-    `;
-  } else if (lowerSubject.includes('project') || lowerMessage.includes('project')) {
-    responseContent = `
-      <p>Thank you for your interest in my projects! I appreciate you taking the time to reach out.</p>
-      <p>I've received your message and will review it carefully. I'll get back to you with more specific information about the project you mentioned.</p>
-      <p>If you have any specific requirements or questions in the meantime, feel free to send a follow-up email.</p>
-    `;
-  } else if (lowerSubject.includes('question') || lowerSubject.includes('help') || 
-             lowerMessage.includes('question') || lowerMessage.includes('help')) {
-    responseContent = `
-      <p>Thank you for your question! I appreciate you taking the time to reach out.</p>
-      <p>I've received your message and will review it carefully. I'll get back to you with a detailed response as soon as possible.</p>
-      <p>If you have any additional questions in the meantime, feel free to send a follow-up email.</p>
-    `;
-  } else {
-    responseContent = `
-      <p>Thank you for reaching out! I appreciate you taking the time to contact me.</p>
-      <p>I've received your message and will review it carefully. I'll get back to you with a more detailed response as soon as possible.</p>
-      <p>If you have any additional information to share in the meantime, feel free to send a follow-up email.</p>
-    `;
-  }
-  
-  return `
-    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; color: #333;">
-      <h2 style="color: #4f46e5;">Thank you for your message, ${firstName}!</h2>
-      ${responseContent}
-      <p>Best regards,<br>Bamise Omolaso</p>
-      <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #eee; font-size: 12px; color: #666;">
-        <p>This is an automated response to your contact form submission. I'll respond more personally soon.</p>
-      </div>
-    </div>
-  `;
-}
\ No newline at end of file
+  const mentions = (...words: string[]) =>
+    words.some((word) => lowerSubject.includes(word) || lowerMessage.includes(word));
+
+  // Topics are checked in order; the template shows the first that matches
+  const isCollaboration = mentions('job', 'opportunity', 'collaboration', 'work together');
+  const isProject = !isCollaboration && mentions('project');
+  const isQuestion = !isCollaboration && !isProject && mentions('question', 'help');
+
+  return { firstName, subject, isCollaboration, isProject, isQuestion };
+}
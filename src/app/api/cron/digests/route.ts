@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { verifyCronSecret, handleError } from '@/lib/api-security';
+import { generateDigests } from '@/lib/newsletter-digest';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Called by the scheduler (hourly is plenty) to queue blog digests for
+// subscribers whose daily, weekly or monthly digest is due. The newsletters
+// cron sends them.
+export async function POST(request: Request) {
+  if (!verifyCronSecret(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await generateDigests();
+    return NextResponse.json(result);
+  } catch (error) {
+    return handleError(error, 'Failed to generate newsletter digests');
+  }
+}
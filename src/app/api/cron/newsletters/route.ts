@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { verifyCronSecret, handleError } from '@/lib/api-security';
+import { processActiveCampaigns } from '@/lib/newsletter-queue';
+import { dispatchDueNewsletters } from '@/lib/newsletter-scheduler';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Called by the scheduler (EventBridge, cron, ...) every few minutes: moves
+// due scheduled newsletters into the send queue, then keeps draining send
+// queues (retries that have become due and campaigns interrupted mid-send).
+export async function POST(request: Request) {
+  if (!verifyCronSecret(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const dispatched = await dispatchDueNewsletters();
+    const campaigns = await processActiveCampaigns();
+    return NextResponse.json({ dispatched, campaigns });
+  } catch (error) {
+    return handleError(error, 'Failed to process newsletter queue');
+  }
+}
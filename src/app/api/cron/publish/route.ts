@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { verifyCronSecret, handleError } from '@/lib/api-security';
+import { publishDueContent } from '@/lib/publish-scheduler';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Called by the scheduler to publish blog posts and projects whose
+// scheduled publish time has passed.
+export async function POST(request: Request) {
+  if (!verifyCronSecret(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const published = await publishDueContent();
+    return NextResponse.json({ published });
+  } catch (error) {
+    return handleError(error, 'Failed to publish scheduled content');
+  }
+}
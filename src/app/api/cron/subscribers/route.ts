@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { verifyCronSecret, handleError } from '@/lib/api-security';
+import { cleanupUnconfirmedSubscribers } from '@/lib/newsletter-confirmation';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Called by the scheduler (hourly is plenty) to remove sign-ups whose
+// confirmation link expired without being used.
+export async function POST(request: Request) {
+  if (!verifyCronSecret(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const cleaned = await cleanupUnconfirmedSubscribers();
+    return NextResponse.json(cleaned);
+  } catch (error) {
+    return handleError(error, 'Failed to clean up unconfirmed subscribers');
+  }
+}
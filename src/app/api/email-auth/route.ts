@@ -4,11 +4,12 @@ import {
   verifyEmailAuthentication,
   getEmailAuthenticationStatus,
 } from "@/lib/resend";
+import { secureAdminRoute } from "@/lib/api-security";
 
 // Mark route as dynamic to prevent build-time analysis
 export const dynamic = "force-dynamic";
 
-export async function GET() {
+export const GET = secureAdminRoute("email:manage", async () => {
   try {
     const status = await getEmailAuthenticationStatus();
 
@@ -27,9 +28,9 @@ export async function GET() {
       { status: 500 },
     );
   }
-}
+});
 
-export async function POST() {
+export const POST = secureAdminRoute("email:manage", async () => {
   try {
     const setup = await setupEmailAuthentication();
 
@@ -48,9 +49,9 @@ export async function POST() {
       { status: 500 },
     );
   }
-}
+});
 
-export async function PUT() {
+export const PUT = secureAdminRoute("email:manage", async () => {
   try {
     const verified = await verifyEmailAuthentication();
 
@@ -69,4 +70,4 @@ export async function PUT() {
       { status: 500 },
     );
   }
-}
+});
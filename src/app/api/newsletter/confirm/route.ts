@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { withRateLimit, apiLimiter } from '@/lib/rate-limit';
+import { confirmSubscription } from '@/lib/newsletter-confirmation';
+
+export const dynamic = 'force-dynamic';
+
+// POST rather than GET so link scanners that prefetch the emailed URL don't
+// confirm on the subscriber's behalf; the confirm page submits the token.
+export const POST = withRateLimit(apiLimiter, 'newsletter-confirm', async (request: Request) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const token = typeof body.token === 'string' ? body.token : '';
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Token is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await confirmSubscription(token, {
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || request.headers.get('x-real-ip') || null,
+      userAgent: request.headers.get('user-agent') || null,
+    });
+
+    switch (result.status) {
+      case 'confirmed':
+      case 'already_confirmed':
+        return NextResponse.json({ success: true, status: result.status, email: result.email });
+      case 'expired':
+        return NextResponse.json(
+          { error: 'This confirmation link has expired. Please subscribe again.' },
+          { status: 410 }
+        );
+      default:
+        return NextResponse.json(
+          { error: 'Invalid confirmation link' },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    console.error('Error confirming subscription:', error);
+    return NextResponse.json(
+      { error: 'Failed to confirm subscription' },
+      { status: 500 }
+    );
+  }
+});
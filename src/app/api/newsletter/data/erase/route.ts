@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { withRateLimit, apiLimiter } from '@/lib/rate-limit';
+import { getClientIp } from '@/lib/security';
+import { eraseSubscriberData, verifyDataRequestToken } from '@/lib/subscriber-data';
+
+export const dynamic = 'force-dynamic';
+
+// POST rather than GET so link scanners that prefetch the emailed URL can't
+// erase anything; the erase page submits the token after an explicit click.
+export const POST = withRateLimit(apiLimiter, (req) => `newsletter-data-erase:${getClientIp(req)}`, async (request: Request) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const token = typeof body.token === 'string' ? body.token : '';
+    const verified = verifyDataRequestToken('erasure', token);
+
+    if (!verified.valid) {
+      return NextResponse.json(
+        {
+          error: verified.reason === 'expired'
+            ? 'This link has expired. Please ask for your data to be deleted again.'
+            : 'Invalid link',
+        },
+        { status: verified.reason === 'expired' ? 410 : 400 }
+      );
+    }
+
+    await eraseSubscriberData(verified.subject, 'subscriber');
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error erasing subscriber data:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete your data' },
+      { status: 500 }
+    );
+  }
+});
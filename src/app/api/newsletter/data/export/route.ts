@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { withRateLimit, apiLimiter } from '@/lib/rate-limit';
+import { getClientIp } from '@/lib/security';
+import { exportSubscriberData, verifyDataRequestToken } from '@/lib/subscriber-data';
+
+export const dynamic = 'force-dynamic';
+
+// The emailed download link. Reading the data changes nothing, so unlike
+// erasure it doesn't need a confirmation step.
+export const GET = withRateLimit(apiLimiter, (req) => `newsletter-data-export:${getClientIp(req)}`, async (request: Request) => {
+  try {
+    const token = new URL(request.url).searchParams.get('token') || '';
+    const verified = verifyDataRequestToken('export', token);
+
+    if (!verified.valid) {
+      return NextResponse.json(
+        {
+          error: verified.reason === 'expired'
+            ? 'This download link has expired. Please request your data again.'
+            : 'Invalid download link',
+        },
+        { status: verified.reason === 'expired' ? 410 : 400 }
+      );
+    }
+
+    const data = await exportSubscriberData(verified.subject);
+
+    return new NextResponse(JSON.stringify(data, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="my-data.json"',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting subscriber data:', error);
+    return NextResponse.json(
+      { error: 'Failed to export your data' },
+      { status: 500 }
+    );
+  }
+});
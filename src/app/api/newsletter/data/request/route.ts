@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRateLimit, apiLimiter, dataRequestLimiter } from '@/lib/rate-limit';
+import { getClientIp, isIPBlacklisted } from '@/lib/security';
+import { subscriberDataRequestSchema } from '@/lib/validation-schemas';
+import { requestSubscriberData } from '@/lib/subscriber-data';
+
+export const dynamic = 'force-dynamic';
+
+// Emails a signed export or erasure link. The response is the same whether or
+// not anything is stored for the address, or its request limit was reached,
+// so it can't be used to look people up.
+export const POST = withRateLimit(apiLimiter, (req) => `newsletter-data-request:${getClientIp(req)}`, async (request: Request) => {
+  const ip = getClientIp(request);
+
+  if (await isIPBlacklisted(ip)) {
+    return NextResponse.json({ error: 'Too many attempts. Please try again later.' }, { status: 429 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { email, type } = subscriberDataRequestSchema.parse(body);
+
+    const perAddress = await dataRequestLimiter.check(email);
+    if (!perAddress.success) {
+      return NextResponse.json({ success: true });
+    }
+
+    try {
+      await requestSubscriberData(email, type);
+    } catch (emailError) {
+      console.error('Error sending data request email:', emailError);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0]?.message || 'Invalid request' },
+        { status: 400 }
+      );
+    }
+    console.error('Error handling data request:', error);
+    return NextResponse.json(
+      { error: 'Failed to handle your request' },
+      { status: 500 }
+    );
+  }
+});
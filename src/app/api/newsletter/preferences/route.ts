@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { db } from '@/lib/db';
+import { resolveSubscriberLinkToken } from '@/lib/subscriber-links';
 
 export const dynamic = 'force-dynamic'
 
@@ -15,26 +16,25 @@ export async function GET(request: Request) {
       );
     }
 
-    const subscriber = await db.newsletterSubscriber.findFirst({
-      where: {
-        preferencesToken: token,
-        isSubscribed: true,
-        isDeleted: false,
-        OR: [
-          { preferencesTokenExpiresAt: null },
-          { preferencesTokenExpiresAt: { gt: new Date() } }
-        ]
-      },
-      select: {
-        email: true,
-        name: true,
-        preferences: true,
-      },
-    });
+    const subscriberId = await resolveSubscriberLinkToken('preferences', token);
+    const subscriber = subscriberId
+      ? await db.newsletterSubscriber.findFirst({
+          where: {
+            id: subscriberId,
+            isSubscribed: true,
+            isDeleted: false,
+          },
+          select: {
+            email: true,
+            name: true,
+            preferences: true,
+          },
+        })
+      : null;
 
     if (!subscriber) {
       return NextResponse.json(
-        { error: 'Subscriber not found or token expired' },
+        { error: 'Subscriber not found' },
         { status: 404 }
       );
     }
@@ -61,21 +61,20 @@ export async function PUT(request: Request) {
       );
     }
 
-    const subscriber = await db.newsletterSubscriber.findFirst({
-      where: {
-        preferencesToken: token,
-        isSubscribed: true,
-        isDeleted: false,
-        OR: [
-          { preferencesTokenExpiresAt: null },
-          { preferencesTokenExpiresAt: { gt: new Date() } }
-        ]
-      },
-    });
+    const subscriberId = await resolveSubscriberLinkToken('preferences', token);
+    const subscriber = subscriberId
+      ? await db.newsletterSubscriber.findFirst({
+          where: {
+            id: subscriberId,
+            isSubscribed: true,
+            isDeleted: false,
+          },
+        })
+      : null;
 
     if (!subscriber) {
       return NextResponse.json(
-        { error: 'Subscriber not found or token expired' },
+        { error: 'Subscriber not found' },
         { status: 404 }
       );
     }
@@ -1,7 +1,8 @@
 // src/app/api/newsletter/subscribe/route.ts
 import { NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { sendWelcomeEmail, sendAdminNotification } from '@/lib/resend';
+import { sendConfirmationEmail } from '@/lib/resend';
+import { createConfirmationToken } from '@/lib/newsletter-confirmation';
 import { withRateLimit, apiLimiter } from '@/lib/rate-limit';
 import {
   isIPBlacklisted,
@@ -9,22 +10,7 @@ import {
   isCaptchaRequired,
   verifyCaptcha,
 } from '@/lib/security';
-import crypto from 'crypto';
-
-function sanitizeInput(input: string): string {
-  return input.trim().replace(/[<>]/g, '');
-}
-
-function validateInputs(email: string, name: string): { isValid: boolean; error?: string } {
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  if (!email || !emailRegex.test(email)) {
-    return { isValid: false, error: 'Please provide a valid email address.' };
-  }
-  if (name && name.length > 100) {
-    return { isValid: false, error: 'Name is too long.' };
-  }
-  return { isValid: true };
-}
+import { sanitizeInput, validateInputs } from '@/lib/subscriber-validation';
 
 export const POST = withRateLimit(apiLimiter, 'newsletter-subscribe', async (req: Request) => {
   const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 
@@ -61,42 +47,38 @@ export const POST = withRateLimit(apiLimiter, 'newsletter-subscribe', async (req
     }
   }
 
-  // Generate tokens
-  const unsubscribeToken = crypto.randomBytes(32).toString('hex');
-  const preferencesToken = crypto.randomBytes(32).toString('hex');
-  const tokenExpiresAt = new Date();
-  tokenExpiresAt.setDate(tokenExpiresAt.getDate() + 30); // 30 days expiry
+  const existing = await db.newsletterSubscriber.findUnique({
+    where: { email },
+    select: { isSubscribed: true, isDeleted: true, confirmedAt: true },
+  });
+
+  // Already confirmed: answer exactly as for a new sign-up so the response
+  // doesn't reveal who is on the list, and don't email them again
+  if (existing?.isSubscribed && !existing.isDeleted && existing.confirmedAt) {
+    return NextResponse.json({ success: true, requiresConfirmation: true });
+  }
+
+  const confirmationSentAt = new Date();
 
-  // Upsert via Prisma
+  // Record the request; the subscriber stays inactive until the link is used
   const subscriber = await db.newsletterSubscriber.upsert({
     where: { email },
     update: {
       name,
       location,
-      isSubscribed: true,
-      subscriptionCount: { increment: 1 },
+      confirmationSentAt,
       updatedAt: new Date(),
-      isDeleted: false,
-      deletedAt: null,
-      deletedReason: null,
-      unsubscribeToken,
-      unsubscribeTokenExpiresAt: tokenExpiresAt,
-      preferencesToken,
-      preferencesTokenExpiresAt: tokenExpiresAt,
     },
     create: {
       email,
       name,
       location,
-      isSubscribed: true,
+      isSubscribed: false,
       preferences: {
         frequency: 'weekly',
         categories: [],
       },
-      unsubscribeToken,
-      unsubscribeTokenExpiresAt: tokenExpiresAt,
-      preferencesToken,
-      preferencesTokenExpiresAt: tokenExpiresAt,
+      confirmationSentAt,
     },
   });
 
@@ -104,21 +86,24 @@ export const POST = withRateLimit(apiLimiter, 'newsletter-subscribe', async (req
   await db.newsletterAuditLog.create({
     data: {
       subscriberId: subscriber.id,
-      action: 'subscribed',
+      action: 'subscription_requested',
       details: { email, name, location },
       ipAddress: ip,
       userAgent,
     },
   });
 
-  // Send welcome email and admin notification
+  // Send confirmation email
   try {
-    await sendWelcomeEmail(subscriber.email, subscriber.name || '', unsubscribeToken, preferencesToken);
-    await sendAdminNotification(subscriber.email, subscriber.name || undefined);
+    await sendConfirmationEmail(
+      subscriber.email,
+      subscriber.name || '',
+      createConfirmationToken(subscriber.id, confirmationSentAt),
+    );
   } catch (emailError) {
-    console.error('Error sending emails:', emailError);
+    console.error('Error sending confirmation email:', emailError);
     // Don't fail the subscription if email fails
   }
 
-  return NextResponse.json({ success: true });
+  return NextResponse.json({ success: true, requiresConfirmation: true });
 });
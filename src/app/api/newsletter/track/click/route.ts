@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { recordClick } from '@/lib/newsletter-tracking';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Click redirect. Only targets signed into the link are followed, so this
+// can't be used as an open redirect; anything else lands on the home page.
+export async function GET(request: Request) {
+  const token = new URL(request.url).searchParams.get('t');
+
+  try {
+    const url = token ? await recordClick(token) : null;
+    if (url) {
+      return NextResponse.redirect(url, 302);
+    }
+  } catch (error) {
+    console.error('Error processing newsletter click:', error);
+  }
+
+  return NextResponse.redirect(new URL('/', request.url), 302);
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { recordOpen, TRACKING_PIXEL } from '@/lib/newsletter-tracking';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Tracking pixel. Always answers with the image, whatever happens to the
+// event, so a broken image never shows up in the email.
+export async function GET(request: Request) {
+  const token = new URL(request.url).searchParams.get('t');
+
+  if (token) {
+    try {
+      await recordOpen(token);
+    } catch (error) {
+      console.error('Error recording newsletter open:', error);
+    }
+  }
+
+  return new NextResponse(TRACKING_PIXEL, {
+    headers: {
+      'Content-Type': 'image/gif',
+      'Content-Length': String(TRACKING_PIXEL.length),
+      'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+    },
+  });
+}
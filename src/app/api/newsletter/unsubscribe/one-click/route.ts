@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { unsubscribeByToken } from '@/lib/newsletter-unsubscribe';
+
+export const dynamic = 'force-dynamic';
+
+// RFC 8058 one-click unsubscribe. Mailbox providers POST
+// `List-Unsubscribe=One-Click` (form-encoded or multipart, no JavaScript, no
+// cookies) to the URL from the List-Unsubscribe header. The token in the query
+// string is what authorises the request, so the body isn't inspected.
+export async function POST(request: Request) {
+  try {
+    const token = new URL(request.url).searchParams.get('token');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Token is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await unsubscribeByToken(token, {
+      method: 'one_click',
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || null,
+      userAgent: request.headers.get('user-agent') || null,
+    });
+
+    if (result.status === 'invalid') {
+      return NextResponse.json(
+        { error: 'Invalid or expired unsubscribe token' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error processing one-click unsubscribe:', error);
+    return NextResponse.json(
+      { error: 'Failed to process unsubscribe' },
+      { status: 500 }
+    );
+  }
+}
+
+// Clients without one-click support open the header URL instead; send them to
+// the unsubscribe page rather than acting on a GET that link scanners also make.
+export async function GET(request: Request) {
+  const token = new URL(request.url).searchParams.get('token') || '';
+  return NextResponse.redirect(new URL(`/unsubscribe?token=${encodeURIComponent(token)}`, request.url), 303);
+}
@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import { db } from '@/lib/db';
+import { unsubscribeByToken } from '@/lib/newsletter-unsubscribe';
+import { resolveSubscriberLinkToken } from '@/lib/subscriber-links';
 
 export async function GET(request: Request) {
   try {
@@ -13,25 +15,22 @@ export async function GET(request: Request) {
       );
     }
 
-    const subscriber = await db.newsletterSubscriber.findFirst({
-      where: {
-        unsubscribeToken: token,
-        OR: [
-          { unsubscribeTokenExpiresAt: null },
-          { unsubscribeTokenExpiresAt: { gt: new Date() } }
-        ]
-      },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        isSubscribed: true,
-      },
-    });
+    const subscriberId = await resolveSubscriberLinkToken('unsubscribe', token);
+    const subscriber = subscriberId
+      ? await db.newsletterSubscriber.findUnique({
+          where: { id: subscriberId },
+          select: {
+            id: true,
+            email: true,
+            name: true,
+            isSubscribed: true,
+          },
+        })
+      : null;
 
     if (!subscriber) {
       return NextResponse.json(
-        { error: 'Invalid or expired unsubscribe token' },
+        { error: 'Invalid unsubscribe link' },
         { status: 404 }
       );
     }
@@ -62,44 +61,21 @@ export async function POST(request: Request) {
       );
     }
 
-    const subscriber = await db.newsletterSubscriber.findFirst({
-      where: {
-        unsubscribeToken: token,
-        OR: [
-          { unsubscribeTokenExpiresAt: null },
-          { unsubscribeTokenExpiresAt: { gt: new Date() } }
-        ]
-      },
+    const result = await unsubscribeByToken(token, {
+      method: 'form',
+      reason,
+      feedback,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || null,
+      userAgent: request.headers.get('user-agent') || null,
     });
 
-    if (!subscriber) {
+    if (result.status === 'invalid') {
       return NextResponse.json(
-        { error: 'Invalid or expired unsubscribe token' },
+        { error: 'Invalid unsubscribe link' },
         { status: 404 }
       );
     }
 
-    await db.newsletterSubscriber.update({
-      where: { id: subscriber.id },
-      data: {
-        isSubscribed: false,
-        unsubscribeReason: reason || null,
-        unsubscribeFeedback: feedback || null,
-        updatedAt: new Date(),
-      },
-    });
-
-    // Log audit event
-    await db.newsletterAuditLog.create({
-      data: {
-        subscriberId: subscriber.id,
-        action: 'unsubscribed',
-        details: { reason, feedback },
-        ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || null,
-        userAgent: request.headers.get('user-agent') || null,
-      },
-    });
-
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error processing unsubscribe:', error);
@@ -109,4 +85,3 @@ export async function POST(request: Request) {
     );
   }
 }
-
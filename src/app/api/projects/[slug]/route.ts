@@ -1,5 +1,6 @@
 import { db } from '@/lib/db'
 import { NextResponse } from 'next/server'
+import { publiclyVisibleWhere } from '@/lib/publish-scheduler'
 
 export async function GET(
   request: Request,
@@ -11,7 +12,7 @@ export async function GET(
     const project = await db.project.findFirst({
       where: {
         slug,
-        status: 'published',
+        ...publiclyVisibleWhere(),
       },
       select: {
         id: true,
@@ -1,5 +1,7 @@
 import { db } from '@/lib/db'
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { secureAdminRoute } from '@/lib/api-security'
+import { publiclyVisibleWhere } from '@/lib/publish-scheduler'
 
 export async function GET(request: Request) {
   try {
@@ -7,7 +9,7 @@ export async function GET(request: Request) {
     const status = searchParams.get('status') || 'published'
 
     const projects = await db.project.findMany({
-      where: { status },
+      where: status === 'published' ? publiclyVisibleWhere() : { status },
       orderBy: { publishedAt: 'desc' },
       select: {
         id: true,
@@ -66,7 +68,7 @@ export async function GET(request: Request) {
   }
 }
 
-export async function POST(request: Request) {
+export const POST = secureAdminRoute('projects:edit', async (request: NextRequest) => {
   try {
     const body = await request.json()
     const {
@@ -140,4 +142,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+})
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import {
+  getWebhookHeaders,
+  handleResendEvent,
+  verifyWebhookSignature,
+  type ResendWebhookEvent,
+} from '@/lib/resend-webhooks';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Delivery, bounce, complaint and open events from Resend. Configure the
+// endpoint in the Resend dashboard and copy its signing secret into
+// RESEND_WEBHOOK_SECRET. Non-2xx responses make Resend retry the event;
+// retries of an event that was already applied come back as 'duplicate'.
+export async function POST(request: Request) {
+  const payload = await request.text();
+  const headers = getWebhookHeaders(request);
+
+  if (!verifyWebhookSignature(payload, headers)) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  let event: ResendWebhookEvent;
+  try {
+    event = JSON.parse(payload);
+  } catch {
+    return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+  }
+
+  try {
+    const outcome = await handleResendEvent(event, headers.id);
+    return NextResponse.json({ received: true, outcome });
+  } catch (error) {
+    console.error(`Error processing Resend ${event.type} webhook:`, error);
+    return NextResponse.json(
+      { error: 'Failed to process webhook' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,7 @@ import Link from 'next/link';
 import Image from 'next/image';
 import { format } from 'date-fns';
 import { sanitizeHtmlServer } from '@/lib/sanitize-server';
+import { publiclyVisibleWhere } from '@/lib/publish-scheduler';
 import type { Metadata } from 'next';
 
 interface BlogPost {
@@ -27,7 +28,7 @@ async function getBlogPost(slug: string): Promise<BlogPost | null> {
     const post = await db.blogPost.findFirst({
       where: {
         slug,
-        status: 'published',
+        ...publiclyVisibleWhere(),
       },
       select: {
         id: true,
@@ -32,7 +32,7 @@ const Footer = () => {
       }
 
       setStatus('success');
-      setMessage('Thank you for subscribing! 🎉');
+      setMessage('Thank you for subscribing! 🎉 Please check your inbox to confirm your subscription.');
       setEmail('');
       
       // Redirect to home page after 2 seconds
@@ -2,10 +2,24 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+
+interface TwoFactorEnrollment {
+  secret: string;
+  otpauth_uri: string;
+  qr_code: string;
+}
+
+type LoginStep = 'password' | 'verify' | 'setup' | 'recovery_codes';
 
 export default function LoginPage() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [step, setStep] = useState<LoginStep>('password');
+  const [preAuthToken, setPreAuthToken] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [failedAttempts, setFailedAttempts] = useState(0);
@@ -20,7 +34,7 @@ export default function LoginPage() {
         const response = await fetch('/api/auth/login');
         if (response.ok) {
           const data = await response.json();
-          if (data.authenticated && data.user?.role === 'admin') {
+          if (data.authenticated) {
             router.replace('/admin');
           }
         }
@@ -83,7 +97,14 @@ export default function LoginPage() {
         throw new Error(data.error || 'Failed to login');
       }
 
-      if (data.success && data.user?.role === 'admin') {
+      if (data.two_factor) {
+        setPreAuthToken(data.pre_auth_token);
+        setCode('');
+        setStep(data.two_factor);
+        if (data.two_factor === 'setup') {
+          await startEnrollment(data.pre_auth_token);
+        }
+      } else if (data.success) {
         router.replace('/admin');
       } else {
         router.replace('/');
@@ -95,6 +116,65 @@ export default function LoginPage() {
     }
   };
 
+  // Back to the password form, e.g. when the pre-auth token has expired
+  const restartLogin = (message: string) => {
+    setStep('password');
+    setPreAuthToken(null);
+    setEnrollment(null);
+    setCode('');
+    setPassword('');
+    setError(message);
+  };
+
+  const startEnrollment = async (token: string) => {
+    const response = await fetch('/api/auth/two-factor/setup', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ pre_auth_token: token }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to start two-factor setup');
+    }
+    setEnrollment(data);
+  };
+
+  const handleCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+
+    try {
+      const response = await fetch(step === 'setup' ? '/api/auth/two-factor/setup' : '/api/auth/two-factor', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pre_auth_token: preAuthToken, code }),
+      });
+
+      const data = await response.json();
+
+      if (response.status === 401) {
+        restartLogin(data.error || 'Your sign-in has expired. Please sign in again.');
+        return;
+      }
+      if (!response.ok) {
+        setCode('');
+        throw new Error(data.error || 'Failed to verify code');
+      }
+
+      if (data.recovery_codes) {
+        setRecoveryCodes(data.recovery_codes);
+        setStep('recovery_codes');
+      } else {
+        router.replace('/admin');
+      }
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to verify code');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gray-950 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -103,64 +183,156 @@ export default function LoginPage() {
             Sign in to your account
           </h2>
         </div>
-        <form className="mt-8 space-y-6" onSubmit={handleLogin}>
-          {error && (
-            <div className="bg-red-500/10 border border-red-500 text-red-500 px-4 py-3 rounded">
-              {error}
-            </div>
-          )}
-          {isLocked && lockoutTime && (
-            <div className="bg-yellow-500/10 border border-yellow-500 text-yellow-500 px-4 py-3 rounded">
-              Account locked until {lockoutTime.toLocaleTimeString()}
-            </div>
-          )}
-          <div className="rounded-md shadow-sm -space-y-px">
+        {step === 'recovery_codes' ? (
+          <div className="mt-8 space-y-6">
+            <p className="text-sm text-gray-300">
+              Two-factor authentication is on. Save these recovery codes somewhere safe: each one signs you in
+              once if you lose your authenticator app, and they won&apos;t be shown again.
+            </p>
+            <ul className="grid grid-cols-2 gap-2 rounded-md bg-gray-900 border border-gray-700 p-4 font-mono text-sm text-white">
+              {recoveryCodes.map((recoveryCode) => (
+                <li key={recoveryCode}>{recoveryCode}</li>
+              ))}
+            </ul>
+            <button
+              type="button"
+              onClick={() => router.replace('/admin')}
+              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              I&apos;ve saved my recovery codes
+            </button>
+          </div>
+        ) : step !== 'password' ? (
+          <form className="mt-8 space-y-6" onSubmit={handleCode}>
+            {error && (
+              <div className="bg-red-500/10 border border-red-500 text-red-500 px-4 py-3 rounded">
+                {error}
+              </div>
+            )}
+            {step === 'setup' ? (
+              <div className="space-y-4 text-sm text-gray-300">
+                <p>
+                  Two-factor authentication is required for admin accounts. Scan this QR code with an
+                  authenticator app, then enter the 6-digit code it shows.
+                </p>
+                {enrollment && (
+                  <>
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img src={enrollment.qr_code} alt="QR code for your authenticator app" className="mx-auto w-48 h-48 rounded bg-white p-2" />
+                    <p className="text-center text-xs text-gray-400">
+                      Can&apos;t scan it? Enter this key instead:
+                      <span className="block mt-1 font-mono text-gray-200 break-all">{enrollment.secret}</span>
+                    </p>
+                  </>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-300">
+                Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+              </p>
+            )}
             <div>
-              <label htmlFor="email-address" className="sr-only">
-                Email address
+              <label htmlFor="two-factor-code" className="sr-only">
+                Authentication code
               </label>
               <input
-                id="email-address"
-                name="email"
-                type="email"
-                autoComplete="email"
+                id="two-factor-code"
+                name="code"
+                type="text"
+                inputMode={step === 'setup' ? 'numeric' : 'text'}
+                autoComplete="one-time-code"
                 required
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-700 bg-gray-900 text-white placeholder-gray-400 rounded-t-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
-                placeholder="Email address"
-                disabled={isLocked}
+                autoFocus
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="appearance-none relative block w-full px-3 py-2 border border-gray-700 bg-gray-900 text-white placeholder-gray-400 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm tracking-widest"
+                placeholder="123456"
               />
             </div>
             <div>
-              <label htmlFor="password" className="sr-only">
-                Password
-              </label>
-              <input
-                id="password"
-                name="password"
-                type="password"
-                autoComplete="current-password"
-                required
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-700 bg-gray-900 text-white placeholder-gray-400 rounded-b-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
-                placeholder="Password"
-                disabled={isLocked}
-              />
+              <button
+                type="submit"
+                disabled={loading}
+                className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? 'Verifying...' : 'Verify'}
+              </button>
+            </div>
+            <p className="text-center text-sm">
+              <button
+                type="button"
+                onClick={() => restartLogin('')}
+                className="text-indigo-400 hover:text-indigo-300"
+              >
+                Use a different account
+              </button>
+            </p>
+          </form>
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleLogin}>
+            {error && (
+              <div className="bg-red-500/10 border border-red-500 text-red-500 px-4 py-3 rounded">
+                {error}
+              </div>
+            )}
+            {isLocked && lockoutTime && (
+              <div className="bg-yellow-500/10 border border-yellow-500 text-yellow-500 px-4 py-3 rounded">
+                Account locked until {lockoutTime.toLocaleTimeString()}
+              </div>
+            )}
+            <div className="rounded-md shadow-sm -space-y-px">
+              <div>
+                <label htmlFor="email-address" className="sr-only">
+                  Email address
+                </label>
+                <input
+                  id="email-address"
+                  name="email"
+                  type="email"
+                  autoComplete="email"
+                  required
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-700 bg-gray-900 text-white placeholder-gray-400 rounded-t-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+                  placeholder="Email address"
+                  disabled={isLocked}
+                />
+              </div>
+              <div>
+                <label htmlFor="password" className="sr-only">
+                  Password
+                </label>
+                <input
+                  id="password"
+                  name="password"
+                  type="password"
+                  autoComplete="current-password"
+                  required
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-700 bg-gray-900 text-white placeholder-gray-400 rounded-b-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+                  placeholder="Password"
+                  disabled={isLocked}
+                />
+              </div>
             </div>
-          </div>
 
-          <div>
-            <button
-              type="submit"
-              disabled={loading || isLocked}
-              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {loading ? 'Signing in...' : 'Sign in'}
-            </button>
-          </div>
-        </form>
+            <div>
+              <button
+                type="submit"
+                disabled={loading || isLocked}
+                className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? 'Signing in...' : 'Sign in'}
+              </button>
+            </div>
+            <p className="text-center text-sm">
+              <Link href="/login/forgot-password" className="text-indigo-400 hover:text-indigo-300">
+                Forgot your password?
+              </Link>
+            </p>
+          </form>
+        )}
       </div>
     </div>
   );
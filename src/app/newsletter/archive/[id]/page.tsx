@@ -0,0 +1,100 @@
+import { notFound } from 'next/navigation';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { getArchivedNewsletter } from '@/lib/newsletter-archive';
+import type { Metadata } from 'next';
+
+export const dynamic = 'force-dynamic';
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ t?: string }>;
+}
+
+async function getIssue(id: string, token?: string) {
+  try {
+    return await getArchivedNewsletter(id, token);
+  } catch (error) {
+    console.error('Error fetching newsletter issue:', error);
+    return null;
+  }
+}
+
+export async function generateMetadata({ params, searchParams }: PageProps): Promise<Metadata> {
+  const { id } = await params;
+  const { t } = await searchParams;
+  const issue = await getIssue(id, t);
+
+  if (!issue) {
+    return {
+      title: 'Newsletter Not Found',
+    };
+  }
+
+  return {
+    title: issue.subject,
+    // Issues outside the archive are only reachable through their emailed link
+    robots: t ? { index: false } : undefined,
+  };
+}
+
+export default async function NewsletterIssuePage({ params, searchParams }: PageProps) {
+  const { id } = await params;
+  const { t } = await searchParams;
+  const issue = await getIssue(id, t);
+
+  if (!issue) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen py-20">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        <article className="bg-gray-900 rounded-lg overflow-hidden shadow-xl">
+          <div className="p-6 md:p-8">
+            <div className="mb-8">
+              <Link
+                href="/newsletter/archive"
+                className="inline-flex items-center text-purple-400 hover:text-purple-300 mb-6 transition-colors group"
+              >
+                <svg
+                  className="w-4 h-4 mr-2 transition-transform group-hover:-translate-x-1"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M15 19l-7-7 7-7"
+                  />
+                </svg>
+                Newsletter Archive
+              </Link>
+
+              <h1 className="text-3xl md:text-4xl font-bold text-white mb-4 leading-tight">
+                {issue.subject}
+              </h1>
+
+              {issue.sentAt && (
+                <time dateTime={issue.sentAt.toISOString()} className="text-gray-400 text-sm">
+                  {format(issue.sentAt, 'MMMM d, yyyy')}
+                </time>
+              )}
+            </div>
+
+            <div
+              className="prose prose-invert prose-lg max-w-none
+                prose-headings:text-white prose-p:text-gray-300
+                prose-a:text-purple-400 hover:prose-a:text-purple-300
+                prose-strong:text-white prose-img:rounded-lg
+                prose-ul:text-gray-300 prose-ol:text-gray-300"
+              dangerouslySetInnerHTML={{ __html: issue.html }}
+            />
+          </div>
+        </article>
+      </div>
+    </div>
+  );
+}
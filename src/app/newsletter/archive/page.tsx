@@ -0,0 +1,62 @@
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { listArchivedNewsletters, ArchivedNewsletterSummary } from '@/lib/newsletter-archive';
+import type { Metadata } from 'next';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Newsletter Archive',
+  description: 'Past issues of the newsletter',
+};
+
+async function getIssues(): Promise<ArchivedNewsletterSummary[]> {
+  try {
+    return await listArchivedNewsletters();
+  } catch (error) {
+    console.error('Error fetching newsletter archive:', error);
+    return [];
+  }
+}
+
+export default async function NewsletterArchivePage() {
+  const issues = await getIssues();
+
+  return (
+    <div className="min-h-screen py-20">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-12">
+          <h1 className="text-3xl md:text-4xl font-bold text-white mb-4">Newsletter Archive</h1>
+          <p className="text-gray-400">
+            Past issues of the newsletter.{' '}
+            <Link href="/newsletter" className="text-purple-400 hover:text-purple-300 transition-colors">
+              Subscribe
+            </Link>{' '}
+            to get the next one in your inbox.
+          </p>
+        </div>
+
+        {issues.length === 0 ? (
+          <p className="text-gray-400">No issues have been published yet.</p>
+        ) : (
+          <ul className="space-y-6">
+            {issues.map(issue => (
+              <li key={issue.id}>
+                <Link
+                  href={`/newsletter/archive/${issue.id}`}
+                  className="block bg-gray-900 rounded-lg p-6 shadow-xl hover:bg-gray-800 transition-colors"
+                >
+                  <time dateTime={issue.sentAt.toISOString()} className="text-sm text-gray-400">
+                    {format(issue.sentAt, 'MMMM d, yyyy')}
+                  </time>
+                  <h2 className="text-xl font-bold text-white mt-1 mb-2">{issue.subject}</h2>
+                  {issue.excerpt && <p className="text-gray-300">{issue.excerpt}</p>}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
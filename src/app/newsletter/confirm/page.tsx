@@ -0,0 +1,118 @@
+'use client';
+
+import { useState, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { motion } from 'framer-motion';
+import Link from 'next/link';
+
+function ConfirmContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [status, setStatus] = useState<'ready' | 'confirming' | 'success' | 'error'>(token ? 'ready' : 'error');
+  const [message, setMessage] = useState(token ? '' : 'Invalid confirmation link. Please use the link from your email.');
+
+  // Confirmation needs an explicit click: mail scanners open links in emails,
+  // and that alone must not subscribe anyone.
+  const handleConfirm = async () => {
+    setStatus('confirming');
+    setMessage('');
+
+    try {
+      const response = await fetch('/api/newsletter/confirm', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setStatus('error');
+        setMessage(data.error || 'Failed to confirm your subscription');
+        return;
+      }
+
+      setStatus('success');
+      setMessage(
+        data.status === 'already_confirmed'
+          ? 'Your subscription is already confirmed.'
+          : 'Your subscription is confirmed. A welcome email is on its way!'
+      );
+    } catch (error) {
+      console.error('Error confirming subscription:', error);
+      setStatus('error');
+      setMessage('Failed to confirm your subscription. Please try again later.');
+    }
+  };
+
+  if (status === 'error') {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-4 text-white">Error</h1>
+          <p className="text-gray-400 mb-6">{message}</p>
+          <Link
+            href="/newsletter"
+            className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors"
+          >
+            Subscribe Again
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md mx-auto">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-gray-800 p-8 rounded-lg shadow-lg"
+        >
+          <h1 className="text-2xl font-bold text-white mb-6">Confirm Subscription</h1>
+
+          {status === 'success' ? (
+            <>
+              <div className="bg-green-500/10 border border-green-500 text-green-500 px-4 py-3 rounded mb-6">
+                {message}
+              </div>
+              <Link
+                href="/"
+                className="block w-full text-center px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-colors"
+              >
+                Return to Home
+              </Link>
+            </>
+          ) : (
+            <>
+              <p className="text-gray-300 mb-6">
+                Please confirm that you want to receive my newsletter.
+              </p>
+              <button
+                onClick={handleConfirm}
+                disabled={status === 'confirming'}
+                className="w-full px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors disabled:opacity-50"
+              >
+                {status === 'confirming' ? 'Confirming...' : 'Confirm Subscription'}
+              </button>
+            </>
+          )}
+        </motion.div>
+      </div>
+    </div>
+  );
+}
+
+export default function ConfirmPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-4 text-white">Loading...</h1>
+        </div>
+      </div>
+    }>
+      <ConfirmContent />
+    </Suspense>
+  );
+}
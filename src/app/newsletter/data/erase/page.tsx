@@ -0,0 +1,115 @@
+'use client';
+
+import { useState, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { motion } from 'framer-motion';
+import Link from 'next/link';
+
+function EraseContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [status, setStatus] = useState<'ready' | 'erasing' | 'success' | 'error'>(token ? 'ready' : 'error');
+  const [message, setMessage] = useState(token ? '' : 'Invalid link. Please use the link from your email.');
+
+  // Erasure needs an explicit click: mail scanners open links in emails, and
+  // that alone must not delete anything.
+  const handleErase = async () => {
+    setStatus('erasing');
+    setMessage('');
+
+    try {
+      const response = await fetch('/api/newsletter/data/erase', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setStatus('error');
+        setMessage(data.error || 'Failed to delete your data');
+        return;
+      }
+
+      setStatus('success');
+      setMessage('Your data has been deleted.');
+    } catch (error) {
+      console.error('Error erasing data:', error);
+      setStatus('error');
+      setMessage('Failed to delete your data. Please try again later.');
+    }
+  };
+
+  if (status === 'error') {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-4 text-white">Error</h1>
+          <p className="text-gray-400 mb-6">{message}</p>
+          <Link
+            href="/newsletter/data"
+            className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors"
+          >
+            Request Again
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md mx-auto">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-gray-800 p-8 rounded-lg shadow-lg"
+        >
+          <h1 className="text-2xl font-bold text-white mb-6">Delete Your Data</h1>
+
+          {status === 'success' ? (
+            <>
+              <div className="bg-green-500/10 border border-green-500 text-green-500 px-4 py-3 rounded mb-6">
+                {message}
+              </div>
+              <Link
+                href="/"
+                className="block w-full text-center px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-colors"
+              >
+                Return to Home
+              </Link>
+            </>
+          ) : (
+            <>
+              <p className="text-gray-300 mb-6">
+                This permanently deletes your newsletter subscription and its history, and any messages you sent
+                through the contact form. It can&apos;t be undone.
+              </p>
+              <button
+                onClick={handleErase}
+                disabled={status === 'erasing'}
+                className="w-full px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors disabled:opacity-50"
+              >
+                {status === 'erasing' ? 'Deleting...' : 'Delete My Data'}
+              </button>
+            </>
+          )}
+        </motion.div>
+      </div>
+    </div>
+  );
+}
+
+export default function ErasePage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-4 text-white">Loading...</h1>
+        </div>
+      </div>
+    }>
+      <EraseContent />
+    </Suspense>
+  );
+}
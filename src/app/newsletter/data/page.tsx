@@ -0,0 +1,117 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import Link from 'next/link';
+
+type RequestType = 'export' | 'erasure';
+
+export default function DataRequestPage() {
+  const [email, setEmail] = useState('');
+  const [status, setStatus] = useState<'idle' | 'sending' | 'sent' | 'error'>('idle');
+  const [message, setMessage] = useState('');
+
+  const handleRequest = async (type: RequestType) => {
+    setStatus('sending');
+    setMessage('');
+
+    try {
+      const response = await fetch('/api/newsletter/data/request', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, type }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setStatus('error');
+        setMessage(data.error || 'Failed to send your request');
+        return;
+      }
+
+      setStatus('sent');
+      setMessage(
+        type === 'export'
+          ? 'If I hold any data about this address, a link to download it is on its way. The link expires in 24 hours.'
+          : 'If I hold any data about this address, a link to confirm deleting it is on its way. The link expires in 24 hours.'
+      );
+    } catch (error) {
+      console.error('Error requesting data:', error);
+      setStatus('error');
+      setMessage('Failed to send your request. Please try again later.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md mx-auto">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-gray-800 p-8 rounded-lg shadow-lg"
+        >
+          <h1 className="text-2xl font-bold text-white mb-4">Your Data</h1>
+          <p className="text-gray-300 mb-6">
+            Download a copy of the data I hold about your email address, or have it deleted. This covers your
+            newsletter subscription and its history, and messages sent through the contact form. To make sure
+            it&apos;s you, I&apos;ll email you a link.
+          </p>
+
+          {status === 'sent' ? (
+            <>
+              <div className="bg-green-500/10 border border-green-500 text-green-500 px-4 py-3 rounded mb-6">
+                {message}
+              </div>
+              <Link
+                href="/"
+                className="block w-full text-center px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-colors"
+              >
+                Return to Home
+              </Link>
+            </>
+          ) : (
+            <form onSubmit={(e) => { e.preventDefault(); handleRequest('export'); }} className="space-y-4">
+              {status === 'error' && (
+                <div className="bg-red-500/10 border border-red-500 text-red-500 px-4 py-3 rounded">
+                  {message}
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-300 mb-2">
+                  Email address
+                </label>
+                <input
+                  type="email"
+                  id="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </div>
+
+              <div className="flex space-x-4">
+                <button
+                  type="submit"
+                  disabled={status === 'sending' || !email}
+                  className="flex-1 px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                >
+                  Download my data
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleRequest('erasure')}
+                  disabled={status === 'sending' || !email}
+                  className="flex-1 px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors disabled:opacity-50"
+                >
+                  Delete my data
+                </button>
+              </div>
+            </form>
+          )}
+        </motion.div>
+      </div>
+    </div>
+  );
+}
@@ -58,7 +58,7 @@ const Newsletter = () => {
       }
 
       setStatus('success');
-      setMessage('Thank you for subscribing to our newsletter!');
+      setMessage('Thank you for subscribing to our newsletter! Please check your inbox to confirm your subscription.');
       setEmail('');
       setName('');
       setCaptchaToken('');
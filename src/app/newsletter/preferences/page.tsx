@@ -4,6 +4,7 @@ import { useState, useEffect, Suspense } from 'react';
 import { useSearchParams } from 'next/navigation';
 import { motion } from 'framer-motion';
 import Link from 'next/link';
+import { NEWSLETTER_CATEGORIES } from '@/types/newsletter';
 
 function PreferencesContent() {
   const searchParams = useSearchParams();
@@ -12,6 +13,7 @@ function PreferencesContent() {
   const [name, setName] = useState('');
   const [frequency, setFrequency] = useState('weekly');
   const [categories, setCategories] = useState<string[]>([]);
+  const [tracking, setTracking] = useState(true);
   const [status, setStatus] = useState<'loading' | 'ready' | 'saving' | 'success' | 'error'>('loading');
   const [message, setMessage] = useState('');
 
@@ -26,7 +28,7 @@ function PreferencesContent() {
 
   const fetchSubscriberData = async () => {
     try {
-      const response = await fetch(`/api/newsletter/preferences?token=${token}`);
+      const response = await fetch(`/api/newsletter/preferences?token=${encodeURIComponent(token || '')}`);
       if (!response.ok) {
         if (response.status === 404) {
           setStatus('error');
@@ -48,6 +50,7 @@ function PreferencesContent() {
       setName(data.name || '');
       setFrequency(data.preferences?.frequency || 'weekly');
       setCategories(data.preferences?.categories || []);
+      setTracking(data.preferences?.tracking !== false);
       setStatus('ready');
     } catch (error) {
       console.error('Error fetching subscriber data:', error);
@@ -70,7 +73,8 @@ function PreferencesContent() {
           name,
           preferences: {
             frequency,
-            categories
+            categories,
+            tracking
           }
         }),
       });
@@ -172,14 +176,20 @@ function PreferencesContent() {
                 <option value="weekly">Weekly</option>
                 <option value="monthly">Monthly</option>
               </select>
+              <p className="mt-1 text-xs text-gray-400">
+                How often you get a digest of new posts and projects.
+              </p>
             </div>
 
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">
                 Categories of Interest
               </label>
+              <p className="mb-2 text-xs text-gray-400">
+                Your digest only includes posts in these categories. Leave them all unticked to get everything.
+              </p>
               <div className="space-y-2">
-                {['Technology', 'Design', 'Business', 'Marketing', 'Development'].map((category) => (
+                {NEWSLETTER_CATEGORIES.map((category) => (
                   <label key={category} className="flex items-center">
                     <input
                       type="checkbox"
@@ -199,6 +209,23 @@ function PreferencesContent() {
               </div>
             </div>
 
+            <div>
+              <label className="flex items-start">
+                <input
+                  type="checkbox"
+                  checked={tracking}
+                  onChange={(e) => setTracking(e.target.checked)}
+                  className="mr-2 mt-1"
+                />
+                <span className="text-gray-300">
+                  Allow open and click tracking
+                  <span className="block text-xs text-gray-400">
+                    Helps me see which topics are useful. Turn this off and newsletters are sent to you without a tracking pixel or tracked links.
+                  </span>
+                </span>
+              </label>
+            </div>
+
             <div className="flex space-x-4">
               <button
                 type="submit"
@@ -216,6 +243,13 @@ function PreferencesContent() {
               </button>
             </div>
           </form>
+
+          <p className="mt-6 text-sm text-gray-400">
+            Want a copy of your data, or to have it deleted?{' '}
+            <Link href="/newsletter/data" className="text-indigo-400 hover:text-indigo-300">
+              Manage your data
+            </Link>
+          </p>
         </motion.div>
       </div>
     </div>
@@ -4,6 +4,7 @@ import Link from 'next/link';
 import Image from 'next/image';
 import { format } from 'date-fns';
 import { sanitizeHtmlServer } from '@/lib/sanitize-server';
+import { publiclyVisibleWhere } from '@/lib/publish-scheduler';
 import type { Metadata } from 'next';
 
 interface Project {
@@ -30,7 +31,7 @@ async function getProject(slug: string): Promise<Project | null> {
     const project = await db.project.findFirst({
       where: {
         slug,
-        status: 'published',
+        ...publiclyVisibleWhere(),
       },
       select: {
         id: true,
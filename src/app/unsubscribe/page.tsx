@@ -25,11 +25,11 @@ function UnsubscribeContent() {
 
   const fetchSubscriberData = async () => {
     try {
-      const response = await fetch(`/api/newsletter/unsubscribe?token=${token}`);
+      const response = await fetch(`/api/newsletter/unsubscribe?token=${encodeURIComponent(token || '')}`);
       if (!response.ok) {
         if (response.status === 404) {
           setStatus('error');
-          setMessage('Invalid or expired unsubscribe link. Please use the link from your email.');
+          setMessage('Invalid unsubscribe link. Please use the link from your email.');
         } else {
           throw new Error('Failed to fetch subscriber data');
         }
@@ -0,0 +1,99 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface ScheduleControlsProps {
+  scheduledFor: string | null;
+  isScheduled: boolean;
+  disabled?: boolean;
+  onSchedule: (scheduledFor: string) => void;
+  onCancel: () => void;
+}
+
+export function formatCountdown(target: Date, now: Date = new Date()): string {
+  const diffMs = target.getTime() - now.getTime();
+  if (diffMs <= 0) return 'Going live now';
+
+  const minutes = Math.ceil(diffMs / 60000);
+  const days = Math.floor(minutes / (60 * 24));
+  const hours = Math.floor((minutes % (60 * 24)) / 60);
+  const mins = minutes % 60;
+
+  if (days > 0) return `in ${days}d ${hours}h`;
+  if (hours > 0) return `in ${hours}h ${mins}m`;
+  return `in ${mins}m`;
+}
+
+// Format a date for a datetime-local input in the browser's timezone
+function toLocalInputValue(value: string) {
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+export function ScheduleControls({ scheduledFor, isScheduled, disabled = false, onSchedule, onCancel }: ScheduleControlsProps) {
+  const [now, setNow] = useState(() => new Date());
+  const [editing, setEditing] = useState(false);
+  const [value, setValue] = useState('');
+
+  useEffect(() => {
+    if (!isScheduled) return;
+    const interval = setInterval(() => setNow(new Date()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, [isScheduled]);
+
+  if (editing) {
+    return (
+      <div className="flex items-center gap-2">
+        <input
+          type="datetime-local"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          className="px-2 py-1 bg-gray-800 text-white rounded border border-gray-700 text-sm"
+        />
+        <button
+          onClick={() => {
+            if (!value) return;
+            onSchedule(new Date(value).toISOString());
+            setEditing(false);
+          }}
+          disabled={disabled || !value}
+          className="text-green-400 hover:text-green-300 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save
+        </button>
+        <button onClick={() => setEditing(false)} className="text-gray-400 hover:text-gray-300">
+          Close
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      {isScheduled && scheduledFor && (
+        <span className="text-xs text-blue-300" title={new Date(scheduledFor).toLocaleString()}>
+          {formatCountdown(new Date(scheduledFor), now)}
+        </span>
+      )}
+      <button
+        onClick={() => {
+          setValue(isScheduled && scheduledFor ? toLocalInputValue(scheduledFor) : '');
+          setEditing(true);
+        }}
+        disabled={disabled}
+        className="text-blue-400 hover:text-blue-300 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isScheduled ? 'Reschedule' : 'Schedule'}
+      </button>
+      {isScheduled && (
+        <button
+          onClick={onCancel}
+          disabled={disabled}
+          className="text-orange-400 hover:text-orange-300 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Cancel
+        </button>
+      )}
+    </div>
+  );
+}
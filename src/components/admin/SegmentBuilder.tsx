@@ -0,0 +1,241 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Users } from 'lucide-react';
+import { NEWSLETTER_CATEGORIES, NEWSLETTER_FREQUENCIES, NewsletterSegment } from '@/types/newsletter';
+
+interface SegmentBuilderProps {
+  segment: NewsletterSegment | null;
+  disabled?: boolean;
+  onChange: (segment: NewsletterSegment | null) => void;
+}
+
+interface AudienceOptions {
+  tags: { id: string; name: string }[];
+  locations: string[];
+}
+
+type ListRule = 'tags' | 'exclude_tags' | 'categories' | 'locations';
+
+const PREVIEW_DEBOUNCE_MS = 600;
+
+function toggleValue(values: string[] | undefined, value: string): string[] {
+  const current = values || [];
+  return current.includes(value) ? current.filter((v) => v !== value) : [...current, value];
+}
+
+function Chip({ active, disabled, onClick, children }: {
+  active: boolean;
+  disabled?: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+        active
+          ? 'bg-indigo-600 border-indigo-500 text-white'
+          : 'bg-gray-900 border-gray-700 text-gray-300 hover:border-gray-500'
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+export function SegmentBuilder({ segment, disabled = false, onChange }: SegmentBuilderProps) {
+  const [options, setOptions] = useState<AudienceOptions>({ tags: [], locations: [] });
+  const [preview, setPreview] = useState<{ count: number; total: number } | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const rules = segment || {};
+
+  useEffect(() => {
+    fetch('/api/admin/newsletters/audience')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (data) setOptions(data);
+      })
+      .catch((err) => console.error('Error fetching audience options:', err));
+  }, []);
+
+  // Live recipient count, debounced so editing several rules costs one request
+  const segmentKey = JSON.stringify(segment);
+  useEffect(() => {
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/admin/newsletters/audience', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ segment: JSON.parse(segmentKey) }),
+        });
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to count recipients');
+        }
+        setPreview(await response.json());
+        setPreviewError(null);
+      } catch (err: unknown) {
+        setPreviewError(err instanceof Error ? err.message : 'Failed to count recipients');
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [segmentKey]);
+
+  const update = (changes: Partial<NewsletterSegment>) => {
+    onChange({ ...rules, ...changes });
+  };
+
+  const toggle = (rule: ListRule, value: string) => {
+    update({ [rule]: toggleValue(rules[rule], value) });
+  };
+
+  const setDate = (rule: 'signed_up_after' | 'signed_up_before', value: string) => {
+    if (!value) {
+      update({ [rule]: null });
+      return;
+    }
+    const date = new Date(`${value}T00:00:00`);
+    if (rule === 'signed_up_before') date.setHours(23, 59, 59, 999);
+    update({ [rule]: date.toISOString() });
+  };
+
+  const dateValue = (value: string | null | undefined) => {
+    if (!value) return '';
+    const date = new Date(value);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+  };
+
+  return (
+    <div className="space-y-4 bg-gray-800 rounded-lg p-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-medium text-gray-300">Audience</h2>
+        <div className="flex items-center text-sm text-gray-300">
+          <Users className="w-4 h-4 mr-2" />
+          {previewError ? (
+            <span className="text-red-400">{previewError}</span>
+          ) : preview ? (
+            <span>
+              Sends to <span className="font-semibold text-white">{preview.count}</span> of {preview.total} active subscribers
+            </span>
+          ) : (
+            <span>Counting recipients...</span>
+          )}
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-400">
+        Leave every rule empty to send to all active subscribers. Subscribers must match each rule you set.
+      </p>
+
+      {options.tags.length > 0 && (
+        <>
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-2">Has any of these tags</label>
+            <div className="flex flex-wrap gap-2">
+              {options.tags.map((tag) => (
+                <Chip key={tag.id} active={!!rules.tags?.includes(tag.id)} disabled={disabled} onClick={() => toggle('tags', tag.id)}>
+                  {tag.name}
+                </Chip>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-2">Does not have these tags</label>
+            <div className="flex flex-wrap gap-2">
+              {options.tags.map((tag) => (
+                <Chip
+                  key={tag.id}
+                  active={!!rules.exclude_tags?.includes(tag.id)}
+                  disabled={disabled}
+                  onClick={() => toggle('exclude_tags', tag.id)}
+                >
+                  {tag.name}
+                </Chip>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+
+      <div>
+        <label className="block text-xs font-medium text-gray-400 mb-2">Interested in any of these categories</label>
+        <div className="flex flex-wrap gap-2">
+          {NEWSLETTER_CATEGORIES.map((category) => (
+            <Chip
+              key={category}
+              active={!!rules.categories?.includes(category)}
+              disabled={disabled}
+              onClick={() => toggle('categories', category)}
+            >
+              {category}
+            </Chip>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-400 mb-2">Email frequency</label>
+        <div className="flex flex-wrap gap-2">
+          {NEWSLETTER_FREQUENCIES.map((frequency) => (
+            <Chip
+              key={frequency}
+              active={!!rules.frequencies?.includes(frequency)}
+              disabled={disabled}
+              onClick={() => update({ frequencies: rules.frequencies?.includes(frequency)
+                ? rules.frequencies.filter((f) => f !== frequency)
+                : [...(rules.frequencies || []), frequency] })}
+            >
+              <span className="capitalize">{frequency}</span>
+            </Chip>
+          ))}
+        </div>
+      </div>
+
+      {options.locations.length > 0 && (
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-2">Location</label>
+          <div className="flex flex-wrap gap-2">
+            {options.locations.map((location) => (
+              <Chip
+                key={location}
+                active={!!rules.locations?.includes(location)}
+                disabled={disabled}
+                onClick={() => toggle('locations', location)}
+              >
+                {location}
+              </Chip>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="signed_up_after" className="block text-xs font-medium text-gray-400 mb-2">Signed up on or after</label>
+          <input
+            type="date"
+            id="signed_up_after"
+            value={dateValue(rules.signed_up_after)}
+            onChange={(e) => setDate('signed_up_after', e.target.value)}
+            disabled={disabled}
+            className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </div>
+        <div>
+          <label htmlFor="signed_up_before" className="block text-xs font-medium text-gray-400 mb-2">Signed up on or before</label>
+          <input
+            type="date"
+            id="signed_up_before"
+            value={dateValue(rules.signed_up_before)}
+            onChange={(e) => setDate('signed_up_before', e.target.value)}
+            disabled={disabled}
+            className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
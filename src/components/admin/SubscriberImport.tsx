@@ -0,0 +1,212 @@
+'use client';
+
+import { useState } from 'react';
+import type { ImportAction, ImportReport } from '@/lib/subscriber-import';
+
+interface SubscriberImportProps {
+  tags: { id: string; name: string }[];
+  onImported: () => void;
+  onClose: () => void;
+}
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  create: 'New',
+  update: 'Update',
+  unchanged: 'Unchanged',
+  skip_unsubscribed: 'Skipped (unsubscribed)',
+  skip_deleted: 'Skipped (deleted)',
+  duplicate: 'Duplicate',
+  invalid: 'Invalid',
+};
+
+const ACTION_STYLES: Record<ImportAction, string> = {
+  create: 'bg-green-900 text-green-300',
+  update: 'bg-blue-900 text-blue-300',
+  unchanged: 'bg-gray-800 text-gray-300',
+  skip_unsubscribed: 'bg-yellow-900 text-yellow-300',
+  skip_deleted: 'bg-yellow-900 text-yellow-300',
+  duplicate: 'bg-orange-900 text-orange-300',
+  invalid: 'bg-red-900 text-red-300',
+};
+
+// Rows listed in the preview; the summary always covers the whole file
+const PREVIEW_ROW_LIMIT = 200;
+
+export function SubscriberImport({ tags, onImported, onClose }: SubscriberImportProps) {
+  const [csv, setCsv] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setReport(null);
+    setError(null);
+    if (!file) {
+      setCsv('');
+      setFileName('');
+      return;
+    }
+    setFileName(file.name);
+    setCsv(await file.text());
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/subscribers/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ csv, dry_run: dryRun, tags: selectedTags }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to import subscribers');
+      }
+      const data: ImportReport = await response.json();
+      setReport(data);
+      if (!dryRun) onImported();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to import subscribers');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const listedRows = report
+    ? [...report.rows].sort((a, b) => Number(a.action === 'unchanged') - Number(b.action === 'unchanged')).slice(0, PREVIEW_ROW_LIMIT)
+    : [];
+
+  return (
+    <div className="mb-8 bg-gray-900 rounded-lg border border-gray-800 p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-white">Import Subscribers</h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-white text-sm">
+          Close
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-400">
+        Upload a CSV with an <code>email</code> column and optional <code>name</code>, <code>location</code> and{' '}
+        <code>tags</code> (separated by <code>;</code>) columns. Unsubscribed and deleted subscribers are never re-subscribed.
+      </p>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500 text-red-400 px-3 py-2 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+        <label className="px-4 py-2 bg-gray-800 border border-gray-700 rounded-md text-sm text-gray-300 cursor-pointer hover:bg-gray-700">
+          {fileName || 'Choose CSV file'}
+          <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+        </label>
+
+        {tags.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-gray-400">Tag every imported subscriber:</span>
+            {tags.map(tag => (
+              <button
+                key={tag.id}
+                type="button"
+                onClick={() => {
+                  setReport(null);
+                  setSelectedTags(prev =>
+                    prev.includes(tag.name) ? prev.filter(name => name !== tag.name) : [...prev, tag.name]
+                  );
+                }}
+                className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                  selectedTags.includes(tag.name)
+                    ? 'bg-indigo-600 border-indigo-500 text-white'
+                    : 'bg-gray-900 border-gray-700 text-gray-300 hover:border-gray-500'
+                }`}
+              >
+                {tag.name}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => runImport(true)}
+          disabled={loading || !csv}
+          className="px-4 py-2 text-sm bg-gray-700 hover:bg-gray-600 text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {loading && !report ? 'Checking...' : 'Preview Import'}
+        </button>
+        {report?.dry_run && (
+          <button
+            onClick={() => runImport(false)}
+            disabled={loading || report.summary.create + report.summary.update === 0}
+            className="px-4 py-2 text-sm bg-indigo-600 hover:bg-indigo-700 text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {loading ? 'Importing...' : `Import ${report.summary.create + report.summary.update} subscribers`}
+          </button>
+        )}
+      </div>
+
+      {report && (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-300">
+            {report.dry_run ? 'Preview' : 'Import complete'}: {report.summary.total} rows
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(ACTION_LABELS) as ImportAction[]).map(action => (
+              <span key={action} className={`px-3 py-1 text-xs font-semibold rounded-full ${ACTION_STYLES[action]}`}>
+                {ACTION_LABELS[action]}: {report.summary[action]}
+              </span>
+            ))}
+          </div>
+          {report.new_tags.length > 0 && (
+            <p className="text-sm text-gray-400">
+              {report.dry_run ? 'Tags that will be created' : 'Tags created'}: {report.new_tags.join(', ')}
+            </p>
+          )}
+
+          <div className="max-h-96 overflow-y-auto border border-gray-800 rounded">
+            <table className="w-full text-sm divide-y divide-gray-800">
+              <thead className="bg-gray-800 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-300 uppercase">Line</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-300 uppercase">Email</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-300 uppercase">Result</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-300 uppercase">Details</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-800">
+                {listedRows.map(row => (
+                  <tr key={row.line}>
+                    <td className="px-3 py-2 text-gray-400">{row.line}</td>
+                    <td className="px-3 py-2 text-gray-200 break-all">{row.email || '—'}</td>
+                    <td className="px-3 py-2">
+                      <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${ACTION_STYLES[row.action]}`}>
+                        {ACTION_LABELS[row.action]}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 text-gray-400">
+                      {row.reason}
+                      {row.changes?.name && <div>Name: {row.changes.name.from || '—'} → {row.changes.name.to}</div>}
+                      {row.changes?.location && <div>Location: {row.changes.location.from || '—'} → {row.changes.location.to}</div>}
+                      {row.changes?.tags_added && <div>Tags: +{row.changes.tags_added.join(', +')}</div>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {report.rows.length > listedRows.length && (
+            <p className="text-xs text-gray-500">
+              Showing {listedRows.length} of {report.rows.length} rows
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+'use client';
+
+import { useState } from 'react';
+
+export interface SubscriberTagSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  subscriber_count: number;
+}
+
+interface TagManagerProps {
+  tags: SubscriberTagSummary[];
+  onChange: () => void;
+}
+
+export function TagManager({ tags, onChange }: TagManagerProps) {
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = async (url: string, init: RequestInit, fallback: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || fallback);
+      }
+      onChange();
+      return true;
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : fallback);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    const ok = await request('/api/admin/tags', {
+      method: 'POST',
+      body: JSON.stringify({ name: newName.trim() }),
+    }, 'Failed to create tag');
+    if (ok) setNewName('');
+  };
+
+  const handleRename = async (id: string) => {
+    if (!editingName.trim()) return;
+    const ok = await request(`/api/admin/tags/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ name: editingName.trim() }),
+    }, 'Failed to rename tag');
+    if (ok) setEditingId(null);
+  };
+
+  const handleDelete = async (tag: SubscriberTagSummary) => {
+    if (!confirm(`Delete the tag "${tag.name}"? It will be removed from ${tag.subscriber_count} subscriber(s).`)) return;
+    await request(`/api/admin/tags/${tag.id}`, { method: 'DELETE' }, 'Failed to delete tag');
+  };
+
+  return (
+    <div className="bg-gray-900 rounded-lg border border-gray-800 p-4 space-y-4">
+      <h2 className="text-lg font-semibold text-white">Tags</h2>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500 text-red-400 px-3 py-2 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="flex gap-2">
+        <input
+          type="text"
+          placeholder="New tag name"
+          value={newName}
+          maxLength={50}
+          onChange={(e) => setNewName(e.target.value)}
+          className="flex-1 px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-white text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <button
+          type="submit"
+          disabled={busy || !newName.trim()}
+          className="px-3 py-2 text-sm bg-indigo-600 hover:bg-indigo-700 text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Add Tag
+        </button>
+      </form>
+
+      {tags.length === 0 ? (
+        <p className="text-sm text-gray-400">No tags yet</p>
+      ) : (
+        <ul className="divide-y divide-gray-800">
+          {tags.map((tag) => (
+            <li key={tag.id} className="flex items-center justify-between py-2 gap-2">
+              {editingId === tag.id ? (
+                <input
+                  type="text"
+                  value={editingName}
+                  maxLength={50}
+                  onChange={(e) => setEditingName(e.target.value)}
+                  className="flex-1 px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-sm"
+                />
+              ) : (
+                <span className="text-sm text-gray-200">
+                  {tag.name} <span className="text-gray-500">({tag.subscriber_count})</span>
+                </span>
+              )}
+              <div className="flex items-center gap-3 text-sm">
+                {editingId === tag.id ? (
+                  <>
+                    <button onClick={() => handleRename(tag.id)} disabled={busy} className="text-green-400 hover:text-green-300 disabled:opacity-50">
+                      Save
+                    </button>
+                    <button onClick={() => setEditingId(null)} className="text-gray-400 hover:text-gray-300">
+                      Close
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => {
+                        setEditingId(tag.id);
+                        setEditingName(tag.name);
+                      }}
+                      className="text-blue-400 hover:text-blue-300"
+                    >
+                      Rename
+                    </button>
+                    <button onClick={() => handleDelete(tag)} disabled={busy} className="text-red-400 hover:text-red-300 disabled:opacity-50">
+                      Delete
+                    </button>
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -29,7 +29,7 @@ const Footer = () => {
       }
 
       setStatus('success');
-      setMessage('Thank you for subscribing!');
+      setMessage('Thank you for subscribing! Please check your inbox to confirm your subscription.');
       setEmail('');
     } catch (error) {
       setStatus('error');
@@ -0,0 +1,368 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { compare, hash } from 'bcryptjs';
+import { db } from './db';
+import { getBaseUrl } from './newsletter-email';
+import { isAdminRole, Role, ROLES } from './permissions';
+import { sendAdminAccountEmail } from './resend';
+import { revokeAllSessions } from './sessions';
+import { createSignedToken, verifySignedToken, TokenPurpose } from './signed-tokens';
+
+/**
+ * Admin accounts: profiles with a bcrypt password hash.
+ *
+ * New admins are invited by email and choose their own password through a
+ * signed link; forgotten passwords are reset the same way. Each link carries
+ * the account's `passwordChangedAt`, so it stops working once a password has
+ * been set with it. Setting a password from a link signs the account out on
+ * every device (see sessions.ts).
+ *
+ * ADMIN_EMAIL and ADMIN_PASSWORD only bootstrap the first account, an owner:
+ * they are accepted while no account has a password, and the password is
+ * hashed into that account on the first sign-in. After that they are ignored.
+ */
+
+export type AccountLinkType = 'invite' | 'reset';
+
+export const PASSWORD_HASH_ROUNDS = 12;
+
+export const INVITE_TTL_MS = 72 * 60 * 60 * 1000;
+export const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+export interface AdminIdentity {
+  id: string;
+  email: string;
+  role: string;
+}
+
+export interface AdminUser {
+  id: string;
+  email: string;
+  name: string | null;
+  role: string;
+  status: 'active' | 'invited';
+  two_factor_enabled: boolean;
+  invited_at: string | null;
+  last_login_at: string | null;
+  created_at: string;
+}
+
+/**
+ * `passwordChangedAt` and `twoFactorEnabled` let the caller decide whether a
+ * second step is needed before it starts a session.
+ */
+export type LoginResult =
+  | { ok: true; profile: AdminIdentity; passwordChangedAt: Date | null; twoFactorEnabled: boolean }
+  | { ok: false; reason: 'invalid' | 'not_configured' };
+
+/** Like a sign-in, setting a password leaves the second step to the caller. */
+export type PasswordSetupResult =
+  | { ok: true; profile: AdminIdentity; passwordChangedAt: Date | null; twoFactorEnabled: boolean }
+  | { ok: false; reason: 'invalid' | 'expired' };
+
+interface ProfileRecord extends AdminIdentity {
+  name: string | null;
+  passwordHash: string | null;
+  passwordChangedAt: Date | null;
+  invitedAt: Date | null;
+  lastLoginAt: Date | null;
+  twoFactorEnabledAt: Date | null;
+  createdAt: Date;
+}
+
+const LINKS: Record<AccountLinkType, { purpose: TokenPurpose; ttlMs: number }> = {
+  invite: { purpose: 'admin_invite', ttlMs: INVITE_TTL_MS },
+  reset: { purpose: 'password_reset', ttlMs: PASSWORD_RESET_TTL_MS },
+};
+
+const toIso = (date: Date | null) => date?.toISOString() ?? null;
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// Older profiles kept the address as entered, so match it case-insensitively
+const emailWhere = (email: string) => ({ email: { equals: normalizeEmail(email), mode: 'insensitive' as const } });
+
+export function hashPassword(password: string): Promise<string> {
+  return hash(password, PASSWORD_HASH_ROUNDS);
+}
+
+export function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  return compare(password, passwordHash);
+}
+
+// Checked when no account matches, so an unknown address takes as long to
+// reject as a wrong password
+let dummyHash: Promise<string> | null = null;
+
+function getDummyHash(): Promise<string> {
+  dummyHash ??= hashPassword('no account has this password');
+  return dummyHash;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+function toIdentity(profile: AdminIdentity): AdminIdentity {
+  return { id: profile.id, email: profile.email, role: profile.role };
+}
+
+function toAdminUser(profile: ProfileRecord): AdminUser {
+  return {
+    id: profile.id,
+    email: profile.email,
+    name: profile.name,
+    role: profile.role,
+    status: profile.passwordHash ? 'active' : 'invited',
+    two_factor_enabled: Boolean(profile.twoFactorEnabledAt),
+    invited_at: toIso(profile.invitedAt),
+    last_login_at: toIso(profile.lastLoginAt),
+    created_at: profile.createdAt.toISOString(),
+  };
+}
+
+async function bootstrapFromEnv(email: string, password: string, now: Date): Promise<LoginResult> {
+  const adminEmail = process.env.ADMIN_EMAIL?.trim();
+  const adminPassword = process.env.ADMIN_PASSWORD;
+
+  if (!adminEmail || !adminPassword) {
+    return { ok: false, reason: 'not_configured' };
+  }
+
+  const emailMatches = safeEqual(email, normalizeEmail(adminEmail));
+  const passwordMatches = safeEqual(password, adminPassword);
+  if (!emailMatches || !passwordMatches) {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  const passwordHash = await hashPassword(password);
+  const existing = await db.profile.findFirst({ where: emailWhere(adminEmail) });
+  const data = { role: 'owner', passwordHash, passwordChangedAt: now, lastLoginAt: now };
+
+  const profile = existing
+    ? await db.profile.update({ where: { id: existing.id }, data })
+    : await db.profile.create({ data: { email: normalizeEmail(adminEmail), ...data } });
+
+  return {
+    ok: true,
+    profile: toIdentity(profile),
+    passwordChangedAt: now,
+    twoFactorEnabled: Boolean(profile.twoFactorEnabledAt),
+  };
+}
+
+/** Check an admin's email and password, recording the sign-in on success. */
+export async function authenticateAdmin(email: string, password: string, now: Date = new Date()): Promise<LoginResult> {
+  const accounts = await db.profile.count({ where: { passwordHash: { not: null } } });
+  if (accounts === 0) {
+    return bootstrapFromEnv(normalizeEmail(email), password, now);
+  }
+
+  const profile = await db.profile.findFirst({ where: emailWhere(email) });
+  if (!profile?.passwordHash) {
+    await verifyPassword(password, await getDummyHash());
+    return { ok: false, reason: 'invalid' };
+  }
+
+  if (!(await verifyPassword(password, profile.passwordHash)) || !isAdminRole(profile.role)) {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  await db.profile.update({ where: { id: profile.id }, data: { lastLoginAt: now } });
+  return {
+    ok: true,
+    profile: toIdentity(profile),
+    passwordChangedAt: profile.passwordChangedAt,
+    twoFactorEnabled: Boolean(profile.twoFactorEnabledAt),
+  };
+}
+
+// A link is tied to the password it replaces, so it is spent once used
+const linkSubject = (profile: { id: string; passwordChangedAt: Date | null }) =>
+  `${profile.id}:${profile.passwordChangedAt?.getTime() ?? 0}`;
+
+export function createAccountLinkToken(
+  type: AccountLinkType,
+  profile: { id: string; passwordChangedAt: Date | null },
+  now: Date = new Date(),
+): string {
+  const { purpose, ttlMs } = LINKS[type];
+  return createSignedToken(purpose, linkSubject(profile), new Date(now.getTime() + ttlMs));
+}
+
+export function createAccountLinkUrl(baseUrl: string, token: string): string {
+  return `${baseUrl}/login/set-password?token=${encodeURIComponent(token)}`;
+}
+
+async function sendAccountLink(
+  type: AccountLinkType,
+  profile: ProfileRecord,
+  inviterEmail?: string,
+): Promise<void> {
+  const url = createAccountLinkUrl(getBaseUrl(), createAccountLinkToken(type, profile));
+  const expiresInHours = LINKS[type].ttlMs / (60 * 60 * 1000);
+
+  await sendAdminAccountEmail(
+    profile.email,
+    type,
+    url,
+    expiresInHours,
+    type === 'invite' ? { name: profile.name, inviterEmail: inviterEmail ?? '' } : undefined,
+  );
+}
+
+/**
+ * Invite someone to become an admin with the given role. Returns null when the
+ * address already has an active account; inviting a pending address again
+ * sends a new link.
+ */
+export async function inviteAdminUser(
+  email: string,
+  name: string | null,
+  role: Role,
+  inviter: AdminIdentity,
+  now: Date = new Date(),
+): Promise<AdminUser | null> {
+  const existing: ProfileRecord | null = await db.profile.findFirst({ where: emailWhere(email) });
+  if (existing?.passwordHash) {
+    return null;
+  }
+
+  const data = { name, role, invitedBy: inviter.id, invitedAt: now };
+  const profile: ProfileRecord = existing
+    ? await db.profile.update({ where: { id: existing.id }, data })
+    : await db.profile.create({ data: { email: normalizeEmail(email), ...data } });
+
+  await sendAccountLink('invite', profile, inviter.email);
+  return toAdminUser(profile);
+}
+
+/**
+ * Email a new link to an admin: an invitation if they never set a password,
+ * otherwise a password reset. Returns false when there is no such admin.
+ */
+export async function resendAccountLink(id: string, actor: AdminIdentity): Promise<boolean> {
+  const profile: ProfileRecord | null = await db.profile.findUnique({ where: { id } });
+  if (!profile || !isAdminRole(profile.role)) {
+    return false;
+  }
+
+  await sendAccountLink(profile.passwordHash ? 'reset' : 'invite', profile, actor.email);
+  return true;
+}
+
+/**
+ * Email a password reset link when the address belongs to an active admin.
+ * Callers answer the same either way, so the form can't be used to find
+ * accounts. Returns whether a link was sent.
+ */
+export async function requestPasswordReset(email: string): Promise<boolean> {
+  const profile: ProfileRecord | null = await db.profile.findFirst({ where: emailWhere(email) });
+  if (!profile?.passwordHash || !isAdminRole(profile.role)) {
+    return false;
+  }
+
+  await sendAccountLink('reset', profile);
+  return true;
+}
+
+/** Set a password from an invite or reset link. */
+export async function setPasswordWithToken(
+  token: string,
+  password: string,
+  now: Date = new Date(),
+): Promise<PasswordSetupResult> {
+  const verified = [verifySignedToken('admin_invite', token, now), verifySignedToken('password_reset', token, now)];
+  const valid = verified.find((result) => result.valid);
+  if (!valid || !valid.valid) {
+    const expired = verified.some((result) => !result.valid && result.reason === 'expired');
+    return { ok: false, reason: expired ? 'expired' : 'invalid' };
+  }
+
+  const [id] = valid.subject.split(':');
+  const profile: ProfileRecord | null = await db.profile.findUnique({ where: { id } });
+  if (!profile || !isAdminRole(profile.role) || linkSubject(profile) !== valid.subject) {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  const updated = await db.profile.update({
+    where: { id: profile.id },
+    data: { passwordHash: await hashPassword(password), passwordChangedAt: now },
+  });
+  // A reset is often because someone else got in, so sign out every device
+  await revokeAllSessions(profile.id);
+  return {
+    ok: true,
+    profile: toIdentity(updated),
+    passwordChangedAt: now,
+    twoFactorEnabled: Boolean(updated.twoFactorEnabledAt),
+  };
+}
+
+/** Change a signed-in admin's password. Returns false when the current password is wrong. */
+export async function changePassword(
+  id: string,
+  currentPassword: string,
+  newPassword: string,
+  now: Date = new Date(),
+): Promise<boolean> {
+  const profile: ProfileRecord | null = await db.profile.findUnique({ where: { id } });
+  if (!profile?.passwordHash || !(await verifyPassword(currentPassword, profile.passwordHash))) {
+    return false;
+  }
+
+  await db.profile.update({
+    where: { id },
+    data: { passwordHash: await hashPassword(newPassword), passwordChangedAt: now },
+  });
+  return true;
+}
+
+export async function listAdminUsers(): Promise<AdminUser[]> {
+  const profiles: ProfileRecord[] = await db.profile.findMany({
+    where: { role: { in: ROLES } },
+    orderBy: { createdAt: 'asc' },
+  });
+  return profiles.map(toAdminUser);
+}
+
+/**
+ * Change an admin's role. Admins can't change their own, so an owner always
+ * remains. Returns null when there is no such admin.
+ */
+export async function updateAdminRole(
+  id: string,
+  role: Role,
+  actor: AdminIdentity,
+): Promise<AdminUser | 'self' | null> {
+  if (id === actor.id) {
+    return 'self';
+  }
+
+  const profile: ProfileRecord | null = await db.profile.findUnique({ where: { id } });
+  if (!profile || !isAdminRole(profile.role)) {
+    return null;
+  }
+
+  return toAdminUser(await db.profile.update({ where: { id }, data: { role } }));
+}
+
+/**
+ * Remove an admin. Admins can't remove themselves, so at least one always
+ * remains. Returns null when there is no such admin.
+ */
+export async function deleteAdminUser(id: string, actor: AdminIdentity): Promise<'deleted' | 'self' | null> {
+  if (id === actor.id) {
+    return 'self';
+  }
+
+  const profile: ProfileRecord | null = await db.profile.findUnique({ where: { id } });
+  if (!profile || !isAdminRole(profile.role)) {
+    return null;
+  }
+
+  await db.profile.delete({ where: { id } });
+  return 'deleted';
+}
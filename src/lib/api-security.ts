@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
 import { withRateLimit, adminLimiter } from './rate-limit';
 import { withAuth } from './auth-middleware';
+import type { AuthenticatedUser } from './auth-middleware';
+import { hasPermission, Permission } from './permissions';
 import { sanitizeHtmlServer } from './sanitize-server';
 
 /**
@@ -56,6 +59,22 @@ export function verifyCSRF(request: NextRequest): boolean {
   return false;
 }
 
+/**
+ * Verify that a request comes from the scheduler by checking the
+ * `Authorization: Bearer <CRON_SECRET>` header
+ */
+export function verifyCronSecret(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error('CRON_SECRET environment variable must be set to run scheduled jobs');
+    return false;
+  }
+
+  const provided = Buffer.from(request.headers.get('authorization') || '');
+  const expected = Buffer.from(`Bearer ${secret}`);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
 /**
  * Sanitize HTML content for storage
  */
@@ -106,15 +125,36 @@ export function mapPrismaError(error: unknown): { message: string; status: numbe
 }
 
 /**
- * Wrapper for admin routes with auth, rate limiting, and security headers
+ * A 403 response when the user's role lacks the permission, for routes that
+ * need a second permission for part of what they do; null when allowed
+ */
+export function requirePermission(user: { role: string }, permission: Permission): NextResponse | null {
+  if (hasPermission(user.role, permission)) {
+    return null;
+  }
+  return NextResponse.json(
+    { error: 'Insufficient permissions' },
+    { status: 403 }
+  );
+}
+
+/**
+ * Wrapper for admin routes with auth, a required permission, rate limiting,
+ * and security headers
  */
 export function secureAdminRoute(
-  handler: (request: NextRequest, user: { id: string; email: string; role: string }, context?: unknown) => Promise<NextResponse>
+  permission: Permission,
+  handler: (request: NextRequest, user: AuthenticatedUser, context?: unknown) => Promise<NextResponse>
 ) {
   return withRateLimit(
     adminLimiter,
     'admin-route',
-    withAuth(async (request: NextRequest, user: { id: string; email: string; role: string }, context?: unknown) => {
+    withAuth(async (request: NextRequest, user: AuthenticatedUser, context?: unknown) => {
+      const forbidden = requirePermission(user, permission);
+      if (forbidden) {
+        return addSecurityHeaders(forbidden);
+      }
+
       // Check CSRF for mutation methods
       if (['POST', 'PUT', 'PATCH', 'DELETE'].includes(request.method)) {
         if (!verifyCSRF(request)) {
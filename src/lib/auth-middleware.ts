@@ -2,6 +2,16 @@ import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import * as jwt from 'jsonwebtoken';
 import { db } from './db';
+import { isAdminRole } from './permissions';
+import {
+  createSession,
+  findActiveSession,
+  getClientInfo,
+  revokeSession,
+  SESSION_MAX_AGE_MS,
+  shouldTouchSession,
+  touchSession,
+} from './sessions';
 import type { JwtPayload } from '@/types/prisma';
 
 function getJwtSecret(): string {
@@ -12,25 +22,42 @@ function getJwtSecret(): string {
   return secret;
 }
 
+const AUTH_COOKIE = 'auth-token';
+
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+  role: string;
+  sessionId: string;
+}
+
 export interface AuthResult {
   authenticated: boolean;
-  user?: {
-    id: string;
-    email: string;
-    role: string;
-  };
+  user?: AuthenticatedUser;
   error?: string;
 }
 
+async function setSessionCookie(token: string, expiresAt: Date, now: Date): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.set(AUTH_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: Math.max(0, Math.floor((expiresAt.getTime() - now.getTime()) / 1000)),
+    path: '/',
+  });
+}
+
 /**
- * Verify JWT token and check if user is authenticated as admin
+ * Verify the JWT token and its session, and check the user is an admin.
+ * Using a session extends it, so the cookie is re-set when that happens.
  * @param request Next.js request object
  * @returns AuthResult with authentication status and user info
  */
 export async function requireAuth(request: NextRequest): Promise<AuthResult> {
   try {
     const cookieStore = await cookies();
-    const token = cookieStore.get('auth-token')?.value;
+    const token = cookieStore.get(AUTH_COOKIE)?.value;
 
     if (!token) {
       return { authenticated: false, error: 'No authentication token provided' };
@@ -44,9 +71,16 @@ export async function requireAuth(request: NextRequest): Promise<AuthResult> {
       return { authenticated: false, error: 'Invalid or expired token' };
     }
 
+    // Tokens from before server-side sessions have no sid and can't be revoked
+    const now = new Date();
+    const session = decoded.sid ? await findActiveSession(decoded.sid, now) : null;
+    if (!session || session.profileId !== decoded.id) {
+      return { authenticated: false, error: 'Session expired. Please sign in again.' };
+    }
+
     // Check user in database
-    const profile = await db.profile.findFirst({
-      where: { email: decoded.email },
+    const profile = await db.profile.findUnique({
+      where: { id: session.profileId },
       select: {
         id: true,
         email: true,
@@ -58,17 +92,23 @@ export async function requireAuth(request: NextRequest): Promise<AuthResult> {
       return { authenticated: false, error: 'User not found' };
     }
 
-    // Verify admin role
-    if (profile.role !== 'admin') {
+    // Verify the role can use the admin; routes check their own permission
+    if (!isAdminRole(profile.role)) {
       return { authenticated: false, error: 'Insufficient permissions' };
     }
 
+    if (shouldTouchSession(session, now)) {
+      const touched = await touchSession(session, getClientInfo(request), now);
+      await setSessionCookie(token, touched.expiresAt, now);
+    }
+
     return {
       authenticated: true,
       user: {
         id: profile.id,
         email: profile.email,
         role: profile.role,
+        sessionId: session.id,
       },
     };
   } catch (error) {
@@ -77,13 +117,59 @@ export async function requireAuth(request: NextRequest): Promise<AuthResult> {
   }
 }
 
+/**
+ * Create a session for the profile and set its token as the HTTP-only auth cookie
+ */
+export async function startSession(
+  profile: { id: string; email: string; role: string },
+  request: Request
+): Promise<void> {
+  const secret = getJwtSecret();
+  const now = new Date();
+  const session = await createSession(profile.id, getClientInfo(request), now);
+
+  const token = jwt.sign(
+    { email: profile.email, role: profile.role, id: profile.id, sid: session.id },
+    secret,
+    { expiresIn: Math.floor(SESSION_MAX_AGE_MS / 1000) }
+  );
+
+  await setSessionCookie(token, session.expiresAt, now);
+}
+
+/**
+ * Revoke the session in the auth cookie, if it is still valid, and clear the cookie
+ */
+export async function endSession(): Promise<void> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(AUTH_COOKIE)?.value;
+
+  if (token) {
+    try {
+      const decoded = jwt.verify(token, getJwtSecret()) as JwtPayload;
+      if (decoded.sid) {
+        await revokeSession(decoded.sid, decoded.id);
+      }
+    } catch (jwtError) {
+      // Nothing to revoke for a token that no longer verifies
+    }
+  }
+
+  await clearAuthCookie();
+}
+
+export async function clearAuthCookie(): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.delete(AUTH_COOKIE);
+}
+
 /**
  * Wrapper for admin API routes that require authentication
  * @param handler The route handler function
  * @returns Wrapped handler with authentication check
  */
 export function withAuth(
-  handler: (request: NextRequest, user: { id: string; email: string; role: string }) => Promise<NextResponse>
+  handler: (request: NextRequest, user: AuthenticatedUser) => Promise<NextResponse>
 ) {
   return async (request: NextRequest): Promise<NextResponse> => {
     const authResult = await requireAuth(request);
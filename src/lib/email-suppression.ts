@@ -0,0 +1,118 @@
+import { db } from './db';
+
+/**
+ * Global suppression list consulted before any email is sent.
+ *
+ * An entry blocks a single address or a whole domain, optionally until it
+ * expires. Entries come from Resend webhooks (hard bounces, complaints) or are
+ * added by an admin. Every send path calls `checkSuppression` first; a
+ * suppressed message is not sent and is recorded as a `SkippedEmail` with the
+ * reason, so admins can see what was held back.
+ */
+
+export type SuppressionType = 'email' | 'domain';
+
+export type SuppressionSource = 'webhook' | 'admin';
+
+export type EmailCategory =
+  | 'newsletter'
+  | 'newsletter_test'
+  | 'welcome'
+  | 'confirmation'
+  | 'admin_notification'
+  | 'contact_notification'
+  | 'contact_autoreply'
+  | 'data_request'
+  | 'admin_account';
+
+export interface SuppressionMatch {
+  id: string;
+  value: string;
+  type: SuppressionType;
+  reason: string;
+}
+
+export interface SuppressEmailInput {
+  value: string;
+  type?: SuppressionType;
+  reason: string;
+  source: SuppressionSource;
+  note?: string | null;
+  expiresAt?: Date | null;
+  createdBy?: string | null;
+}
+
+export function normalizeSuppressionValue(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+export function getEmailDomain(email: string): string | null {
+  const at = email.lastIndexOf('@');
+  return at > 0 ? normalizeSuppressionValue(email.slice(at + 1)) || null : null;
+}
+
+/**
+ * The active suppression covering an address, if any. An entry for the
+ * address itself takes precedence over one for its domain.
+ */
+export async function findSuppression(email: string, now: Date = new Date()): Promise<SuppressionMatch | null> {
+  const address = normalizeSuppressionValue(email);
+  const domain = getEmailDomain(address);
+
+  const matches: SuppressionMatch[] = await db.emailSuppression.findMany({
+    where: {
+      value: { in: domain ? [address, domain] : [address] },
+      OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+    },
+    select: { id: true, value: true, type: true, reason: true },
+  });
+
+  return (
+    matches.find((match) => match.type === 'email' && match.value === address) ??
+    matches.find((match) => match.type === 'domain' && match.value === domain) ??
+    null
+  );
+}
+
+/**
+ * Check a recipient before sending. Returns null when the message may be
+ * sent; otherwise records the skipped message and returns the suppression
+ * that blocked it.
+ */
+export async function checkSuppression(email: string, category: EmailCategory): Promise<SuppressionMatch | null> {
+  const suppression = await findSuppression(email);
+  if (!suppression) return null;
+
+  await db.skippedEmail.create({
+    data: {
+      email: normalizeSuppressionValue(email),
+      category,
+      reason: suppression.reason,
+      suppressionId: suppression.id,
+    },
+  });
+
+  return suppression;
+}
+
+/**
+ * Add an address or domain to the list, or replace the reason, source and
+ * expiry of an existing entry for it.
+ */
+export async function suppressEmail(input: SuppressEmailInput) {
+  const value = normalizeSuppressionValue(input.value);
+  const data = {
+    type: input.type ?? 'email',
+    reason: input.reason,
+    source: input.source,
+    note: input.note ?? null,
+    expiresAt: input.expiresAt ?? null,
+    createdBy: input.createdBy ?? null,
+  };
+
+  return db.emailSuppression.upsert({
+    where: { value },
+    create: { value, ...data },
+    update: data,
+  });
+}
@@ -0,0 +1,260 @@
+import type { TemplateKey, TemplateSource } from './email-templates';
+
+/**
+ * Built-in template sources. They are used until a template is edited in the
+ * admin, and again after it is reset. Emails are rendered into `{{{body}}}`
+ * of the layout; templates without a `text` version get a plain-text part
+ * generated from their HTML.
+ */
+export const DEFAULT_TEMPLATES: Record<TemplateKey, TemplateSource> = {
+  layout: {
+    subject: null,
+    html: `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>{{subject}}</title>
+  </head>
+  <body style="margin: 0; padding: 0; background-color: #ffffff;">
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; color: #333;">
+      {{> header}}
+      {{{body}}}
+      {{> footer}}
+    </div>
+  </body>
+</html>`,
+    text: `{{{body}}}
+
+{{> footer}}`,
+  },
+
+  header: {
+    subject: null,
+    html: `<div style="padding-bottom: 16px; margin-bottom: 24px; border-bottom: 1px solid #eee;">
+  <a href="{{siteUrl}}" style="color: #4F46E5; font-size: 18px; font-weight: bold; text-decoration: none;">{{brandName}}</a>
+</div>`,
+    text: `{{brandName}}`,
+  },
+
+  footer: {
+    subject: null,
+    html: `<div style="margin-top: 40px; padding-top: 20px; border-top: 1px solid #eee; font-size: 12px; color: #666; text-align: center;">
+  {{#if unsubscribeUrl}}
+  <p>You received this email because you subscribed to {{brandName}}'s newsletter.</p>
+  <p style="margin-bottom: 10px;">
+    {{#if preferencesUrl}}<a href="{{preferencesUrl}}" style="color: #4F46E5; text-decoration: none; margin: 0 10px;">Update Preferences</a> |{{/if}}
+    <a href="{{unsubscribeUrl}}" style="color: #4F46E5; text-decoration: none; margin: 0 10px;">Unsubscribe</a>
+  </p>
+  {{/if}}
+  {{#if postalAddress}}<p style="margin-top: 10px;">{{postalAddress}}</p>{{/if}}
+</div>`,
+    text: `{{#if unsubscribeUrl}}You received this email because you subscribed to {{brandName}}'s newsletter.
+{{#if preferencesUrl}}Update your preferences: {{preferencesUrl}}
+{{/if}}To unsubscribe, visit: {{unsubscribeUrl}}
+{{/if}}{{postalAddress}}`,
+  },
+
+  welcome: {
+    subject: `{{#if isResubscription}}Welcome back, {{firstName}}{{else}}Welcome, {{firstName}}{{/if}}`,
+    html: `<h1 style="color: #4F46E5; margin-bottom: 24px;">Welcome to My Newsletter!</h1>
+
+<p>Hi {{firstName}},</p>
+
+{{#if isResubscription}}
+<p>I'm glad to have you back! I've been working on creating valuable content, and I'm excited to share it with you.</p>
+<p>You'll be the first to receive my latest insights and updates.</p>
+{{else}}
+<p>Thank you for joining my community. I'm excited to share my insights and updates with you.</p>
+<p>You'll receive updates about:</p>
+<ul>
+  <li>Healthcare data science applications</li>
+  <li>AI developments in medicine</li>
+  <li>Cloud technology in healthcare</li>
+</ul>
+{{/if}}
+
+<p>Feel free to reply to this email if you have any questions.</p>
+
+<p>Best regards,<br>{{senderName}}</p>`,
+    text: null,
+  },
+
+  confirmation: {
+    subject: 'Please confirm your subscription',
+    html: `<h1 style="color: #4F46E5; margin-bottom: 24px;">Confirm your subscription</h1>
+
+<p>Hi {{firstName}},</p>
+
+<p>Thanks for signing up to my newsletter. Please confirm that you want to receive it by clicking the button below.</p>
+
+<p style="margin: 32px 0; text-align: center;">
+  <a href="{{confirmUrl}}" style="background-color: #4F46E5; color: #ffffff; padding: 12px 24px; border-radius: 6px; text-decoration: none; font-weight: bold;">Confirm subscription</a>
+</p>
+
+<p>This link expires in {{expiresInHours}} hours. If you didn't sign up, you can safely ignore this email and you won't hear from me again.</p>
+
+<p>Best regards,<br>{{senderName}}</p>`,
+    text: null,
+  },
+
+  admin_notification: {
+    subject: '🎉 New Newsletter Subscriber!',
+    html: `<h1 style="color: #4F46E5;">New Newsletter Subscriber!</h1>
+
+<div style="background-color: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+  <p style="font-size: 16px; line-height: 1.5; color: #333; margin: 0;">
+    <strong>Email:</strong> {{email}}
+  </p>
+  {{#if name}}
+  <p style="font-size: 16px; line-height: 1.5; color: #333; margin: 10px 0 0 0;">
+    <strong>Name:</strong> {{name}}
+  </p>
+  {{/if}}
+  <p style="font-size: 16px; line-height: 1.5; color: #333; margin: 10px 0 0 0;">
+    <strong>Subscribed at:</strong> {{subscribedAt}}
+  </p>
+</div>
+
+<div style="background-color: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+  <h2 style="color: #4F46E5; font-size: 18px; margin-bottom: 10px;">Subscriber Statistics</h2>
+  <p style="font-size: 16px; line-height: 1.5; color: #333; margin: 0;">
+    <strong>Total Subscribers:</strong> {{totalSubscribers}}
+  </p>
+  <p style="font-size: 16px; line-height: 1.5; color: #333; margin: 10px 0 0 0;">
+    <strong>New Subscribers Today:</strong> {{newSubscribersToday}}
+  </p>
+  <p style="font-size: 16px; line-height: 1.5; color: #333; margin: 10px 0 0 0;">
+    <strong>Subscriber Locations:</strong>
+  </p>
+  <div style="margin-top: 10px; padding-left: 20px;">
+    {{#each locations}}{{location}}: {{count}}<br>{{/each}}
+  </div>
+</div>
+
+<p style="font-size: 16px; line-height: 1.5; color: #333;">
+  Someone has subscribed to your newsletter! 🎉
+</p>`,
+    text: null,
+  },
+
+  contact_notification: {
+    subject: 'New Contact Form Submission: {{#if subject}}{{subject}}{{else}}No Subject{{/if}}',
+    html: `<h2>New Contact Form Submission</h2>
+<p><strong>From:</strong> {{name}} ({{email}})</p>
+<p><strong>Subject:</strong> {{#if subject}}{{subject}}{{else}}No Subject{{/if}}</p>
+<p><strong>Message:</strong></p>
+<p>{{#each messageLines}}{{line}}<br>{{/each}}</p>`,
+    text: null,
+  },
+
+  contact_autoreply: {
+    subject: 'Re: {{#if subject}}{{subject}}{{else}}Your Message{{/if}}',
+    html: `<h2 style="color: #4f46e5;">Thank you for your message, {{firstName}}!</h2>
+
+{{#if isCollaboration}}
+<p>Thank you for your interest in working together! I'm always excited to explore new opportunities and collaborations.</p>
+<p>I've received your message and will review it carefully. I'll get back to you with more specific information about how we might work together.</p>
+<p>In the meantime, feel free to check out my portfolio to see more of my work.</p>
+{{else}}{{#if isProject}}
+<p>Thank you for your interest in my projects! I appreciate you taking the time to reach out.</p>
+<p>I've received your message and will review it carefully. I'll get back to you with more specific information about the project you mentioned.</p>
+<p>If you have any specific requirements or questions in the meantime, feel free to send a follow-up email.</p>
+{{else}}{{#if isQuestion}}
+<p>Thank you for your question! I appreciate you taking the time to reach out.</p>
+<p>I've received your message and will review it carefully. I'll get back to you with a detailed response as soon as possible.</p>
+<p>If you have any additional questions in the meantime, feel free to send a follow-up email.</p>
+{{else}}
+<p>Thank you for reaching out! I appreciate you taking the time to contact me.</p>
+<p>I've received your message and will review it carefully. I'll get back to you with a more detailed response as soon as possible.</p>
+<p>If you have any additional information to share in the meantime, feel free to send a follow-up email.</p>
+{{/if}}{{/if}}{{/if}}
+
+<p>Best regards,<br>{{brandName}}</p>
+
+<p style="margin-top: 30px; font-size: 12px; color: #666;">This is an automated response to your contact form submission. I'll respond more personally soon.</p>`,
+    text: null,
+  },
+
+  newsletter: {
+    subject: '{{subject}}',
+    html: `{{#if viewInBrowserUrl}}<p style="margin: 0 0 16px; font-size: 12px; color: #666; text-align: center;">
+  <a href="{{viewInBrowserUrl}}" style="color: #4F46E5;">View this email in your browser</a>
+</p>
+{{/if}}{{{content}}}`,
+    text: `{{#if viewInBrowserUrl}}View this email in your browser: {{viewInBrowserUrl}}
+
+{{/if}}{{{contentText}}}`,
+  },
+
+  data_export: {
+    subject: 'Your data export',
+    html: `<h1 style="color: #4F46E5; margin-bottom: 24px;">Download your data</h1>
+
+<p>Hi there,</p>
+
+<p>You asked for a copy of the data I hold about {{email}}. It includes your newsletter subscription, the newsletters sent to you, the history of changes to your subscription and any messages you sent through the contact form.</p>
+
+<p style="margin: 32px 0; text-align: center;">
+  <a href="{{downloadUrl}}" style="background-color: #4F46E5; color: #ffffff; padding: 12px 24px; border-radius: 6px; text-decoration: none; font-weight: bold;">Download my data</a>
+</p>
+
+<p>This link expires in {{expiresInHours}} hours. If you didn't ask for your data, you can safely ignore this email.</p>
+
+<p>Best regards,<br>{{senderName}}</p>`,
+    text: null,
+  },
+
+  data_erasure: {
+    subject: 'Confirm deleting your data',
+    html: `<h1 style="color: #4F46E5; margin-bottom: 24px;">Delete your data</h1>
+
+<p>Hi there,</p>
+
+<p>You asked for the data I hold about {{email}} to be deleted. This removes your newsletter subscription and its history, and any messages you sent through the contact form. It can't be undone.</p>
+
+<p style="margin: 32px 0; text-align: center;">
+  <a href="{{confirmUrl}}" style="background-color: #DC2626; color: #ffffff; padding: 12px 24px; border-radius: 6px; text-decoration: none; font-weight: bold;">Delete my data</a>
+</p>
+
+<p>This link expires in {{expiresInHours}} hours. If you didn't ask for this, you can safely ignore this email and nothing will be deleted.</p>
+
+<p>Best regards,<br>{{senderName}}</p>`,
+    text: null,
+  },
+  admin_invite: {
+    subject: "You've been invited to manage {{brandName}}",
+    html: `<h1 style="color: #4F46E5; margin-bottom: 24px;">You're invited</h1>
+
+<p>Hi {{#if name}}{{name}}{{else}}there{{/if}},</p>
+
+<p>{{inviterEmail}} has invited you to help manage {{brandName}}. Choose a password to set up your account.</p>
+
+<p style="margin: 32px 0; text-align: center;">
+  <a href="{{setupUrl}}" style="background-color: #4F46E5; color: #ffffff; padding: 12px 24px; border-radius: 6px; text-decoration: none; font-weight: bold;">Set up my account</a>
+</p>
+
+<p>This link expires in {{expiresInHours}} hours and can only be used once. If you weren't expecting this invitation, you can safely ignore this email.</p>
+
+<p>Best regards,<br>{{senderName}}</p>`,
+    text: null,
+  },
+
+  password_reset: {
+    subject: 'Reset your password',
+    html: `<h1 style="color: #4F46E5; margin-bottom: 24px;">Reset your password</h1>
+
+<p>Hi there,</p>
+
+<p>Someone asked to reset the password for the admin account {{email}}. Use the button below to choose a new one.</p>
+
+<p style="margin: 32px 0; text-align: center;">
+  <a href="{{resetUrl}}" style="background-color: #4F46E5; color: #ffffff; padding: 12px 24px; border-radius: 6px; text-decoration: none; font-weight: bold;">Choose a new password</a>
+</p>
+
+<p>This link expires in {{expiresInHours}} hours and can only be used once. If you didn't ask for this, you can safely ignore this email and your password won't change.</p>
+
+<p>Best regards,<br>{{senderName}}</p>`,
+    text: null,
+  },
+};
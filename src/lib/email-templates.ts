@@ -0,0 +1,650 @@
+import { convert } from 'html-to-text';
+import { db } from './db';
+import { cache } from './cache';
+import { sanitizeHtmlServer } from './sanitize-server';
+import { DEFAULT_TEMPLATES } from './email-template-defaults';
+import {
+  findReferences,
+  parseTemplate,
+  renderTemplate,
+  TemplateNode,
+  TemplateScope,
+  TemplateSyntaxError,
+} from './template-engine';
+
+/**
+ * Email templates.
+ *
+ * Every email is rendered from a template into the shared layout, which pulls
+ * in the header and footer partials. The built-in sources live in
+ * email-template-defaults.ts; a template edited in the admin is stored in the
+ * `email_templates` table and overrides its default until it is reset.
+ *
+ * Each template declares the variables it receives. Branding variables
+ * (`brandName`, `senderName`, `postalAddress`, `siteUrl`, `year`) come from
+ * EMAIL_BRAND_NAME, EMAIL_SENDER_NAME and EMAIL_POSTAL_ADDRESS and are
+ * available everywhere.
+ */
+
+export type EmailTemplateKey =
+  | 'welcome'
+  | 'confirmation'
+  | 'admin_notification'
+  | 'contact_notification'
+  | 'contact_autoreply'
+  | 'newsletter'
+  | 'data_export'
+  | 'data_erasure'
+  | 'admin_invite'
+  | 'password_reset';
+
+export type LayoutTemplateKey = 'layout' | 'header' | 'footer';
+
+export type TemplateKey = EmailTemplateKey | LayoutTemplateKey;
+
+export type TemplateKind = 'email' | 'layout' | 'partial';
+
+export interface TemplateSource {
+  // Only emails have a subject
+  subject: string | null;
+  html: string;
+  // Generated from the HTML when null
+  text: string | null;
+}
+
+export interface EmailBranding {
+  brandName: string;
+  senderName: string;
+  postalAddress: string;
+  siteUrl: string;
+  year: number;
+}
+
+// Links the footer shows when an email provides them
+interface FooterVariables {
+  unsubscribeUrl?: string;
+  preferencesUrl?: string;
+}
+
+export interface EmailTemplateVariables {
+  welcome: {
+    firstName: string;
+    isResubscription: boolean;
+    preferencesUrl: string;
+    unsubscribeUrl: string;
+  };
+  confirmation: {
+    firstName: string;
+    confirmUrl: string;
+    expiresInHours: number;
+  };
+  admin_notification: {
+    email: string;
+    name: string | null;
+    subscribedAt: string;
+    totalSubscribers: number;
+    newSubscribersToday: number;
+    locations: { location: string; count: number }[];
+  };
+  contact_notification: {
+    name: string;
+    email: string;
+    subject: string;
+    messageLines: { line: string }[];
+  };
+  contact_autoreply: {
+    firstName: string;
+    subject: string;
+    isCollaboration: boolean;
+    isProject: boolean;
+    isQuestion: boolean;
+  };
+  newsletter: {
+    subject: string;
+    content: string;
+    contentText: string;
+    name: string;
+    unsubscribeUrl: string;
+    preferencesUrl?: string;
+    viewInBrowserUrl?: string;
+  };
+  data_export: {
+    email: string;
+    downloadUrl: string;
+    expiresInHours: number;
+  };
+  data_erasure: {
+    email: string;
+    confirmUrl: string;
+    expiresInHours: number;
+  };
+  admin_invite: {
+    name: string | null;
+    inviterEmail: string;
+    setupUrl: string;
+    expiresInHours: number;
+  };
+  password_reset: {
+    email: string;
+    resetUrl: string;
+    expiresInHours: number;
+  };
+}
+
+export type VariableType = 'string' | 'number' | 'boolean' | 'html' | 'list';
+
+export interface VariableSpec {
+  type: VariableType;
+  description: string;
+  // Fields of each item, for lists
+  fields?: string[];
+}
+
+export interface TemplateDefinition {
+  name: string;
+  description: string;
+  kind: TemplateKind;
+  variables: Record<string, VariableSpec>;
+}
+
+type VariableSpecs<V> = { [K in keyof V]-?: VariableSpec };
+
+interface EmailDefinition<V> extends TemplateDefinition {
+  kind: 'email';
+  variables: VariableSpecs<V>;
+  // Example values for previews
+  sample: V;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export const BRANDING_VARIABLES: VariableSpecs<EmailBranding> = {
+  brandName: { type: 'string', description: 'Brand or site name (EMAIL_BRAND_NAME)' },
+  senderName: { type: 'string', description: 'Name emails are signed with (EMAIL_SENDER_NAME)' },
+  postalAddress: { type: 'string', description: 'Postal address shown in the footer (EMAIL_POSTAL_ADDRESS)' },
+  siteUrl: { type: 'string', description: 'Public site URL' },
+  year: { type: 'number', description: 'Current year' },
+};
+
+const FOOTER_VARIABLES: VariableSpecs<FooterVariables> = {
+  unsubscribeUrl: { type: 'string', description: 'Unsubscribe link; empty for emails not sent to subscribers' },
+  preferencesUrl: { type: 'string', description: 'Preferences link; empty when the email has none' },
+};
+
+export const EMAIL_DEFINITIONS: { [K in EmailTemplateKey]: EmailDefinition<EmailTemplateVariables[K]> } = {
+  welcome: {
+    name: 'Welcome',
+    description: 'Sent when a subscriber confirms their subscription, or comes back after unsubscribing',
+    kind: 'email',
+    variables: {
+      firstName: { type: 'string', description: "Subscriber's first name" },
+      isResubscription: { type: 'boolean', description: 'Whether they had unsubscribed before' },
+      preferencesUrl: FOOTER_VARIABLES.preferencesUrl,
+      unsubscribeUrl: FOOTER_VARIABLES.unsubscribeUrl,
+    },
+    sample: {
+      firstName: 'Ada',
+      isResubscription: false,
+      preferencesUrl: 'https://example.com/newsletter/preferences?token=sample',
+      unsubscribeUrl: 'https://example.com/unsubscribe?token=sample',
+    },
+  },
+  confirmation: {
+    name: 'Subscription confirmation',
+    description: 'Double opt-in email asking a new subscriber to confirm',
+    kind: 'email',
+    variables: {
+      firstName: { type: 'string', description: "Subscriber's first name, or \"there\"" },
+      confirmUrl: { type: 'string', description: 'Confirmation link' },
+      expiresInHours: { type: 'number', description: 'Hours until the link expires' },
+    },
+    sample: {
+      firstName: 'Ada',
+      confirmUrl: 'https://example.com/newsletter/confirm?token=sample',
+      expiresInHours: 48,
+    },
+  },
+  admin_notification: {
+    name: 'New subscriber notification',
+    description: 'Sent to CONTACT_EMAIL when someone confirms a subscription',
+    kind: 'email',
+    variables: {
+      email: { type: 'string', description: "Subscriber's email address" },
+      name: { type: 'string', description: "Subscriber's name, if given" },
+      subscribedAt: { type: 'string', description: 'When they subscribed' },
+      totalSubscribers: { type: 'number', description: 'Confirmed subscribers' },
+      newSubscribersToday: { type: 'number', description: 'Subscribers who joined today' },
+      locations: { type: 'list', description: 'Subscribers per location', fields: ['location', 'count'] },
+    },
+    sample: {
+      email: 'ada@example.com',
+      name: 'Ada Lovelace',
+      subscribedAt: 'Mon, 19 Oct 2026 14:00:00 GMT',
+      totalSubscribers: 128,
+      newSubscribersToday: 3,
+      locations: [
+        { location: 'United Kingdom', count: 70 },
+        { location: 'Unknown', count: 58 },
+      ],
+    },
+  },
+  contact_notification: {
+    name: 'Contact form notification',
+    description: 'Sent to CONTACT_EMAIL for each contact form submission',
+    kind: 'email',
+    variables: {
+      name: { type: 'string', description: "Sender's name" },
+      email: { type: 'string', description: "Sender's email address" },
+      subject: { type: 'string', description: 'Subject, possibly empty' },
+      messageLines: { type: 'list', description: 'The message, one item per line', fields: ['line'] },
+    },
+    sample: {
+      name: 'Ada Lovelace',
+      email: 'ada@example.com',
+      subject: 'Project enquiry',
+      messageLines: [{ line: 'Hi,' }, { line: 'I would like to talk about a project.' }],
+    },
+  },
+  contact_autoreply: {
+    name: 'Contact form auto-reply',
+    description: 'Acknowledgement sent to whoever submitted the contact form',
+    kind: 'email',
+    variables: {
+      firstName: { type: 'string', description: "Sender's first name" },
+      subject: { type: 'string', description: 'Subject, possibly empty' },
+      isCollaboration: { type: 'boolean', description: 'Message is about a job, opportunity or collaboration' },
+      isProject: { type: 'boolean', description: 'Message is about a project' },
+      isQuestion: { type: 'boolean', description: 'Message asks a question or for help' },
+    },
+    sample: {
+      firstName: 'Ada',
+      subject: 'Project enquiry',
+      isCollaboration: false,
+      isProject: true,
+      isQuestion: false,
+    },
+  },
+  newsletter: {
+    name: 'Newsletter',
+    description: 'Wraps the content of every newsletter issue',
+    kind: 'email',
+    variables: {
+      subject: { type: 'string', description: 'Newsletter subject' },
+      content: { type: 'html', description: 'Newsletter content, sanitised and personalised' },
+      contentText: { type: 'string', description: 'Plain-text version of the content' },
+      name: { type: 'string', description: "Subscriber's name, or \"there\"" },
+      unsubscribeUrl: FOOTER_VARIABLES.unsubscribeUrl,
+      preferencesUrl: FOOTER_VARIABLES.preferencesUrl,
+      viewInBrowserUrl: { type: 'string', description: "Link to the issue's web page; empty in previews of unsaved drafts" },
+    },
+    sample: {
+      subject: 'October update',
+      content: '<h1>October update</h1><p>Hi Ada, here is what I have been working on.</p>',
+      contentText: 'OCTOBER UPDATE\n\nHi Ada, here is what I have been working on.',
+      name: 'Ada',
+      unsubscribeUrl: 'https://example.com/unsubscribe?token=sample',
+      preferencesUrl: 'https://example.com/newsletter/preferences?token=sample',
+      viewInBrowserUrl: 'https://example.com/newsletter/archive/sample',
+    },
+  },
+  data_export: {
+    name: 'Data export link',
+    description: 'Sent when someone asks for a copy of the data held about their email address',
+    kind: 'email',
+    variables: {
+      email: { type: 'string', description: 'The email address the data was requested for' },
+      downloadUrl: { type: 'string', description: 'Link that downloads the data as JSON' },
+      expiresInHours: { type: 'number', description: 'Hours until the link expires' },
+    },
+    sample: {
+      email: 'ada@example.com',
+      downloadUrl: 'https://example.com/api/newsletter/data/export?token=sample',
+      expiresInHours: 24,
+    },
+  },
+  data_erasure: {
+    name: 'Data erasure confirmation',
+    description: 'Sent when someone asks for the data held about their email address to be deleted',
+    kind: 'email',
+    variables: {
+      email: { type: 'string', description: 'The email address erasure was requested for' },
+      confirmUrl: { type: 'string', description: 'Link to the page that confirms the erasure' },
+      expiresInHours: { type: 'number', description: 'Hours until the link expires' },
+    },
+    sample: {
+      email: 'ada@example.com',
+      confirmUrl: 'https://example.com/newsletter/data/erase?token=sample',
+      expiresInHours: 24,
+    },
+  },
+  admin_invite: {
+    name: 'Admin invitation',
+    description: 'Sent when an admin invites someone to manage the site',
+    kind: 'email',
+    variables: {
+      name: { type: 'string', description: 'Name of the invited person, if given' },
+      inviterEmail: { type: 'string', description: 'Email address of the admin who sent the invitation' },
+      setupUrl: { type: 'string', description: 'Link to the page where the password is chosen' },
+      expiresInHours: { type: 'number', description: 'Hours until the link expires' },
+    },
+    sample: {
+      name: 'Grace',
+      inviterEmail: 'admin@example.com',
+      setupUrl: 'https://example.com/login/set-password?token=sample',
+      expiresInHours: 72,
+    },
+  },
+  password_reset: {
+    name: 'Password reset',
+    description: 'Sent when an admin asks to reset their password',
+    kind: 'email',
+    variables: {
+      email: { type: 'string', description: 'Email address of the account' },
+      resetUrl: { type: 'string', description: 'Link to the page where the new password is chosen' },
+      expiresInHours: { type: 'number', description: 'Hours until the link expires' },
+    },
+    sample: {
+      email: 'admin@example.com',
+      resetUrl: 'https://example.com/login/set-password?token=sample',
+      expiresInHours: 1,
+    },
+  },
+};
+
+export const LAYOUT_DEFINITIONS: Record<LayoutTemplateKey, TemplateDefinition> = {
+  layout: {
+    name: 'Layout',
+    description: 'Page every email is rendered into; the email itself goes in {{{body}}}',
+    kind: 'layout',
+    variables: {
+      subject: { type: 'string', description: "The email's subject" },
+      body: { type: 'html', description: 'The rendered email' },
+      ...FOOTER_VARIABLES,
+    },
+  },
+  header: {
+    name: 'Header',
+    description: 'Partial shown above every email ({{> header}})',
+    kind: 'partial',
+    variables: {
+      subject: { type: 'string', description: "The email's subject" },
+    },
+  },
+  footer: {
+    name: 'Footer',
+    description: 'Partial shown below every email ({{> footer}})',
+    kind: 'partial',
+    variables: { ...FOOTER_VARIABLES },
+  },
+};
+
+export const TEMPLATE_KEYS = [
+  ...Object.keys(EMAIL_DEFINITIONS),
+  ...Object.keys(LAYOUT_DEFINITIONS),
+] as TemplateKey[];
+
+const PARTIAL_KEYS: LayoutTemplateKey[] = ['header', 'footer'];
+
+// Stored templates change rarely, so a send doesn't need a query each time
+const TEMPLATE_CACHE_KEY = 'email-templates';
+const TEMPLATE_CACHE_TTL = 60 * 1000;
+
+const DEFAULT_BRAND_NAME = 'Bamise Omolaso';
+
+export function isTemplateKey(key: string): key is TemplateKey {
+  return (TEMPLATE_KEYS as string[]).includes(key);
+}
+
+export function getTemplateDefinition(key: TemplateKey): TemplateDefinition {
+  return key in EMAIL_DEFINITIONS
+    ? EMAIL_DEFINITIONS[key as EmailTemplateKey]
+    : LAYOUT_DEFINITIONS[key as LayoutTemplateKey];
+}
+
+export function getEmailBranding(): EmailBranding {
+  const brandName = process.env.EMAIL_BRAND_NAME || DEFAULT_BRAND_NAME;
+  return {
+    brandName,
+    senderName: process.env.EMAIL_SENDER_NAME || brandName.split(' ')[0],
+    postalAddress: process.env.EMAIL_POSTAL_ADDRESS || '',
+    siteUrl: process.env.NEXT_PUBLIC_SITE_URL || process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000',
+    year: new Date().getFullYear(),
+  };
+}
+
+/** `From` header for outbound mail, named after the brand. */
+export function getFromAddress(): string {
+  return `${getEmailBranding().brandName} <${process.env.RESEND_FROM_EMAIL || 'onboarding@resend.dev'}>`;
+}
+
+// Secure HTML sanitization and text conversion utility
+export function sanitizeAndConvertToText(dirtyHtml: string): string {
+  // Step 1: Sanitize HTML (server-safe)
+  const cleanHtml = sanitizeHtmlServer(dirtyHtml);
+
+  // Step 2: Convert to plain text
+  const plainText = convert(cleanHtml, {
+    wordwrap: 130,
+    selectors: [
+      { selector: 'a', options: { hideLinkHrefIfSameAsText: true } },
+      { selector: 'img', format: 'skip' },
+    ],
+  });
+
+  // Step 3: Verify no HTML tags remain
+  if (/<[a-z][\s\S]*>/i.test(plainText)) {
+    throw new Error('Security: HTML tags detected in plaintext output');
+  }
+
+  return plainText;
+}
+
+export type StoredTemplate = TemplateSource & {
+  key: TemplateKey;
+  updatedAt: Date;
+  updatedBy: string | null;
+};
+
+/** Templates edited in the admin, keyed by template. */
+export async function getStoredTemplates(): Promise<Map<TemplateKey, StoredTemplate>> {
+  const cached = cache.get<StoredTemplate[]>(TEMPLATE_CACHE_KEY);
+  if (cached) {
+    return new Map(cached.map((template) => [template.key, template]));
+  }
+
+  const rows: StoredTemplate[] = await db.emailTemplate.findMany({
+    select: { key: true, subject: true, html: true, text: true, updatedAt: true, updatedBy: true },
+  });
+  const stored = rows.filter((row) => isTemplateKey(row.key));
+
+  cache.set(TEMPLATE_CACHE_KEY, stored, TEMPLATE_CACHE_TTL);
+  return new Map(stored.map((template) => [template.key, template]));
+}
+
+export function invalidateEmailTemplateCache(): void {
+  cache.delete(TEMPLATE_CACHE_KEY);
+}
+
+/** The source every template currently renders from: stored if edited, otherwise the default. */
+export async function getTemplateSources(): Promise<Record<TemplateKey, TemplateSource>> {
+  let stored = new Map<TemplateKey, StoredTemplate>();
+  try {
+    stored = await getStoredTemplates();
+  } catch (error) {
+    // Mail must still go out when the templates can't be read
+    console.error('Error loading email templates, using defaults:', error);
+  }
+
+  const sources = {} as Record<TemplateKey, TemplateSource>;
+  for (const key of TEMPLATE_KEYS) {
+    const template = stored.get(key);
+    sources[key] = template
+      ? { subject: template.subject, html: template.html, text: template.text }
+      : DEFAULT_TEMPLATES[key];
+  }
+  return sources;
+}
+
+function compileParts(sources: Record<TemplateKey, TemplateSource>, part: 'html' | 'text'): Record<string, TemplateNode[]> {
+  const partials: Record<string, TemplateNode[]> = {};
+  for (const key of PARTIAL_KEYS) {
+    const source = sources[key];
+    partials[key] = parseTemplate(part === 'html' ? source.html : source.text ?? sanitizeAndConvertToText(source.html));
+  }
+  return partials;
+}
+
+function tidyText(text: string): string {
+  return text
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Render an email from the given template sources. Exposed separately from
+ * `renderEmailTemplate` so the admin can preview unsaved edits.
+ */
+export function renderWithSources<K extends EmailTemplateKey>(
+  key: K,
+  variables: EmailTemplateVariables[K],
+  sources: Record<TemplateKey, TemplateSource>,
+): RenderedEmail {
+  const template = sources[key];
+  const layout = sources.layout;
+  const scope: TemplateScope = { ...getEmailBranding(), ...variables };
+
+  const subject = renderTemplate(parseTemplate(template.subject ?? ''), scope, { escape: false })
+    .replace(/\s+/g, ' ')
+    .trim();
+  const layoutScope = { ...scope, subject };
+
+  const htmlPartials = compileParts(sources, 'html');
+  const body = renderTemplate(parseTemplate(template.html), layoutScope, { escape: true, partials: htmlPartials });
+  const html = renderTemplate(parseTemplate(layout.html), { ...layoutScope, body }, { escape: true, partials: htmlPartials });
+
+  // Without a text version, the whole rendered email is converted instead
+  let text: string;
+  if (template.text === null) {
+    text = sanitizeAndConvertToText(html);
+  } else {
+    const textPartials = compileParts(sources, 'text');
+    const textBody = renderTemplate(parseTemplate(template.text), layoutScope, { escape: false, partials: textPartials });
+    text = layout.text === null
+      ? textBody
+      : renderTemplate(parseTemplate(layout.text), { ...layoutScope, body: textBody }, { escape: false, partials: textPartials });
+  }
+
+  return { subject, html, text: tidyText(text) };
+}
+
+export async function renderEmailTemplate<K extends EmailTemplateKey>(
+  key: K,
+  variables: EmailTemplateVariables[K],
+): Promise<RenderedEmail> {
+  return renderWithSources(key, variables, await getTemplateSources());
+}
+
+/**
+ * Check a template before it is saved. Returns a list of problems: syntax
+ * errors, variables the template doesn't receive and unknown partials.
+ */
+export function validateTemplateSource(key: TemplateKey, source: TemplateSource): string[] {
+  const definition = getTemplateDefinition(key);
+  const allowed = new Set(Object.keys(BRANDING_VARIABLES).concat(Object.keys(definition.variables)));
+  const itemFields: Record<string, string[]> = {};
+  for (const [name, spec] of Object.entries(definition.variables)) {
+    if (spec.fields) itemFields[name] = spec.fields;
+  }
+
+  const errors: string[] = [];
+  if (definition.kind === 'email' && !source.subject?.trim()) {
+    errors.push('Subject is required');
+  }
+
+  const parts: [string, string | null][] = [
+    ['Subject', definition.kind === 'email' ? source.subject : null],
+    ['HTML', source.html],
+    ['Text', source.text],
+  ];
+
+  for (const [label, content] of parts) {
+    if (content === null) continue;
+
+    let nodes: TemplateNode[];
+    try {
+      nodes = parseTemplate(content);
+    } catch (error) {
+      if (error instanceof TemplateSyntaxError) {
+        errors.push(`${label}: ${error.message}`);
+        continue;
+      }
+      throw error;
+    }
+
+    const { variables, partials } = findReferences(nodes, itemFields);
+    for (const variable of variables) {
+      if (!allowed.has(variable)) {
+        errors.push(`${label}: unknown variable {{${variable}}}`);
+      }
+    }
+    for (const partial of partials) {
+      if (definition.kind === 'partial') {
+        errors.push(`${label}: partials cannot include other partials`);
+      } else if (!(PARTIAL_KEYS as string[]).includes(partial)) {
+        errors.push(`${label}: unknown partial {{> ${partial}}}`);
+      } else if (label === 'Subject') {
+        errors.push(`${label}: partials cannot be used in the subject`);
+      }
+    }
+  }
+
+  if (definition.kind === 'layout' && !/\{\{\{\s*body\s*\}\}\}/.test(source.html)) {
+    errors.push('HTML: the layout must include {{{body}}}');
+  }
+
+  return errors;
+}
+
+/** Store an edited template, replacing its default. */
+export async function saveEmailTemplate(key: TemplateKey, source: TemplateSource, updatedBy: string) {
+  const data = {
+    subject: getTemplateDefinition(key).kind === 'email' ? source.subject : null,
+    html: source.html,
+    text: source.text,
+    updatedBy,
+  };
+
+  const template = await db.emailTemplate.upsert({
+    where: { key },
+    create: { key, ...data },
+    update: data,
+  });
+
+  invalidateEmailTemplateCache();
+  return template;
+}
+
+/** Drop the stored version of a template so the default is used again. */
+export async function resetEmailTemplate(key: TemplateKey): Promise<boolean> {
+  const { count } = await db.emailTemplate.deleteMany({ where: { key } });
+  invalidateEmailTemplateCache();
+  return count > 0;
+}
+
+/**
+ * Render the sample of an email with some templates replaced by unsaved
+ * drafts. Layout and partial drafts are previewed around the welcome email.
+ */
+export async function previewEmailTemplate(
+  key: TemplateKey,
+  draft: TemplateSource,
+): Promise<RenderedEmail> {
+  const sources = { ...(await getTemplateSources()), [key]: draft };
+  const emailKey: EmailTemplateKey = key in EMAIL_DEFINITIONS ? (key as EmailTemplateKey) : 'welcome';
+  return renderWithSources(emailKey, EMAIL_DEFINITIONS[emailKey].sample, sources);
+}
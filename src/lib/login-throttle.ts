@@ -0,0 +1,125 @@
+import { db } from './db';
+import { blacklistIP, isIPBlacklisted, trackFailedAttempt } from './security';
+
+/**
+ * Brute-force protection for the admin sign-in form, on top of the per-IP
+ * rate limit on the route.
+ *
+ * Wrong passwords are recorded as FailedAttempt rows keyed by client IP and by
+ * the email that was tried. After a couple of failures each further attempt
+ * has to wait longer; an account with MAX_ACCOUNT_FAILURES in the window is
+ * locked until they age out; and an IP with MAX_IP_FAILURES is blacklisted.
+ * A correct password clears the account's failures.
+ */
+
+export const LOGIN_ACTION_TYPE = 'admin_login';
+
+export const LOGIN_ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+export const MAX_ACCOUNT_FAILURES = 5;
+
+// Failures from one IP, across any accounts, before it is blacklisted
+export const MAX_IP_FAILURES = 20;
+export const IP_FAILURE_WINDOW_MS = 60 * 60 * 1000;
+export const IP_BLACKLIST_MS = 24 * 60 * 60 * 1000;
+
+// Failures allowed before attempts are delayed, and the longest delay
+const FREE_FAILURES = 2;
+const MAX_DELAY_MS = 30 * 1000;
+
+export type LoginThrottle =
+  | { allowed: true }
+  | { allowed: false; reason: 'blacklisted' }
+  | { allowed: false; reason: 'locked' | 'delayed'; retryAfterSeconds: number };
+
+interface RecentFailure {
+  email: string;
+  ipAddress: string;
+  timestamp: Date;
+}
+
+// 'unknown' is shared by every client without forwarding headers, so it is never blocked
+const isKnownIp = (ip: string) => ip !== 'unknown';
+
+export function normalizeLoginEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/** How long to wait after the last failure: nothing at first, then doubling up to a cap. */
+export function getLoginDelayMs(failures: number): number {
+  if (failures <= FREE_FAILURES) {
+    return 0;
+  }
+  return Math.min(1000 * 2 ** (failures - FREE_FAILURES), MAX_DELAY_MS);
+}
+
+const secondsUntil = (time: number, now: Date) => Math.max(1, Math.ceil((time - now.getTime()) / 1000));
+
+/** Whether a sign-in attempt for this IP and email may be checked now. */
+export async function checkLoginThrottle(ip: string, email: string, now: Date = new Date()): Promise<LoginThrottle> {
+  if (isKnownIp(ip) && (await isIPBlacklisted(ip))) {
+    return { allowed: false, reason: 'blacklisted' };
+  }
+
+  const normalized = normalizeLoginEmail(email);
+  const recent: RecentFailure[] = await db.failedAttempt.findMany({
+    where: {
+      actionType: LOGIN_ACTION_TYPE,
+      timestamp: { gte: new Date(now.getTime() - LOGIN_ATTEMPT_WINDOW_MS) },
+      OR: isKnownIp(ip) ? [{ email: normalized }, { ipAddress: ip }] : [{ email: normalized }],
+    },
+    orderBy: { timestamp: 'desc' },
+    select: { email: true, ipAddress: true, timestamp: true },
+  });
+
+  const accountFailures = recent.filter((failure) => failure.email === normalized);
+  if (accountFailures.length >= MAX_ACCOUNT_FAILURES) {
+    // Locked until enough failures leave the window to drop below the limit
+    const unlocksAt = accountFailures[MAX_ACCOUNT_FAILURES - 1].timestamp.getTime() + LOGIN_ATTEMPT_WINDOW_MS;
+    return { allowed: false, reason: 'locked', retryAfterSeconds: secondsUntil(unlocksAt, now) };
+  }
+
+  const ipFailures = isKnownIp(ip) ? recent.filter((failure) => failure.ipAddress === ip).length : 0;
+  const delayMs = getLoginDelayMs(Math.max(accountFailures.length, ipFailures));
+  if (delayMs > 0) {
+    const nextAttemptAt = recent[0].timestamp.getTime() + delayMs;
+    if (nextAttemptAt > now.getTime()) {
+      return { allowed: false, reason: 'delayed', retryAfterSeconds: secondsUntil(nextAttemptAt, now) };
+    }
+  }
+
+  return { allowed: true };
+}
+
+/** Record a wrong password, blacklisting the IP once it has failed too often. */
+export async function recordLoginFailure(
+  ip: string,
+  email: string,
+  userAgent: string,
+  now: Date = new Date(),
+): Promise<void> {
+  await trackFailedAttempt(ip, normalizeLoginEmail(email), userAgent, LOGIN_ACTION_TYPE);
+
+  if (!isKnownIp(ip)) {
+    return;
+  }
+
+  const ipFailures = await db.failedAttempt.count({
+    where: {
+      ipAddress: ip,
+      actionType: LOGIN_ACTION_TYPE,
+      timestamp: { gte: new Date(now.getTime() - IP_FAILURE_WINDOW_MS) },
+    },
+  });
+
+  if (ipFailures >= MAX_IP_FAILURES) {
+    await blacklistIP(ip, 'Repeated failed admin sign-ins', new Date(now.getTime() + IP_BLACKLIST_MS));
+    console.warn('Blacklisted IP after repeated failed admin sign-ins:', { ip, failures: ipFailures });
+  }
+}
+
+/** Forget an account's failures after a correct password. */
+export async function clearLoginFailures(email: string): Promise<void> {
+  await db.failedAttempt.deleteMany({
+    where: { email: normalizeLoginEmail(email), actionType: LOGIN_ACTION_TYPE },
+  });
+}
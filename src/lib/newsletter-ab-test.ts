@@ -0,0 +1,268 @@
+import { db } from './db';
+import { newsletterAbTestSchema } from './validation-schemas';
+import { toRate } from './newsletter-tracking';
+import {
+  NEWSLETTER_VARIANTS,
+  NewsletterAbTest,
+  NewsletterVariant,
+  NewsletterVariantMetrics,
+} from '@/types/newsletter';
+
+/**
+ * A/B subject line tests.
+ *
+ * When a tested newsletter is queued, a random `test_percentage` of its
+ * audience is split evenly between the subject variants and sent straight
+ * away; everyone else gets a `held` send row. Once `wait_hours` have passed
+ * since queueing and the test slice has gone out, the variant with the best
+ * open or click rate among tracked sends wins and the held rows are released
+ * with it. Each send row records its variant, and whether it was in the test
+ * slice, so results can be reported per variant.
+ */
+
+export interface SubjectVariant {
+  variant: NewsletterVariant;
+  subject: string;
+}
+
+interface TestedNewsletter {
+  id: string;
+  subject: string;
+  abTest: unknown;
+  abWinner: string | null;
+  queuedAt: Date | null;
+}
+
+type VariantGroup = Pick<NewsletterVariantMetrics, 'variant' | 'group'> & {
+  recipients: number;
+  sent: number;
+  tracked: number;
+  opened: number;
+  clicked: number;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Validate test settings read back from the database, like segments: throws
+ * on malformed settings rather than sending every subscriber the same subject.
+ */
+export function parseAbTest(value: unknown): NewsletterAbTest | null {
+  if (value === null || value === undefined) return null;
+  return newsletterAbTestSchema.parse(value);
+}
+
+export function getSubjectVariants(subject: string, abTest: NewsletterAbTest | null): SubjectVariant[] {
+  const subjects = [subject, ...(abTest?.subjects ?? [])];
+  return subjects.map((variantSubject, index) => ({ variant: NEWSLETTER_VARIANTS[index], subject: variantSubject }));
+}
+
+/** Subject a send row is delivered with; rows without a variant get the newsletter's subject. */
+export function getVariantSubject(newsletter: { subject: string; abTest: unknown }, variant: string | null): string {
+  if (!variant) return newsletter.subject;
+  const match = getSubjectVariants(newsletter.subject, parseAbTest(newsletter.abTest))
+    .find((candidate) => candidate.variant === variant);
+  return match?.subject ?? newsletter.subject;
+}
+
+/** Size of the test slice: at least one recipient per variant, at most the whole audience. */
+export function getTestSliceSize(audience: number, abTest: NewsletterAbTest): number {
+  const variants = abTest.subjects.length + 1;
+  return Math.min(audience, Math.max(variants, Math.round((audience * abTest.test_percentage) / 100)));
+}
+
+/**
+ * Picks the test slice while the audience is enqueued page by page. Each
+ * subscriber is drawn with probability (slots left / subscribers left), which
+ * yields exactly the slice size, and drawn subscribers take the variants in
+ * turn so every variant gets an equal share. Returns the variant for the next
+ * subscriber, or null to hold them for the winner.
+ */
+export function createTestSliceSampler(
+  audience: number,
+  abTest: NewsletterAbTest,
+  random: () => number = Math.random,
+): () => NewsletterVariant | null {
+  const variants = NEWSLETTER_VARIANTS.slice(0, abTest.subjects.length + 1);
+  let slots = getTestSliceSize(audience, abTest);
+  let remaining = audience;
+  let drawn = 0;
+
+  return () => {
+    const selected = remaining > 0 && random() * remaining < slots;
+    remaining = Math.max(0, remaining - 1);
+    if (!selected) return null;
+
+    slots -= 1;
+    return variants[drawn++ % variants.length];
+  };
+}
+
+export function getTestEndsAt(queuedAt: Date, abTest: NewsletterAbTest): Date {
+  return new Date(queuedAt.getTime() + abTest.wait_hours * HOUR_MS);
+}
+
+/**
+ * The variant with the best rate in the test slice. Ties, including a test
+ * nobody opened, go to the earliest variant.
+ */
+export function pickWinner(
+  variants: NewsletterVariant[],
+  groups: VariantGroup[],
+  metric: NewsletterAbTest['winner_metric'],
+): NewsletterVariant {
+  let winner = variants[0];
+  let best = -1;
+
+  for (const variant of variants) {
+    const group = groups.find((candidate) => candidate.variant === variant && candidate.group === 'test');
+    const rate = group ? toRate(metric === 'open' ? group.opened : group.clicked, group.tracked) : 0;
+    if (rate > best) {
+      best = rate;
+      winner = variant;
+    }
+  }
+
+  return winner;
+}
+
+/** Send counts and engagement per newsletter, variant and group. */
+async function getVariantGroups(newsletterIds: string[]): Promise<Map<string, VariantGroup[]>> {
+  const result = new Map<string, VariantGroup[]>();
+  if (newsletterIds.length === 0) return result;
+
+  const where = { newsletterId: { in: newsletterIds }, variant: { not: null } };
+  const [statusGroups, engagementGroups] = await Promise.all([
+    db.newsletterSend.groupBy({
+      by: ['newsletterId', 'variant', 'abTestGroup', 'status'],
+      where,
+      _count: { _all: true },
+    }),
+    db.newsletterSend.groupBy({
+      by: ['newsletterId', 'variant', 'abTestGroup'],
+      where: { ...where, status: 'sent', tracked: true },
+      _count: { _all: true, openedAt: true, clickedAt: true },
+    }),
+  ]);
+
+  const find = (newsletterId: string, variant: NewsletterVariant, abTestGroup: boolean) => {
+    const groups = result.get(newsletterId) ?? [];
+    const groupName = abTestGroup ? 'test' : 'rest';
+    let group = groups.find((candidate) => candidate.variant === variant && candidate.group === groupName);
+    if (!group) {
+      group = { variant, group: groupName, recipients: 0, sent: 0, tracked: 0, opened: 0, clicked: 0 };
+      groups.push(group);
+      result.set(newsletterId, groups);
+    }
+    return group;
+  };
+
+  for (const row of statusGroups as Array<{
+    newsletterId: string;
+    variant: NewsletterVariant;
+    abTestGroup: boolean;
+    status: string;
+    _count: { _all: number };
+  }>) {
+    const group = find(row.newsletterId, row.variant, row.abTestGroup);
+    group.recipients += row._count._all;
+    if (row.status === 'sent') group.sent += row._count._all;
+  }
+
+  for (const row of engagementGroups as Array<{
+    newsletterId: string;
+    variant: NewsletterVariant;
+    abTestGroup: boolean;
+    _count: { _all: number; openedAt: number; clickedAt: number };
+  }>) {
+    const group = find(row.newsletterId, row.variant, row.abTestGroup);
+    group.tracked = row._count._all;
+    group.opened = row._count.openedAt;
+    group.clicked = row._count.clickedAt;
+  }
+
+  return result;
+}
+
+/** Per-variant results for the performance page, test slice first. */
+export async function getVariantMetrics(
+  newsletters: Array<{ id: string; subject: string; abTest: unknown }>,
+): Promise<Map<string, NewsletterVariantMetrics[]>> {
+  const tested = newsletters.filter((newsletter) => newsletter.abTest);
+  const groups = await getVariantGroups(tested.map((newsletter) => newsletter.id));
+  const metrics = new Map<string, NewsletterVariantMetrics[]>();
+
+  for (const newsletter of tested) {
+    const variants = getSubjectVariants(newsletter.subject, parseAbTest(newsletter.abTest));
+    const rows = (groups.get(newsletter.id) ?? [])
+      .sort((a, b) => (a.group === b.group ? a.variant.localeCompare(b.variant) : a.group === 'test' ? -1 : 1))
+      .map((group) => ({
+        variant: group.variant,
+        subject: variants.find((candidate) => candidate.variant === group.variant)?.subject ?? newsletter.subject,
+        group: group.group,
+        recipients_count: group.recipients,
+        sent_count: group.sent,
+        tracked_count: group.tracked,
+        unique_opens: group.opened,
+        unique_clicks: group.clicked,
+        open_rate: toRate(group.opened, group.tracked),
+        click_rate: toRate(group.clicked, group.tracked),
+      }));
+    metrics.set(newsletter.id, rows);
+  }
+
+  return metrics;
+}
+
+/**
+ * Pick the winning subject once the wait is over and the test slice has been
+ * sent, then release the held rows with it. The winner is claimed with a
+ * conditional update so overlapping queue runs decide the test only once.
+ * Returns the winner, or null when the test is not ready to be decided.
+ */
+export async function decideAbTestIfDue(
+  newsletter: TestedNewsletter,
+  now: Date = new Date(),
+): Promise<NewsletterVariant | null> {
+  const abTest = parseAbTest(newsletter.abTest);
+  if (!abTest || newsletter.abWinner || !newsletter.queuedAt) return null;
+  if (now < getTestEndsAt(newsletter.queuedAt, abTest)) return null;
+
+  const inFlight = await db.newsletterSend.count({
+    where: { newsletterId: newsletter.id, abTestGroup: true, status: { in: ['pending', 'sending'] } },
+  });
+  if (inFlight > 0) return null;
+
+  const variants = getSubjectVariants(newsletter.subject, abTest).map((candidate) => candidate.variant);
+  const groups = (await getVariantGroups([newsletter.id])).get(newsletter.id) ?? [];
+  const winner = pickWinner(variants, groups, abTest.winner_metric);
+
+  const { count } = await db.newsletter.updateMany({
+    where: { id: newsletter.id, abWinner: null },
+    data: { abWinner: winner, abDecidedAt: now },
+  });
+  if (count !== 1) return null;
+
+  const released = await db.newsletterSend.updateMany({
+    where: { newsletterId: newsletter.id, status: 'held' },
+    data: { status: 'pending', variant: winner },
+  });
+
+  await db.newsletterAuditLog.create({
+    data: {
+      newsletterId: newsletter.id,
+      action: 'ab_test_decided',
+      details: {
+        winner,
+        metric: abTest.winner_metric,
+        released: released.count,
+        results: groups
+          .filter((group) => group.group === 'test')
+          .map((group) => ({ variant: group.variant, tracked: group.tracked, opened: group.opened, clicked: group.clicked })),
+        actor: 'scheduler',
+      },
+    },
+  });
+
+  return winner;
+}
@@ -0,0 +1,93 @@
+import { db } from './db';
+import { sanitizeHtmlServer } from './sanitize-server';
+import { sanitizeAndConvertToText } from './email-templates';
+import { createSignedToken, verifySignedToken } from './signed-tokens';
+
+/**
+ * The public newsletter archive and "view in browser" pages.
+ *
+ * Sent newsletters that an admin has marked `showInArchive` are listed at
+ * /newsletter/archive. Every sent email links to its issue's page with a
+ * signed token, so "view in browser" also works for issues kept out of the
+ * archive. Pages show the issue as a nameless recipient would get it, without
+ * the footer or anything else tied to a subscriber.
+ */
+
+export interface ArchivedNewsletterSummary {
+  id: string;
+  subject: string;
+  excerpt: string;
+  sentAt: Date;
+}
+
+export interface ArchivedNewsletter {
+  id: string;
+  subject: string;
+  html: string;
+  // Null while the issue is still going out
+  sentAt: Date | null;
+}
+
+const EXCERPT_LENGTH = 200;
+
+// Filled in for {name}, as for subscribers who never gave one
+const PUBLIC_NAME = 'there';
+
+export function archivedNewsletterWhere() {
+  return { status: 'sent', showInArchive: true, sentAt: { not: null } };
+}
+
+export function createViewInBrowserUrl(baseUrl: string, newsletterId: string): string {
+  return `${baseUrl}/newsletter/archive/${newsletterId}?t=${createSignedToken('view_newsletter', newsletterId)}`;
+}
+
+export function renderPublicContent(content: string): string {
+  return sanitizeHtmlServer(content).replace(/{name}/g, PUBLIC_NAME);
+}
+
+function toExcerpt(content: string): string {
+  const text = sanitizeAndConvertToText(renderPublicContent(content))
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH).trimEnd()}…` : text;
+}
+
+export async function listArchivedNewsletters(): Promise<ArchivedNewsletterSummary[]> {
+  const newsletters = await db.newsletter.findMany({
+    where: archivedNewsletterWhere(),
+    orderBy: { sentAt: 'desc' },
+    select: { id: true, subject: true, content: true, sentAt: true },
+  });
+
+  return newsletters.map((newsletter: { id: string; subject: string; content: string; sentAt: Date }) => ({
+    id: newsletter.id,
+    subject: newsletter.subject,
+    excerpt: toExcerpt(newsletter.content),
+    sentAt: newsletter.sentAt,
+  }));
+}
+
+/**
+ * A newsletter's public page. Issues outside the archive, and issues still
+ * being sent, are only shown with a valid "view in browser" token for them.
+ */
+export async function getArchivedNewsletter(id: string, token?: string | null): Promise<ArchivedNewsletter | null> {
+  const newsletter = await db.newsletter.findFirst({
+    where: { id, status: { in: ['sending', 'sent'] } },
+    select: { id: true, subject: true, content: true, status: true, sentAt: true, showInArchive: true },
+  });
+  if (!newsletter) return null;
+
+  const archived = newsletter.showInArchive && newsletter.status === 'sent' && newsletter.sentAt !== null;
+  if (!archived) {
+    const verified = token ? verifySignedToken('view_newsletter', token) : null;
+    if (!verified?.valid || verified.subject !== newsletter.id) return null;
+  }
+
+  return {
+    id: newsletter.id,
+    subject: newsletter.subject,
+    html: renderPublicContent(newsletter.content),
+    sentAt: newsletter.sentAt,
+  };
+}
@@ -0,0 +1,144 @@
+import { db } from './db';
+import { createSignedToken, verifySignedToken } from './signed-tokens';
+import { sendWelcomeEmail, sendAdminNotification } from './resend';
+import { createPreferencesToken, createUnsubscribeToken } from './subscriber-links';
+
+/**
+ * Double opt-in for newsletter subscriptions.
+ *
+ * Signing up only records the request and emails a signed confirmation link.
+ * The subscriber becomes active (`isSubscribed`, `confirmedAt`) when the link
+ * is used, and only then receives the welcome email. Requests that are never
+ * confirmed are removed by `cleanupUnconfirmedSubscribers`.
+ */
+
+export const CONFIRMATION_TTL_MS = 48 * 60 * 60 * 1000;
+
+export type ConfirmationResult =
+  | { status: 'confirmed' | 'already_confirmed'; email: string }
+  | { status: 'invalid' | 'expired' };
+
+export function createConfirmationToken(subscriberId: string, sentAt: Date = new Date()): string {
+  return createSignedToken('confirm_subscription', subscriberId, new Date(sentAt.getTime() + CONFIRMATION_TTL_MS));
+}
+
+export async function confirmSubscription(
+  token: string,
+  context: { ipAddress?: string | null; userAgent?: string | null } = {},
+): Promise<ConfirmationResult> {
+  const verified = verifySignedToken('confirm_subscription', token);
+  if (!verified.valid) {
+    return { status: verified.reason };
+  }
+
+  const subscriber = await db.newsletterSubscriber.findUnique({
+    where: { id: verified.subject },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      isSubscribed: true,
+      isDeleted: true,
+      confirmedAt: true,
+      confirmationSentAt: true,
+    },
+  });
+
+  if (!subscriber) {
+    return { status: 'invalid' };
+  }
+
+  if (!subscriber.confirmationSentAt) {
+    // The link was already used, or the subscriber left after confirming
+    return subscriber.isSubscribed && !subscriber.isDeleted
+      ? { status: 'already_confirmed', email: subscriber.email }
+      : { status: 'invalid' };
+  }
+
+  const isResubscription = subscriber.confirmedAt !== null;
+  const now = new Date();
+
+  // Conditional update so a link clicked twice at once confirms only once
+  const { count } = await db.newsletterSubscriber.updateMany({
+    where: { id: subscriber.id, confirmationSentAt: { not: null } },
+    data: {
+      isSubscribed: true,
+      isDeleted: false,
+      deletedAt: null,
+      deletedReason: null,
+      confirmedAt: now,
+      confirmationSentAt: null,
+      ...(isResubscription ? { subscriptionCount: { increment: 1 } } : {}),
+      updatedAt: now,
+    },
+  });
+
+  if (count === 0) {
+    return { status: 'already_confirmed', email: subscriber.email };
+  }
+
+  // Log audit event
+  await db.newsletterAuditLog.create({
+    data: {
+      subscriberId: subscriber.id,
+      action: 'subscribed',
+      details: { email: subscriber.email, confirmed: true, resubscribed: isResubscription },
+      ipAddress: context.ipAddress ?? null,
+      userAgent: context.userAgent ?? null,
+    },
+  });
+
+  // Send welcome email and admin notification
+  try {
+    await sendWelcomeEmail(
+      subscriber.email,
+      subscriber.name || '',
+      createUnsubscribeToken(subscriber.id),
+      createPreferencesToken(subscriber.id),
+    );
+    await sendAdminNotification(subscriber.email, subscriber.name || undefined);
+  } catch (emailError) {
+    console.error('Error sending emails:', emailError);
+    // Don't fail the confirmation if email fails
+  }
+
+  return { status: 'confirmed', email: subscriber.email };
+}
+
+/**
+ * Remove sign-ups that were never confirmed within the confirmation window,
+ * and expire pending re-subscription requests from earlier subscribers.
+ */
+export async function cleanupUnconfirmedSubscribers(now: Date = new Date()): Promise<{ deleted: number; expired: number }> {
+  const cutoff = new Date(now.getTime() - CONFIRMATION_TTL_MS);
+
+  const deleted = await db.newsletterSubscriber.deleteMany({
+    where: {
+      confirmedAt: null,
+      isSubscribed: false,
+      confirmationSentAt: { lt: cutoff },
+    },
+  });
+
+  const expired = await db.newsletterSubscriber.updateMany({
+    where: {
+      confirmedAt: { not: null },
+      confirmationSentAt: { lt: cutoff },
+    },
+    data: { confirmationSentAt: null },
+  });
+
+  if (deleted.count > 0 || expired.count > 0) {
+    console.log('AUDIT:', {
+      userId: null,
+      userEmail: 'scheduler',
+      action: 'unconfirmed_subscribers_cleaned_up',
+      resourceType: 'NewsletterSubscriber',
+      resourceId: null,
+      details: { deleted: deleted.count, expired: expired.count },
+      timestamp: now.toISOString(),
+    });
+  }
+
+  return { deleted: deleted.count, expired: expired.count };
+}
@@ -0,0 +1,333 @@
+import { db } from './db';
+import { getBaseUrl } from './newsletter-email';
+import { buildSegmentWhere } from './newsletter-segments';
+import { publiclyVisibleWhere } from './publish-scheduler';
+import { parseTemplate, renderTemplate } from './template-engine';
+import { NEWSLETTER_FREQUENCIES, NewsletterFrequency } from '@/types/newsletter';
+
+/**
+ * Automatic digests of new blog posts and projects.
+ *
+ * Each subscriber gets a digest on the cadence of their `preferences.frequency`
+ * (weekly when unset), covering content published since their previous
+ * digest was due and narrowed to their `preferences.categories`, matched
+ * against blog post tags and project technologies. Subscribers due the same
+ * items share one `kind: 'digest'` newsletter, which is handed to the send
+ * queue already populated, so digests get the same throttling, retries and
+ * suppression checks as campaigns.
+ *
+ * Every item is recorded per subscriber in `digest_deliveries` when its
+ * digest is queued. The unique constraint on those rows means an item is
+ * never sent to the same subscriber twice, even if runs overlap.
+ */
+
+export type DigestItemType = 'blog_post' | 'project';
+
+export interface DigestItem {
+  type: DigestItemType;
+  id: string;
+  title: string;
+  url: string;
+  excerpt: string;
+  // Blog post tags, or project technologies
+  tags: string[];
+  publishedAt: Date;
+}
+
+export interface DigestRunResult {
+  // Subscribers whose digest was due
+  due: number;
+  // Subscribers a digest was queued for; the rest had nothing new
+  queued: number;
+  newsletters: string[];
+}
+
+interface DueSubscriber {
+  id: string;
+  frequency: NewsletterFrequency;
+  categories: string[];
+  since: Date;
+}
+
+const DEFAULT_FREQUENCY: NewsletterFrequency = 'weekly';
+
+const PAGE_SIZE = 500;
+
+// Lets a digest go out on a run slightly earlier than a full period after the
+// last one, so a fixed-time daily cron doesn't skip every other day
+const DUE_GRACE_MS = 60 * 60 * 1000;
+
+const DIGEST_CONTENT = `<p>Hi {name},</p>
+<p>Here's what's new since your last digest.</p>
+{{#if posts}}
+<h2>New posts</h2>
+{{#each posts}}
+<div style="margin: 0 0 24px;">
+  <h3 style="margin: 0 0 4px;"><a href="{{url}}" style="color: #4F46E5; text-decoration: none;">{{title}}</a></h3>
+  {{#if excerpt}}<p style="margin: 0;">{{excerpt}}</p>{{/if}}
+</div>
+{{/each}}
+{{/if}}
+{{#if projects}}
+<h2>New projects</h2>
+{{#each projects}}
+<div style="margin: 0 0 24px;">
+  <h3 style="margin: 0 0 4px;"><a href="{{url}}" style="color: #4F46E5; text-decoration: none;">{{title}}</a></h3>
+  {{#if excerpt}}<p style="margin: 0;">{{excerpt}}</p>{{/if}}
+</div>
+{{/each}}
+{{/if}}`;
+
+export function getDigestFrequency(preferences: unknown): NewsletterFrequency {
+  const frequency = (preferences as { frequency?: unknown } | null)?.frequency;
+  return (NEWSLETTER_FREQUENCIES as readonly unknown[]).includes(frequency)
+    ? (frequency as NewsletterFrequency)
+    : DEFAULT_FREQUENCY;
+}
+
+export function getDigestCategories(preferences: unknown): string[] {
+  const categories = (preferences as { categories?: unknown } | null)?.categories;
+  return Array.isArray(categories) ? categories.filter((c): c is string => typeof c === 'string') : [];
+}
+
+/** One digest period before `date`. */
+export function getDigestPeriodStart(frequency: NewsletterFrequency, date: Date): Date {
+  const start = new Date(date.getTime());
+  if (frequency === 'daily') {
+    start.setUTCDate(start.getUTCDate() - 1);
+  } else if (frequency === 'weekly') {
+    start.setUTCDate(start.getUTCDate() - 7);
+  } else {
+    start.setUTCMonth(start.getUTCMonth() - 1);
+  }
+  return start;
+}
+
+/**
+ * Latest time a subscriber's previous digest can have been due for the next
+ * one to be due at `now`.
+ */
+export function getDigestDueBefore(frequency: NewsletterFrequency, now: Date): Date {
+  return getDigestPeriodStart(frequency, new Date(now.getTime() + DUE_GRACE_MS));
+}
+
+/** No categories means the subscriber is interested in everything. */
+export function matchesCategories(item: Pick<DigestItem, 'tags'>, categories: string[]): boolean {
+  if (categories.length === 0) return true;
+  const tags = item.tags.map((tag) => tag.toLowerCase());
+  return categories.some((category) => tags.includes(category.toLowerCase()));
+}
+
+const itemKey = (item: Pick<DigestItem, 'type' | 'id'>) => `${item.type}:${item.id}`;
+
+/** Blog posts and projects that became public between `since` and `now`, oldest first. */
+export async function getDigestItems(since: Date, now: Date): Promise<DigestItem[]> {
+  const where = { ...publiclyVisibleWhere(now), publishedAt: { gte: since, lte: now } };
+  const select = { id: true, title: true, slug: true, excerpt: true, publishedAt: true };
+
+  const [posts, projects] = await Promise.all([
+    db.blogPost.findMany({ where, select: { ...select, tags: true }, orderBy: { publishedAt: 'asc' } }),
+    db.project.findMany({ where, select: { ...select, technologies: true }, orderBy: { publishedAt: 'asc' } }),
+  ]);
+
+  const baseUrl = getBaseUrl();
+  type Row = { id: string; title: string; slug: string; excerpt: string | null; publishedAt: Date };
+
+  return [
+    ...posts.map((post: Row & { tags: string[] }): DigestItem => ({
+      type: 'blog_post',
+      id: post.id,
+      title: post.title,
+      url: `${baseUrl}/blog/${post.slug}`,
+      excerpt: post.excerpt || '',
+      tags: post.tags,
+      publishedAt: post.publishedAt,
+    })),
+    ...projects.map((project: Row & { technologies: string[] }): DigestItem => ({
+      type: 'project',
+      id: project.id,
+      title: project.title,
+      url: `${baseUrl}/projects/${project.slug}`,
+      excerpt: project.excerpt || '',
+      tags: project.technologies,
+      publishedAt: project.publishedAt,
+    })),
+  ];
+}
+
+/**
+ * Subject and newsletter content for a digest. `{name}` is left in for the
+ * send queue to personalise.
+ */
+export function renderDigest(frequency: NewsletterFrequency, items: DigestItem[]): { subject: string; content: string } {
+  const label = frequency.charAt(0).toUpperCase() + frequency.slice(1);
+  const more = items.length > 1 ? ` and ${items.length - 1} more` : '';
+
+  return {
+    subject: `${label} digest: ${items[0].title}${more}`,
+    content: renderTemplate(
+      parseTemplate(DIGEST_CONTENT),
+      {
+        posts: items.filter((item) => item.type === 'blog_post'),
+        projects: items.filter((item) => item.type === 'project'),
+      },
+      { escape: true },
+    ),
+  };
+}
+
+async function getDueSubscribers(now: Date): Promise<DueSubscriber[]> {
+  const due: DueSubscriber[] = [];
+  let cursor: string | undefined;
+
+  for (;;) {
+    const subscribers = await db.newsletterSubscriber.findMany({
+      where: buildSegmentWhere(null),
+      select: { id: true, preferences: true, confirmedAt: true, lastDigestAt: true },
+      orderBy: { id: 'asc' },
+      take: PAGE_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+
+    for (const subscriber of subscribers) {
+      const frequency = getDigestFrequency(subscriber.preferences);
+      // The first digest covers what was published since they confirmed, but
+      // no more than one period: long-standing subscribers would otherwise get
+      // everything published since they signed up
+      const periodStart = getDigestPeriodStart(frequency, now);
+      const since: Date = subscriber.lastDigestAt
+        ?? (subscriber.confirmedAt > periodStart ? subscriber.confirmedAt : periodStart);
+      if (since > getDigestDueBefore(frequency, now)) continue;
+
+      due.push({
+        id: subscriber.id,
+        frequency,
+        categories: getDigestCategories(subscriber.preferences),
+        since,
+      });
+    }
+
+    if (subscribers.length < PAGE_SIZE) break;
+    cursor = subscribers[subscribers.length - 1].id;
+  }
+
+  return due;
+}
+
+/**
+ * Queue a digest for every subscriber whose digest is due. Subscribers with
+ * nothing new get no email this period; a digest that fails to queue is
+ * tried again on the next run.
+ */
+export async function generateDigests(now: Date = new Date()): Promise<DigestRunResult> {
+  const due = await getDueSubscribers(now);
+  const result: DigestRunResult = { due: due.length, queued: 0, newsletters: [] };
+  if (due.length === 0) return result;
+
+  // Not Math.min(...): spreading thousands of subscribers overflows the call stack
+  const earliest = new Date(due.reduce((min, subscriber) => Math.min(min, subscriber.since.getTime()), Infinity));
+  const items = await getDigestItems(earliest, now);
+
+  const delivered = new Set<string>();
+  if (items.length > 0) {
+    const rows = await db.digestDelivery.findMany({
+      where: {
+        subscriberId: { in: due.map((subscriber) => subscriber.id) },
+        itemId: { in: items.map((item) => item.id) },
+      },
+      select: { subscriberId: true, itemType: true, itemId: true },
+    });
+    for (const row of rows as { subscriberId: string; itemType: DigestItemType; itemId: string }[]) {
+      delivered.add(`${row.subscriberId}/${itemKey({ type: row.itemType, id: row.itemId })}`);
+    }
+  }
+
+  // Subscribers due exactly the same items share a newsletter
+  const groups = new Map<string, { frequency: NewsletterFrequency; items: DigestItem[]; subscriberIds: string[] }>();
+  const nothingNew: string[] = [];
+
+  for (const subscriber of due) {
+    const selected = items.filter((item) =>
+      item.publishedAt >= subscriber.since &&
+      matchesCategories(item, subscriber.categories) &&
+      !delivered.has(`${subscriber.id}/${itemKey(item)}`),
+    );
+
+    if (selected.length === 0) {
+      nothingNew.push(subscriber.id);
+      continue;
+    }
+
+    const key = `${subscriber.frequency}|${selected.map(itemKey).join(',')}`;
+    const group = groups.get(key) ?? { frequency: subscriber.frequency, items: selected, subscriberIds: [] };
+    group.subscriberIds.push(subscriber.id);
+    groups.set(key, group);
+  }
+
+  for (const group of Array.from(groups.values())) {
+    const { subject, content } = renderDigest(group.frequency, group.items);
+
+    try {
+      const newsletterId = await db.$transaction(async (tx: typeof db) => {
+        // Created already queued: the audience is the group, not a segment
+        const newsletter = await tx.newsletter.create({
+          data: { subject, content, kind: 'digest', status: 'sending', queuedAt: now },
+          select: { id: true },
+        });
+
+        await tx.newsletterSend.createMany({
+          data: group.subscriberIds.map((subscriberId) => ({
+            newsletterId: newsletter.id,
+            subscriberId,
+            status: 'pending',
+          })),
+        });
+
+        // Fails on an item another run already sent, rolling the digest back
+        await tx.digestDelivery.createMany({
+          data: group.subscriberIds.flatMap((subscriberId) =>
+            group.items.map((item) => ({
+              subscriberId,
+              newsletterId: newsletter.id,
+              itemType: item.type,
+              itemId: item.id,
+            })),
+          ),
+        });
+
+        await tx.newsletterSubscriber.updateMany({
+          where: { id: { in: group.subscriberIds } },
+          data: { lastDigestAt: now },
+        });
+
+        return newsletter.id as string;
+      });
+
+      result.newsletters.push(newsletterId);
+      result.queued += group.subscriberIds.length;
+    } catch (error) {
+      console.error(`Error queueing ${group.frequency} digest for ${group.subscriberIds.length} subscribers:`, error);
+    }
+  }
+
+  if (nothingNew.length > 0) {
+    await db.newsletterSubscriber.updateMany({
+      where: { id: { in: nothingNew } },
+      data: { lastDigestAt: now },
+    });
+  }
+
+  if (result.newsletters.length > 0) {
+    console.log('AUDIT:', {
+      userId: null,
+      userEmail: 'scheduler',
+      action: 'newsletter_digests_queued',
+      resourceType: 'Newsletter',
+      resourceId: null,
+      details: { newsletters: result.newsletters, subscribers: result.queued },
+      timestamp: now.toISOString(),
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,80 @@
+import { sanitizeHtmlServer } from './sanitize-server';
+import { getOneClickUnsubscribeUrl } from './newsletter-unsubscribe';
+import { addTracking } from './newsletter-tracking';
+import { renderEmailTemplate, sanitizeAndConvertToText } from './email-templates';
+import { createViewInBrowserUrl } from './newsletter-archive';
+
+export interface NewsletterContent {
+  // Links the email to its "view in browser" page; drafts have none yet
+  id?: string;
+  subject: string;
+  content: string;
+}
+
+export interface NewsletterRecipient {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+export interface RenderedNewsletter {
+  subject: string;
+  html: string;
+  text: string;
+  headers: Record<string, string>;
+}
+
+export function getBaseUrl(): string {
+  return (
+    process.env.NEXT_PUBLIC_BASE_URL ||
+    process.env.NEXT_PUBLIC_SITE_URL ||
+    'http://localhost:3000'
+  );
+}
+
+export interface RenderOptions {
+  // NewsletterSend id to attach open and click tracking to
+  trackingSendId?: string;
+  // Adds an "Update preferences" link to the footer
+  preferencesToken?: string;
+}
+
+/**
+ * Render the personalised HTML and plain-text versions of a newsletter for a
+ * single recipient from the `newsletter` template, including the unsubscribe
+ * footer and headers.
+ */
+export async function renderNewsletterEmail(
+  newsletter: NewsletterContent,
+  recipient: Pick<NewsletterRecipient, 'name'>,
+  unsubscribeToken: string,
+  options: RenderOptions = {},
+): Promise<RenderedNewsletter> {
+  const sanitizedHtml = sanitizeHtmlServer(newsletter.content);
+  const plainText = sanitizeAndConvertToText(sanitizedHtml);
+  const displayName = recipient.name || 'there';
+
+  const rendered = await renderEmailTemplate('newsletter', {
+    subject: newsletter.subject,
+    content: sanitizedHtml.replace(/{name}/g, displayName),
+    contentText: plainText.replace(/{name}/g, displayName),
+    name: displayName,
+    unsubscribeUrl: `${getBaseUrl()}/unsubscribe?token=${encodeURIComponent(unsubscribeToken)}`,
+    preferencesUrl: options.preferencesToken
+      ? `${getBaseUrl()}/newsletter/preferences?token=${encodeURIComponent(options.preferencesToken)}`
+      : undefined,
+    viewInBrowserUrl: newsletter.id ? createViewInBrowserUrl(getBaseUrl(), newsletter.id) : undefined,
+  });
+
+  return {
+    subject: rendered.subject,
+    html: options.trackingSendId
+      ? addTracking(rendered.html, getBaseUrl(), options.trackingSendId)
+      : rendered.html,
+    text: rendered.text,
+    headers: {
+      'List-Unsubscribe': `<${getOneClickUnsubscribeUrl(getBaseUrl(), unsubscribeToken)}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
+  };
+}
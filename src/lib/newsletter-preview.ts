@@ -0,0 +1,131 @@
+import { db } from './db';
+import { sendMail } from './mail-transport';
+import { checkSuppression } from './email-suppression';
+import { getFromAddress } from './email-templates';
+import { isAdminRole } from './permissions';
+import { NewsletterContent, NewsletterRecipient, RenderedNewsletter, renderNewsletterEmail } from './newsletter-email';
+import { createPreferencesToken, createUnsubscribeToken } from './subscriber-links';
+
+/**
+ * Previews and test sends of a newsletter before it is broadcast.
+ *
+ * Both render exactly what the queue would send to one subscriber: the
+ * `{name}` substitution, the template and its unsubscribe footer. Tracking is
+ * left out because it needs a real send to attach events to. Without a chosen
+ * subscriber, a sample recipient with no name is used.
+ *
+ * Test sends only go to admin accounts, and their unsubscribe and preferences
+ * links always belong to the sample recipient, so a test never mails out
+ * working links for a real subscriber.
+ */
+
+export interface NewsletterPreview extends RenderedNewsletter {
+  recipient: Pick<NewsletterRecipient, 'email' | 'name'> | null;
+}
+
+export interface TestSendResult {
+  sent: string[];
+  skipped: string[];
+  failed: { email: string; error: string }[];
+}
+
+// Stands in for a subscriber; its links are validly signed but match nobody
+const SAMPLE_SUBSCRIBER_ID = 'preview';
+
+export class SubscriberNotFoundError extends Error {
+  constructor(email: string) {
+    super(`No subscriber with email ${email}`);
+    this.name = 'SubscriberNotFoundError';
+  }
+}
+
+export class TestRecipientNotAllowedError extends Error {
+  constructor(emails: string[]) {
+    super(`Test sends can only go to admin accounts: ${emails.join(', ')}`);
+    this.name = 'TestRecipientNotAllowedError';
+  }
+}
+
+/**
+ * Render the newsletter for one subscriber. With `sampleLinks`, only the name
+ * is theirs and the unsubscribe and preferences links are the sample's.
+ */
+export async function previewNewsletter(
+  newsletter: NewsletterContent,
+  subscriberEmail?: string | null,
+  { sampleLinks = false }: { sampleLinks?: boolean } = {},
+): Promise<NewsletterPreview> {
+  let recipient: NewsletterRecipient | null = null;
+  if (subscriberEmail) {
+    recipient = await db.newsletterSubscriber.findFirst({
+      where: { email: subscriberEmail.toLowerCase(), isDeleted: false },
+      select: { id: true, email: true, name: true },
+    });
+    if (!recipient) {
+      throw new SubscriberNotFoundError(subscriberEmail);
+    }
+  }
+
+  const subscriberId = (!sampleLinks && recipient?.id) || SAMPLE_SUBSCRIBER_ID;
+  const rendered = await renderNewsletterEmail(
+    newsletter,
+    { name: recipient?.name ?? null },
+    createUnsubscribeToken(subscriberId),
+    { preferencesToken: createPreferencesToken(subscriberId) },
+  );
+
+  return {
+    ...rendered,
+    recipient: recipient ? { email: recipient.email, name: recipient.name } : null,
+  };
+}
+
+/**
+ * Mail the rendered preview, with sample links, to each address. Throws
+ * TestRecipientNotAllowedError unless every address is an admin account.
+ */
+export async function sendNewsletterTest(
+  newsletter: NewsletterContent,
+  recipients: string[],
+  subscriberEmail?: string | null,
+): Promise<TestSendResult> {
+  const addresses = Array.from(new Set(recipients.map((email) => email.toLowerCase())));
+  const admins: { email: string; role: string }[] = await db.profile.findMany({
+    where: { email: { in: addresses, mode: 'insensitive' } },
+    select: { email: true, role: true },
+  });
+  const adminEmails = new Set(
+    admins.filter((admin) => isAdminRole(admin.role)).map((admin) => admin.email.toLowerCase()),
+  );
+  const notAllowed = addresses.filter((email) => !adminEmails.has(email));
+  if (notAllowed.length) {
+    throw new TestRecipientNotAllowedError(notAllowed);
+  }
+
+  const preview = await previewNewsletter(newsletter, subscriberEmail, { sampleLinks: true });
+  const result: TestSendResult = { sent: [], skipped: [], failed: [] };
+
+  for (const email of addresses) {
+    if (await checkSuppression(email, 'newsletter_test')) {
+      result.skipped.push(email);
+      continue;
+    }
+
+    const { error } = await sendMail({
+      from: getFromAddress(),
+      to: email,
+      subject: preview.subject,
+      html: preview.html,
+      text: preview.text,
+      headers: { 'X-Newsletter-Test': 'true' },
+    });
+
+    if (error) {
+      result.failed.push({ email, error: error.message });
+    } else {
+      result.sent.push(email);
+    }
+  }
+
+  return result;
+}
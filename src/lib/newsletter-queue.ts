@@ -0,0 +1,451 @@
+import { db } from './db';
+import { sendMail } from './mail-transport';
+import { renderNewsletterEmail } from './newsletter-email';
+import { getFromAddress } from './email-templates';
+import { createPreferencesToken, createUnsubscribeToken } from './subscriber-links';
+import { isTrackingAllowed } from './newsletter-tracking';
+import { checkSuppression } from './email-suppression';
+import { buildSegmentWhere, parseSegment } from './newsletter-segments';
+import { createTestSliceSampler, decideAbTestIfDue, getVariantSubject, parseAbTest } from './newsletter-ab-test';
+
+/**
+ * Durable newsletter send queue.
+ *
+ * Every recipient of a campaign gets a `NewsletterSend` row (status `pending`)
+ * before anything is sent. Workers claim rows in batches, send them at a
+ * throttled rate and record the outcome on the row, so an interrupted campaign
+ * can be resumed by processing the queue again. The
+ * `@@unique([newsletterId, subscriberId])` constraint keeps enqueueing
+ * idempotent, and the row id is used as the mail idempotency key so a row
+ * reclaimed after a crash is never delivered twice by Resend.
+ *
+ * For subject tests (newsletter-ab-test.ts) only the test slice is queued as
+ * `pending`; the rest of the audience waits in `held` until a winner is
+ * picked, and the campaign is not finished while any row is held.
+ */
+
+export interface SendQueueOptions {
+  batchSize?: number;
+  sendIntervalMs?: number;
+  maxAttempts?: number;
+  timeBudgetMs?: number;
+}
+
+export interface SendQueueProgress {
+  newsletterId: string;
+  status: string;
+  total: number;
+  pending: number;
+  held: number;
+  sending: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+}
+
+type DeliveryResult =
+  | { ok: true; messageId: string | null; tracked: boolean }
+  | { ok: false; error: string; transient: boolean };
+
+const DEFAULT_OPTIONS: Required<SendQueueOptions> = {
+  batchSize: 25,
+  sendIntervalMs: 500, // Resend allows 2 requests per second by default
+  maxAttempts: 5,
+  timeBudgetMs: 50 * 1000,
+};
+
+const ENQUEUE_PAGE_SIZE = 500;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+const LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Create a pending send row for every active subscriber in the newsletter's
+ * audience segment, or, for a subject test, a pending row with a variant for
+ * the test slice and a held row for everyone else. Safe to call more than
+ * once: rows that already exist are left untouched.
+ */
+export async function enqueueNewsletter(newsletterId: string): Promise<number> {
+  const newsletter = await db.newsletter.findUnique({
+    where: { id: newsletterId },
+    select: { segment: true, abTest: true },
+  });
+  const where = buildSegmentWhere(parseSegment(newsletter?.segment));
+  const abTest = parseAbTest(newsletter?.abTest);
+  const sampleTestSlice = abTest
+    ? createTestSliceSampler(await db.newsletterSubscriber.count({ where }), abTest)
+    : null;
+
+  let queued = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const subscribers = await db.newsletterSubscriber.findMany({
+      where,
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: ENQUEUE_PAGE_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+
+    if (subscribers.length === 0) break;
+
+    const result = await db.newsletterSend.createMany({
+      data: subscribers.map((subscriber: (typeof subscribers)[0]) => {
+        if (!sampleTestSlice) {
+          return { newsletterId, subscriberId: subscriber.id, status: 'pending' };
+        }
+        const variant = sampleTestSlice();
+        return variant
+          ? { newsletterId, subscriberId: subscriber.id, status: 'pending', variant, abTestGroup: true }
+          : { newsletterId, subscriberId: subscriber.id, status: 'held' };
+      }),
+      skipDuplicates: true,
+    });
+    queued += result.count;
+
+    if (subscribers.length < ENQUEUE_PAGE_SIZE) break;
+    cursor = subscribers[subscribers.length - 1].id;
+  }
+
+  return queued;
+}
+
+/**
+ * Move a newsletter into the `sending` state and build its queue if that has
+ * not been completed yet. Returns false when the newsletter was already sent.
+ */
+export async function startNewsletterSend(newsletterId: string): Promise<boolean> {
+  const newsletter = await db.newsletter.findUnique({
+    where: { id: newsletterId },
+    select: { id: true, status: true, queuedAt: true },
+  });
+
+  if (!newsletter) {
+    throw new Error(`Newsletter ${newsletterId} not found`);
+  }
+
+  if (newsletter.status === 'sent') {
+    return false;
+  }
+
+  if (newsletter.status !== 'sending') {
+    await db.newsletter.update({
+      where: { id: newsletterId },
+      data: { status: 'sending' },
+    });
+  }
+
+  // queuedAt is only set once every recipient has a row, so a crash while
+  // enqueueing simply enqueues again on the next run
+  if (!newsletter.queuedAt) {
+    await enqueueNewsletter(newsletterId);
+    await db.newsletter.update({
+      where: { id: newsletterId },
+      data: { queuedAt: new Date() },
+    });
+  }
+
+  return true;
+}
+
+function claimableWhere(newsletterId: string, now: Date) {
+  return {
+    newsletterId,
+    OR: [
+      {
+        status: 'pending',
+        OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }],
+      },
+      // Rows left in `sending` by a crashed worker
+      {
+        status: 'sending',
+        lockedAt: { lt: new Date(now.getTime() - LOCK_TIMEOUT_MS) },
+      },
+    ],
+  };
+}
+
+async function claimBatch(newsletterId: string, batchSize: number) {
+  const now = new Date();
+  const candidates = await db.newsletterSend.findMany({
+    where: claimableWhere(newsletterId, now),
+    select: { id: true },
+    orderBy: { id: 'asc' },
+    take: batchSize,
+  });
+
+  const claimedIds: string[] = [];
+  for (const candidate of candidates) {
+    // Conditional update: only one worker can move a row into `sending`
+    const { count } = await db.newsletterSend.updateMany({
+      where: { id: candidate.id, ...claimableWhere(newsletterId, now) },
+      data: { status: 'sending', lockedAt: now, attempts: { increment: 1 } },
+    });
+    if (count === 1) claimedIds.push(candidate.id);
+  }
+
+  if (claimedIds.length === 0) return [];
+
+  return db.newsletterSend.findMany({
+    where: { id: { in: claimedIds } },
+    include: {
+      subscriber: {
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          isSubscribed: true,
+          isDeleted: true,
+          preferences: true,
+        },
+      },
+    },
+  });
+}
+
+async function deliver(
+  newsletter: { id: string; subject: string; content: string; trackingEnabled: boolean; abTest: unknown },
+  send: Awaited<ReturnType<typeof claimBatch>>[0],
+): Promise<DeliveryResult> {
+  try {
+    const tracked = newsletter.trackingEnabled && isTrackingAllowed(send.subscriber.preferences);
+    const email = await renderNewsletterEmail(
+      { ...newsletter, subject: getVariantSubject(newsletter, send.variant) },
+      send.subscriber,
+      createUnsubscribeToken(send.subscriber.id),
+      {
+        preferencesToken: createPreferencesToken(send.subscriber.id),
+        ...(tracked ? { trackingSendId: send.id } : {}),
+      },
+    );
+
+    const { id, error } = await sendMail({
+      from: getFromAddress(),
+      to: send.subscriber.email,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      headers: email.headers,
+      idempotencyKey: `newsletter-send/${send.id}`,
+    });
+
+    if (error) {
+      return { ok: false, error: error.message, transient: error.transient };
+    }
+
+    return { ok: true, messageId: id, tracked };
+  } catch (error) {
+    // Network failures and timeouts never reached the mail service, so they are safe to retry
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      transient: true,
+    };
+  }
+}
+
+async function recordResult(
+  send: Awaited<ReturnType<typeof claimBatch>>[0],
+  result: DeliveryResult,
+  maxAttempts: number,
+): Promise<void> {
+  if (result.ok) {
+    await db.newsletterSend.update({
+      where: { id: send.id },
+      data: {
+        status: 'sent',
+        sentAt: new Date(),
+        messageId: result.messageId,
+        tracked: result.tracked,
+        errorMessage: null,
+        lockedAt: null,
+      },
+    });
+    return;
+  }
+
+  console.error(`Error sending newsletter to ${send.subscriber.email}:`, result.error);
+
+  if (result.transient && send.attempts < maxAttempts) {
+    await db.newsletterSend.update({
+      where: { id: send.id },
+      data: {
+        status: 'pending',
+        errorMessage: result.error,
+        nextAttemptAt: new Date(Date.now() + getRetryDelay(send.attempts)),
+        lockedAt: null,
+      },
+    });
+    return;
+  }
+
+  await db.newsletterSend.update({
+    where: { id: send.id },
+    data: {
+      status: 'failed',
+      errorMessage: result.error,
+      sentAt: new Date(),
+      lockedAt: null,
+    },
+  });
+}
+
+export async function getSendProgress(newsletterId: string): Promise<SendQueueProgress> {
+  const [newsletter, groups] = await Promise.all([
+    db.newsletter.findUnique({
+      where: { id: newsletterId },
+      select: { status: true },
+    }),
+    db.newsletterSend.groupBy({
+      by: ['status'],
+      where: { newsletterId },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const progress: SendQueueProgress = {
+    newsletterId,
+    status: newsletter?.status ?? 'unknown',
+    total: 0,
+    pending: 0,
+    held: 0,
+    sending: 0,
+    sent: 0,
+    failed: 0,
+    skipped: 0,
+  };
+
+  for (const group of groups as Array<{ status: string; _count: { _all: number } }>) {
+    const key = group.status as keyof Omit<SendQueueProgress, 'newsletterId' | 'status' | 'total'>;
+    if (key in progress) progress[key] = group._count._all;
+    progress.total += group._count._all;
+  }
+
+  return progress;
+}
+
+/**
+ * Mark the newsletter as sent once no queued, held or in-flight rows remain.
+ */
+async function finalizeIfComplete(newsletterId: string): Promise<SendQueueProgress> {
+  const progress = await getSendProgress(newsletterId);
+
+  if (progress.status === 'sending' && progress.pending === 0 && progress.held === 0 && progress.sending === 0) {
+    const sentAt = new Date();
+    const { count } = await db.newsletter.updateMany({
+      where: { id: newsletterId, status: 'sending' },
+      data: { status: 'sent', sentAt },
+    });
+    if (count > 0) progress.status = 'sent';
+  }
+
+  return progress;
+}
+
+/**
+ * Send queued rows for one newsletter in throttled batches until the queue is
+ * drained or the time budget runs out. Rows still waiting for a retry, or for
+ * a subject test to be decided, are picked up by a later run.
+ */
+export async function processNewsletterQueue(
+  newsletterId: string,
+  options: SendQueueOptions = {},
+): Promise<SendQueueProgress> {
+  const { batchSize, sendIntervalMs, maxAttempts, timeBudgetMs } = {
+    ...DEFAULT_OPTIONS,
+    ...options,
+  };
+
+  const newsletter = await db.newsletter.findUnique({
+    where: { id: newsletterId },
+    select: {
+      id: true,
+      subject: true,
+      content: true,
+      trackingEnabled: true,
+      abTest: true,
+      abWinner: true,
+      queuedAt: true,
+    },
+  });
+
+  if (!newsletter) {
+    throw new Error(`Newsletter ${newsletterId} not found`);
+  }
+
+  if (newsletter.abTest && !newsletter.abWinner) {
+    await decideAbTestIfDue(newsletter);
+  }
+
+  const deadline = Date.now() + timeBudgetMs;
+
+  while (Date.now() < deadline) {
+    const batch = await claimBatch(newsletterId, batchSize);
+    if (batch.length === 0) break;
+
+    for (const send of batch) {
+      const startedAt = Date.now();
+
+      if (!send.subscriber.isSubscribed || send.subscriber.isDeleted) {
+        await db.newsletterSend.update({
+          where: { id: send.id },
+          data: { status: 'skipped', errorMessage: 'Subscriber unsubscribed before delivery', lockedAt: null },
+        });
+        continue;
+      }
+
+      const suppression = await checkSuppression(send.subscriber.email, 'newsletter');
+      if (suppression) {
+        await db.newsletterSend.update({
+          where: { id: send.id },
+          data: { status: 'skipped', errorMessage: `Recipient suppressed: ${suppression.reason}`, lockedAt: null },
+        });
+        continue;
+      }
+
+      const result = await deliver(newsletter, send);
+      await recordResult(send, result, maxAttempts);
+
+      const wait = sendIntervalMs - (Date.now() - startedAt);
+      if (wait > 0) await sleep(wait);
+    }
+  }
+
+  return finalizeIfComplete(newsletterId);
+}
+
+/**
+ * Resume every campaign left in the `sending` state, sharing one time budget.
+ */
+export async function processActiveCampaigns(
+  options: SendQueueOptions = {},
+): Promise<SendQueueProgress[]> {
+  const timeBudgetMs = options.timeBudgetMs ?? DEFAULT_OPTIONS.timeBudgetMs;
+  const deadline = Date.now() + timeBudgetMs;
+
+  const campaigns = await db.newsletter.findMany({
+    where: { status: 'sending' },
+    select: { id: true },
+    orderBy: { updatedAt: 'asc' },
+  });
+
+  const results: SendQueueProgress[] = [];
+  for (const campaign of campaigns) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) break;
+
+    await startNewsletterSend(campaign.id);
+    results.push(
+      await processNewsletterQueue(campaign.id, { ...options, timeBudgetMs: remaining }),
+    );
+  }
+
+  return results;
+}
@@ -0,0 +1,99 @@
+import { db } from './db';
+import { startNewsletterSend } from './newsletter-queue';
+
+export interface NewsletterTransition {
+  newsletterId: string;
+  action: string;
+  from: string | null;
+  to: string;
+  actor: string;
+  details?: Record<string, unknown>;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+type ScheduleState = { status: string; scheduledFor: Date | null };
+
+/**
+ * Name the schedule transition between two newsletter states, or null when the
+ * schedule did not change.
+ */
+export function getScheduleAction(before: ScheduleState | null, after: ScheduleState): string | null {
+  const wasScheduled = before?.status === 'scheduled';
+  const isScheduled = after.status === 'scheduled';
+
+  if (!wasScheduled && isScheduled) return 'newsletter_scheduled';
+  if (wasScheduled && !isScheduled) return 'newsletter_schedule_cancelled';
+  if (
+    wasScheduled &&
+    isScheduled &&
+    before?.scheduledFor?.getTime() !== after.scheduledFor?.getTime()
+  ) {
+    return 'newsletter_rescheduled';
+  }
+  return null;
+}
+
+/**
+ * Record a newsletter status/schedule transition in the newsletter audit log.
+ */
+export async function logNewsletterTransition(transition: NewsletterTransition): Promise<void> {
+  await db.newsletterAuditLog.create({
+    data: {
+      newsletterId: transition.newsletterId,
+      action: transition.action,
+      details: {
+        from: transition.from,
+        to: transition.to,
+        actor: transition.actor,
+        ...transition.details,
+      },
+      ipAddress: transition.ipAddress ?? null,
+      userAgent: transition.userAgent ?? null,
+    },
+  });
+}
+
+/**
+ * Hand every scheduled newsletter whose `scheduledFor` has passed to the send
+ * queue. Each newsletter is claimed with a conditional status update, so
+ * overlapping scheduler runs dispatch it exactly once.
+ */
+export async function dispatchDueNewsletters(now: Date = new Date()): Promise<string[]> {
+  const due = await db.newsletter.findMany({
+    where: { status: 'scheduled', scheduledFor: { lte: now } },
+    select: { id: true, scheduledFor: true },
+    orderBy: { scheduledFor: 'asc' },
+  });
+
+  const dispatched: string[] = [];
+
+  for (const newsletter of due) {
+    const { count } = await db.newsletter.updateMany({
+      where: { id: newsletter.id, status: 'scheduled', scheduledFor: { lte: now } },
+      data: { status: 'sending' },
+    });
+
+    // Cancelled, rescheduled or claimed by another run in the meantime
+    if (count !== 1) continue;
+
+    await logNewsletterTransition({
+      newsletterId: newsletter.id,
+      action: 'newsletter_dispatched',
+      from: 'scheduled',
+      to: 'sending',
+      actor: 'scheduler',
+      details: { scheduledFor: newsletter.scheduledFor?.toISOString() ?? null },
+    });
+
+    try {
+      await startNewsletterSend(newsletter.id);
+      dispatched.push(newsletter.id);
+    } catch (error) {
+      // The newsletter stays in `sending`, so the next queue run retries it
+      console.error(`Error dispatching scheduled newsletter ${newsletter.id}:`, error);
+    }
+  }
+
+  return dispatched;
+}
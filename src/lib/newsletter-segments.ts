@@ -0,0 +1,89 @@
+import { db } from './db';
+import { newsletterSegmentSchema } from './validation-schemas';
+import type { NewsletterSegment } from '@/types/newsletter';
+
+/**
+ * Newsletter audience segmentation.
+ *
+ * A segment is stored on the newsletter as JSON and turned into a Prisma
+ * where-clause over subscribers. The same clause is used for the recipient
+ * count shown in the editor and for building the send queue, so the preview
+ * always matches who actually receives the newsletter.
+ */
+
+const ACTIVE_SUBSCRIBER_WHERE = { isSubscribed: true, isDeleted: false, confirmedAt: { not: null } };
+
+export function isEmptySegment(segment: NewsletterSegment | null | undefined): boolean {
+  if (!segment) return true;
+  return (
+    !segment.tags?.length &&
+    !segment.exclude_tags?.length &&
+    !segment.categories?.length &&
+    !segment.frequencies?.length &&
+    !segment.locations?.length &&
+    !segment.signed_up_after &&
+    !segment.signed_up_before
+  );
+}
+
+/** A segment without any rules matches everyone, so it is stored as null. */
+export function normalizeSegment(segment: NewsletterSegment | null | undefined): NewsletterSegment | null {
+  return !segment || isEmptySegment(segment) ? null : segment;
+}
+
+/**
+ * Validate a segment read back from the database. Throws on malformed rules
+ * rather than silently falling back to every subscriber.
+ */
+export function parseSegment(value: unknown): NewsletterSegment | null {
+  if (value === null || value === undefined) return null;
+  return normalizeSegment(newsletterSegmentSchema.parse(value));
+}
+
+/**
+ * Where-clause for the active subscribers matched by a segment. Every rule
+ * that is set must match; within a rule any one listed value is enough.
+ */
+export function buildSegmentWhere(segment: NewsletterSegment | null | undefined) {
+  const rules: Record<string, unknown>[] = [];
+
+  if (segment?.tags?.length) {
+    rules.push({ subscriberTags: { some: { tagId: { in: segment.tags } } } });
+  }
+  if (segment?.exclude_tags?.length) {
+    rules.push({ subscriberTags: { none: { tagId: { in: segment.exclude_tags } } } });
+  }
+  if (segment?.categories?.length) {
+    rules.push({
+      OR: segment.categories.map((category) => ({
+        preferences: { path: ['categories'], array_contains: [category] },
+      })),
+    });
+  }
+  if (segment?.frequencies?.length) {
+    rules.push({
+      OR: segment.frequencies.map((frequency) => ({
+        preferences: { path: ['frequency'], equals: frequency },
+      })),
+    });
+  }
+  if (segment?.locations?.length) {
+    rules.push({
+      OR: segment.locations.map((location) => ({
+        location: { equals: location, mode: 'insensitive' },
+      })),
+    });
+  }
+  if (segment?.signed_up_after) {
+    rules.push({ createdAt: { gte: new Date(segment.signed_up_after) } });
+  }
+  if (segment?.signed_up_before) {
+    rules.push({ createdAt: { lte: new Date(segment.signed_up_before) } });
+  }
+
+  return rules.length > 0 ? { ...ACTIVE_SUBSCRIBER_WHERE, AND: rules } : { ...ACTIVE_SUBSCRIBER_WHERE };
+}
+
+export async function countSegmentRecipients(segment: NewsletterSegment | null | undefined): Promise<number> {
+  return db.newsletterSubscriber.count({ where: buildSegmentWhere(segment) });
+}
@@ -0,0 +1,182 @@
+import { db } from './db';
+import { createSignedToken, verifySignedToken } from './signed-tokens';
+
+/**
+ * Open and click tracking for newsletter sends.
+ *
+ * Tracking is enabled per newsletter and skipped for subscribers who opted
+ * out in their preferences. A tracked email gets a 1x1 pixel and has its
+ * links rewritten through a redirect; both carry a signed `NewsletterSend` id,
+ * so events can't be forged for other sends and the redirect can't be used to
+ * send visitors to arbitrary sites. The plain-text part is left untracked.
+ */
+
+export type TrackingEventType = 'open' | 'click';
+
+export interface NewsletterEngagement {
+  tracked: number;
+  opened: number;
+  clicked: number;
+  opens: number;
+  clicks: number;
+}
+
+// Transparent 1x1 GIF
+export const TRACKING_PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+// Links that must keep working untracked (and never count as engagement)
+const UNTRACKED_PATHS = ['/unsubscribe', '/newsletter/preferences', '/newsletter/archive/', '/api/newsletter/'];
+
+/**
+ * Whether the subscriber allows tracking. Missing means allowed; only an
+ * explicit `tracking: false` in their preferences opts them out.
+ */
+export function isTrackingAllowed(preferences: unknown): boolean {
+  if (!preferences || typeof preferences !== 'object') return true;
+  return (preferences as { tracking?: unknown }).tracking !== false;
+}
+
+export function createOpenTrackingUrl(baseUrl: string, sendId: string): string {
+  return `${baseUrl}/api/newsletter/track/open?t=${createSignedToken('track_open', sendId)}`;
+}
+
+export function createClickTrackingUrl(baseUrl: string, sendId: string, url: string): string {
+  // Send ids are UUIDs, so the first space separates them from the URL
+  return `${baseUrl}/api/newsletter/track/click?t=${createSignedToken('track_click', `${sendId} ${url}`)}`;
+}
+
+function isTrackableUrl(url: string, baseUrl: string): boolean {
+  if (!/^https?:\/\//i.test(url)) return false;
+  if (!url.startsWith(baseUrl)) return true;
+  const path = url.slice(baseUrl.length);
+  return !UNTRACKED_PATHS.some((untracked) => path.startsWith(untracked));
+}
+
+/**
+ * Rewrite the links in rendered newsletter HTML through the click redirect
+ * and append the open pixel.
+ */
+export function addTracking(html: string, baseUrl: string, sendId: string): string {
+  const withLinks = html.replace(
+    /(<a\b[^>]*?\shref=")([^"]+)(")/gi,
+    (match, before: string, href: string, after: string) => {
+      const url = href.replace(/&amp;/g, '&');
+      if (!isTrackableUrl(url, baseUrl)) return match;
+      return `${before}${createClickTrackingUrl(baseUrl, sendId, url)}${after}`;
+    },
+  );
+
+  const pixel = `<img src="${createOpenTrackingUrl(baseUrl, sendId)}" width="1" height="1" alt="" style="display:none;border:0;" />`;
+
+  // Keep the pixel inside the document when the email has a full layout
+  const bodyEnd = withLinks.search(/<\/body>/i);
+  return bodyEnd === -1 ? `${withLinks}${pixel}` : `${withLinks.slice(0, bodyEnd)}${pixel}${withLinks.slice(bodyEnd)}`;
+}
+
+/**
+ * Record an open or click against a send. Returns false, without recording,
+ * when the send wasn't tracked or the subscriber has since opted out.
+ */
+export async function recordSendEvent(sendId: string, type: TrackingEventType, url: string | null): Promise<boolean> {
+  const send = await db.newsletterSend.findUnique({
+    where: { id: sendId },
+    select: { tracked: true, subscriber: { select: { preferences: true } } },
+  });
+
+  // Respect an opt-out made after the email was sent
+  if (!send?.tracked || !isTrackingAllowed(send.subscriber.preferences)) {
+    return false;
+  }
+
+  const now = new Date();
+  await db.newsletterSend.update({
+    where: { id: sendId },
+    data: type === 'open' ? { openCount: { increment: 1 } } : { clickCount: { increment: 1 } },
+  });
+  // A click proves the email was opened even when images were blocked
+  await db.newsletterSend.updateMany({
+    where: { id: sendId, openedAt: null },
+    data: { openedAt: now },
+  });
+  if (type === 'click') {
+    await db.newsletterSend.updateMany({
+      where: { id: sendId, clickedAt: null },
+      data: { clickedAt: now },
+    });
+  }
+
+  await db.newsletterSendEvent.create({
+    data: { sendId, type, url },
+  });
+
+  return true;
+}
+
+export async function recordOpen(token: string): Promise<void> {
+  const verified = verifySignedToken('track_open', token);
+  if (!verified.valid) return;
+
+  await recordSendEvent(verified.subject, 'open', null);
+}
+
+/**
+ * Record a click and return the link target, or null when the token is not
+ * valid. The target is returned even if the event isn't recorded.
+ */
+export async function recordClick(token: string): Promise<string | null> {
+  const verified = verifySignedToken('track_click', token);
+  if (!verified.valid) return null;
+
+  const separator = verified.subject.indexOf(' ');
+  const sendId = verified.subject.slice(0, separator);
+  const url = verified.subject.slice(separator + 1);
+  if (separator <= 0 || !/^https?:\/\//i.test(url)) return null;
+
+  try {
+    await recordSendEvent(sendId, 'click', url);
+  } catch (error) {
+    // Never keep the reader from their link because tracking failed
+    console.error('Error recording newsletter click:', error);
+  }
+
+  return url;
+}
+
+/**
+ * Unique and total opens and clicks per newsletter, over sends that were
+ * delivered with tracking.
+ */
+export async function getNewsletterEngagement(newsletterIds: string[]): Promise<Map<string, NewsletterEngagement>> {
+  const engagement = new Map<string, NewsletterEngagement>();
+  if (newsletterIds.length === 0) return engagement;
+
+  const groups = await db.newsletterSend.groupBy({
+    by: ['newsletterId'],
+    where: { newsletterId: { in: newsletterIds }, status: 'sent', tracked: true },
+    _count: { _all: true, openedAt: true, clickedAt: true },
+    _sum: { openCount: true, clickCount: true },
+  });
+
+  for (const group of groups as Array<{
+    newsletterId: string;
+    _count: { _all: number; openedAt: number; clickedAt: number };
+    _sum: { openCount: number | null; clickCount: number | null };
+  }>) {
+    engagement.set(group.newsletterId, {
+      tracked: group._count._all,
+      opened: group._count.openedAt,
+      clicked: group._count.clickedAt,
+      opens: group._sum.openCount ?? 0,
+      clicks: group._sum.clickCount ?? 0,
+    });
+  }
+
+  return engagement;
+}
+
+/**
+ * Percentage with one decimal place, 0 when there is nothing to divide by.
+ */
+export function toRate(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 1000) / 10 : 0;
+}
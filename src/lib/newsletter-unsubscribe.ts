@@ -0,0 +1,88 @@
+import { db } from './db';
+import { resolveSubscriberLinkToken } from './subscriber-links';
+
+/**
+ * Unsubscribing by emailed token, shared by the unsubscribe page's form and
+ * the RFC 8058 one-click endpoint that mailbox providers POST to, and by
+ * subscriber id for hard bounces and complaints reported by Resend.
+ *
+ * Unsubscribing is idempotent: a repeated request for a subscriber who has
+ * already left succeeds without changing their stored reason or writing a
+ * second audit entry.
+ */
+
+export type UnsubscribeMethod = 'form' | 'one_click' | 'webhook';
+
+export interface UnsubscribeOptions {
+  method: UnsubscribeMethod;
+  reason?: string | null;
+  feedback?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  // Extra context for the audit entry
+  details?: Record<string, unknown>;
+}
+
+export type UnsubscribeResult =
+  | { status: 'unsubscribed' | 'already_unsubscribed'; subscriberId: string }
+  | { status: 'invalid' };
+
+// Stored as the unsubscribe reason when a mailbox provider's button was used
+export const ONE_CLICK_REASON = 'one_click';
+// Stored as the unsubscribe reason when Resend reports the address as dead or abusive
+export const HARD_BOUNCE_REASON = 'hard_bounce';
+export const COMPLAINT_REASON = 'spam_complaint';
+
+/**
+ * URL for the List-Unsubscribe header: the one-click endpoint, which also
+ * redirects plain GETs to the unsubscribe page.
+ */
+export function getOneClickUnsubscribeUrl(baseUrl: string, token: string): string {
+  return `${baseUrl}/api/newsletter/unsubscribe/one-click?token=${encodeURIComponent(token)}`;
+}
+
+export async function unsubscribeByToken(token: string, options: UnsubscribeOptions): Promise<UnsubscribeResult> {
+  const subscriberId = await resolveSubscriberLinkToken('unsubscribe', token);
+  return subscriberId ? unsubscribeSubscriber(subscriberId, options) : { status: 'invalid' };
+}
+
+export async function unsubscribeSubscriber(subscriberId: string, options: UnsubscribeOptions): Promise<UnsubscribeResult> {
+  const subscriber = await db.newsletterSubscriber.findUnique({
+    where: { id: subscriberId },
+    select: { id: true, isSubscribed: true },
+  });
+
+  if (!subscriber) {
+    return { status: 'invalid' };
+  }
+
+  const reason = options.reason || (options.method === 'one_click' ? ONE_CLICK_REASON : null);
+
+  // Conditional update so concurrent requests (providers retry) unsubscribe once
+  const { count } = await db.newsletterSubscriber.updateMany({
+    where: { id: subscriber.id, isSubscribed: true },
+    data: {
+      isSubscribed: false,
+      unsubscribeReason: reason,
+      unsubscribeFeedback: options.feedback || null,
+      updatedAt: new Date(),
+    },
+  });
+
+  if (count === 0) {
+    return { status: 'already_unsubscribed', subscriberId: subscriber.id };
+  }
+
+  // Log audit event
+  await db.newsletterAuditLog.create({
+    data: {
+      subscriberId: subscriber.id,
+      action: 'unsubscribed',
+      details: { reason, feedback: options.feedback || null, method: options.method, ...options.details },
+      ipAddress: options.ipAddress ?? null,
+      userAgent: options.userAgent ?? null,
+    },
+  });
+
+  return { status: 'unsubscribed', subscriberId: subscriber.id };
+}
@@ -0,0 +1,86 @@
+/**
+ * Admin roles and what each may do.
+ *
+ * Every admin API route names the permission it needs (see
+ * `secureAdminRoute`), and the admin sidebar hides sections the signed-in
+ * role can't open. Some routes check a second permission for part of what
+ * they do, such as publishing a post or sending a newsletter.
+ *
+ * This module has no server dependencies so client components can use it.
+ */
+
+export const PERMISSIONS = [
+  'blog:view',
+  'blog:edit',
+  'blog:publish',
+  'projects:view',
+  'projects:edit',
+  'newsletter:view',
+  'newsletter:edit',
+  'newsletter:send',
+  'subscribers:view',
+  'subscribers:edit',
+  'subscribers:export',
+  'subscribers:erase',
+  'email:manage',
+  'performance:view',
+  'users:manage',
+  'account:manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ROLES = ['owner', 'editor', 'newsletter_manager', 'viewer'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  newsletter_manager: 'Newsletter manager',
+  viewer: 'Viewer',
+};
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  owner: PERMISSIONS,
+  editor: [
+    'blog:view',
+    'blog:edit',
+    'blog:publish',
+    'projects:view',
+    'projects:edit',
+    'performance:view',
+    'account:manage',
+  ],
+  newsletter_manager: [
+    'newsletter:view',
+    'newsletter:edit',
+    'newsletter:send',
+    'subscribers:view',
+    'subscribers:edit',
+    'subscribers:export',
+    'performance:view',
+    'account:manage',
+  ],
+  viewer: [
+    'blog:view',
+    'projects:view',
+    'newsletter:view',
+    'subscribers:view',
+    'performance:view',
+    'account:manage',
+  ],
+};
+
+/** Whether the role can sign in to the admin at all; profiles default to 'user', which can't. */
+export function isAdminRole(role: string): role is Role {
+  return (ROLES as readonly string[]).includes(role);
+}
+
+export function getPermissions(role: string): readonly Permission[] {
+  return isAdminRole(role) ? ROLE_PERMISSIONS[role] : [];
+}
+
+export function hasPermission(role: string, permission: Permission): boolean {
+  return getPermissions(role).includes(permission);
+}
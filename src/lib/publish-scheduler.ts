@@ -0,0 +1,42 @@
+import { db } from './db';
+
+/**
+ * Where-clause for blog posts and projects that are publicly visible: either
+ * published, or scheduled with a publish time that has already passed but not
+ * yet flipped by the scheduler.
+ */
+export function publiclyVisibleWhere(now: Date = new Date()) {
+  return {
+    OR: [
+      { status: 'published' },
+      { status: 'scheduled', publishedAt: { lte: now } },
+    ],
+  };
+}
+
+/**
+ * Flip every scheduled blog post and project whose publish time has passed to
+ * `published`.
+ */
+export async function publishDueContent(now: Date = new Date()): Promise<{ blogPosts: number; projects: number }> {
+  const where = { status: 'scheduled', publishedAt: { lte: now } };
+
+  const [blogPosts, projects] = await Promise.all([
+    db.blogPost.updateMany({ where, data: { status: 'published' } }),
+    db.project.updateMany({ where, data: { status: 'published' } }),
+  ]);
+
+  if (blogPosts.count > 0 || projects.count > 0) {
+    console.log('AUDIT:', {
+      userId: null,
+      userEmail: 'scheduler',
+      action: 'scheduled_content_published',
+      resourceType: 'BlogPost,Project',
+      resourceId: null,
+      details: { blogPosts: blogPosts.count, projects: projects.count },
+      timestamp: now.toISOString(),
+    });
+  }
+
+  return { blogPosts: blogPosts.count, projects: projects.count };
+}
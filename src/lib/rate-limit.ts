@@ -190,6 +190,20 @@ export const authLimiter = new RateLimiter({
   prefix: 'auth:',
 });
 
+// Reset emails per target address, so one address can't be flooded
+export const passwordResetLimiter = new RateLimiter({
+  maxRequests: 3,
+  windowMs: 60 * 60 * 1000, // 1 hour
+  prefix: 'password-reset:',
+});
+
+// Subscriber data request emails per target address, for the same reason
+export const dataRequestLimiter = new RateLimiter({
+  maxRequests: 3,
+  windowMs: 60 * 60 * 1000, // 1 hour
+  prefix: 'data-request:',
+});
+
 export const apiLimiter = new RateLimiter({
   maxRequests: 100,
   windowMs: 60 * 60 * 1000, // 1 hour
@@ -202,13 +216,14 @@ export const adminLimiter = new RateLimiter({
   prefix: 'admin:',
 });
 
+// A function identifier gives each caller its own budget, e.g. keyed by client IP
 export function withRateLimit(
   limiter: RateLimiter,
-  identifier: string,
+  identifier: string | ((req: NextRequest) => string),
   handler: (req: NextRequest) => Promise<NextResponse>
 ) {
   return async (req: NextRequest) => {
-    const result = await limiter.check(identifier);
+    const result = await limiter.check(typeof identifier === 'function' ? identifier(req) : identifier);
 
     if (!result.success) {
       return new NextResponse(
@@ -245,6 +260,8 @@ export async function cleanupRateLimits() {
   await Promise.all([
     contactFormLimiter.cleanup(),
     authLimiter.cleanup(),
+    passwordResetLimiter.cleanup(),
+    dataRequestLimiter.cleanup(),
     apiLimiter.cleanup(),
   ]);
 }
@@ -0,0 +1,259 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { db } from './db';
+import { recordSendEvent } from './newsletter-tracking';
+import { COMPLAINT_REASON, HARD_BOUNCE_REASON, unsubscribeSubscriber } from './newsletter-unsubscribe';
+import { suppressEmail } from './email-suppression';
+
+/**
+ * Resend webhook ingestion.
+ *
+ * Resend signs webhooks the Svix way: the `svix-signature` header holds one
+ * or more `v1,<base64 HMAC-SHA256>` signatures of `${id}.${timestamp}.${body}`,
+ * keyed with the base64 part of the `whsec_...` signing secret
+ * (RESEND_WEBHOOK_SECRET). Events are matched to a `NewsletterSend` by the
+ * Resend email id stored as its `messageId`. Hard bounces and complaints put
+ * the recipient on the suppression list and unsubscribe them, whether or not
+ * the email was a newsletter.
+ *
+ * Each delivery's `svix-id` is recorded as a ProcessedWebhook before it is
+ * applied, so a retry of one that already went through is skipped rather than
+ * counted twice.
+ */
+
+export interface WebhookHeaders {
+  id: string | null;
+  timestamp: string | null;
+  signature: string | null;
+}
+
+export interface ResendWebhookEvent {
+  type: string;
+  created_at: string;
+  data: {
+    email_id: string;
+    to?: string[];
+    bounce?: {
+      type?: string;
+      subType?: string;
+      message?: string;
+    };
+  };
+}
+
+export type WebhookOutcome = 'processed' | 'unmatched' | 'ignored' | 'duplicate';
+
+// Reject signed requests older (or newer) than this to stop replays
+export const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+// Resend stops retrying a delivery long before processed ids are forgotten
+export const PROCESSED_WEBHOOK_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const HANDLED_EVENTS = new Set(['email.delivered', 'email.bounced', 'email.complained', 'email.opened']);
+
+export function getWebhookHeaders(request: Request): WebhookHeaders {
+  return {
+    id: request.headers.get('svix-id'),
+    timestamp: request.headers.get('svix-timestamp'),
+    signature: request.headers.get('svix-signature'),
+  };
+}
+
+/**
+ * Check a webhook's signature against the raw request body. The body must be
+ * exactly as received: re-serialised JSON will not verify.
+ */
+export function verifyWebhookSignature(
+  payload: string,
+  headers: WebhookHeaders,
+  secret: string | undefined = process.env.RESEND_WEBHOOK_SECRET,
+  now: Date = new Date(),
+): boolean {
+  if (!secret) {
+    console.error('RESEND_WEBHOOK_SECRET environment variable must be set to accept Resend webhooks');
+    return false;
+  }
+
+  const { id, timestamp, signature } = headers;
+  if (!id || !timestamp || !signature || !/^\d+$/.test(timestamp)) {
+    return false;
+  }
+
+  if (Math.abs(now.getTime() / 1000 - Number(timestamp)) > WEBHOOK_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+  const expected = Buffer.from(
+    createHmac('sha256', key).update(`${id}.${timestamp}.${payload}`).digest('base64'),
+  );
+
+  // Several signatures are sent while the secret is being rotated
+  return signature.split(' ').some((versioned) => {
+    const [version, value] = versioned.split(',');
+    if (version !== 'v1' || !value) return false;
+    const provided = Buffer.from(value);
+    return provided.length === expected.length && timingSafeEqual(provided, expected);
+  });
+}
+
+async function suppressRecipient(event: ResendWebhookEvent, reason: string): Promise<boolean> {
+  const email = event.data.to?.[0];
+  if (!email) return false;
+
+  await suppressEmail({
+    value: email,
+    reason,
+    source: 'webhook',
+    note: `Resend email ${event.data.email_id}`,
+  });
+  return true;
+}
+
+async function findSubscriberId(event: ResendWebhookEvent, send: { subscriberId: string } | null): Promise<string | null> {
+  if (send) return send.subscriberId;
+
+  // Welcome and confirmation emails have no send row; fall back to the recipient
+  const email = event.data.to?.[0]?.toLowerCase();
+  if (!email) return null;
+
+  const subscriber = await db.newsletterSubscriber.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+  return subscriber?.id ?? null;
+}
+
+const isUniqueViolation = (error: unknown) =>
+  !!error && typeof error === 'object' && 'code' in error && error.code === 'P2002';
+
+/** Record a delivery id as processed. Returns false when it already was. */
+async function claimWebhook(id: string, type: string, now: Date): Promise<boolean> {
+  // Tidy up ids too old to be retried while we're here
+  await db.processedWebhook.deleteMany({
+    where: { createdAt: { lt: new Date(now.getTime() - PROCESSED_WEBHOOK_RETENTION_MS) } },
+  });
+
+  try {
+    await db.processedWebhook.create({ data: { id, type, createdAt: now } });
+    return true;
+  } catch (error) {
+    if (isUniqueViolation(error)) return false;
+    throw error;
+  }
+}
+
+/**
+ * Apply a verified Resend event. Resend retries deliveries until it gets a
+ * 2xx response; pass the delivery's `svix-id` so a retry of one that was
+ * already applied is skipped. A failure releases the id so the retry is
+ * applied instead.
+ */
+export async function handleResendEvent(
+  event: ResendWebhookEvent,
+  webhookId: string | null = null,
+  now: Date = new Date(),
+): Promise<WebhookOutcome> {
+  if (!HANDLED_EVENTS.has(event.type) || !event.data?.email_id) {
+    return 'ignored';
+  }
+
+  if (!webhookId) {
+    return applyResendEvent(event);
+  }
+
+  if (!(await claimWebhook(webhookId, event.type, now))) {
+    return 'duplicate';
+  }
+
+  try {
+    return await applyResendEvent(event);
+  } catch (error) {
+    await db.processedWebhook.deleteMany({ where: { id: webhookId } });
+    throw error;
+  }
+}
+
+async function applyResendEvent(event: ResendWebhookEvent): Promise<WebhookOutcome> {
+  const occurredAt = new Date(event.created_at);
+  const at = Number.isNaN(occurredAt.getTime()) ? new Date() : occurredAt;
+
+  const send = await db.newsletterSend.findFirst({
+    where: { messageId: event.data.email_id },
+    select: { id: true, subscriberId: true },
+  });
+
+  switch (event.type) {
+    case 'email.delivered': {
+      if (!send) return 'unmatched';
+      await db.newsletterSend.updateMany({
+        where: { id: send.id, deliveredAt: null },
+        data: { deliveredAt: at },
+      });
+      return 'processed';
+    }
+
+    case 'email.opened': {
+      if (!send) return 'unmatched';
+      await recordSendEvent(send.id, 'open', null);
+      return 'processed';
+    }
+
+    case 'email.bounced': {
+      const bounceType = event.data.bounce?.type || 'Undetermined';
+      const hardBounce = bounceType === 'Permanent';
+
+      if (send) {
+        await db.newsletterSend.updateMany({
+          where: { id: send.id, bouncedAt: null },
+          data: {
+            bouncedAt: at,
+            bounceType,
+            errorMessage: event.data.bounce?.message || 'Bounced',
+            ...(hardBounce ? { status: 'bounced' } : {}),
+          },
+        });
+      }
+
+      // Soft bounces (full mailbox, greylisting) may still deliver next time
+      if (!hardBounce) return send ? 'processed' : 'unmatched';
+
+      const suppressed = await suppressRecipient(event, HARD_BOUNCE_REASON);
+      const subscriberId = await findSubscriberId(event, send);
+      if (!subscriberId) return send || suppressed ? 'processed' : 'unmatched';
+
+      await unsubscribeSubscriber(subscriberId, {
+        method: 'webhook',
+        reason: HARD_BOUNCE_REASON,
+        details: {
+          email_id: event.data.email_id,
+          bounce_type: bounceType,
+          bounce_sub_type: event.data.bounce?.subType ?? null,
+        },
+      });
+      return 'processed';
+    }
+
+    case 'email.complained': {
+      if (send) {
+        await db.newsletterSend.updateMany({
+          where: { id: send.id, complainedAt: null },
+          data: { complainedAt: at },
+        });
+      }
+
+      const suppressed = await suppressRecipient(event, COMPLAINT_REASON);
+      const subscriberId = await findSubscriberId(event, send);
+      if (!subscriberId) return send || suppressed ? 'processed' : 'unmatched';
+
+      await unsubscribeSubscriber(subscriberId, {
+        method: 'webhook',
+        reason: COMPLAINT_REASON,
+        details: { email_id: event.data.email_id },
+      });
+      return 'processed';
+    }
+
+    default:
+      return 'ignored';
+  }
+}
@@ -4,8 +4,13 @@
 
 import { Resend } from "resend";
 import { db } from "./db";
+import { getOneClickUnsubscribeUrl } from "./newsletter-unsubscribe";
+import { checkSuppression } from "./email-suppression";
+import { sendMail } from "./mail-transport";
+import { getFromAddress, renderEmailTemplate } from "./email-templates";
 
-// Lazy-load Resend client to avoid initialization during build time
+// Lazy-load Resend client to avoid initialization during build time. Only the
+// domain authentication helpers use it directly; mail goes through sendMail.
 let resendInstance: Resend | null = null;
 
 function getResend(): Resend {
@@ -21,6 +26,17 @@ function getResend(): Resend {
 // Get domain from environment variable, fallback for backward compatibility
 const DOMAIN = process.env.RESEND_DOMAIN || "oluwabamiseomolaso.com.ng";
 
+function getReplyTo(): string {
+  return (
+    process.env.CONTACT_EMAIL ||
+    process.env.RESEND_FROM_EMAIL ||
+    (() => {
+      console.error("CONTACT_EMAIL or RESEND_FROM_EMAIL must be set");
+      return "noreply@example.com"; // Fallback for development only
+    })()
+  );
+}
+
 export async function sendWelcomeEmail(
   email: string,
   name: string,
@@ -28,70 +44,34 @@ export async function sendWelcomeEmail(
   preferencesToken: string,
 ) {
   try {
-    const unsubscribeUrl = `${process.env.NEXT_PUBLIC_SITE_URL || process.env.NEXT_PUBLIC_BASE_URL || "http://localhost:3000"}/unsubscribe?token=${unsubscribeToken}`;
-    const preferencesUrl = `${process.env.NEXT_PUBLIC_SITE_URL || process.env.NEXT_PUBLIC_BASE_URL || "http://localhost:3000"}/newsletter/preferences?token=${preferencesToken}`;
+    if (await checkSuppression(email, "welcome")) {
+      return null;
+    }
+
+    const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || process.env.NEXT_PUBLIC_BASE_URL || "http://localhost:3000";
+    const unsubscribeUrl = `${baseUrl}/unsubscribe?token=${encodeURIComponent(unsubscribeToken)}`;
+    const preferencesUrl = `${baseUrl}/newsletter/preferences?token=${encodeURIComponent(preferencesToken)}`;
 
     const subscriber = await db.newsletterSubscriber.findUnique({
       where: { email },
       select: { unsubscribeReason: true, unsubscribeFeedback: true },
     });
 
-    const isResubscription = subscriber?.unsubscribeReason != null;
-    const firstName = name.split(" ")[0];
-
-    const { data, error } = await getResend().emails.send({
-      from: `Bamise Omolaso <${process.env.RESEND_FROM_EMAIL}>`,
-      replyTo:
-        process.env.CONTACT_EMAIL ||
-        process.env.RESEND_FROM_EMAIL ||
-        (() => {
-          console.error("CONTACT_EMAIL or RESEND_FROM_EMAIL must be set");
-          return "noreply@example.com"; // Fallback for development only
-        })(),
+    const rendered = await renderEmailTemplate("welcome", {
+      firstName: name.split(" ")[0],
+      isResubscription: subscriber?.unsubscribeReason != null,
+      preferencesUrl,
+      unsubscribeUrl,
+    });
+
+    const { id, error } = await sendMail({
+      from: getFromAddress(),
+      replyTo: getReplyTo(),
       to: email,
-      subject: isResubscription
-        ? `Welcome back, ${firstName}`
-        : `Welcome, ${firstName}`,
-      html: `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-          <h1 style="color: #4F46E5; margin-bottom: 24px;">Welcome to My Newsletter!</h1>
-          
-          <p>Hi ${firstName},</p>
-          
-          ${
-            isResubscription
-              ? `
-            <p>I'm glad to have you back! I've been working on creating valuable content, and I'm excited to share it with you.</p>
-            <p>You'll be the first to receive my latest insights and updates.</p>
-          `
-              : `
-            <p>Thank you for joining my community. I'm excited to share my insights and updates with you.</p>
-            <p>You'll receive updates about:</p>
-            <ul>
-              <li>Healthcare data science applications</li>
-              <li>AI developments in medicine</li>
-              <li>Cloud technology in healthcare</li>
-            </ul>
-          `
-          }
-
-          <p>Feel free to reply to this email if you have any questions.</p>
-          
-          <p>Best regards,<br>Bamise</p>
-          
-          <div style="margin-top: 40px; padding-top: 20px; border-top: 1px solid #eee; font-size: 12px; color: #666; text-align: center;">
-            <p style="margin-bottom: 10px;">
-              <a href="${preferencesUrl}" style="color: #4F46E5; text-decoration: none; margin: 0 10px;">Update Preferences</a> | 
-              <a href="${unsubscribeUrl}" style="color: #4F46E5; text-decoration: none; margin: 0 10px;">Unsubscribe</a>
-            </p>
-            <p style="margin-top: 10px;">
-              Lagos, Nigeria
-            </p>
-          </div>
-        </div>
-      `,
+      ...rendered,
       headers: {
-        "List-Unsubscribe": `<${unsubscribeUrl}>`,
+        "List-Unsubscribe": `<${getOneClickUnsubscribeUrl(baseUrl, unsubscribeToken)}>`,
+        "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
         Precedence: "bulk",
         "X-Auto-Response-Suppress": "OOF",
       },
@@ -99,21 +79,143 @@ export async function sendWelcomeEmail(
 
     if (error) {
       console.error("Error sending welcome email:", error);
-      throw error;
+      throw new Error(error.message);
     }
 
-    return data;
+    return { id };
   } catch (error) {
     console.error("Error in sendWelcomeEmail:", error);
     throw error;
   }
 }
 
+export async function sendConfirmationEmail(
+  email: string,
+  name: string,
+  confirmationToken: string,
+) {
+  try {
+    if (await checkSuppression(email, "confirmation")) {
+      return null;
+    }
+
+    const confirmUrl = `${process.env.NEXT_PUBLIC_SITE_URL || process.env.NEXT_PUBLIC_BASE_URL || "http://localhost:3000"}/newsletter/confirm?token=${encodeURIComponent(confirmationToken)}`;
+
+    const rendered = await renderEmailTemplate("confirmation", {
+      firstName: name.split(" ")[0] || "there",
+      confirmUrl,
+      expiresInHours: 48,
+    });
+
+    const { id, error } = await sendMail({
+      from: getFromAddress(),
+      replyTo: getReplyTo(),
+      to: email,
+      ...rendered,
+      headers: {
+        "X-Auto-Response-Suppress": "OOF",
+      },
+    });
+
+    if (error) {
+      console.error("Error sending confirmation email:", error);
+      throw new Error(error.message);
+    }
+
+    return { id };
+  } catch (error) {
+    console.error("Error in sendConfirmationEmail:", error);
+    throw error;
+  }
+}
+
+export async function sendDataRequestEmail(
+  email: string,
+  type: "export" | "erasure",
+  url: string,
+  expiresInHours: number,
+) {
+  try {
+    if (await checkSuppression(email, "data_request")) {
+      return null;
+    }
+
+    const rendered =
+      type === "export"
+        ? await renderEmailTemplate("data_export", { email, downloadUrl: url, expiresInHours })
+        : await renderEmailTemplate("data_erasure", { email, confirmUrl: url, expiresInHours });
+
+    const { id, error } = await sendMail({
+      from: getFromAddress(),
+      replyTo: getReplyTo(),
+      to: email,
+      ...rendered,
+      headers: {
+        "X-Auto-Response-Suppress": "OOF",
+      },
+    });
+
+    if (error) {
+      console.error("Error sending data request email:", error);
+      throw new Error(error.message);
+    }
+
+    return { id };
+  } catch (error) {
+    console.error("Error in sendDataRequestEmail:", error);
+    throw error;
+  }
+}
+
+export async function sendAdminAccountEmail(
+  email: string,
+  type: "invite" | "reset",
+  url: string,
+  expiresInHours: number,
+  invite?: { name: string | null; inviterEmail: string },
+) {
+  try {
+    if (await checkSuppression(email, "admin_account")) {
+      return null;
+    }
+
+    const rendered =
+      type === "invite"
+        ? await renderEmailTemplate("admin_invite", {
+            name: invite?.name ?? null,
+            inviterEmail: invite?.inviterEmail ?? "",
+            setupUrl: url,
+            expiresInHours,
+          })
+        : await renderEmailTemplate("password_reset", { email, resetUrl: url, expiresInHours });
+
+    const { id, error } = await sendMail({
+      from: getFromAddress(),
+      replyTo: getReplyTo(),
+      to: email,
+      ...rendered,
+      headers: {
+        "X-Auto-Response-Suppress": "OOF",
+      },
+    });
+
+    if (error) {
+      console.error("Error sending admin account email:", error);
+      throw new Error(error.message);
+    }
+
+    return { id };
+  } catch (error) {
+    console.error("Error in sendAdminAccountEmail:", error);
+    throw error;
+  }
+}
+
 export async function sendAdminNotification(email: string, name?: string) {
   try {
     // Get total subscriber count and location data
     const subscribers = await db.newsletterSubscriber.findMany({
-      where: { isSubscribed: true, isDeleted: false },
+      where: { isSubscribed: true, isDeleted: false, confirmedAt: { not: null } },
       select: { id: true, createdAt: true, location: true },
     });
 
@@ -135,70 +237,39 @@ export async function sendAdminNotification(email: string, name?: string) {
       {},
     );
 
-    const locationList = Object.entries(locationStats)
-      .map(([location, count]) => `${location}: ${count}`)
-      .join("<br>");
-
     const contactEmail = process.env.CONTACT_EMAIL;
     if (!contactEmail) {
       throw new Error("CONTACT_EMAIL environment variable must be set");
     }
 
-    const { data, error } = await getResend().emails.send({
-      from: `Bamise Omolaso <${process.env.RESEND_FROM_EMAIL}>`,
+    if (await checkSuppression(contactEmail, "admin_notification")) {
+      return null;
+    }
+
+    const rendered = await renderEmailTemplate("admin_notification", {
+      email,
+      name: name || null,
+      subscribedAt: new Date().toLocaleString(),
+      totalSubscribers,
+      newSubscribersToday,
+      locations: Object.entries(locationStats).map(([location, count]) => ({
+        location,
+        count: count as number,
+      })),
+    });
+
+    const { id, error } = await sendMail({
+      from: getFromAddress(),
       to: contactEmail,
-      subject: "🎉 New Newsletter Subscriber!",
-      html: `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-          <h1 style="color: #4F46E5;">New Newsletter Subscriber!</h1>
-          
-          <div style="background-color: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
-            <p style="font-size: 16px; line-height: 1.5; color: #333; margin: 0;">
-              <strong>Email:</strong> ${email}
-            </p>
-            ${
-              name
-                ? `
-            <p style="font-size: 16px; line-height: 1.5; color: #333; margin: 10px 0 0 0;">
-              <strong>Name:</strong> ${name}
-            </p>
-            `
-                : ""
-            }
-            <p style="font-size: 16px; line-height: 1.5; color: #333; margin: 10px 0 0 0;">
-              <strong>Subscribed at:</strong> ${new Date().toLocaleString()}
-            </p>
-          </div>
-
-          <div style="background-color: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
-            <h2 style="color: #4F46E5; font-size: 18px; margin-bottom: 10px;">Subscriber Statistics</h2>
-            <p style="font-size: 16px; line-height: 1.5; color: #333; margin: 0;">
-              <strong>Total Subscribers:</strong> ${totalSubscribers}
-            </p>
-            <p style="font-size: 16px; line-height: 1.5; color: #333; margin: 10px 0 0 0;">
-              <strong>New Subscribers Today:</strong> ${newSubscribersToday}
-            </p>
-            <p style="font-size: 16px; line-height: 1.5; color: #333; margin: 10px 0 0 0;">
-              <strong>Subscriber Locations:</strong>
-            </p>
-            <div style="margin-top: 10px; padding-left: 20px;">
-              ${locationList}
-            </div>
-          </div>
-
-          <p style="font-size: 16px; line-height: 1.5; color: #333;">
-            Someone has subscribed to your newsletter! 🎉
-          </p>
-        </div>
-      `,
+      ...rendered,
     });
 
     if (error) {
       console.error("Error sending admin notification:", error);
-      throw error;
+      throw new Error(error.message);
     }
 
-    return data;
+    return { id };
   } catch (error) {
     console.error("Error in sendAdminNotification:", error);
     throw error;
@@ -297,4 +368,3 @@ export async function getEmailAuthenticationStatus() {
   }
 }
 
-export { getResend as resend };
@@ -0,0 +1,43 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+/**
+ * AES-256-GCM encryption for secrets stored in the database, such as TOTP
+ * seeds. The key is derived from TWO_FACTOR_ENCRYPTION_KEY (falling back to
+ * JWT_SECRET), so a database dump alone doesn't reveal them. Changing the key
+ * makes existing values undecryptable.
+ *
+ * Stored values look like `v1.<iv>.<auth tag>.<ciphertext>`, base64url encoded.
+ */
+
+const VERSION = 'v1';
+const IV_BYTES = 12;
+
+function getKey(): Buffer {
+  const secret = process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('TWO_FACTOR_ENCRYPTION_KEY or JWT_SECRET must be set to encrypt secrets');
+  }
+  return createHash('sha256').update(`secret-encryption:${secret}`).digest();
+}
+
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => (typeof part === 'string' ? part : part.toString('base64url')))
+    .join('.');
+}
+
+/** Throws when the value was tampered with or encrypted under another key. */
+export function decryptSecret(value: string): string {
+  const [version, iv, tag, ciphertext] = value.split('.');
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Unrecognised encrypted secret');
+  }
+
+  const decipher = createDecipheriv('aes-256-gcm', getKey(), Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+}
@@ -1,6 +1,19 @@
 import { db } from './db';
 import type { FailedAttemptWhere } from '@/types/database';
 
+// Client IP for throttling and blacklisting. Each proxy in front of the app
+// appends the address it saw to X-Forwarded-For, so only the entry added by
+// our own outermost proxy can be trusted; anything before it is client-supplied.
+export function getClientIp(request: Request): string {
+  const hops = Math.max(1, parseInt(process.env.TRUSTED_PROXY_HOPS || '1', 10) || 1);
+  const forwarded = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  return forwarded[forwarded.length - hops] || request.headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
 // Check if IP is blacklisted
 export async function isIPBlacklisted(ip: string): Promise<boolean> {
   const now = new Date();
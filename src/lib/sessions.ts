@@ -0,0 +1,171 @@
+import { db } from './db';
+import { getClientIp } from './security';
+
+/**
+ * Server-side admin sessions. Each sign-in creates a row here and the
+ * auth-token JWT carries its id, so signing out, revoking a device or
+ * changing a password takes effect immediately instead of when the token
+ * expires.
+ *
+ * Sessions expire after SESSION_IDLE_TTL_MS without use. Using one pushes
+ * that back (written at most every SESSION_TOUCH_INTERVAL_MS), but never past
+ * SESSION_MAX_AGE_MS from sign-in, which is also the JWT's own expiry.
+ */
+
+export const SESSION_IDLE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+export const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface SessionRecord {
+  id: string;
+  profileId: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+}
+
+export interface ClientInfo {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export interface SessionSummary {
+  id: string;
+  device: string;
+  ip_address: string | null;
+  created_at: string;
+  last_seen_at: string;
+  expires_at: string;
+  current: boolean;
+}
+
+export function getClientInfo(request: Request): ClientInfo {
+  const ip = getClientIp(request);
+  return {
+    ipAddress: ip === 'unknown' ? null : ip,
+    userAgent: request.headers.get('user-agent') || null,
+  };
+}
+
+/** A short description of the browser and OS, such as "Chrome on macOS". */
+export function describeDevice(userAgent: string | null): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browsers: [RegExp, string][] = [
+    [/Edg\//, 'Edge'],
+    [/OPR\/|Opera/, 'Opera'],
+    [/Firefox\//, 'Firefox'],
+    [/Chrome\/|CriOS\//, 'Chrome'],
+    [/Safari\//, 'Safari'],
+  ];
+  const systems: [RegExp, string][] = [
+    [/iPhone|iPad|iPod/, 'iOS'],
+    [/Android/, 'Android'],
+    [/Windows/, 'Windows'],
+    [/Mac OS X|Macintosh/, 'macOS'],
+    [/CrOS/, 'ChromeOS'],
+    [/Linux/, 'Linux'],
+  ];
+
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && system) return `${browser} on ${system}`;
+  return browser || system || 'Unknown device';
+}
+
+export async function createSession(
+  profileId: string,
+  client: ClientInfo,
+  now: Date = new Date(),
+): Promise<SessionRecord> {
+  // Tidy up this admin's expired sessions while we're here
+  await db.session.deleteMany({ where: { profileId, expiresAt: { lt: now } } });
+
+  return db.session.create({
+    data: {
+      profileId,
+      userAgent: client.userAgent,
+      ipAddress: client.ipAddress,
+      createdAt: now,
+      lastSeenAt: now,
+      expiresAt: new Date(now.getTime() + SESSION_IDLE_TTL_MS),
+    },
+  });
+}
+
+/** The session, unless it has been revoked or has expired. */
+export async function findActiveSession(id: string, now: Date = new Date()): Promise<SessionRecord | null> {
+  const session: SessionRecord | null = await db.session.findUnique({ where: { id } });
+  if (!session || session.expiresAt <= now) {
+    return null;
+  }
+  return session;
+}
+
+export function shouldTouchSession(session: SessionRecord, now: Date = new Date()): boolean {
+  return now.getTime() - session.lastSeenAt.getTime() >= SESSION_TOUCH_INTERVAL_MS;
+}
+
+/** Record use of a session and push back its expiry. */
+export async function touchSession(
+  session: SessionRecord,
+  client: ClientInfo,
+  now: Date = new Date(),
+): Promise<SessionRecord> {
+  const expiresAt = Math.min(
+    now.getTime() + SESSION_IDLE_TTL_MS,
+    session.createdAt.getTime() + SESSION_MAX_AGE_MS,
+  );
+
+  return db.session.update({
+    where: { id: session.id },
+    data: {
+      lastSeenAt: now,
+      expiresAt: new Date(expiresAt),
+      ipAddress: client.ipAddress ?? session.ipAddress,
+    },
+  });
+}
+
+export async function listSessions(
+  profileId: string,
+  currentSessionId: string | null,
+  now: Date = new Date(),
+): Promise<SessionSummary[]> {
+  const sessions: SessionRecord[] = await db.session.findMany({
+    where: { profileId, expiresAt: { gt: now } },
+    orderBy: { lastSeenAt: 'desc' },
+  });
+
+  return sessions.map((session) => ({
+    id: session.id,
+    device: describeDevice(session.userAgent),
+    ip_address: session.ipAddress,
+    created_at: session.createdAt.toISOString(),
+    last_seen_at: session.lastSeenAt.toISOString(),
+    expires_at: session.expiresAt.toISOString(),
+    current: session.id === currentSessionId,
+  }));
+}
+
+/** Revoke one of an admin's sessions. Returns false when they have no such session. */
+export async function revokeSession(id: string, profileId: string): Promise<boolean> {
+  const { count } = await db.session.deleteMany({ where: { id, profileId } });
+  return count > 0;
+}
+
+/** Revoke all of an admin's sessions, optionally keeping one. Returns how many were revoked. */
+export async function revokeAllSessions(profileId: string, exceptSessionId?: string): Promise<number> {
+  const { count } = await db.session.deleteMany({
+    where: {
+      profileId,
+      ...(exceptSessionId && { id: { not: exceptSessionId } }),
+    },
+  });
+  return count;
+}
@@ -0,0 +1,98 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * HMAC-signed tokens for links sent by email. A token carries its purpose,
+ * subject and optional expiry, so it can be verified without a database
+ * lookup and a token issued for one purpose is never accepted for another.
+ *
+ * Tokens are signed with NEWSLETTER_TOKEN_SECRET (falling back to JWT_SECRET).
+ * To rotate it, move the old value into NEWSLETTER_TOKEN_PREVIOUS_SECRETS
+ * (comma-separated): links signed with it keep verifying while new links use
+ * the new secret. Dropping a previous secret invalidates its links.
+ */
+
+export type TokenPurpose =
+  | 'confirm_subscription'
+  | 'unsubscribe'
+  | 'preferences'
+  | 'track_open'
+  | 'track_click'
+  | 'view_newsletter'
+  | 'data_export'
+  | 'data_erasure'
+  | 'admin_invite'
+  | 'password_reset'
+  | 'two_factor_login';
+
+export type VerifiedToken =
+  | { valid: true; subject: string; expiresAt: Date | null }
+  | { valid: false; reason: 'invalid' | 'expired' };
+
+function getSecret(): string {
+  const secret = process.env.NEWSLETTER_TOKEN_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('NEWSLETTER_TOKEN_SECRET or JWT_SECRET must be set to sign email links');
+  }
+  return secret;
+}
+
+function getVerificationSecrets(): string[] {
+  const previous = (process.env.NEWSLETTER_TOKEN_PREVIOUS_SECRETS || '')
+    .split(',')
+    .map((secret) => secret.trim())
+    .filter(Boolean);
+  return [getSecret(), ...previous];
+}
+
+function sign(payload: string, secret: string = getSecret()): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+function hasValidSignature(payload: string, signature: string): boolean {
+  const provided = Buffer.from(signature);
+  return getVerificationSecrets().some((secret) => {
+    const expected = Buffer.from(sign(payload, secret));
+    return provided.length === expected.length && timingSafeEqual(provided, expected);
+  });
+}
+
+export function createSignedToken(purpose: TokenPurpose, subject: string, expiresAt: Date | null = null): string {
+  const payload = Buffer.from(
+    JSON.stringify({
+      p: purpose,
+      s: subject,
+      e: expiresAt ? Math.floor(expiresAt.getTime() / 1000) : null,
+    }),
+  ).toString('base64url');
+
+  return `${payload}.${sign(payload)}`;
+}
+
+export function verifySignedToken(purpose: TokenPurpose, token: string, now: Date = new Date()): VerifiedToken {
+  const [payload, signature, ...rest] = (token || '').split('.');
+  if (!payload || !signature || rest.length > 0) {
+    return { valid: false, reason: 'invalid' };
+  }
+
+  if (!hasValidSignature(payload, signature)) {
+    return { valid: false, reason: 'invalid' };
+  }
+
+  let data: { p?: unknown; s?: unknown; e?: unknown };
+  try {
+    data = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    return { valid: false, reason: 'invalid' };
+  }
+
+  if (data.p !== purpose || typeof data.s !== 'string') {
+    return { valid: false, reason: 'invalid' };
+  }
+
+  const expiresAt = typeof data.e === 'number' ? new Date(data.e * 1000) : null;
+  if (expiresAt && expiresAt <= now) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  return { valid: true, subject: data.s, expiresAt };
+}
@@ -0,0 +1,237 @@
+import { db } from './db';
+import { getBaseUrl } from './newsletter-email';
+import { sendDataRequestEmail } from './resend';
+import { createSignedToken, verifySignedToken, VerifiedToken } from './signed-tokens';
+
+/**
+ * Data subject requests: a copy of, or erasure of, everything stored about an
+ * email address.
+ *
+ * Requests are keyed by email address rather than subscriber, so they also
+ * cover people who only used the contact form. Self-service requests are
+ * verified by emailing a signed link to the address: the export link
+ * downloads the data, the erasure link opens a page that confirms it. Admins
+ * can do both for a subscriber directly.
+ *
+ * Erasure hard-deletes the subscriber with their sends, tags, digest
+ * deliveries and audit entries, plus contact messages, failed attempts and
+ * skipped emails for the address, so campaign statistics no longer count
+ * them. Suppression list entries are kept: they are what stops an address
+ * that bounced or complained from being mailed again. The erasure itself is
+ * recorded in the audit log without the address.
+ */
+
+export type DataRequestType = 'export' | 'erasure';
+
+export const DATA_REQUEST_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface SubscriberDataExport {
+  email: string;
+  exported_at: string;
+  subscribers: Array<{
+    email: string;
+    name: string | null;
+    location: string | null;
+    is_subscribed: boolean;
+    preferences: unknown;
+    confirmed_at: string | null;
+    unsubscribe_reason: string | null;
+    unsubscribe_feedback: string | null;
+    created_at: string;
+    updated_at: string;
+    tags: Array<{ name: string; added_at: string }>;
+    sends: Array<{
+      newsletter_subject: string;
+      status: string;
+      sent_at: string;
+      delivered_at: string | null;
+      opened_at: string | null;
+      open_count: number;
+      clicked_at: string | null;
+      click_count: number;
+      bounced_at: string | null;
+      complained_at: string | null;
+    }>;
+    audit_log: Array<{
+      action: string;
+      details: unknown;
+      ip_address: string | null;
+      user_agent: string | null;
+      created_at: string;
+    }>;
+  }>;
+  contact_messages: Array<{
+    name: string;
+    subject: string | null;
+    message: string;
+    created_at: string;
+  }>;
+}
+
+export interface ErasureResult {
+  subscribers: number;
+  sends: number;
+  audit_entries: number;
+  contact_messages: number;
+  failed_attempts: number;
+  skipped_emails: number;
+}
+
+const TOKEN_PURPOSES = { export: 'data_export', erasure: 'data_erasure' } as const;
+
+const toIso = (date: Date | null) => date?.toISOString() ?? null;
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// Addresses are stored as entered, so match them case-insensitively
+const emailWhere = (email: string) => ({ email: { equals: normalizeEmail(email), mode: 'insensitive' as const } });
+
+export function createDataRequestToken(type: DataRequestType, email: string, now: Date = new Date()): string {
+  return createSignedToken(TOKEN_PURPOSES[type], normalizeEmail(email), new Date(now.getTime() + DATA_REQUEST_TTL_MS));
+}
+
+/** Verifies a data request link; the subject of a valid token is the email address. */
+export function verifyDataRequestToken(type: DataRequestType, token: string): VerifiedToken {
+  return verifySignedToken(TOKEN_PURPOSES[type], token);
+}
+
+export function createDataRequestUrl(baseUrl: string, type: DataRequestType, email: string): string {
+  const token = encodeURIComponent(createDataRequestToken(type, email));
+  return type === 'export'
+    ? `${baseUrl}/api/newsletter/data/export?token=${token}`
+    : `${baseUrl}/newsletter/data/erase?token=${token}`;
+}
+
+export async function hasStoredData(email: string): Promise<boolean> {
+  const where = emailWhere(email);
+  const counts = await Promise.all([
+    db.newsletterSubscriber.count({ where }),
+    db.contactMessage.count({ where }),
+    db.failedAttempt.count({ where }),
+  ]);
+  return counts.some((count: number) => count > 0);
+}
+
+/**
+ * Email a signed export or erasure link to the address. Nothing is sent when
+ * no data is stored for it; callers answer the same either way, so a request
+ * doesn't reveal whether an address is known. Returns whether a link was sent.
+ */
+export async function requestSubscriberData(email: string, type: DataRequestType): Promise<boolean> {
+  if (!(await hasStoredData(email))) {
+    return false;
+  }
+
+  await sendDataRequestEmail(
+    normalizeEmail(email),
+    type,
+    createDataRequestUrl(getBaseUrl(), type, email),
+    DATA_REQUEST_TTL_MS / (60 * 60 * 1000),
+  );
+  return true;
+}
+
+export async function exportSubscriberData(email: string, now: Date = new Date()): Promise<SubscriberDataExport> {
+  const where = emailWhere(email);
+
+  const [subscribers, contactMessages] = await Promise.all([
+    db.newsletterSubscriber.findMany({
+      where,
+      orderBy: { createdAt: 'asc' },
+      include: {
+        subscriberTags: { include: { tag: { select: { name: true } } }, orderBy: { createdAt: 'asc' } },
+        newsletterSends: { include: { newsletter: { select: { subject: true } } }, orderBy: { sentAt: 'asc' } },
+        auditLogs: { orderBy: { createdAt: 'asc' } },
+      },
+    }),
+    db.contactMessage.findMany({ where, orderBy: { createdAt: 'asc' } }),
+  ]);
+
+  return {
+    email: normalizeEmail(email),
+    exported_at: now.toISOString(),
+    subscribers: subscribers.map((subscriber: (typeof subscribers)[0]) => ({
+      email: subscriber.email,
+      name: subscriber.name,
+      location: subscriber.location,
+      is_subscribed: subscriber.isSubscribed,
+      preferences: subscriber.preferences,
+      confirmed_at: toIso(subscriber.confirmedAt),
+      unsubscribe_reason: subscriber.unsubscribeReason,
+      unsubscribe_feedback: subscriber.unsubscribeFeedback,
+      created_at: subscriber.createdAt.toISOString(),
+      updated_at: subscriber.updatedAt.toISOString(),
+      tags: subscriber.subscriberTags.map((subscriberTag: (typeof subscriber.subscriberTags)[0]) => ({
+        name: subscriberTag.tag.name,
+        added_at: subscriberTag.createdAt.toISOString(),
+      })),
+      sends: subscriber.newsletterSends.map((send: (typeof subscriber.newsletterSends)[0]) => ({
+        newsletter_subject: send.newsletter.subject,
+        status: send.status,
+        sent_at: send.sentAt.toISOString(),
+        delivered_at: toIso(send.deliveredAt),
+        opened_at: toIso(send.openedAt),
+        open_count: send.openCount,
+        clicked_at: toIso(send.clickedAt),
+        click_count: send.clickCount,
+        bounced_at: toIso(send.bouncedAt),
+        complained_at: toIso(send.complainedAt),
+      })),
+      audit_log: subscriber.auditLogs.map((entry: (typeof subscriber.auditLogs)[0]) => ({
+        action: entry.action,
+        details: entry.details,
+        ip_address: entry.ipAddress,
+        user_agent: entry.userAgent,
+        created_at: entry.createdAt.toISOString(),
+      })),
+    })),
+    contact_messages: contactMessages.map((message: (typeof contactMessages)[0]) => ({
+      name: message.name,
+      subject: message.subject,
+      message: message.message,
+      created_at: message.createdAt.toISOString(),
+    })),
+  };
+}
+
+/**
+ * Delete everything stored about an email address in one transaction.
+ * `actor` is the admin's email, or 'subscriber' for a self-service request.
+ */
+export async function eraseSubscriberData(email: string, actor: string): Promise<ErasureResult> {
+  const where = emailWhere(email);
+
+  return db.$transaction(async (tx: typeof db) => {
+    const subscribers = await tx.newsletterSubscriber.findMany({ where, select: { id: true } });
+    const subscriberIds = subscribers.map((subscriber: { id: string }) => subscriber.id);
+    const bySubscriber = { subscriberId: { in: subscriberIds } };
+
+    const sends = await tx.newsletterSend.deleteMany({ where: bySubscriber });
+    const auditEntries = await tx.newsletterAuditLog.deleteMany({ where: bySubscriber });
+    // Tags and digest deliveries go with the subscriber
+    const deletedSubscribers = await tx.newsletterSubscriber.deleteMany({ where: { id: { in: subscriberIds } } });
+    const contactMessages = await tx.contactMessage.deleteMany({ where });
+    const failedAttempts = await tx.failedAttempt.deleteMany({ where });
+    const skippedEmails = await tx.skippedEmail.deleteMany({ where });
+
+    const result: ErasureResult = {
+      subscribers: deletedSubscribers.count,
+      sends: sends.count,
+      audit_entries: auditEntries.count,
+      contact_messages: contactMessages.count,
+      failed_attempts: failedAttempts.count,
+      skipped_emails: skippedEmails.count,
+    };
+
+    await tx.newsletterAuditLog.create({
+      data: {
+        action: 'data_erased',
+        details: { ...result, actor },
+      },
+    });
+
+    return result;
+  });
+}
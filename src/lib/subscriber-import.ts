@@ -0,0 +1,377 @@
+import { db } from './db';
+import { sanitizeInput, validateInputs } from './subscriber-validation';
+
+/**
+ * Subscriber CSV import.
+ *
+ * Rows are validated with the same rules as the public subscribe form and
+ * matched to existing subscribers on `email`. Deleted and unsubscribed
+ * subscribers are never re-subscribed by an import. The same plan is used for
+ * the dry-run report and for the actual import, so the report shows exactly
+ * what will be written.
+ */
+
+export type ImportAction =
+  | 'create'
+  | 'update'
+  | 'unchanged'
+  | 'skip_unsubscribed'
+  | 'skip_deleted'
+  | 'duplicate'
+  | 'invalid';
+
+export interface ImportRow {
+  line: number;
+  email: string;
+  name: string;
+  location: string;
+  tags: string[];
+}
+
+export interface ImportRowResult {
+  line: number;
+  email: string;
+  action: ImportAction;
+  reason?: string;
+  changes?: {
+    name?: { from: string | null; to: string };
+    location?: { from: string | null; to: string };
+    tags_added?: string[];
+  };
+}
+
+export interface ImportReport {
+  dry_run: boolean;
+  summary: Record<ImportAction, number> & { total: number };
+  new_tags: string[];
+  rows: ImportRowResult[];
+}
+
+export interface ImportOptions {
+  dryRun: boolean;
+  tags?: string[];
+  actor: string;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export const MAX_IMPORT_ROWS = 5000;
+const MAX_TAG_NAME_LENGTH = 50;
+const LOOKUP_CHUNK_SIZE = 1000;
+
+const COLUMN_ALIASES: Record<string, keyof Omit<ImportRow, 'line'>> = {
+  email: 'email',
+  'email address': 'email',
+  name: 'name',
+  location: 'location',
+  tags: 'tags',
+};
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes, commas and line
+ * breaks inside quotes, CRLF line endings and a leading byte order mark.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+}
+
+function splitTags(value: string): string[] {
+  return Array.from(new Set(value.split(';').map((tag) => tag.trim()).filter(Boolean)));
+}
+
+/**
+ * Map CSV records to import rows using the header row. Blank records are
+ * ignored; `line` is the 1-based record number including the header.
+ */
+export function parseSubscriberCsv(text: string): { rows: ImportRow[]; error?: string } {
+  const [header, ...records] = parseCsv(text);
+  if (!header) {
+    return { rows: [], error: 'The file is empty.' };
+  }
+
+  const columns = header.map((cell) => COLUMN_ALIASES[cell.trim().toLowerCase()]);
+  if (!columns.includes('email')) {
+    return { rows: [], error: 'The file must have an "email" column.' };
+  }
+
+  const rows: ImportRow[] = [];
+  records.forEach((record, index) => {
+    if (record.every((cell) => cell.trim() === '')) return;
+
+    const row: ImportRow = { line: index + 2, email: '', name: '', location: '', tags: [] };
+    columns.forEach((column, columnIndex) => {
+      const value = record[columnIndex] ?? '';
+      if (column === 'tags') {
+        row.tags = splitTags(value);
+      } else if (column) {
+        row[column] = sanitizeInput(value);
+      }
+    });
+    rows.push(row);
+  });
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return { rows: [], error: `Imports are limited to ${MAX_IMPORT_ROWS} rows.` };
+  }
+
+  return { rows };
+}
+
+type ExistingSubscriber = {
+  id: string;
+  email: string;
+  name: string | null;
+  location: string | null;
+  isSubscribed: boolean;
+  isDeleted: boolean;
+  subscriberTags: { tag: { name: string } }[];
+};
+
+async function findExistingSubscribers(emails: string[]): Promise<Map<string, ExistingSubscriber>> {
+  const existing = new Map<string, ExistingSubscriber>();
+
+  for (let i = 0; i < emails.length; i += LOOKUP_CHUNK_SIZE) {
+    const subscribers: ExistingSubscriber[] = await db.newsletterSubscriber.findMany({
+      where: { email: { in: emails.slice(i, i + LOOKUP_CHUNK_SIZE) } },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        location: true,
+        isSubscribed: true,
+        isDeleted: true,
+        subscriberTags: { select: { tag: { select: { name: true } } } },
+      },
+    });
+    subscribers.forEach((subscriber) => existing.set(subscriber.email, subscriber));
+  }
+
+  return existing;
+}
+
+/**
+ * Build the import plan and, unless this is a dry run, apply it. Every row
+ * that matches or creates a subscriber gets a `NewsletterAuditLog` entry.
+ */
+export async function importSubscribers(rows: ImportRow[], options: ImportOptions): Promise<ImportReport> {
+  const extraTags = Array.from(new Set((options.tags || []).map((tag) => tag.trim()).filter(Boolean)));
+  const results: ImportRowResult[] = [];
+  const valid: (ImportRow & { result: ImportRowResult })[] = [];
+  const seen = new Set<string>();
+
+  for (const row of rows) {
+    const { isValid, error } = validateInputs(row.email, row.name);
+    const tooLongTag = row.tags.find((tag) => tag.length > MAX_TAG_NAME_LENGTH);
+
+    if (!isValid || tooLongTag) {
+      results.push({
+        line: row.line,
+        email: row.email,
+        action: 'invalid',
+        reason: error || `Tag "${tooLongTag}" is longer than ${MAX_TAG_NAME_LENGTH} characters.`,
+      });
+      continue;
+    }
+
+    if (seen.has(row.email)) {
+      results.push({ line: row.line, email: row.email, action: 'duplicate', reason: 'Email appears earlier in the file.' });
+      continue;
+    }
+    seen.add(row.email);
+
+    const result: ImportRowResult = { line: row.line, email: row.email, action: 'create' };
+    results.push(result);
+    valid.push({ ...row, tags: Array.from(new Set([...row.tags, ...extraTags])), result });
+  }
+
+  const existing = await findExistingSubscribers(valid.map((row) => row.email));
+
+  for (const row of valid) {
+    const subscriber = existing.get(row.email);
+    if (!subscriber) {
+      if (row.tags.length > 0) row.result.changes = { tags_added: row.tags };
+      continue;
+    }
+
+    if (subscriber.isDeleted) {
+      row.result.action = 'skip_deleted';
+      row.result.reason = 'Subscriber was deleted and will not be restored by an import.';
+      continue;
+    }
+    if (!subscriber.isSubscribed) {
+      row.result.action = 'skip_unsubscribed';
+      row.result.reason = 'Subscriber has unsubscribed and will not be re-subscribed by an import.';
+      continue;
+    }
+
+    const changes: NonNullable<ImportRowResult['changes']> = {};
+    if (row.name && row.name !== subscriber.name) {
+      changes.name = { from: subscriber.name, to: row.name };
+    }
+    if (row.location && row.location !== subscriber.location) {
+      changes.location = { from: subscriber.location, to: row.location };
+    }
+    const currentTags = new Set(subscriber.subscriberTags.map((subscriberTag) => subscriberTag.tag.name));
+    const tagsAdded = row.tags.filter((tag) => !currentTags.has(tag));
+    if (tagsAdded.length > 0) changes.tags_added = tagsAdded;
+
+    if (Object.keys(changes).length > 0) {
+      row.result.action = 'update';
+      row.result.changes = changes;
+    } else {
+      row.result.action = 'unchanged';
+    }
+  }
+
+  // Only tags that will actually be assigned are looked up or created
+  const tagNames = Array.from(new Set(valid.flatMap((row) => row.result.changes?.tags_added || [])));
+  const knownTags: { id: string; name: string }[] = tagNames.length > 0
+    ? await db.newsletterTag.findMany({ where: { name: { in: tagNames } }, select: { id: true, name: true } })
+    : [];
+  const tagIds = new Map(knownTags.map((tag) => [tag.name, tag.id]));
+  const newTags = tagNames.filter((name) => !tagIds.has(name));
+
+  const summary = {
+    total: results.length,
+    create: 0,
+    update: 0,
+    unchanged: 0,
+    skip_unsubscribed: 0,
+    skip_deleted: 0,
+    duplicate: 0,
+    invalid: 0,
+  };
+  results.forEach((result) => summary[result.action]++);
+
+  const report: ImportReport = { dry_run: options.dryRun, summary, new_tags: newTags, rows: results };
+  if (options.dryRun) {
+    return report;
+  }
+
+  for (const name of newTags) {
+    const tag = await db.newsletterTag.upsert({
+      where: { name },
+      create: { name },
+      update: {},
+      select: { id: true },
+    });
+    tagIds.set(name, tag.id);
+  }
+
+  const auditEntries: {
+    subscriberId: string;
+    action: string;
+    details: Record<string, unknown>;
+    ipAddress: string | null;
+    userAgent: string | null;
+  }[] = [];
+  const assignments: { subscriberId: string; tagId: string }[] = [];
+
+  for (const row of valid) {
+    let subscriberId = existing.get(row.email)?.id;
+
+    if (row.result.action === 'create') {
+      // Upsert with an empty update so a subscriber created since the plan was
+      // built is left as it is
+      const created = await db.newsletterSubscriber.upsert({
+        where: { email: row.email },
+        create: {
+          email: row.email,
+          name: row.name || null,
+          location: row.location || null,
+          isSubscribed: true,
+          // The admin vouches for consent when importing, so no opt-in email
+          confirmedAt: new Date(),
+          preferences: {
+            frequency: 'weekly',
+            categories: [],
+          },
+        },
+        update: {},
+        select: { id: true },
+      });
+      subscriberId = created.id;
+    } else if (row.result.action === 'update' && (row.result.changes?.name || row.result.changes?.location)) {
+      await db.newsletterSubscriber.update({
+        where: { id: subscriberId },
+        data: {
+          ...(row.result.changes.name ? { name: row.name } : {}),
+          ...(row.result.changes.location ? { location: row.location } : {}),
+        },
+      });
+    }
+
+    if (!subscriberId) continue;
+
+    for (const name of row.result.changes?.tags_added || []) {
+      const tagId = tagIds.get(name);
+      if (!tagId) {
+        throw new Error(`Tag "${name}" has no id to assign`);
+      }
+      assignments.push({ subscriberId, tagId });
+    }
+
+    auditEntries.push({
+      subscriberId,
+      action: 'imported',
+      details: {
+        result: row.result.action,
+        line: row.line,
+        email: row.email,
+        ...(row.result.changes ? { changes: row.result.changes } : {}),
+        ...(row.result.reason ? { reason: row.result.reason } : {}),
+        actor: options.actor,
+      },
+      ipAddress: options.ipAddress ?? null,
+      userAgent: options.userAgent ?? null,
+    });
+  }
+
+  if (assignments.length > 0) {
+    await db.subscriberTag.createMany({ data: assignments, skipDuplicates: true });
+  }
+  if (auditEntries.length > 0) {
+    await db.newsletterAuditLog.createMany({ data: auditEntries });
+  }
+
+  return report;
+}
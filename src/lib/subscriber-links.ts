@@ -0,0 +1,60 @@
+import { db } from './db';
+import { createSignedToken, verifySignedToken } from './signed-tokens';
+
+/**
+ * Tokens for the unsubscribe and preferences links in subscriber emails.
+ *
+ * Links are signed per subscriber and per purpose and never expire, so an
+ * unsubscribe link in an old email keeps working. Nothing is stored: a link
+ * is verified from its signature alone. Rotating the signing secret (see
+ * signed-tokens.ts) is the way to retire links in bulk.
+ */
+
+export type SubscriberLinkPurpose = 'unsubscribe' | 'preferences';
+
+// Random hex tokens stored on the subscriber before links were signed. They
+// are no longer issued but still honoured until their 30-day expiry passes.
+const LEGACY_TOKEN_PATTERN = /^[a-f0-9]{64}$/;
+
+export function createUnsubscribeToken(subscriberId: string): string {
+  return createSignedToken('unsubscribe', subscriberId);
+}
+
+export function createPreferencesToken(subscriberId: string): string {
+  return createSignedToken('preferences', subscriberId);
+}
+
+async function findLegacyTokenSubscriber(purpose: SubscriberLinkPurpose, token: string): Promise<string | null> {
+  const now = new Date();
+  const where =
+    purpose === 'unsubscribe'
+      ? {
+          unsubscribeToken: token,
+          OR: [{ unsubscribeTokenExpiresAt: null }, { unsubscribeTokenExpiresAt: { gt: now } }],
+        }
+      : {
+          preferencesToken: token,
+          OR: [{ preferencesTokenExpiresAt: null }, { preferencesTokenExpiresAt: { gt: now } }],
+        };
+
+  const subscriber = await db.newsletterSubscriber.findFirst({ where, select: { id: true } });
+  return subscriber?.id ?? null;
+}
+
+/**
+ * Resolve a link token to the subscriber id it was issued for, or null when
+ * the token is invalid.
+ */
+export async function resolveSubscriberLinkToken(
+  purpose: SubscriberLinkPurpose,
+  token: string | null | undefined,
+): Promise<string | null> {
+  if (!token) return null;
+
+  const verified = verifySignedToken(purpose, token);
+  if (verified.valid) {
+    return verified.subject;
+  }
+
+  return LEGACY_TOKEN_PATTERN.test(token) ? findLegacyTokenSubscriber(purpose, token) : null;
+}
@@ -0,0 +1,253 @@
+import { z } from 'zod';
+import { db } from './db';
+import { subscriberListQuerySchema } from './validation-schemas';
+import type { SubscriberListFilters } from '@/types/newsletter';
+
+/**
+ * The admin subscriber list: filtering, sorting and cursor pagination done in
+ * the database, so the page stays fast however many subscribers there are.
+ *
+ * One where-clause is built from the filters and shared by the list, the CSV
+ * export and bulk actions on every matching subscriber. Pages are ordered by
+ * the sort column with the id as a tie-breaker, which keeps cursors stable
+ * while subscribers are added.
+ */
+
+export type SubscriberListQuery = z.infer<typeof subscriberListQuerySchema>;
+
+export interface SubscriberRow {
+  id: string;
+  email: string;
+  name: string | null;
+  is_subscribed: boolean;
+  is_deleted: boolean;
+  unsubscribe_reason: string | null;
+  unsubscribe_feedback: string | null;
+  confirmed_at: string | null;
+  created_at: string;
+  location: string | null;
+  tags: { id: string; name: string }[];
+}
+
+export interface SubscriberListPage {
+  subscribers: SubscriberRow[];
+  // Pass back as `cursor` for the next page; null on the last page
+  next_cursor: string | null;
+  // Subscribers matching the filters, across every page
+  total: number;
+}
+
+const PAGE_SIZE = 1000;
+
+const SORT_COLUMNS = { created_at: 'createdAt', email: 'email' } as const;
+
+const SUBSCRIBER_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  isSubscribed: true,
+  isDeleted: true,
+  unsubscribeReason: true,
+  unsubscribeFeedback: true,
+  confirmedAt: true,
+  createdAt: true,
+  location: true,
+  subscriberTags: {
+    select: {
+      tag: { select: { id: true, name: true } },
+    },
+  },
+};
+
+const STATUS_WHERE = {
+  // Pending sign-ups never opted in, so they're only listed when asked for
+  all: { confirmedAt: { not: null } },
+  subscribed: { isDeleted: false, isSubscribed: true },
+  // Signed up but never used the confirmation link
+  pending: { isDeleted: false, isSubscribed: false, confirmedAt: null },
+  unsubscribed: { isDeleted: false, isSubscribed: false, confirmedAt: { not: null } },
+  deleted: { isDeleted: true },
+};
+
+/** Read the list query from URL search params; empty params count as unset. */
+export function parseSubscriberListQuery(searchParams: URLSearchParams): SubscriberListQuery {
+  const query: Record<string, string> = {};
+  searchParams.forEach((value, key) => {
+    if (value.trim()) query[key] = value;
+  });
+  return subscriberListQuerySchema.parse(query);
+}
+
+export function buildSubscriberListWhere(filters: SubscriberListFilters) {
+  const rules: Record<string, unknown>[] = [STATUS_WHERE[filters.status ?? 'all']];
+
+  if (filters.search) {
+    rules.push({
+      OR: [
+        { email: { contains: filters.search, mode: 'insensitive' } },
+        { name: { contains: filters.search, mode: 'insensitive' } },
+      ],
+    });
+  }
+  if (filters.tag) {
+    rules.push({ subscriberTags: { some: { tagId: filters.tag } } });
+  }
+  if (filters.location) {
+    rules.push({ location: { contains: filters.location, mode: 'insensitive' } });
+  }
+  if (filters.created_after) {
+    rules.push({ createdAt: { gte: new Date(filters.created_after) } });
+  }
+  if (filters.created_before) {
+    rules.push({ createdAt: { lte: new Date(filters.created_before) } });
+  }
+
+  return { AND: rules };
+}
+
+function buildOrderBy(sort: SubscriberListQuery['sort'], order: SubscriberListQuery['order']) {
+  return [{ [SORT_COLUMNS[sort]]: order }, { id: order }];
+}
+
+function transformSubscriber(subscriber: {
+  id: string;
+  email: string;
+  name: string | null;
+  isSubscribed: boolean;
+  isDeleted: boolean;
+  unsubscribeReason: string | null;
+  unsubscribeFeedback: string | null;
+  confirmedAt: Date | null;
+  createdAt: Date;
+  location: string | null;
+  subscriberTags: { tag: { id: string; name: string } }[];
+}): SubscriberRow {
+  return {
+    id: subscriber.id,
+    email: subscriber.email,
+    name: subscriber.name,
+    is_subscribed: subscriber.isSubscribed,
+    is_deleted: subscriber.isDeleted,
+    unsubscribe_reason: subscriber.unsubscribeReason,
+    unsubscribe_feedback: subscriber.unsubscribeFeedback,
+    confirmed_at: subscriber.confirmedAt?.toISOString() ?? null,
+    created_at: subscriber.createdAt.toISOString(),
+    location: subscriber.location,
+    tags: subscriber.subscriberTags.map((subscriberTag) => subscriberTag.tag),
+  };
+}
+
+export async function listSubscribers(query: SubscriberListQuery): Promise<SubscriberListPage> {
+  const where = buildSubscriberListWhere(query);
+
+  const [subscribers, total] = await Promise.all([
+    db.newsletterSubscriber.findMany({
+      where,
+      select: SUBSCRIBER_SELECT,
+      orderBy: buildOrderBy(query.sort, query.order),
+      // One extra row tells us whether there is another page
+      take: query.limit + 1,
+      ...(query.cursor ? { skip: 1, cursor: { id: query.cursor } } : {}),
+    }),
+    db.newsletterSubscriber.count({ where }),
+  ]);
+
+  const page = subscribers.slice(0, query.limit);
+  return {
+    subscribers: page.map(transformSubscriber),
+    next_cursor: subscribers.length > query.limit ? page[page.length - 1].id : null,
+    total,
+  };
+}
+
+/**
+ * Call `fn` with the ids of every subscriber matching the filters, a page at
+ * a time, for bulk actions on a selection that spans pages.
+ */
+export async function forEachSubscriberPage(
+  filters: SubscriberListFilters,
+  fn: (subscriberIds: string[]) => Promise<void>,
+): Promise<void> {
+  const where = buildSubscriberListWhere(filters);
+  let cursor: string | undefined;
+
+  for (;;) {
+    const subscribers = await db.newsletterSubscriber.findMany({
+      where,
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: PAGE_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+
+    if (subscribers.length === 0) break;
+    await fn(subscribers.map((subscriber: { id: string }) => subscriber.id));
+
+    if (subscribers.length < PAGE_SIZE) break;
+    cursor = subscribers[subscribers.length - 1].id;
+  }
+}
+
+export function getSubscriberStatus(subscriber: Pick<SubscriberRow, 'is_subscribed' | 'is_deleted' | 'confirmed_at'>): string {
+  if (subscriber.is_deleted) return 'Deleted';
+  if (subscriber.is_subscribed) return 'Subscribed';
+  return subscriber.confirmed_at ? 'Unsubscribed' : 'Pending';
+}
+
+/**
+ * Quote a CSV cell when needed. Cells that a spreadsheet would read as a
+ * formula are prefixed with an apostrophe.
+ */
+export function toCsvCell(value: string): string {
+  const cell = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+const CSV_HEADERS = [
+  'Email',
+  'Name',
+  'Status',
+  'Tags',
+  'Location',
+  'Unsubscribe Reason',
+  'Feedback',
+  'Confirmed At',
+  'Subscribed On',
+];
+
+/** Every subscriber matching the filters as CSV, in the list's sort order. */
+export async function exportSubscribersCsv(query: Omit<SubscriberListQuery, 'cursor' | 'limit'>): Promise<string> {
+  const where = buildSubscriberListWhere(query);
+  const lines = [CSV_HEADERS.join(',')];
+  let cursor: string | undefined;
+
+  for (;;) {
+    const subscribers = await db.newsletterSubscriber.findMany({
+      where,
+      select: SUBSCRIBER_SELECT,
+      orderBy: buildOrderBy(query.sort, query.order),
+      take: PAGE_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+
+    const rows: SubscriberRow[] = subscribers.map(transformSubscriber);
+    for (const subscriber of rows) {
+      lines.push([
+        subscriber.email,
+        subscriber.name ?? '',
+        getSubscriberStatus(subscriber),
+        subscriber.tags.map((tag) => tag.name).join('; '),
+        subscriber.location ?? '',
+        subscriber.unsubscribe_reason ?? '',
+        subscriber.unsubscribe_feedback ?? '',
+        subscriber.confirmed_at ?? '',
+        subscriber.created_at,
+      ].map(toCsvCell).join(','));
+    }
+
+    if (subscribers.length < PAGE_SIZE) break;
+    cursor = subscribers[subscribers.length - 1].id;
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,43 @@
+import { db } from './db';
+import { parseSegment } from './newsletter-segments';
+
+/**
+ * Attach every tag to every subscriber. Existing assignments are left alone,
+ * so the returned count is the number of new assignments.
+ */
+export async function tagSubscribers(subscriberIds: string[], tagIds: string[]): Promise<number> {
+  const result = await db.subscriberTag.createMany({
+    data: subscriberIds.flatMap((subscriberId) => tagIds.map((tagId) => ({ subscriberId, tagId }))),
+    skipDuplicates: true,
+  });
+  return result.count;
+}
+
+/** Remove the given tags from the given subscribers. */
+export async function untagSubscribers(subscriberIds: string[], tagIds: string[]): Promise<number> {
+  const result = await db.subscriberTag.deleteMany({
+    where: {
+      subscriberId: { in: subscriberIds },
+      tagId: { in: tagIds },
+    },
+  });
+  return result.count;
+}
+
+/**
+ * Unsent newsletters whose audience segment refers to a tag. Deleting such a
+ * tag would silently change who receives them.
+ */
+export async function findNewslettersUsingTag(tagId: string): Promise<{ id: string; subject: string }[]> {
+  const newsletters = await db.newsletter.findMany({
+    where: { status: { in: ['draft', 'scheduled'] } },
+    select: { id: true, subject: true, segment: true },
+  });
+
+  return newsletters
+    .filter((newsletter: (typeof newsletters)[0]) => {
+      const segment = parseSegment(newsletter.segment);
+      return !!segment && (!!segment.tags?.includes(tagId) || !!segment.exclude_tags?.includes(tagId));
+    })
+    .map((newsletter: (typeof newsletters)[0]) => ({ id: newsletter.id, subject: newsletter.subject }));
+}
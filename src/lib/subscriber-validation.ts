@@ -0,0 +1,19 @@
+/**
+ * Input rules for newsletter subscribers, shared by the public subscribe form
+ * and the admin CSV import so both accept exactly the same addresses.
+ */
+
+export function sanitizeInput(input: string): string {
+  return input.trim().replace(/[<>]/g, '');
+}
+
+export function validateInputs(email: string, name: string): { isValid: boolean; error?: string } {
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  if (!email || !emailRegex.test(email)) {
+    return { isValid: false, error: 'Please provide a valid email address.' };
+  }
+  if (name && name.length > 100) {
+    return { isValid: false, error: 'Name is too long.' };
+  }
+  return { isValid: true };
+}
@@ -0,0 +1,240 @@
+/**
+ * A small Mustache-style template language for emails.
+ *
+ * - `{{name}}`            variable, HTML-escaped when rendering HTML
+ * - `{{{name}}}`          variable inserted as-is
+ * - `{{> footer}}`        partial
+ * - `{{#if name}}...{{else}}...{{/if}}`
+ * - `{{#each items}}...{{/each}}`; inside the block an item's fields shadow
+ *   the outer variables
+ *
+ * Names may be dotted (`{{subscriber.name}}`). Missing variables render as an
+ * empty string. Templates are parsed once into a tree so they can be checked
+ * for unknown variables before they are saved.
+ */
+
+export type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; path: string; raw: boolean }
+  | { type: 'partial'; name: string }
+  | { type: 'if'; path: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; path: string; body: TemplateNode[] };
+
+export type TemplateScope = Record<string, unknown>;
+
+export interface RenderContext {
+  // Escape variables for HTML; off for subjects and plain text
+  escape: boolean;
+  partials?: Record<string, TemplateNode[]>;
+}
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+const TAG_PATTERN = /\{\{\{\s*([\w.]+)\s*\}\}\}|\{\{([\s\S]*?)\}\}/g;
+const PATH_PATTERN = /^[A-Za-z_][\w]*(\.[A-Za-z_][\w]*)*$/;
+
+// Partials may not include further partials, so this only guards bad input
+const MAX_PARTIAL_DEPTH = 1;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+interface OpenBlock {
+  node: Extract<TemplateNode, { type: 'if' | 'each' }>;
+  inElse: boolean;
+}
+
+function expectPath(path: string, tag: string): string {
+  if (!PATH_PATTERN.test(path)) {
+    throw new TemplateSyntaxError(`Invalid name in {{${tag}}}`);
+  }
+  return path;
+}
+
+export function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+
+  const current = (): TemplateNode[] => {
+    const open = stack[stack.length - 1];
+    if (!open) return root;
+    if (open.node.type === 'if') return open.inElse ? open.node.otherwise : open.node.then;
+    return open.node.body;
+  };
+
+  const pattern = new RegExp(TAG_PATTERN.source, 'g');
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    const index = match.index;
+    if (index > lastIndex) {
+      current().push({ type: 'text', value: source.slice(lastIndex, index) });
+    }
+    lastIndex = index + match[0].length;
+
+    if (match[1] !== undefined) {
+      current().push({ type: 'variable', path: match[1], raw: true });
+      continue;
+    }
+
+    const tag = match[2].trim();
+
+    if (tag.startsWith('>')) {
+      current().push({ type: 'partial', name: expectPath(tag.slice(1).trim(), tag) });
+    } else if (tag.startsWith('#')) {
+      const [keyword, path, ...rest] = tag.slice(1).trim().split(/\s+/);
+      if ((keyword !== 'if' && keyword !== 'each') || !path || rest.length > 0) {
+        throw new TemplateSyntaxError(`Unknown block {{${tag}}}; expected {{#if name}} or {{#each name}}`);
+      }
+      const node: OpenBlock['node'] =
+        keyword === 'if'
+          ? { type: 'if', path: expectPath(path, tag), then: [], otherwise: [] }
+          : { type: 'each', path: expectPath(path, tag), body: [] };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (tag === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || open.node.type !== 'if' || open.inElse) {
+        throw new TemplateSyntaxError('{{else}} must be inside an {{#if}} block');
+      }
+      open.inElse = true;
+    } else if (tag.startsWith('/')) {
+      const keyword = tag.slice(1).trim();
+      const open = stack.pop();
+      if (!open) {
+        throw new TemplateSyntaxError(`{{${tag}}} has no matching opening block`);
+      }
+      if (open.node.type !== keyword) {
+        throw new TemplateSyntaxError(`{{${tag}}} closes an {{#${open.node.type}}} block`);
+      }
+    } else {
+      current().push({ type: 'variable', path: expectPath(tag, tag), raw: false });
+    }
+  }
+
+  if (lastIndex < source.length) {
+    current().push({ type: 'text', value: source.slice(lastIndex) });
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new TemplateSyntaxError(`{{#${unclosed.node.type} ${unclosed.node.path}}} is never closed`);
+  }
+
+  return root;
+}
+
+function lookup(scope: TemplateScope, path: string): unknown {
+  let value: unknown = scope;
+  for (const part of path.split('.')) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+function renderNodes(nodes: TemplateNode[], scope: TemplateScope, context: RenderContext, depth: number): string {
+  let output = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+
+      case 'variable': {
+        const value = lookup(scope, node.path);
+        const text = value === null || value === undefined ? '' : String(value);
+        output += context.escape && !node.raw ? escapeHtml(text) : text;
+        break;
+      }
+
+      case 'partial': {
+        const partial = context.partials?.[node.name];
+        if (!partial) {
+          throw new TemplateSyntaxError(`Unknown partial {{> ${node.name}}}`);
+        }
+        if (depth >= MAX_PARTIAL_DEPTH) {
+          throw new TemplateSyntaxError(`Partial {{> ${node.name}}} is nested too deeply`);
+        }
+        output += renderNodes(partial, scope, context, depth + 1);
+        break;
+      }
+
+      case 'if':
+        output += renderNodes(isTruthy(lookup(scope, node.path)) ? node.then : node.otherwise, scope, context, depth);
+        break;
+
+      case 'each': {
+        const items = lookup(scope, node.path);
+        if (!Array.isArray(items)) break;
+        for (const item of items) {
+          const itemScope = item !== null && typeof item === 'object' ? { ...scope, ...item } : scope;
+          output += renderNodes(node.body, itemScope, context, depth);
+        }
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+export function renderTemplate(nodes: TemplateNode[], scope: TemplateScope, context: RenderContext): string {
+  return renderNodes(nodes, scope, context, 0);
+}
+
+export interface TemplateReferences {
+  variables: string[];
+  partials: string[];
+}
+
+/**
+ * List the variables and partials a template uses. Variables inside an
+ * `{{#each}}` block are resolved against `itemFields[listName]` first, and
+ * only the ones that are not item fields are reported.
+ */
+export function findReferences(
+  nodes: TemplateNode[],
+  itemFields: Record<string, string[]> = {},
+): TemplateReferences {
+  const variables = new Set<string>();
+  const partials = new Set<string>();
+
+  const visit = (children: TemplateNode[], fields: Set<string>) => {
+    for (const node of children) {
+      const root = 'path' in node ? node.path.split('.')[0] : null;
+      if (root && !fields.has(root)) variables.add(root);
+
+      if (node.type === 'partial') partials.add(node.name);
+      if (node.type === 'if') {
+        visit(node.then, fields);
+        visit(node.otherwise, fields);
+      }
+      if (node.type === 'each') {
+        visit(node.body, new Set(Array.from(fields).concat(itemFields[node.path] || [])));
+      }
+    }
+  };
+
+  visit(nodes, new Set());
+  return { variables: Array.from(variables), partials: Array.from(partials) };
+}
@@ -0,0 +1,272 @@
+import { createHash, randomBytes } from 'crypto';
+import QRCode from 'qrcode';
+import { db } from './db';
+import { getEmailBranding } from './email-templates';
+import { decryptSecret, encryptSecret } from './secret-encryption';
+import { createSignedToken, verifySignedToken } from './signed-tokens';
+import { createOtpauthUri, encodeBase32, generateTotpSecret, verifyTotp } from './totp';
+
+/**
+ * TOTP two-factor authentication for admin accounts.
+ *
+ * Admins enrol from their account page by scanning a QR code and confirming a
+ * code, and get single-use recovery codes for when they lose the device. With
+ * 2FA on, a correct password only earns a short-lived pre-auth token; the
+ * session cookie is set once a code is checked against it. Setting
+ * ADMIN_REQUIRE_2FA=true makes enrolment part of signing in for admins who
+ * haven't enrolled, and stops anyone turning it off.
+ *
+ * Secrets are stored encrypted (see secret-encryption.ts) and recovery codes
+ * as SHA-256 hashes. Each code is accepted once, so a code seen over someone's
+ * shoulder can't be replayed within its 30 seconds.
+ */
+
+export const TWO_FACTOR_ACTION_TYPE = 'admin_two_factor';
+export const PRE_AUTH_TTL_MS = 5 * 60 * 1000;
+export const RECOVERY_CODE_COUNT = 10;
+
+// Wrong codes for one account before the second step refuses to check more
+export const MAX_CODE_ATTEMPTS = 5;
+export const CODE_ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+
+export type TwoFactorMethod = 'totp' | 'recovery';
+
+export interface TwoFactorProfile {
+  id: string;
+  email: string;
+  role: string;
+  passwordChangedAt: Date | null;
+  twoFactorSecret: string | null;
+  twoFactorEnabledAt: Date | null;
+  twoFactorLastUsedStep: number | null;
+  twoFactorRecoveryCodes: string[];
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauth_uri: string;
+  qr_code: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recovery_codes_remaining: number;
+}
+
+export type DisableResult = 'disabled' | 'required' | 'invalid';
+
+export function isTwoFactorRequired(): boolean {
+  return process.env.ADMIN_REQUIRE_2FA === 'true';
+}
+
+export function isTwoFactorEnabled(profile: { twoFactorEnabledAt: Date | null }): boolean {
+  return profile.twoFactorEnabledAt !== null;
+}
+
+// Tied to the password, like account links, so a reset cancels a half-finished sign-in
+const preAuthSubject = (profile: { id: string; passwordChangedAt: Date | null }) =>
+  `${profile.id}:${profile.passwordChangedAt?.getTime() ?? 0}`;
+
+/** Issued after a correct password, to be exchanged for a session with a code. */
+export function createPreAuthToken(
+  profile: { id: string; passwordChangedAt: Date | null },
+  now: Date = new Date(),
+): string {
+  return createSignedToken('two_factor_login', preAuthSubject(profile), new Date(now.getTime() + PRE_AUTH_TTL_MS));
+}
+
+/** The profile a pre-auth token was issued to, or null when it is invalid or expired. */
+export async function verifyPreAuthToken(token: string, now: Date = new Date()): Promise<TwoFactorProfile | null> {
+  const verified = verifySignedToken('two_factor_login', token, now);
+  if (!verified.valid) {
+    return null;
+  }
+
+  const [id] = verified.subject.split(':');
+  const profile: TwoFactorProfile | null = await db.profile.findUnique({ where: { id } });
+  if (!profile || preAuthSubject(profile) !== verified.subject) {
+    return null;
+  }
+  return profile;
+}
+
+// Null when the secret was encrypted under a different key; recovery codes still work then
+function readSecret(encrypted: string): string | null {
+  try {
+    return decryptSecret(encrypted);
+  } catch (error) {
+    console.error('Failed to decrypt two-factor secret:', error);
+    return null;
+  }
+}
+
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const code = encodeBase32(randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+/**
+ * Check a code from the authenticator app or a recovery code. A recovery code
+ * is used up; an app code is refused if it, or a later one, was already used.
+ */
+export async function verifyTwoFactorCode(
+  profile: TwoFactorProfile,
+  code: string,
+  now: Date = new Date(),
+): Promise<TwoFactorMethod | null> {
+  if (!profile.twoFactorSecret || !isTwoFactorEnabled(profile)) {
+    return null;
+  }
+
+  const secret = readSecret(profile.twoFactorSecret);
+  const step = secret ? verifyTotp(secret, code, now) : null;
+  if (step !== null) {
+    // Conditional, so two requests racing with the same code can't both pass
+    const { count } = await db.profile.updateMany({
+      where: {
+        id: profile.id,
+        OR: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { lt: step } }],
+      },
+      data: { twoFactorLastUsedStep: step },
+    });
+    return count > 0 ? 'totp' : null;
+  }
+
+  const hashed = hashRecoveryCode(code);
+  if (!profile.twoFactorRecoveryCodes.includes(hashed)) {
+    return null;
+  }
+
+  await db.profile.update({
+    where: { id: profile.id },
+    data: { twoFactorRecoveryCodes: profile.twoFactorRecoveryCodes.filter((stored) => stored !== hashed) },
+  });
+  return 'recovery';
+}
+
+/**
+ * Start enrolment with a new secret. Returns null when 2FA is already on;
+ * starting again before confirming replaces the secret.
+ */
+export async function beginTwoFactorEnrollment(profile: { id: string; email: string }): Promise<TwoFactorEnrollment | null> {
+  const existing: TwoFactorProfile | null = await db.profile.findUnique({ where: { id: profile.id } });
+  if (!existing || isTwoFactorEnabled(existing)) {
+    return null;
+  }
+
+  const secret = generateTotpSecret();
+  await db.profile.update({
+    where: { id: profile.id },
+    data: { twoFactorSecret: encryptSecret(secret), twoFactorLastUsedStep: null },
+  });
+
+  const otpauthUri = createOtpauthUri(secret, profile.email, getEmailBranding().brandName);
+  return {
+    secret,
+    otpauth_uri: otpauthUri,
+    qr_code: await QRCode.toDataURL(otpauthUri),
+  };
+}
+
+/**
+ * Finish enrolment with a code from the app. Returns the recovery codes, which
+ * are shown once and only stored hashed, or null when the code is wrong.
+ */
+export async function confirmTwoFactorEnrollment(
+  id: string,
+  code: string,
+  now: Date = new Date(),
+): Promise<string[] | null> {
+  const profile: TwoFactorProfile | null = await db.profile.findUnique({ where: { id } });
+  if (!profile?.twoFactorSecret || isTwoFactorEnabled(profile)) {
+    return null;
+  }
+
+  const secret = readSecret(profile.twoFactorSecret);
+  const step = secret ? verifyTotp(secret, code, now) : null;
+  if (step === null) {
+    return null;
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await db.profile.update({
+    where: { id },
+    data: {
+      twoFactorEnabledAt: now,
+      twoFactorLastUsedStep: step,
+      twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+    },
+  });
+  return recoveryCodes;
+}
+
+/** Replace the recovery codes, after checking a current code. */
+export async function regenerateRecoveryCodes(
+  id: string,
+  code: string,
+  now: Date = new Date(),
+): Promise<string[] | null> {
+  const profile: TwoFactorProfile | null = await db.profile.findUnique({ where: { id } });
+  if (!profile || !(await verifyTwoFactorCode(profile, code, now))) {
+    return null;
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await db.profile.update({
+    where: { id },
+    data: { twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode) },
+  });
+  return recoveryCodes;
+}
+
+/** Turn 2FA off, after checking a current code. Not allowed while it is required. */
+export async function disableTwoFactor(id: string, code: string, now: Date = new Date()): Promise<DisableResult> {
+  if (isTwoFactorRequired()) {
+    return 'required';
+  }
+
+  const profile: TwoFactorProfile | null = await db.profile.findUnique({ where: { id } });
+  if (!profile || !(await verifyTwoFactorCode(profile, code, now))) {
+    return 'invalid';
+  }
+
+  await db.profile.update({
+    where: { id },
+    data: {
+      twoFactorSecret: null,
+      twoFactorEnabledAt: null,
+      twoFactorLastUsedStep: null,
+      twoFactorRecoveryCodes: [],
+    },
+  });
+  return 'disabled';
+}
+
+export async function getTwoFactorStatus(id: string): Promise<TwoFactorStatus> {
+  const profile: TwoFactorProfile | null = await db.profile.findUnique({ where: { id } });
+  return {
+    enabled: profile ? isTwoFactorEnabled(profile) : false,
+    required: isTwoFactorRequired(),
+    recovery_codes_remaining: profile && isTwoFactorEnabled(profile) ? profile.twoFactorRecoveryCodes.length : 0,
+  };
+}
+
+/** Whether an account has had too many wrong codes recently to check another. */
+export async function isTwoFactorLocked(email: string, now: Date = new Date()): Promise<boolean> {
+  const attempts = await db.failedAttempt.count({
+    where: {
+      email,
+      actionType: TWO_FACTOR_ACTION_TYPE,
+      timestamp: { gte: new Date(now.getTime() - CODE_ATTEMPT_WINDOW_MS) },
+    },
+  });
+  return attempts >= MAX_CODE_ATTEMPTS;
+}
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { SUBSCRIBER_SORT_FIELDS, SUBSCRIBER_STATUS_FILTERS } from '@/types/newsletter';
+import { ROLES } from './permissions';
 
 // Blog Post Schemas
 export const blogPostCreateSchema = z.object({
@@ -19,6 +21,9 @@ export const blogPostUpdateSchema = blogPostCreateSchema.partial();
 export const blogPostPatchSchema = z.object({
   status: z.enum(['draft', 'published', 'scheduled']).optional(),
   publishedAt: z.string().datetime().optional().nullable(),
+}).refine((data) => data.status !== 'scheduled' || !!data.publishedAt, {
+  message: 'A publish time is required when scheduling',
+  path: ['publishedAt'],
 });
 
 // Project Schemas
@@ -42,23 +47,191 @@ export const projectUpdateSchema = projectCreateSchema.partial();
 export const projectPatchSchema = z.object({
   status: z.enum(['draft', 'published', 'scheduled']).optional(),
   publishedAt: z.string().datetime().optional().nullable(),
+}).refine((data) => data.status !== 'scheduled' || !!data.publishedAt, {
+  message: 'A publish time is required when scheduling',
+  path: ['publishedAt'],
 });
 
 // Newsletter Schemas
+export const newsletterSegmentSchema = z.object({
+  tags: z.array(z.string().uuid('Tag ID must be a valid UUID')).max(50).optional(),
+  exclude_tags: z.array(z.string().uuid('Tag ID must be a valid UUID')).max(50).optional(),
+  categories: z.array(z.string().min(1).max(50)).max(20).optional(),
+  frequencies: z.array(z.enum(['daily', 'weekly', 'monthly'])).optional(),
+  locations: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+  signed_up_after: z.string().datetime().optional().nullable(),
+  signed_up_before: z.string().datetime().optional().nullable(),
+}).strict();
+
+// Subject A is the newsletter's own subject; these settings add B, C, ...
+export const newsletterAbTestSchema = z.object({
+  subjects: z.array(z.string().trim().min(1, 'Subject is required').max(200, 'Subject must be less than 200 characters'))
+    .min(1, 'Add at least one more subject to test')
+    .max(4, 'At most 5 subjects can be tested'),
+  test_percentage: z.number().int().min(5).max(50),
+  winner_metric: z.enum(['open', 'click']),
+  wait_hours: z.number().int().min(1).max(72),
+}).strict();
+
 export const newsletterCreateSchema = z.object({
   subject: z.string().min(1, 'Subject is required').max(200, 'Subject must be less than 200 characters'),
   content: z.string().min(1, 'Content is required'),
   status: z.enum(['draft', 'scheduled', 'sent']).default('draft'),
   scheduled_for: z.string().datetime().optional().nullable(),
+  segment: newsletterSegmentSchema.optional().nullable(),
+  tracking_enabled: z.boolean().optional(),
+  show_in_archive: z.boolean().optional(),
+  ab_test: newsletterAbTestSchema.optional().nullable(),
 });
 
 export const newsletterUpdateSchema = newsletterCreateSchema.partial();
 
+export const newsletterScheduleSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('cancel') }),
+  z.object({
+    action: z.literal('reschedule'),
+    scheduled_for: z.string().datetime('Scheduled time must be a valid date'),
+  }),
+]);
+
+// Renders the editor's current, possibly unsaved, subject and content
+export const newsletterPreviewSchema = newsletterCreateSchema.pick({ subject: true, content: true }).extend({
+  // Personalise as this subscriber; a sample recipient is used when empty
+  subscriber_email: z.string().trim().toLowerCase().email('Invalid subscriber email').optional().nullable(),
+});
+
+export const newsletterTestSendSchema = newsletterPreviewSchema.extend({
+  // Defaults to the signed-in admin
+  recipients: z.array(z.string().trim().toLowerCase().email('Invalid recipient email'))
+    .max(10, 'At most 10 test recipients are allowed')
+    .optional(),
+});
+
 // Newsletter Send Schema
 export const newsletterSendSchema = z.object({
   newsletterId: z.string().uuid('Newsletter ID must be a valid UUID'),
 });
 
+// Subscriber Tag Schemas
+export const tagCreateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(50, 'Name must be less than 50 characters'),
+  description: z.string().max(200, 'Description must be less than 200 characters').optional().nullable(),
+});
+
+export const tagUpdateSchema = tagCreateSchema.partial();
+
+// Subscriber List Schemas
+export const subscriberListFiltersSchema = z.object({
+  search: z.string().trim().max(255).optional(),
+  status: z.enum(SUBSCRIBER_STATUS_FILTERS).default('all'),
+  tag: z.string().uuid('Tag ID must be a valid UUID').optional(),
+  location: z.string().trim().max(100).optional(),
+  created_after: z.string().datetime().optional().nullable(),
+  created_before: z.string().datetime().optional().nullable(),
+}).strict();
+
+export const subscriberListQuerySchema = subscriberListFiltersSchema.extend({
+  sort: z.enum(SUBSCRIBER_SORT_FIELDS).default('created_at'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  cursor: z.string().uuid('Cursor must be a valid UUID').optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+}).strict();
+
+// Either an explicit selection, or every subscriber matching the list filters
+export const subscriberTagBulkSchema = z.object({
+  subscriber_ids: z.array(z.string().uuid('Subscriber ID must be a valid UUID')).min(1, 'Select at least one subscriber').max(1000).optional(),
+  filters: subscriberListFiltersSchema.optional(),
+  tag_ids: z.array(z.string().uuid('Tag ID must be a valid UUID')).min(1, 'Select at least one tag').max(50),
+}).refine(
+  (data) => (data.subscriber_ids === undefined) !== (data.filters === undefined),
+  { message: 'Select subscribers or filters, not both', path: ['subscriber_ids'] },
+);
+
+export const subscriberImportSchema = z.object({
+  csv: z.string().min(1, 'CSV content is required').max(5 * 1024 * 1024, 'CSV file must be smaller than 5 MB'),
+  dry_run: z.boolean().default(true),
+  tags: z.array(z.string().trim().min(1).max(50, 'Tag names must be less than 50 characters')).max(20).optional(),
+});
+
+export const subscriberDataRequestSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Please provide a valid email address.').max(255),
+  type: z.enum(['export', 'erasure']),
+});
+
+// Email Suppression Schemas
+export const suppressionCreateSchema = z.object({
+  value: z.string().trim().toLowerCase().min(1, 'Email or domain is required').max(255),
+  type: z.enum(['email', 'domain']).default('email'),
+  reason: z.string().trim().min(1).max(50, 'Reason must be less than 50 characters').default('manual'),
+  note: z.string().max(500, 'Note must be less than 500 characters').optional().nullable(),
+  expires_at: z.string().datetime('Expiry must be a valid date').optional().nullable(),
+}).refine(
+  (data) => data.type === 'email'
+    ? /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(data.value)
+    : /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(data.value),
+  { message: 'Value must be a valid email address or domain', path: ['value'] },
+);
+
+// Email Template Schemas
+export const emailTemplateUpdateSchema = z.object({
+  subject: z.string().max(500, 'Subject must be less than 500 characters').optional().nullable(),
+  html: z.string().min(1, 'HTML is required').max(100000, 'HTML must be less than 100000 characters'),
+  // Empty means generate the plain-text version from the HTML
+  text: z.string().max(100000, 'Text must be less than 100000 characters').optional().nullable()
+    .transform((text) => (text?.trim() ? text : null)),
+});
+
+// Admin Account Schemas
+// bcrypt only uses the first 72 bytes of a password
+const passwordSchema = z.string()
+  .min(12, 'Password must be at least 12 characters')
+  .refine((password) => Buffer.byteLength(password, 'utf8') <= 72, 'Password must be at most 72 bytes');
+
+const adminEmailSchema = z.string().trim().toLowerCase().email('Please provide a valid email address.').max(255);
+
+export const adminInviteSchema = z.object({
+  email: adminEmailSchema,
+  name: z.string().trim().max(100, 'Name must be less than 100 characters').optional().nullable()
+    .transform((name) => name || null),
+  role: z.enum(ROLES),
+});
+
+export const adminRoleUpdateSchema = z.object({
+  role: z.enum(ROLES),
+});
+
+export const passwordResetRequestSchema = z.object({
+  email: adminEmailSchema,
+});
+
+export const passwordSetupSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+  password: passwordSchema,
+});
+
+export const passwordChangeSchema = z.object({
+  current_password: z.string().min(1, 'Current password is required'),
+  new_password: passwordSchema,
+});
+
+const twoFactorCodeField = z.string().trim().min(1, 'Code is required').max(20, 'Code is too long');
+
+const preAuthTokenField = z.string().min(1, 'Sign-in token is required');
+
+export const twoFactorCodeSchema = z.object({
+  code: twoFactorCodeField,
+});
+
+export const twoFactorLoginSchema = z.object({
+  pre_auth_token: preAuthTokenField,
+  code: twoFactorCodeField,
+});
+
+export const twoFactorSetupSchema = z.object({
+  pre_auth_token: preAuthTokenField,
+  code: twoFactorCodeField.optional(),
+});
+
 // Performance Metric Schema
 export const performanceMetricSchema = z.object({
   url: z.string().url().optional(),
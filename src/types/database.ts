@@ -39,6 +39,10 @@ export type NewsletterUpdateData = Partial<{
   content: string;
   status: 'draft' | 'scheduled' | 'sent';
   scheduledFor: Date | null;
+  segment: Prisma.InputJsonValue | typeof Prisma.DbNull;
+  trackingEnabled: boolean;
+  showInArchive: boolean;
+  abTest: Prisma.InputJsonValue | typeof Prisma.DbNull;
   updatedAt: Date;
 }>;
 
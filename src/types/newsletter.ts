@@ -1,15 +1,82 @@
+export const NEWSLETTER_CATEGORIES = ['Technology', 'Design', 'Business', 'Marketing', 'Development'];
+
+export const NEWSLETTER_FREQUENCIES = ['daily', 'weekly', 'monthly'] as const;
+
+export type NewsletterFrequency = (typeof NEWSLETTER_FREQUENCIES)[number];
+
+/**
+ * Audience rules for a newsletter. Every rule that is set must match; within a
+ * rule, matching any one of the listed values is enough.
+ */
+export interface NewsletterSegment {
+  tags?: string[];
+  exclude_tags?: string[];
+  categories?: string[];
+  frequencies?: NewsletterFrequency[];
+  locations?: string[];
+  signed_up_after?: string | null;
+  signed_up_before?: string | null;
+}
+
+export const SUBSCRIBER_STATUS_FILTERS = ['all', 'subscribed', 'pending', 'unsubscribed', 'deleted'] as const;
+
+export type SubscriberStatusFilter = (typeof SUBSCRIBER_STATUS_FILTERS)[number];
+
+export const SUBSCRIBER_SORT_FIELDS = ['created_at', 'email'] as const;
+
+export type SubscriberSortField = (typeof SUBSCRIBER_SORT_FIELDS)[number];
+
+/**
+ * Filters for the admin subscriber list. The CSV export and bulk actions on
+ * "every matching subscriber" take the same filters, so they act on exactly
+ * the rows the list shows.
+ */
+export interface SubscriberListFilters {
+  // Matches email or name
+  search?: string;
+  status?: SubscriberStatusFilter;
+  tag?: string;
+  location?: string;
+  created_after?: string | null;
+  created_before?: string | null;
+}
+
+export const NEWSLETTER_VARIANTS = ['A', 'B', 'C', 'D', 'E'] as const;
+
+export type NewsletterVariant = (typeof NEWSLETTER_VARIANTS)[number];
+
+/**
+ * Subject line test. Variant A is the newsletter's subject and `subjects` are
+ * B, C, ... A random `test_percentage` of the audience is split evenly
+ * between the variants; `wait_hours` after sending starts, the variant with
+ * the best open or click rate goes to everyone else.
+ */
+export interface NewsletterAbTest {
+  subjects: string[];
+  test_percentage: number;
+  winner_metric: 'open' | 'click';
+  wait_hours: number;
+}
+
 export interface Newsletter {
   id: string;
   subject: string;
   content: string;
-  status: 'draft' | 'scheduled' | 'sent';
+  status: 'draft' | 'scheduled' | 'sending' | 'sent';
+  // Digests are generated from new blog posts and projects
+  kind: 'campaign' | 'digest';
   scheduled_for: string | null;
+  segment: NewsletterSegment | null;
+  tracking_enabled: boolean;
+  show_in_archive: boolean;
+  ab_test: NewsletterAbTest | null;
+  ab_winner: NewsletterVariant | null;
   sent_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
-export interface NewsletterFormData extends Omit<Newsletter, 'id' | 'created_at' | 'updated_at' | 'sent_at'> {
+export interface NewsletterFormData extends Omit<Newsletter, 'id' | 'kind' | 'ab_winner' | 'created_at' | 'updated_at' | 'sent_at'> {
   id?: string;
   sent_at?: string | null;
   created_at?: string;
@@ -19,10 +86,36 @@ export interface NewsletterFormData extends Omit<Newsletter, 'id' | 'created_at'
 export interface NewsletterMetrics {
   id: string;
   subject: string;
-  sent_at: string;
-  total_subscribers: number;
+  sent_at: string | null;
+  recipients_count: number;
   sent_count: number;
-  delivered_count: number;
   failed_count: number;
+  // Reported back by Resend webhooks
+  delivered_count: number;
+  bounced_count: number;
+  complained_count: number;
+  // Engagement only counts sends delivered with tracking
+  tracked_count: number;
+  unique_opens: number;
+  unique_clicks: number;
   open_rate: number;
-} 
\ No newline at end of file
+  click_rate: number;
+  click_to_open_rate: number;
+  ab_winner: NewsletterVariant | null;
+  // One row per subject variant and group for subject tests, otherwise empty
+  variants: NewsletterVariantMetrics[];
+}
+
+export interface NewsletterVariantMetrics {
+  variant: NewsletterVariant;
+  subject: string;
+  // The random test slice, or the rest of the audience that got the winner
+  group: 'test' | 'rest';
+  recipients_count: number;
+  sent_count: number;
+  tracked_count: number;
+  unique_opens: number;
+  unique_clicks: number;
+  open_rate: number;
+  click_rate: number;
+}
@@ -13,6 +13,7 @@ export interface JwtPayload {
   email: string;
   role: string;
   id: string;
+  sid?: string;
   iat?: number;
   exp?: number;
 }